@@ -0,0 +1,8 @@
+-- Medication Client IDs Migration for Backend
+-- Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+
+-- The app's own id for a medication, so repeated syncs update one row
+ALTER TABLE medications ADD COLUMN IF NOT EXISTS client_id VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medications_user_client_id
+    ON medications(user_id, client_id);
@@ -7,6 +7,7 @@
 
 const { body, param, query, validationResult } = require('express-validator');
 const { validationErrorHandler } = require('./errorHandler');
+const { isValidBarcode, toGtin14 } = require('../utils/barcode');
 
 /**
  * Handle validation results
@@ -150,9 +151,10 @@ const validateFoodItem = [
     .isLength({ min: 1, max: 255 })
     .withMessage('Food name is required and must be less than 255 characters'),
   body('barcode')
-    .optional()
-    .isLength({ min: 8, max: 50 })
-    .withMessage('Barcode must be between 8 and 50 characters'),
+    .optional({ checkFalsy: true })
+    .custom(isValidBarcode)
+    .withMessage('Barcode must be a valid EAN-8, EAN-13, UPC-A, UPC-E or GTIN-14')
+    .customSanitizer(toGtin14),
   body('brand')
     .optional()
     .trim()
@@ -185,6 +187,17 @@ const validateFoodItem = [
   validateRequest,
 ];
 
+/**
+ * Food verification validation
+ */
+const validateFoodVerification = [
+  body('isVerified')
+    .isBoolean()
+    .withMessage('isVerified must be true or false')
+    .toBoolean(),
+  validateRequest,
+];
+
 /**
  * Scan analysis validation
  */
@@ -402,6 +415,17 @@ const validateUUID = (paramName) => [
   validateRequest,
 ];
 
+/**
+ * Barcode parameter validation. Canonicalises the parameter to GTIN-14.
+ */
+const validateBarcode = (paramName) => [
+  param(paramName)
+    .custom(isValidBarcode)
+    .withMessage(`${paramName} must be a valid EAN-8, EAN-13, UPC-A, UPC-E or GTIN-14`)
+    .customSanitizer(toGtin14),
+  validateRequest,
+];
+
 /**
  * Pagination validation
  */
@@ -447,12 +471,14 @@ module.exports = {
   validateUserProfileUpdate,
   validateGutProfile,
   validateFoodItem,
+  validateFoodVerification,
   validateScanAnalysis,
   validateGutSymptom,
   validateMedication,
   validateSafeFood,
   validateAnalyticsData,
   validateUUID,
+  validateBarcode,
   validatePagination,
   validateSearch,
 };
@@ -9,15 +9,25 @@ const express = require('express');
 const { databaseConnection } = require('../database/connection');
 const { logger } = require('../utils/logger');
 const { asyncHandler } = require('../middleware/errorHandler');
+const { adminAuthMiddleware } = require('../middleware/auth');
+const { barcodeVariants } = require('../utils/barcode');
 const {
   validateFoodItem,
+  validateFoodVerification,
   validateUUID,
+  validateBarcode,
   validatePagination,
   validateSearch,
 } = require('../middleware/validation');
 
 const router = express.Router();
 
+/**
+ * Numbered placeholders ($n, $n+1, ...) for an IN list
+ */
+const placeholders = (values, start = 1) =>
+  values.map((_, index) => `$${start + index}`).join(', ');
+
 /**
  * @route   GET /api/foods
  * @desc    Get all foods with pagination and search
@@ -89,6 +99,83 @@ router.get('/', validatePagination, validateSearch, asyncHandler(async (req, res
   });
 }));
 
+/**
+ * @route   GET /api/foods/review
+ * @desc    List user-contributed foods waiting for review, oldest first
+ * @access  Admin
+ */
+router.get('/review', adminAuthMiddleware, validatePagination, asyncHandler(async (req, res) => {
+  const { page = 1, limit = 20 } = req.query;
+  const offset = (page - 1) * limit;
+  const pending = "data_source = 'user' AND is_verified = false AND verification_date IS NULL";
+
+  const [foods, countResult] = await Promise.all([
+    databaseConnection.query(
+      `SELECT * FROM food_items WHERE ${pending} ORDER BY created_at ASC LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    ),
+    databaseConnection.query(`SELECT COUNT(*) as total FROM food_items WHERE ${pending}`),
+  ]);
+
+  const total = parseInt(countResult[0].total);
+  const totalPages = Math.ceil(total / limit);
+
+  res.json({
+    foods,
+    pagination: {
+      page: parseInt(page),
+      limit: parseInt(limit),
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+    requestId: req.id,
+  });
+}));
+
+/**
+ * @route   PUT /api/foods/:id/verify
+ * @desc    Verify or reject a food item. Same update as
+ *          FoodItemRepository.verifyFoodItem in the app.
+ * @access  Admin
+ */
+router.put('/:id/verify', adminAuthMiddleware, validateUUID('id'), validateFoodVerification, asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { isVerified } = req.body;
+
+  const existingFood = await databaseConnection.queryOne(
+    'SELECT id FROM food_items WHERE id = $1',
+    [id]
+  );
+
+  if (!existingFood) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Food item not found',
+      requestId: req.id,
+    });
+  }
+
+  await databaseConnection.execute(
+    'UPDATE food_items SET is_verified = $1, verification_date = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+    [isVerified, id]
+  );
+
+  const food = await databaseConnection.queryOne(
+    'SELECT * FROM food_items WHERE id = $1',
+    [id]
+  );
+
+  logger.logUserAction(req.user.id, isVerified ? 'food_verified' : 'food_rejected', { foodId: id });
+
+  res.json({
+    message: isVerified ? 'Food item verified' : 'Food item rejected',
+    food,
+    requestId: req.id,
+  });
+}));
+
 /**
  * @route   GET /api/foods/:id
  * @desc    Get food by ID
@@ -123,12 +210,15 @@ router.get('/:id', validateUUID('id'), asyncHandler(async (req, res) => {
  * @desc    Get food by barcode
  * @access  Private
  */
-router.get('/barcode/:barcode', asyncHandler(async (req, res) => {
+router.get('/barcode/:barcode', validateBarcode('barcode'), asyncHandler(async (req, res) => {
   const { barcode } = req.params;
 
+  // Rows saved before canonicalisation may hold the EAN-13 or UPC-A form
+  const variants = barcodeVariants(barcode);
   const food = await databaseConnection.queryOne(
-    'SELECT * FROM food_items WHERE barcode = $1',
-    [barcode]
+    `SELECT * FROM food_items WHERE barcode IN (${placeholders(variants)})
+     ORDER BY CASE WHEN barcode = $1 THEN 0 ELSE 1 END`,
+    variants
   );
 
   if (!food) {
@@ -169,9 +259,10 @@ router.post('/', validateFoodItem, asyncHandler(async (req, res) => {
 
   // Check if food with barcode already exists
   if (barcode) {
+    const variants = barcodeVariants(barcode);
     const existingFood = await databaseConnection.queryOne(
-      'SELECT id FROM food_items WHERE barcode = $1',
-      [barcode]
+      `SELECT id FROM food_items WHERE barcode IN (${placeholders(variants)})`,
+      variants
     );
 
     if (existingFood) {
@@ -257,9 +348,10 @@ router.put('/:id', validateUUID('id'), validateFoodItem, asyncHandler(async (req
 
   // Check if barcode is already used by another food
   if (barcode) {
+    const variants = barcodeVariants(barcode);
     const barcodeConflict = await databaseConnection.queryOne(
-      'SELECT id FROM food_items WHERE barcode = $1 AND id != $2',
-      [barcode, id]
+      `SELECT id FROM food_items WHERE barcode IN (${placeholders(variants, 2)}) AND id != $1`,
+      [id, ...variants]
     );
 
     if (barcodeConflict) {
@@ -9,6 +9,8 @@ const express = require('express');
 const { databaseConnection } = require('../database/connection');
 const { logger } = require('../utils/logger');
 const { asyncHandler } = require('../middleware/errorHandler');
+const { parseIngredientList } = require('../utils/ingredientParser');
+const { findFoodItem } = require('../utils/foodLookup');
 const {
   validateScanAnalysis,
   validateGutSymptom,
@@ -18,6 +20,84 @@ const {
 
 const router = express.Router();
 
+/**
+ * @route   POST /api/scans
+ * @desc    Record a scan made in the app, including ones queued offline
+ * @access  Private
+ */
+router.post('/', asyncHandler(async (req, res) => {
+  const { foodItem, analysis, timestamp } = req.body;
+
+  if (!foodItem || !analysis) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'A scan needs a food item and its analysis',
+      requestId: req.id,
+    });
+  }
+
+  const food = await findFoodItem(foodItem);
+  if (!food) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: 'Food item not found',
+      requestId: req.id,
+    });
+  }
+
+  const analysisId = require('uuid').v4();
+  await databaseConnection.execute(
+    `INSERT INTO scan_analysis (id, food_item_id, user_id, overall_safety, confidence, 
+     flagged_ingredients, condition_warnings, safe_alternatives, explanation, data_source)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      analysisId,
+      food.id,
+      req.user.id,
+      analysis.overallSafety,
+      // The app's rule-based verdicts carry no confidence of their own
+      analysis.confidence ?? 1,
+      JSON.stringify(analysis.flaggedIngredients || []),
+      JSON.stringify(analysis.conditionWarnings || []),
+      JSON.stringify(analysis.safeAlternatives || []),
+      analysis.explanation || '',
+      analysis.dataSource || 'app',
+    ]
+  );
+
+  const historyId = require('uuid').v4();
+  await databaseConnection.execute(
+    `INSERT INTO scan_history (id, user_id, food_item_id, analysis_id, timestamp, 
+     device_info, is_offline)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      historyId,
+      req.user.id,
+      food.id,
+      analysisId,
+      timestamp ? new Date(timestamp) : new Date(),
+      JSON.stringify({
+        userAgent: req.get('User-Agent'),
+        platform: 'app',
+      }),
+      analysis.isOffline === true,
+    ]
+  );
+
+  logger.logUserAction(req.user.id, 'scan_synced', {
+    foodItemId: food.id,
+    foodName: food.name,
+    overallSafety: analysis.overallSafety,
+  });
+
+  res.status(201).json({
+    message: 'Scan recorded',
+    scanId: historyId,
+    analysisId,
+    requestId: req.id,
+  });
+}));
+
 /**
  * @route   POST /api/scans/analyze
  * @desc    Analyze food for gut health
@@ -37,7 +117,7 @@ router.post('/analyze', validateScanAnalysis, asyncHandler(async (req, res) => {
 
   // Check if food item exists
   const foodItem = await databaseConnection.queryOne(
-    'SELECT id, name FROM food_items WHERE id = $1',
+    'SELECT id, name, ingredients FROM food_items WHERE id = $1',
     [foodItemId]
   );
 
@@ -49,6 +129,9 @@ router.post('/analyze', validateScanAnalysis, asyncHandler(async (req, res) => {
     });
   }
 
+  // Parse compound ingredient declarations and "may contain" traces
+  const parsedIngredients = parseIngredientList(foodItem.ingredients || []);
+
   // Create scan analysis
   const analysisId = require('uuid').v4();
   await databaseConnection.execute(
@@ -99,12 +182,14 @@ router.post('/analyze', validateScanAnalysis, asyncHandler(async (req, res) => {
     foodItemId, 
     foodName: foodItem.name,
     overallSafety,
-    confidence 
+    confidence,
+    traceCount: parsedIngredients.traces.length,
   });
 
   res.status(201).json({
     message: 'Food analysis completed',
     analysis,
+    ingredients: parsedIngredients,
     requestId: req.id,
   });
 }));
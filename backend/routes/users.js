@@ -10,6 +10,7 @@ const bcrypt = require('bcryptjs');
 const { databaseConnection } = require('../database/connection');
 const { logger } = require('../utils/logger');
 const { asyncHandler } = require('../middleware/errorHandler');
+const { findFoodItem } = require('../utils/foodLookup');
 const {
   validateUserProfileUpdate,
   validateGutProfile,
@@ -204,10 +205,15 @@ router.get('/safe-foods', validatePagination, asyncHandler(async (req, res) => {
     SELECT 
       sf.*,
       fi.name as food_name,
+      fi.barcode,
       fi.brand,
       fi.category,
+      fi.ingredients,
+      fi.allergens,
+      fi.additives,
       fi.image_url,
-      fi.gut_health_info
+      fi.gut_health_info,
+      fi.data_source
     FROM safe_foods sf
     JOIN food_items fi ON sf.food_item_id = fi.id
     WHERE sf.user_id = $1
@@ -274,17 +280,15 @@ router.get('/safe-foods', validatePagination, asyncHandler(async (req, res) => {
 
 /**
  * @route   POST /api/users/safe-foods
- * @desc    Add food to safe foods
+ * @desc    Add food to safe foods, or update the notes of one already there.
+ *          The food is given by foodItemId, or by the app's foodItem.
  * @access  Private
  */
 router.post('/safe-foods', asyncHandler(async (req, res) => {
-  const { foodItemId, notes, isFavorite, tags, rating } = req.body;
+  const { foodItemId, foodItem: appFoodItem, notes, isFavorite, tags, rating } = req.body;
 
   // Check if food item exists
-  const foodItem = await databaseConnection.queryOne(
-    'SELECT id, name FROM food_items WHERE id = $1',
-    [foodItemId]
-  );
+  const foodItem = await findFoodItem(appFoodItem || { id: foodItemId });
 
   if (!foodItem) {
     return res.status(404).json({
@@ -294,16 +298,33 @@ router.post('/safe-foods', asyncHandler(async (req, res) => {
     });
   }
 
-  // Check if already in safe foods
+  // Edits queued offline arrive here too, so update an existing safe food
   const existingSafeFood = await databaseConnection.queryOne(
     'SELECT id FROM safe_foods WHERE user_id = $1 AND food_item_id = $2',
-    [req.user.id, foodItemId]
+    [req.user.id, foodItem.id]
   );
 
   if (existingSafeFood) {
-    return res.status(409).json({
-      error: 'Conflict',
-      message: 'Food item already in safe foods',
+    await databaseConnection.execute(
+      `UPDATE safe_foods SET 
+       notes = COALESCE($1, notes),
+       is_favorite = COALESCE($2, is_favorite),
+       tags = COALESCE($3, tags),
+       rating = COALESCE($4, rating)
+       WHERE id = $5`,
+      [
+        notes,
+        isFavorite,
+        tags ? JSON.stringify(tags) : null,
+        rating,
+        existingSafeFood.id,
+      ]
+    );
+
+    logger.logUserAction(req.user.id, 'safe_food_updated', { safeFoodId: existingSafeFood.id });
+
+    return res.json({
+      message: 'Safe food updated successfully',
       requestId: req.id,
     });
   }
@@ -316,7 +337,7 @@ router.post('/safe-foods', asyncHandler(async (req, res) => {
     [
       safeFoodId,
       req.user.id,
-      foodItemId,
+      foodItem.id,
       new Date(),
       notes || null,
       isFavorite || false,
@@ -326,7 +347,7 @@ router.post('/safe-foods', asyncHandler(async (req, res) => {
   );
 
   logger.logUserAction(req.user.id, 'safe_food_added', { 
-    foodItemId, 
+    foodItemId: foodItem.id, 
     foodName: foodItem.name 
   });
 
@@ -509,11 +530,13 @@ router.get('/medications', validatePagination, asyncHandler(async (req, res) =>
 
 /**
  * @route   POST /api/users/medications
- * @desc    Add medication
+ * @desc    Add medication. With the app's clientId, a medication sent again
+ *          updates the one it added before.
  * @access  Private
  */
 router.post('/medications', asyncHandler(async (req, res) => {
   const {
+    clientId,
     name,
     type,
     dosage,
@@ -528,12 +551,26 @@ router.post('/medications', asyncHandler(async (req, res) => {
     effectiveness,
   } = req.body;
 
-  // Add medication
+  // Add medication; xmax is 0 only on a row the insert created
   const medicationId = require('uuid').v4();
-  await databaseConnection.execute(
+  const saved = await databaseConnection.queryOne(
     `INSERT INTO medications (id, user_id, name, type, dosage, frequency, start_date, 
-     end_date, is_active, notes, gut_related, category, side_effects, effectiveness)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+     end_date, is_active, notes, gut_related, category, side_effects, effectiveness, client_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+     ON CONFLICT (user_id, client_id) DO UPDATE SET
+       name = EXCLUDED.name,
+       type = EXCLUDED.type,
+       dosage = EXCLUDED.dosage,
+       frequency = EXCLUDED.frequency,
+       start_date = EXCLUDED.start_date,
+       end_date = EXCLUDED.end_date,
+       is_active = EXCLUDED.is_active,
+       notes = EXCLUDED.notes,
+       gut_related = EXCLUDED.gut_related,
+       category = EXCLUDED.category,
+       side_effects = EXCLUDED.side_effects,
+       effectiveness = EXCLUDED.effectiveness
+     RETURNING id, (xmax = 0) AS inserted`,
     [
       medicationId,
       req.user.id,
@@ -549,17 +586,21 @@ router.post('/medications', asyncHandler(async (req, res) => {
       category || null,
       sideEffects ? JSON.stringify(sideEffects) : null,
       effectiveness || null,
+      // Without one every post adds a row, as NULLs never conflict
+      clientId || null,
     ]
   );
 
-  logger.logUserAction(req.user.id, 'medication_added', { 
-    medicationId, 
+  logger.logUserAction(req.user.id, saved.inserted ? 'medication_added' : 'medication_updated', { 
+    medicationId: saved.id, 
     name, 
     type 
   });
 
-  res.status(201).json({
-    message: 'Medication added successfully',
+  res.status(saved.inserted ? 201 : 200).json({
+    message: saved.inserted
+      ? 'Medication added successfully'
+      : 'Medication updated successfully',
     requestId: req.id,
   });
 }));
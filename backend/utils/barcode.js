@@ -0,0 +1,123 @@
+/**
+ * Barcode Utility
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ *
+ * Server-side port of src/utils/barcode.ts. Keep the two in sync.
+ */
+
+const DIGITS_ONLY = /^\d+$/;
+
+/**
+ * GS1 check digit for a code without its check digit. Digits are weighted
+ * 3 and 1 alternately, starting with 3 at the right.
+ */
+const calculateCheckDigit = (payload) => {
+  const sum = payload
+    .split('')
+    .reverse()
+    .reduce(
+      (total, digit, index) =>
+        total + Number(digit) * (index % 2 === 0 ? 3 : 1),
+      0
+    );
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Whether the last digit of a numeric code is its GS1 check digit
+ */
+const hasValidCheckDigit = (code) =>
+  DIGITS_ONLY.test(code) &&
+  code.length >= 2 &&
+  calculateCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+
+/**
+ * Expand an 8-digit UPC-E code into its 12-digit UPC-A form. Returns null
+ * when the code is not UPC-E or its check digit does not match.
+ */
+const expandUpcE = (upcE) => {
+  if (!/^[01]\d{7}$/.test(upcE)) {
+    return null;
+  }
+
+  const numberSystem = upcE.charAt(0);
+  const d = upcE.slice(1, 7);
+  const last = Number(d.charAt(5));
+  let payload;
+  if (last <= 2) {
+    payload = `${d.slice(0, 2)}${last}0000${d.slice(2, 5)}`;
+  } else if (last === 3) {
+    payload = `${d.slice(0, 3)}00000${d.slice(3, 5)}`;
+  } else if (last === 4) {
+    payload = `${d.slice(0, 4)}00000${d.charAt(4)}`;
+  } else {
+    payload = `${d.slice(0, 5)}0000${last}`;
+  }
+
+  const upcA = `${numberSystem}${payload}${upcE.charAt(7)}`;
+  return hasValidCheckDigit(upcA) ? upcA : null;
+};
+
+/**
+ * Validate a barcode and canonicalise it to GTIN-14. Spaces and dashes are
+ * ignored. Eight-digit codes are read as EAN-8, falling back to UPC-E.
+ * Returns null for misreads and codes that are not product barcodes.
+ */
+const toGtin14 = (raw) => {
+  const code = String(raw).replace(/[\s-]/g, '');
+  if (!DIGITS_ONLY.test(code)) {
+    return null;
+  }
+
+  let gtin14 = null;
+  if (code.length === 8) {
+    const upcA = expandUpcE(code);
+    if (hasValidCheckDigit(code)) {
+      gtin14 = code.padStart(14, '0');
+    } else if (upcA) {
+      gtin14 = upcA.padStart(14, '0');
+    }
+  } else if (
+    (code.length === 12 || code.length === 13 || code.length === 14) &&
+    hasValidCheckDigit(code)
+  ) {
+    gtin14 = code.padStart(14, '0');
+  }
+
+  // All zeros passes the check digit but is never a product
+  if (!gtin14 || /^0+$/.test(gtin14)) {
+    return null;
+  }
+  return gtin14;
+};
+
+/**
+ * Whether a string is a valid product barcode
+ */
+const isValidBarcode = (raw) => toGtin14(raw) !== null;
+
+/**
+ * Every form a GTIN-14 may have been stored under before barcodes were
+ * canonicalised: the GTIN-14 itself, EAN-13, UPC-A and EAN-8
+ */
+const barcodeVariants = (gtin14) => {
+  const variants = [gtin14, gtin14.slice(1)];
+  if (gtin14.startsWith('00')) {
+    variants.push(gtin14.slice(2));
+  }
+  if (gtin14.startsWith('000000')) {
+    variants.push(gtin14.slice(6));
+  }
+  return variants;
+};
+
+module.exports = {
+  calculateCheckDigit,
+  hasValidCheckDigit,
+  expandUpcE,
+  toGtin14,
+  isValidBarcode,
+  barcodeVariants,
+};
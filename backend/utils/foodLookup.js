@@ -0,0 +1,42 @@
+/**
+ * Food Lookup Utility
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+const { databaseConnection } = require('../database/connection');
+const { barcodeVariants, toGtin14 } = require('./barcode');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Find the stored food an app record refers to, by id or barcode. Foods the
+ * app found online have ids of its own, so the barcode is the fallback.
+ */
+const findFoodItem = async (foodItem) => {
+  if (UUID_PATTERN.test(foodItem.id || '')) {
+    const food = await databaseConnection.queryOne(
+      'SELECT id, name FROM food_items WHERE id = $1',
+      [foodItem.id]
+    );
+    if (food) {
+      return food;
+    }
+  }
+
+  const gtin14 = foodItem.barcode ? toGtin14(foodItem.barcode) : null;
+  if (!gtin14) {
+    return null;
+  }
+  const variants = barcodeVariants(gtin14);
+  return databaseConnection.queryOne(
+    `SELECT id, name FROM food_items
+     WHERE barcode IN (${variants.map((_, index) => `$${index + 1}`).join(', ')})`,
+    variants
+  );
+};
+
+module.exports = {
+  findFoodItem,
+};
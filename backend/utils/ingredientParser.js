@@ -0,0 +1,225 @@
+/**
+ * Ingredient Parser Utility
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ *
+ * Server-side port of src/utils/ingredientParser.ts. Keep the two in sync.
+ */
+
+const OPENING_BRACKETS = '([{';
+const CLOSING_BRACKETS = ')]}';
+
+const LABEL_PREFIX_PATTERN = /^\s*ingr[eé]dients?\s*[:-]\s*/i;
+
+// Precautionary allergen statements. The capture group holds the trace list.
+const TRACE_PATTERN =
+  /\b(?:may\s+(?:also\s+)?contain(?:\s+traces?\s+of)?|(?:contains\s+)?traces?\s+of|(?:produced|made|manufactured|packed)\s+(?:in|on)\s+(?:a\s+)?(?:facility|factory|site|equipment|line)\s+(?:that|which)\s+(?:also\s+)?(?:handles|processes|uses))\s*:?\s*([^.;()[\]{}]*)/gi;
+
+const TRACE_SEPARATOR_PATTERN = /,|\/|\band\b|\bor\b/i;
+
+const PERCENTAGE_PATTERN = /(\d+(?:[.,]\d+)?)\s*%/;
+const PERCENTAGE_ONLY_PATTERN = /^\s*(?:min\.?\s*)?(\d+(?:[.,]\d+)?)\s*%\s*$/i;
+
+/**
+ * Lower case, strip accents and punctuation, collapse whitespace
+ */
+const normalizeIngredientText = (text) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const isDigit = (char) => char !== undefined && char >= '0' && char <= '9';
+
+const parsePercentage = (value) => parseFloat(value.replace(',', '.'));
+
+const cleanName = (text) =>
+  text
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:and|&)\s+/i, '')
+    .replace(/[\s.:*]+$/, '')
+    .trim();
+
+/**
+ * Split text on top-level commas and semicolons, leaving bracketed groups and
+ * decimal commas ("12,5%") intact
+ */
+const splitTopLevel = (text) => {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (OPENING_BRACKETS.includes(char)) {
+      depth++;
+    } else if (CLOSING_BRACKETS.includes(char)) {
+      depth = Math.max(0, depth - 1);
+    }
+
+    const isSeparator =
+      depth === 0 &&
+      (char === ';' ||
+        (char === ',' && !(isDigit(text[i - 1]) && isDigit(text[i + 1]))));
+
+    if (isSeparator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+};
+
+/**
+ * Pull out every top-level bracket group, returning the text outside the
+ * groups and the contents of each group
+ */
+const extractGroups = (text) => {
+  const groups = [];
+  let outside = '';
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (OPENING_BRACKETS.includes(char)) {
+      if (depth > 0) {
+        current += char;
+      }
+      depth++;
+    } else if (CLOSING_BRACKETS.includes(char) && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        groups.push(current);
+        current = '';
+        outside += ' ';
+      } else {
+        current += char;
+      }
+    } else if (depth > 0) {
+      current += char;
+    } else {
+      outside += char;
+    }
+  }
+
+  // Unbalanced brackets: treat the dangling text as a group
+  if (current.trim().length > 0) {
+    groups.push(current);
+  }
+
+  return { outside, groups };
+};
+
+const parseSegment = (segment) => {
+  const { outside, groups } = extractGroups(segment);
+  let percentage;
+  const children = [];
+
+  groups.forEach((group) => {
+    const percentageOnly = PERCENTAGE_ONLY_PATTERN.exec(group);
+    if (percentageOnly) {
+      percentage = parsePercentage(percentageOnly[1]);
+      return;
+    }
+    children.push(...parseItems(group));
+  });
+
+  let nameText = outside;
+  const inlinePercentage = PERCENTAGE_PATTERN.exec(nameText);
+  if (inlinePercentage) {
+    if (percentage === undefined) {
+      percentage = parsePercentage(inlinePercentage[1]);
+    }
+    nameText = nameText.replace(PERCENTAGE_PATTERN, ' ');
+  }
+
+  // "Emulsifier: soy lecithin" declares a class name followed by its members
+  if (groups.length === 0 && nameText.includes(':')) {
+    const [label, ...rest] = nameText.split(':');
+    const members = rest.join(':');
+    if (cleanName(members).length > 0) {
+      nameText = label;
+      children.push(...parseItems(members));
+    }
+  }
+
+  const name = cleanName(nameText);
+  if (name.length === 0) {
+    return children.length === 1 ? children[0] : null;
+  }
+
+  const ingredient = {
+    name,
+    normalized: normalizeIngredientText(name),
+    children,
+  };
+  if (percentage !== undefined) {
+    ingredient.percentage = percentage;
+  }
+  return ingredient;
+};
+
+const parseItems = (text) =>
+  splitTopLevel(text)
+    .map(parseSegment)
+    .filter((item) => item !== null);
+
+/**
+ * Remove precautionary "may contain" statements from the text, returning the
+ * remaining declaration and the normalized trace names
+ */
+const extractTraces = (text) => {
+  const traces = [];
+  const remaining = text.replace(TRACE_PATTERN, (_match, list) => {
+    list
+      .split(TRACE_SEPARATOR_PATTERN)
+      .map(normalizeIngredientText)
+      .filter((trace) => trace.length > 0)
+      .forEach((trace) => {
+        if (!traces.includes(trace)) {
+          traces.push(trace);
+        }
+      });
+    return '';
+  });
+
+  return { text: remaining, traces };
+};
+
+/**
+ * Parse an ingredient declaration into a tree of ingredients and
+ * sub-ingredients, with any "may contain" traces listed separately
+ */
+const parseIngredientList = (input) => {
+  const raw = Array.isArray(input) ? input.join(', ') : String(input || '');
+  const { text, traces } = extractTraces(
+    raw.replace(/\s+/g, ' ').replace(LABEL_PREFIX_PATTERN, '')
+  );
+
+  return {
+    ingredients: parseItems(text),
+    traces,
+  };
+};
+
+/**
+ * Flatten a parsed tree depth-first, parents before their children
+ */
+const flattenIngredients = (ingredients) =>
+  ingredients.flatMap((ingredient) => [
+    ingredient,
+    ...flattenIngredients(ingredient.children),
+  ]);
+
+module.exports = {
+  parseIngredientList,
+  flattenIngredients,
+  normalizeIngredientText,
+};
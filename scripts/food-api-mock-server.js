@@ -0,0 +1,675 @@
+#!/usr/bin/env node
+
+/**
+ * Food API Stand-in Server
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Serves the OpenFoodFacts, USDA FoodData Central, Spoonacular and Google
+ * Cloud Vision endpoints the app uses from recorded fixtures, so tests and
+ * local development work without network access or API keys. Latency,
+ * failures and exhausted quotas can be simulated per API, at start-up or
+ * while the server is running.
+ *
+ * Usage:
+ *   node scripts/food-api-mock-server.js [--port 3055] [--host 127.0.0.1]
+ *     [--latency 300] [--fail usda=503] [--quota spoonacular=150]
+ *     [--fixtures scripts/fixtures/food-apis]
+ *
+ * The scenario can be changed at runtime:
+ *   curl -X PUT localhost:3055/__scenario -d '{"failures":{"usda":503}}'
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const path = require('path');
+
+const DEFAULT_PORT = 3055;
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures', 'food-apis');
+const SCENARIO_PATH = '/__scenario';
+
+// Path each API is served under
+const API_PREFIXES = {
+  openFoodFacts: '/openfoodfacts/api/v2',
+  usda: '/usda/fdc/v1',
+  spoonacular: '/spoonacular',
+  googleVision: '/vision/v1',
+};
+
+// Environment variables the app reads the base URLs from
+const BASE_URL_ENV_VARS = {
+  openFoodFacts: 'REACT_APP_OPENFOODFACTS_BASE_URL',
+  usda: 'REACT_APP_USDA_BASE_URL',
+  spoonacular: 'REACT_APP_SPOONACULAR_BASE_URL',
+  googleVision: 'REACT_APP_GOOGLE_VISION_BASE_URL',
+};
+
+const FIXTURE_FILES = {
+  openFoodFacts: 'openfoodfacts.json',
+  usda: 'usda.json',
+  spoonacular: 'spoonacular.json',
+  googleVision: 'vision.json',
+};
+
+// Query parameter carrying the API key, for APIs that need one
+const API_KEY_PARAMS = {
+  usda: 'api_key',
+  spoonacular: 'apiKey',
+  googleVision: 'key',
+};
+
+// What each API answers when the key is missing
+const MISSING_KEY_RESPONSES = {
+  usda: {
+    status: 403,
+    body: {
+      error: {
+        code: 'API_KEY_MISSING',
+        message:
+          'No api_key was supplied. Get one at https://api.nal.usda.gov:443',
+      },
+    },
+  },
+  spoonacular: {
+    status: 401,
+    body: {
+      status: 'failure',
+      code: 401,
+      message:
+        'You are not authorized. Please read https://spoonacular.com/food-api/docs#Authentication',
+    },
+  },
+  googleVision: {
+    status: 403,
+    body: {
+      error: {
+        code: 403,
+        message: 'The request is missing a valid API key.',
+        status: 'PERMISSION_DENIED',
+      },
+    },
+  },
+};
+
+// Quota headers sent with every response, and the answer once it runs out
+const QUOTA_BEHAVIOUR = {
+  openFoodFacts: {
+    headers: () => ({}),
+    exhausted: () => ({
+      status: 429,
+      headers: { 'Retry-After': '60' },
+      body: { status: 0, status_verbose: 'Too many requests' },
+    }),
+  },
+  usda: {
+    headers: (limit, used) => ({
+      'X-RateLimit-Limit': String(limit),
+      'X-RateLimit-Remaining': String(Math.max(limit - used, 0)),
+    }),
+    exhausted: () => ({
+      status: 429,
+      body: {
+        error: {
+          code: 'OVER_RATE_LIMIT',
+          message:
+            'You have exceeded your rate limit. Try again later or contact us at https://api.data.gov:443/contact/ for assistance',
+        },
+      },
+    }),
+  },
+  spoonacular: {
+    headers: (limit, used) => ({
+      'X-API-Quota-Used': String(Math.min(used, limit)),
+      'X-API-Quota-Left': String(Math.max(limit - used, 0)),
+    }),
+    exhausted: (limit) => ({
+      status: 402,
+      body: {
+        status: 'failure',
+        code: 402,
+        message: `Your daily points limit of ${limit} has been reached. Please upgrade your plan to continue using the API.`,
+      },
+    }),
+  },
+  googleVision: {
+    headers: () => ({}),
+    exhausted: () => ({
+      status: 429,
+      body: {
+        error: {
+          code: 429,
+          message:
+            "Quota exceeded for quota metric 'Requests' and limit 'Requests per minute' of service 'vision.googleapis.com'.",
+          status: 'RESOURCE_EXHAUSTED',
+        },
+      },
+    }),
+  },
+};
+
+const json = (status, body, headers = {}) => ({ status, body, headers });
+
+const notFound = () => json(404, { error: 'Not Found' });
+
+// Barcodes match with or without leading zeros
+const sameCode = (a, b) => {
+  const normalise = (code) => String(code || '').replace(/^0+/, '');
+  return normalise(a) !== '' && normalise(a) === normalise(b);
+};
+
+const toPositiveInt = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Every word of the query has to appear in one of the fields
+const matchesQuery = (query, fields) => {
+  const terms = (query || '').toLowerCase().split(/\s+/).filter(Boolean);
+  const text = fields.filter(Boolean).join(' ').toLowerCase();
+  return terms.every((term) => text.includes(term));
+};
+
+const loadFixtures = (dir) =>
+  Object.fromEntries(
+    Object.entries(FIXTURE_FILES).map(([api, file]) => [
+      api,
+      JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')),
+    ])
+  );
+
+const openFoodFactsRoutes = ({ products }) => {
+  // Taxonomy listings are built from the tags of the recorded products
+  const taxonomy = (field) => {
+    const counts = new Map();
+    products.forEach((product) =>
+      (product[field] || []).forEach((tag) =>
+        counts.set(tag, (counts.get(tag) || 0) + 1)
+      )
+    );
+    return {
+      count: counts.size,
+      tags: Array.from(counts, ([id, count]) => ({
+        id,
+        name: id.replace(/^[a-z]{2,3}:/, '').replace(/-/g, ' '),
+        products: count,
+      })),
+    };
+  };
+
+  return (route, query) => {
+    const product = /^\/product\/([^/]+?)(?:\.json)?$/.exec(route);
+    if (product) {
+      const code = product[1];
+      const found = products.find((candidate) =>
+        sameCode(candidate.code, code)
+      );
+      return found
+        ? json(200, {
+            code,
+            status: 1,
+            status_verbose: 'product found',
+            product: found,
+          })
+        : json(404, { code, status: 0, status_verbose: 'product not found' });
+    }
+
+    if (route === '/cgi/search.pl') {
+      const category = query.get('tag_0');
+      const matches = products.filter(
+        (candidate) =>
+          matchesQuery(query.get('search_terms'), [
+            candidate.product_name,
+            candidate.brands,
+            candidate.categories,
+            candidate.ingredients_text,
+          ]) &&
+          (!category ||
+            (candidate.categories_tags || []).some(
+              (tag) => tag === category || tag.endsWith(`:${category}`)
+            ))
+      );
+      const page = toPositiveInt(query.get('page'), 1);
+      const pageSize = toPositiveInt(query.get('page_size'), 20);
+      const skip = (page - 1) * pageSize;
+      return json(200, {
+        count: matches.length,
+        page,
+        page_size: pageSize,
+        skip,
+        products: matches.slice(skip, skip + pageSize),
+      });
+    }
+
+    if (route === '/categories.json') {
+      return json(200, taxonomy('categories_tags'));
+    }
+    if (route === '/labels.json') {
+      return json(200, taxonomy('labels_tags'));
+    }
+    return null;
+  };
+};
+
+const usdaRoutes = ({ foods }) => {
+  // Food details nest each nutrient, search results flatten them
+  const toFoodDetails = (food) => ({
+    ...food,
+    foodCategory: { description: food.foodCategory },
+    foodNutrients: food.foodNutrients.map((entry) => ({
+      type: 'FoodNutrient',
+      nutrient: {
+        id: entry.nutrientId,
+        name: entry.nutrientName,
+        unitName: entry.unitName.toLowerCase(),
+      },
+      amount: entry.value,
+    })),
+  });
+
+  return (route, query) => {
+    if (route === '/foods/search') {
+      const searchQuery = query.get('query') || '';
+      const matches = foods.filter(
+        (food) =>
+          sameCode(food.gtinUpc, searchQuery) ||
+          matchesQuery(searchQuery, [
+            food.description,
+            food.brandOwner,
+            food.foodCategory,
+            food.ingredients,
+          ])
+      );
+      const pageNumber = toPositiveInt(query.get('pageNumber'), 1);
+      const pageSize = toPositiveInt(query.get('pageSize'), 50);
+      const skip = (pageNumber - 1) * pageSize;
+      return json(200, {
+        totalHits: matches.length,
+        currentPage: pageNumber,
+        totalPages: Math.ceil(matches.length / pageSize),
+        foodSearchCriteria: { query: searchQuery, pageNumber, pageSize },
+        foods: matches.slice(skip, skip + pageSize),
+      });
+    }
+
+    const details = /^\/food\/(\d+)$/.exec(route);
+    if (details) {
+      const found = foods.find((food) => String(food.fdcId) === details[1]);
+      return found ? json(200, toFoodDetails(found)) : notFound();
+    }
+    return null;
+  };
+};
+
+const spoonacularRoutes =
+  ({ products }) =>
+  (route, query) => {
+    if (route === '/food/products/search') {
+      const matches = products.filter((product) =>
+        matchesQuery(query.get('query'), [
+          product.title,
+          product.brand,
+          product.ingredientList,
+        ])
+      );
+      const offset = toPositiveInt(query.get('offset'), 0);
+      const number = toPositiveInt(query.get('number'), 10);
+      return json(200, {
+        type: 'product',
+        // Search results only carry a summary of each product
+        products: matches
+          .slice(offset, offset + number)
+          .map(({ id, title, image, imageType }) => ({
+            id,
+            title,
+            image,
+            imageType,
+          })),
+        offset,
+        number,
+        totalProducts: matches.length,
+        processingTimeMs: 0,
+      });
+    }
+
+    const upc = /^\/food\/products\/upc\/([^/]+)$/.exec(route);
+    if (upc) {
+      const found = products.find((product) => sameCode(product.upc, upc[1]));
+      return found
+        ? json(200, found)
+        : json(404, {
+            status: 'failure',
+            code: 404,
+            message: `A product with the UPC ${upc[1]} could not be found.`,
+          });
+    }
+    return null;
+  };
+
+const visionRoutes = ({ annotations }, fixturesDir) => {
+  // Recorded text is looked up by the photo sent, or by the name of the
+  // photo when the request only references it by URI
+  const sha256 = (data) =>
+    crypto.createHash('sha256').update(data).digest('hex');
+  const recorded = annotations.map((annotation) => ({
+    ...annotation,
+    hash: sha256(fs.readFileSync(path.join(fixturesDir, annotation.image))),
+  }));
+
+  const annotate = ({ image = {} }) => {
+    const found = image.content
+      ? recorded.find(
+          ({ hash }) => hash === sha256(Buffer.from(image.content, 'base64'))
+        )
+      : recorded.find(
+          ({ image: file }) =>
+            image.source &&
+            path.basename(String(image.source.imageUri || '')) ===
+              path.basename(file)
+        );
+    // Vision answers with an empty response when it finds no text
+    return found
+      ? {
+          textAnnotations: [{ locale: found.locale, description: found.text }],
+          fullTextAnnotation: { text: found.text },
+        }
+      : {};
+  };
+
+  return (route, query, body) => {
+    if (route !== '/images:annotate') {
+      return null;
+    }
+    const requests = (body && body.requests) || [];
+    if (requests.length === 0) {
+      return json(400, {
+        error: {
+          code: 400,
+          message: 'No requests were given.',
+          status: 'INVALID_ARGUMENT',
+        },
+      });
+    }
+    return json(200, { responses: requests.map(annotate) });
+  };
+};
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+
+const send = (res, { status, body, headers = {} }) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Create a stand-in server for the food APIs.
+ *
+ * A scenario controls the simulated conditions:
+ *   latencyMs - delay before every response
+ *   failures  - per API, an HTTP status to answer every request with, or
+ *               'reset' to drop the connection
+ *   quotas    - per API, how many requests are allowed before the API reports
+ *               its quota as used up
+ *
+ * @param {{ fixturesDir?: string, scenario?: object }} [options]
+ */
+const createFoodApiMockServer = (options = {}) => {
+  const fixturesDir = options.fixturesDir || DEFAULT_FIXTURES_DIR;
+  const fixtures = loadFixtures(fixturesDir);
+  const routes = {
+    openFoodFacts: openFoodFactsRoutes(fixtures.openFoodFacts),
+    usda: usdaRoutes(fixtures.usda),
+    spoonacular: spoonacularRoutes(fixtures.spoonacular),
+    googleVision: visionRoutes(fixtures.googleVision, fixturesDir),
+  };
+
+  let scenario = { ...options.scenario };
+  let requestCounts = {};
+  let requests = [];
+  let baseUrls = null;
+
+  const setScenario = (next = {}) => {
+    scenario = { ...next };
+    requestCounts = {};
+  };
+
+  const handleApiRequest = async (api, route, url, req, res) => {
+    requests.push({ api, method: req.method, path: route, query: url.search });
+    if (scenario.latencyMs > 0) {
+      await delay(scenario.latencyMs);
+    }
+
+    const failure = scenario.failures && scenario.failures[api];
+    if (failure === 'reset') {
+      req.socket.destroy();
+      return;
+    }
+    if (failure) {
+      send(res, json(failure, { error: 'Simulated failure', status: failure }));
+      return;
+    }
+
+    const keyParam = API_KEY_PARAMS[api];
+    if (keyParam && !url.searchParams.get(keyParam)) {
+      send(res, MISSING_KEY_RESPONSES[api]);
+      return;
+    }
+
+    const limit = scenario.quotas && scenario.quotas[api];
+    const used = (requestCounts[api] || 0) + 1;
+    requestCounts[api] = used;
+    const quota = QUOTA_BEHAVIOUR[api];
+    if (limit !== undefined && used > limit) {
+      const exhausted = quota.exhausted(limit);
+      send(res, {
+        ...exhausted,
+        headers: { ...quota.headers(limit, used), ...exhausted.headers },
+      });
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readBody(req) : '';
+    const response =
+      routes[api](route, url.searchParams, body ? JSON.parse(body) : null) ||
+      notFound();
+    send(res, {
+      ...response,
+      headers: {
+        ...(limit !== undefined && quota.headers(limit, used)),
+        ...response.headers,
+      },
+    });
+  };
+
+  const handleRequest = async (req, res) => {
+    // The web build calls the stand-in from another origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url, 'http://localhost');
+    if (url.pathname === SCENARIO_PATH) {
+      if (req.method === 'PUT' || req.method === 'POST') {
+        const body = await readBody(req);
+        setScenario(body ? JSON.parse(body) : {});
+      }
+      send(res, json(200, scenario));
+      return;
+    }
+
+    const api = Object.keys(API_PREFIXES).find((candidate) =>
+      url.pathname.startsWith(`${API_PREFIXES[candidate]}/`)
+    );
+    if (!api) {
+      send(res, notFound());
+      return;
+    }
+    await handleApiRequest(
+      api,
+      url.pathname.slice(API_PREFIXES[api].length),
+      url,
+      req,
+      res
+    );
+  };
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (!res.headersSent) {
+        send(res, json(500, { error: error.message }));
+      }
+    });
+  });
+
+  return {
+    /**
+     * Start listening. Port 0 picks a free port. Resolves with the base URL
+     * of each API.
+     */
+    start: (port = DEFAULT_PORT, host = DEFAULT_HOST) =>
+      new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          const publicHost = host === '0.0.0.0' ? 'localhost' : host;
+          const origin = `http://${publicHost}:${server.address().port}`;
+          baseUrls = Object.fromEntries(
+            Object.entries(API_PREFIXES).map(([api, prefix]) => [
+              api,
+              `${origin}${prefix}`,
+            ])
+          );
+          resolve(baseUrls);
+        });
+      }),
+
+    stop: () =>
+      new Promise((resolve, reject) => {
+        // Clients keep connections alive, which would hold close() open
+        if (server.closeAllConnections) {
+          server.closeAllConnections();
+        }
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+
+    /**
+     * Point the app's food API base URLs at this server
+     */
+    applyToEnv: (env = process.env) => {
+      if (!baseUrls) {
+        throw new Error('Start the food API stand-in before applying it');
+      }
+      Object.entries(BASE_URL_ENV_VARS).forEach(([api, name]) => {
+        env[name] = baseUrls[api];
+      });
+    },
+
+    setScenario,
+
+    // Requests received so far, oldest first
+    getRequests: () => [...requests],
+
+    clearRequests: () => {
+      requests = [];
+    },
+  };
+};
+
+// Parse "api=value" pairs given to --fail and --quota
+const parseApiValue = (arg, scenario, key, parseValue) => {
+  const [api, value] = arg.split('=');
+  if (!API_PREFIXES[api] || value === undefined) {
+    throw new Error(
+      `Expected <api>=<value> with api one of ${Object.keys(API_PREFIXES).join(', ')}, got "${arg}"`
+    );
+  }
+  scenario[key] = { ...scenario[key], [api]: parseValue(value) };
+};
+
+const parseArgs = (args) => {
+  const options = { port: DEFAULT_PORT, host: DEFAULT_HOST, scenario: {} };
+  for (let i = 0; i < args.length; i += 1) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--port':
+        options.port = parseInt(value, 10);
+        i += 1;
+        break;
+      case '--host':
+        options.host = value;
+        i += 1;
+        break;
+      case '--latency':
+        options.scenario.latencyMs = parseInt(value, 10);
+        i += 1;
+        break;
+      case '--fail':
+        parseApiValue(value, options.scenario, 'failures', (status) =>
+          status === 'reset' ? status : parseInt(status, 10)
+        );
+        i += 1;
+        break;
+      case '--quota':
+        parseApiValue(value, options.scenario, 'quotas', (limit) =>
+          parseInt(limit, 10)
+        );
+        i += 1;
+        break;
+      case '--fixtures':
+        options.fixturesDir = path.resolve(value);
+        i += 1;
+        break;
+      default:
+        throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+  return options;
+};
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const mockServer = createFoodApiMockServer(options);
+  const baseUrls = await mockServer.start(options.port, options.host);
+
+  console.log('🥫 Food API stand-in running');
+  console.log(`Scenario: ${JSON.stringify(options.scenario)}`);
+  console.log('\n📝 Add these to your .env.local to use it:');
+  Object.entries(BASE_URL_ENV_VARS).forEach(([api, name]) => {
+    console.log(`${name}=${baseUrls[api]}`);
+  });
+  console.log('REACT_APP_USDA_API_KEY=local');
+  console.log('REACT_APP_SPOONACULAR_API_KEY=local');
+  console.log('REACT_APP_GOOGLE_VISION_API_KEY=local');
+
+  process.on('SIGINT', () => {
+    mockServer.stop().then(() => process.exit(0));
+  });
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Food API stand-in failed:', error.message);
+    process.exit(1);
+  });
+}
+
+module.exports = {
+  API_PREFIXES,
+  BASE_URL_ENV_VARS,
+  createFoodApiMockServer,
+};
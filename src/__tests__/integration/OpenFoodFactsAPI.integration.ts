@@ -1,22 +1,33 @@
 /**
- * @fileoverview OpenFoodFactsAPI.integration.ts - Integration tests with real OpenFoodFacts API
+ * @fileoverview OpenFoodFactsAPI.integration.ts - Integration tests against the local OpenFoodFacts API stand-in
  * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
  * @license PROPRIETARY - See LICENSE file for details
  * @private
  */
 
+import { createFoodApiMockServer } from '../../../scripts/food-api-mock-server';
 import OpenFoodFactsService from '../../services/OpenFoodFactsService';
 import { FoodItem } from '../../types';
 
 describe('OpenFoodFacts API Integration Tests', () => {
+  const foodApiServer = createFoodApiMockServer();
   let openFoodFactsService: OpenFoodFactsService;
 
+  beforeAll(async () => {
+    await foodApiServer.start(0);
+    foodApiServer.applyToEnv();
+  });
+
+  afterAll(async () => {
+    await foodApiServer.stop();
+  });
+
   beforeEach(() => {
     openFoodFactsService = OpenFoodFactsService.getInstance();
     jest.clearAllMocks();
   });
 
-  describe('Real API Calls', () => {
+  describe('Recorded API Calls', () => {
     it('should fetch real food data by barcode', async () => {
       // Use a real barcode from OpenFoodFacts database
       const realBarcode = '3017620422003'; // Nutella barcode
@@ -124,7 +124,10 @@ describe('Scan Flow Integration Tests', () => {
         condition: 'lactose',
       },
     ],
-    safeAlternatives: ['lactose-free milk', 'almond milk'],
+    safeAlternatives: [
+      { id: 'lactose-free-milk', name: 'lactose-free milk' },
+      { id: 'almond-milk', name: 'almond milk' },
+    ],
     explanation: 'This food contains lactose which may cause digestive issues.',
     dataSource: 'Test Database',
     lastUpdated: new Date(),
@@ -227,7 +230,7 @@ describe('Scan Flow Integration Tests', () => {
 
       // Verify safe alternatives are displayed
       mockAnalysis.safeAlternatives.forEach((alternative) => {
-        expect(getByText(alternative)).toBeTruthy();
+        expect(getByText(alternative.name)).toBeTruthy();
       });
     });
   });
@@ -1,16 +1,18 @@
 /**
- * @fileoverview USDAFoodAPI.integration.ts - Integration tests with real USDA Food API
+ * @fileoverview USDAFoodAPI.integration.ts - Integration tests against the local USDA Food API stand-in
  * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
  * @license PROPRIETARY - See LICENSE file for details
  * @private
  */
 
+import { createFoodApiMockServer } from '../../../scripts/food-api-mock-server';
 import { FoodItem } from '../../types';
 
 // Mock USDA API service for integration testing
 class USDAFoodAPIService {
   private static instance: USDAFoodAPIService;
-  private baseUrl = 'https://api.nal.usda.gov/fdc/v1';
+  private baseUrl =
+    process.env['REACT_APP_USDA_BASE_URL'] || 'https://api.nal.usda.gov/fdc/v1';
   private apiKey = process.env.USDA_API_KEY || 'demo-key';
 
   private constructor() {}
@@ -51,6 +53,9 @@ class USDAFoodAPIService {
       }
 
       const data = await response.json();
+      if (!data.fdcId) {
+        return null;
+      }
       return this.parseFoodItem(data);
     } catch (error) {
       console.error('USDA API get food error:', error);
@@ -183,14 +188,27 @@ class USDAFoodAPIService {
 }
 
 describe('USDA Food API Integration Tests', () => {
+  const foodApiServer = createFoodApiMockServer();
   let usdaService: USDAFoodAPIService;
 
+  beforeAll(async () => {
+    // setupTests mocks fetch; these requests must reach the stand-in server
+    global.fetch = jest.requireActual<typeof fetch>('node-fetch');
+    await foodApiServer.start(0);
+    foodApiServer.applyToEnv();
+  });
+
+  afterAll(async () => {
+    await foodApiServer.stop();
+  });
+
   beforeEach(() => {
     usdaService = USDAFoodAPIService.getInstance();
+    foodApiServer.setScenario();
     jest.clearAllMocks();
   });
 
-  describe('Real API Calls', () => {
+  describe('Recorded API Calls', () => {
     it('should search real foods by name', async () => {
       const searchResults = await usdaService.searchFoods('chicken breast');
 
@@ -293,6 +311,36 @@ describe('USDA Food API Integration Tests', () => {
     });
   });
 
+  describe('Simulated API Conditions', () => {
+    it('should return no results once the rate limit is used up', async () => {
+      foodApiServer.setScenario({ quotas: { usda: 1 } });
+
+      const first = await usdaService.searchFoods('chicken breast');
+      const second = await usdaService.searchFoods('chicken breast');
+
+      expect(first.length).toBeGreaterThan(0);
+      expect(second).toEqual([]);
+    });
+
+    it('should handle an outage and a dropped connection', async () => {
+      foodApiServer.setScenario({ failures: { usda: 503 } });
+      expect(await usdaService.searchFoods('broccoli')).toEqual([]);
+
+      foodApiServer.setScenario({ failures: { usda: 'reset' } });
+      expect(await usdaService.getFoodById(170379)).toBeNull();
+    });
+
+    it('should wait out simulated latency', async () => {
+      foodApiServer.setScenario({ latencyMs: 200 });
+      const startTime = Date.now();
+
+      const results = await usdaService.searchFoods('quinoa');
+
+      expect(results).toHaveLength(1);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(200);
+    });
+  });
+
   describe('Data Processing', () => {
     it('should correctly parse USDA food data', async () => {
       const realFdcId = 171077; // Chicken breast
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview ConflictResolutionService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import ConflictResolutionService from '../../services/ConflictResolutionService';
+import type { FoodItem, GutProfile, SafeFood } from '../../types';
+import { createMockGutProfile } from '../../utils/testUtils';
+
+const mockStore = new Map<string, unknown>();
+const mockFindWithFoodItems = jest.fn();
+const mockSaveSyncedSafeFood = jest.fn();
+
+jest.mock('../../services/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) =>
+        mockStore.has(key)
+          ? JSON.parse(JSON.stringify(mockStore.get(key)))
+          : null,
+      setItem: async (key: string, value: unknown) => {
+        mockStore.set(key, value);
+      },
+    }),
+  },
+}));
+
+jest.mock('../../database/connection', () => ({
+  databaseManager: { isConnected: () => true },
+}));
+
+jest.mock('../../database/repositories/SafeFoodRepository', () => ({
+  SafeFoodRepository: class {
+    findWithFoodItems = mockFindWithFoodItems;
+    saveSyncedSafeFood = mockSaveSyncedSafeFood;
+  },
+}));
+
+jest.mock('../../services/AuthService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getAuthState: () => ({ isAuthenticated: true, user: { id: 'user-1' } }),
+    }),
+  },
+}));
+
+const createSafeFood = (
+  id: string,
+  foodItemId: string,
+  overrides: Partial<SafeFood> = {}
+): SafeFood => {
+  const foodItem: FoodItem = {
+    id: foodItemId,
+    name: `Food ${foodItemId}`,
+    ingredients: ['rice'],
+    allergens: [],
+    additives: [],
+    glutenFree: true,
+    lactoseFree: true,
+  };
+  return {
+    id,
+    foodItem,
+    addedDate: new Date('2024-01-01T00:00:00Z'),
+    usageCount: 1,
+    ...overrides,
+  };
+};
+
+describe('ConflictResolutionService', () => {
+  const service = ConflictResolutionService.getInstance();
+
+  beforeEach(async () => {
+    mockStore.clear();
+    mockFindWithFoodItems.mockResolvedValue([]);
+    mockSaveSyncedSafeFood.mockResolvedValue(undefined);
+    service.setLocalGutProfile(null);
+    await service.clearConflicts();
+  });
+
+  it('should merge remote safe foods into the local ones and log conflicts', async () => {
+    mockFindWithFoodItems.mockResolvedValue([
+      createSafeFood('local-1', 'food-1', {
+        notes: 'Phone note',
+        updatedAt: new Date('2024-02-01T00:00:00Z'),
+      }),
+      createSafeFood('local-2', 'food-2'),
+    ]);
+
+    await service.mergeRemoteChanges({
+      gutProfile: null,
+      safeFoods: [
+        createSafeFood('remote-1', 'food-1', {
+          notes: 'Web note',
+          usageCount: 4,
+          updatedAt: new Date('2024-03-01T00:00:00Z'),
+        }),
+        createSafeFood('remote-3', 'food-3'),
+      ],
+    });
+
+    expect(mockSaveSyncedSafeFood).toHaveBeenCalledTimes(2);
+    expect(mockSaveSyncedSafeFood).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({
+        id: 'local-1',
+        notes: 'Web note',
+        usageCount: 4,
+      })
+    );
+    expect(mockSaveSyncedSafeFood).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ id: 'remote-3' })
+    );
+    expect(service.getConflicts()).toEqual([
+      expect.objectContaining({
+        entityType: 'safeFood',
+        entityId: 'local-1',
+        field: 'notes',
+        resolvedValue: 'Web note',
+        reviewed: false,
+      }),
+    ]);
+  });
+
+  it('should not merge a remote copy again until it changes', async () => {
+    const local: GutProfile = createMockGutProfile({
+      updatedAt: new Date('2024-02-01T00:00:00Z'),
+    });
+    const remote: GutProfile = createMockGutProfile({
+      conditions: {
+        ...local.conditions,
+        lactose: { ...local.conditions.lactose, severity: 'severe' },
+      },
+      updatedAt: new Date('2024-03-01T00:00:00Z'),
+    });
+    const safeFood = createSafeFood('remote-1', 'food-1');
+    const merges = jest.fn();
+    const unsubscribe = service.subscribeToMerges(merges);
+    service.setLocalGutProfile(local);
+
+    await service.mergeRemoteChanges({
+      gutProfile: remote,
+      safeFoods: [safeFood],
+    });
+    await service.mergeRemoteChanges({
+      gutProfile: remote,
+      safeFoods: [safeFood],
+    });
+    unsubscribe();
+
+    expect(merges).toHaveBeenCalledTimes(1);
+    expect(merges).toHaveBeenCalledWith({
+      gutProfile: expect.objectContaining({
+        conditions: expect.objectContaining({
+          lactose: expect.objectContaining({ severity: 'severe' }),
+        }),
+      }),
+      safeFoods: [safeFood],
+    });
+    expect(mockSaveSyncedSafeFood).toHaveBeenCalledTimes(1);
+    expect(service.getConflicts()).toEqual([
+      expect.objectContaining({
+        entityType: 'gutProfile',
+        field: 'conditions.lactose.severity',
+      }),
+    ]);
+  });
+});
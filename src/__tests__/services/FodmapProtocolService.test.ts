@@ -0,0 +1,207 @@
+/**
+ * @fileoverview FodmapProtocolService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import FodmapProtocolService from '../../services/FodmapProtocolService';
+import HealthService from '../../services/HealthService';
+import type { GutSymptom } from '../../types';
+import {
+  createMockConditions,
+  createMockGutProfile,
+} from '../../utils/testUtils';
+
+const mockStore = new Map<string, unknown>();
+
+jest.mock('../../services/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) =>
+        mockStore.has(key)
+          ? JSON.parse(JSON.stringify(mockStore.get(key)))
+          : null,
+      setItem: async (key: string, value: unknown) => {
+        mockStore.set(key, value);
+      },
+    }),
+  },
+}));
+
+jest.mock('../../database/connection', () => ({
+  databaseManager: { isConnected: () => false },
+}));
+
+jest.mock('../../services/AuthService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ getAuthState: () => ({ user: null }) }),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ELIMINATION_START = new Date('2024-03-01T08:00:00Z');
+const REINTRODUCTION_START = new Date('2024-03-29T08:00:00Z');
+
+const createSymptom = (
+  timestamp: Date,
+  severity: GutSymptom['severity']
+): Omit<GutSymptom, 'id'> => ({
+  type: 'bloating',
+  severity,
+  duration: 60,
+  timestamp,
+});
+
+const dayOf = (start: Date, day: number, hours = 4): Date =>
+  new Date(start.getTime() + (day - 1) * DAY_MS + hours * 60 * 60 * 1000);
+
+describe('FodmapProtocolService', () => {
+  let service: FodmapProtocolService;
+  let healthService: HealthService;
+
+  beforeEach(async () => {
+    mockStore.clear();
+    healthService = HealthService.getInstance();
+    healthService.setGutProfile(
+      createMockGutProfile({
+        conditions: createMockConditions({
+          'ibs-fodmap': {
+            enabled: true,
+            severity: 'moderate',
+            knownTriggers: [],
+          },
+        }),
+      })
+    );
+    for (const log of healthService.getSymptomLogs()) {
+      await healthService.deleteSymptomLog(log.id);
+    }
+
+    service = FodmapProtocolService.getInstance();
+    await service.reset();
+    await service.startElimination(ELIMINATION_START);
+  });
+
+  it('should schedule a 3-day challenge per subgroup with washouts', async () => {
+    const challenges = await service.startReintroduction({
+      startDate: REINTRODUCTION_START,
+    });
+
+    expect(service.getState().phase).toBe('reintroduction');
+    expect(challenges.map((c) => c.subgroup)).toEqual([
+      'fructans',
+      'gos',
+      'lactose',
+      'excess-fructose',
+      'polyols',
+    ]);
+    expect(challenges[1]?.startDate.getTime()).toBe(
+      REINTRODUCTION_START.getTime() + 6 * DAY_MS
+    );
+    expect(service.getActiveChallenge(dayOf(REINTRODUCTION_START, 2))?.id).toBe(
+      challenges[0]?.id
+    );
+    expect(
+      service.getActiveChallenge(dayOf(REINTRODUCTION_START, 5))
+    ).toBeNull();
+  });
+
+  it('should link symptoms logged during a challenge to it', async () => {
+    const [challenge] = await service.startReintroduction({
+      startDate: REINTRODUCTION_START,
+      subgroups: ['lactose'],
+    });
+
+    const logId = await service.recordSymptom(
+      createSymptom(dayOf(REINTRODUCTION_START, 1), 4)
+    );
+    const outside = await service.recordSymptom(
+      createSymptom(dayOf(REINTRODUCTION_START, 10), 4)
+    );
+
+    expect(logId).not.toBeNull();
+    expect(outside).toBeNull();
+    expect(service.getState().challenges[0]?.symptomLogIds).toEqual([logId]);
+    expect(
+      healthService.getSymptomLogs().find((log) => log.id === logId)?.tags
+    ).toEqual(['fodmap-challenge', 'lactose']);
+    expect(challenge?.food).toBe('milk');
+  });
+
+  it('should mark a group tolerated when symptoms stay near baseline', async () => {
+    await healthService.logSymptoms({
+      symptoms: [
+        { ...createSymptom(dayOf(REINTRODUCTION_START, -2), 2), id: 'b1' },
+      ],
+      foodItems: [],
+    });
+    const [challenge] = await service.startReintroduction({
+      startDate: REINTRODUCTION_START,
+      subgroups: ['fructans'],
+    });
+    if (!challenge) {
+      throw new Error('No challenge scheduled');
+    }
+
+    for (const day of [1, 2, 3] as const) {
+      await service.recordDose(challenge.id, {
+        day,
+        takenAt: dayOf(REINTRODUCTION_START, day),
+      });
+    }
+    await service.recordSymptom(
+      createSymptom(dayOf(REINTRODUCTION_START, 3), 3)
+    );
+
+    const evaluated = await service.evaluateChallenge(challenge.id);
+
+    expect(evaluated.verdict).toBe('tolerated');
+    expect(evaluated.toleratedDose).toBe('2 slices');
+    expect(service.getState().phase).toBe('personalisation');
+    expect(healthService.getGutProfile()?.fodmapTolerance).toEqual({
+      fructans: 'tolerated',
+    });
+  });
+
+  it('should give a partial verdict when symptoms start at a higher dose', async () => {
+    const [challenge] = await service.startReintroduction({
+      startDate: REINTRODUCTION_START,
+      subgroups: ['polyols', 'gos'],
+    });
+    if (!challenge) {
+      throw new Error('No challenge scheduled');
+    }
+
+    for (const day of [1, 2] as const) {
+      await service.recordDose(challenge.id, {
+        day,
+        takenAt: dayOf(REINTRODUCTION_START, day),
+      });
+    }
+    await service.recordSymptom(
+      createSymptom(dayOf(REINTRODUCTION_START, 2), 7)
+    );
+
+    const evaluated = await service.evaluateChallenge(challenge.id);
+
+    expect(evaluated.verdict).toBe('partial');
+    expect(evaluated.toleratedDose).toBe('1/8 avocado');
+    expect(service.getState().phase).toBe('reintroduction');
+  });
+
+  it('should restore protocol state from storage', async () => {
+    await service.startReintroduction({
+      startDate: REINTRODUCTION_START,
+      subgroups: ['gos'],
+    });
+
+    await service.initialize();
+
+    const state = service.getState();
+    expect(state.phase).toBe('reintroduction');
+    expect(state.challenges[0]?.startDate).toBeInstanceOf(Date);
+  });
+});
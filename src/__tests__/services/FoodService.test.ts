@@ -0,0 +1,414 @@
+/**
+ * @fileoverview FoodService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import FoodService from '../../services/FoodService';
+import type { FoodItem } from '../../types';
+import { logger } from '../../utils/logger';
+import {
+  createMockConditions,
+  createMockGutProfile,
+} from '../../utils/testUtils';
+
+jest.mock('../../utils/errorHandler');
+
+const mockFindSimilar = jest.fn();
+const mockFindLowFODMAP = jest.fn();
+const mockFindGlutenFree = jest.fn();
+const mockFindLactoseFree = jest.fn();
+const mockFindByBrand = jest.fn();
+const mockFindByCategory = jest.fn();
+jest.mock('../../database/repositories/FoodItemRepository', () => ({
+  FoodItemRepository: class {
+    findSimilar = mockFindSimilar;
+    findLowFODMAP = mockFindLowFODMAP;
+    findGlutenFree = mockFindGlutenFree;
+    findLactoseFree = mockFindLactoseFree;
+    findByBrand = mockFindByBrand;
+    findByCategory = mockFindByCategory;
+  },
+}));
+
+jest.mock('../../database/connection', () => ({
+  databaseManager: { isConnected: () => true },
+}));
+
+const createStoredFood = (
+  id: string,
+  name: string,
+  ingredients: string[],
+  category = 'Crackers'
+) => ({
+  id,
+  name,
+  category,
+  ingredients,
+  allergens: [],
+  additives: [],
+  gutHealthInfo: { glutenFree: true, lactoseFree: false, fodmapLevel: 'low' },
+  nutritionalInfo: { calories: 420, protein: 9, carbohydrates: 70, fat: 11 },
+  dataSource: 'openfoodfacts',
+  isVerified: true,
+});
+
+const createFood = (ingredients: string[]): FoodItem => ({
+  id: 'food-1',
+  name: 'Test Bar',
+  ingredients,
+  allergens: [],
+  additives: [],
+  glutenFree: false,
+  lactoseFree: false,
+});
+
+describe('FoodService', () => {
+  let service: FoodService;
+
+  beforeEach(() => {
+    service = FoodService.getInstance();
+    jest.clearAllMocks();
+    jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('analyzeFood', () => {
+    it('should tag flags with the condition that matched', async () => {
+      const profile = createMockGutProfile({
+        conditions: createMockConditions({
+          lactose: { enabled: true, severity: 'moderate', knownTriggers: [] },
+        }),
+      });
+
+      const result = await service.analyzeFood(
+        createFood(['oats', 'whey powder', 'sugar']),
+        profile
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data.flaggedIngredients).toHaveLength(1);
+      expect(result.data.flaggedIngredients[0]?.condition).toBe('lactose');
+      expect(result.data.conditionWarnings).toEqual([
+        {
+          ingredient: 'whey powder',
+          severity: 'moderate',
+          condition: 'lactose',
+        },
+      ]);
+    });
+
+    it('should weight flags by the configured condition severity', async () => {
+      const food = createFood(['whey powder']);
+
+      const mild = await service.analyzeFood(
+        food,
+        createMockGutProfile({
+          conditions: createMockConditions({
+            lactose: { enabled: true, severity: 'mild', knownTriggers: [] },
+          }),
+        })
+      );
+      const severe = await service.analyzeFood(
+        food,
+        createMockGutProfile({
+          conditions: createMockConditions({
+            lactose: { enabled: true, severity: 'severe', knownTriggers: [] },
+          }),
+        })
+      );
+
+      expect(mild.success && mild.data.overallSafety).toBe('safe');
+      expect(severe.success && severe.data.overallSafety).toBe('avoid');
+    });
+
+    it('should suggest safe alternatives from the category when avoided', async () => {
+      const profile = createMockGutProfile({
+        conditions: createMockConditions({
+          lactose: { enabled: true, severity: 'severe', knownTriggers: [] },
+        }),
+      });
+      const food = {
+        ...createFood(['wheat flour', 'whey powder']),
+        name: 'Ryvita Cheese Crackers',
+        brand: 'Ryvita',
+        category: 'Crackers',
+      };
+      const multigrain = {
+        ...createStoredFood('food-3', 'Ryvita Multigrain Crackers', [
+          'wheat flour',
+          'seeds',
+        ]),
+        brand: 'Ryvita',
+      };
+      mockFindByBrand.mockResolvedValue([
+        {
+          ...createStoredFood('food-2', 'Ryvita Cheddar Crackers', [
+            'wheat flour',
+            'milk powder',
+          ]),
+          brand: 'Ryvita',
+        },
+        multigrain,
+        {
+          ...createStoredFood('food-5', 'Ryvita Oat Bar', ['oats'], 'Bars'),
+          brand: 'Ryvita',
+        },
+      ]);
+      mockFindByCategory.mockResolvedValue([
+        multigrain,
+        createStoredFood('food-4', 'Rice Crackers', ['rice', 'salt']),
+      ]);
+
+      const result = await service.analyzeFood(food, profile);
+
+      // Lookups that throw are logged and yield no alternatives
+      expect(logger.error).not.toHaveBeenCalled();
+      expect(mockFindByCategory).toHaveBeenCalledWith('Crackers', 50);
+      expect(result.success && result.data.safeAlternatives).toEqual([
+        {
+          id: 'food-3',
+          name: 'Ryvita Multigrain Crackers',
+          brand: 'Ryvita',
+          category: 'Crackers',
+        },
+        { id: 'food-4', name: 'Rice Crackers', category: 'Crackers' },
+      ]);
+    });
+
+    it('should merge personal known triggers', async () => {
+      const profile = createMockGutProfile({
+        conditions: createMockConditions({
+          'ibs-fodmap': {
+            enabled: true,
+            severity: 'severe',
+            knownTriggers: ['Pea Protein'],
+          },
+        }),
+      });
+
+      const result = await service.analyzeFood(
+        createFood(['pea protein isolate', 'salt']),
+        profile
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.data.overallSafety).toBe('avoid');
+      expect(result.data.flaggedIngredients[0]?.reason).toBe(
+        'Listed in your known triggers'
+      );
+      expect(result.data.conditionWarnings[0]?.condition).toBe('ibs-fodmap');
+    });
+
+    it('should analyze sub-ingredients and may contain traces', async () => {
+      const profile = createMockGutProfile({
+        conditions: createMockConditions({
+          lactose: { enabled: true, severity: 'moderate', knownTriggers: [] },
+          allergies: { enabled: true, severity: 'moderate', knownTriggers: [] },
+        }),
+      });
+
+      const result = await service.analyzeFood(
+        createFood([
+          'potatoes',
+          'seasoning (salt, whey, paprika)',
+          'may contain peanuts',
+        ]),
+        profile
+      );
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      const flagged = result.data.flaggedIngredients.map((f) => f.ingredient);
+      expect(flagged).toEqual(['whey', 'may contain peanuts']);
+      expect(result.data.flaggedIngredients[1]?.condition).toBe('allergies');
+    });
+
+    it('should include a FODMAP subgroup breakdown for ibs-fodmap', async () => {
+      const food = createFood(['Wheat flour (60%)', 'water', 'sorbitol (1%)']);
+      food.servingSizeGrams = 50;
+
+      const fodmap = await service.analyzeFood(
+        food,
+        createMockGutProfile({
+          conditions: createMockConditions({
+            'ibs-fodmap': {
+              enabled: true,
+              severity: 'moderate',
+              knownTriggers: [],
+            },
+          }),
+        })
+      );
+      const reflux = await service.analyzeFood(
+        food,
+        createMockGutProfile({
+          conditions: createMockConditions({
+            reflux: { enabled: true, severity: 'moderate', knownTriggers: [] },
+          }),
+        })
+      );
+
+      expect(
+        fodmap.success &&
+          fodmap.data.fodmapBreakdown?.map((item) => [
+            item.subgroup,
+            item.level,
+          ])
+      ).toEqual([
+        ['fructans', 'moderate'],
+        ['polyols', 'moderate'],
+      ]);
+      expect(reflux.success && reflux.data.fodmapBreakdown).toBeUndefined();
+    });
+
+    it('should apply FODMAP tolerance from the reintroduction protocol', async () => {
+      const food = createFood(['wheat flour', 'water']);
+      const ibs = {
+        enabled: true,
+        severity: 'moderate' as const,
+        knownTriggers: [],
+      };
+
+      const baseline = await service.analyzeFood(
+        food,
+        createMockGutProfile({
+          conditions: createMockConditions({ 'ibs-fodmap': ibs }),
+        })
+      );
+      const tolerated = await service.analyzeFood(food, {
+        ...createMockGutProfile({
+          conditions: createMockConditions({ 'ibs-fodmap': ibs }),
+        }),
+        fodmapTolerance: { fructans: 'tolerated' },
+      });
+
+      expect(baseline.success && baseline.data.overallSafety).not.toBe('safe');
+      expect(tolerated.success && tolerated.data.overallSafety).toBe('safe');
+      expect(
+        tolerated.success && tolerated.data.fodmapBreakdown?.[0]?.tolerance
+      ).toBe('tolerated');
+    });
+
+    it('should ignore triggers for conditions the user has not enabled', async () => {
+      const profile = createMockGutProfile({
+        conditions: createMockConditions({
+          reflux: { enabled: true, severity: 'moderate', knownTriggers: [] },
+        }),
+      });
+
+      const result = await service.analyzeFood(
+        createFood(['whey powder']),
+        profile
+      );
+
+      expect(result.success && result.data.overallSafety).toBe('safe');
+      expect(result.success && result.data.conditionWarnings).toEqual([]);
+    });
+  });
+
+  describe('resolveRecipe', () => {
+    it('should match each line to a food and fall back to a generic one', async () => {
+      jest
+        .spyOn(service, 'searchByName')
+        .mockImplementation(async (query: string) => ({
+          success: true,
+          data:
+            query === 'garlic'
+              ? [
+                  {
+                    ...createFood(['garlic']),
+                    id: 'food-9',
+                    name: 'Garlic Salt',
+                  },
+                  { ...createFood(['garlic']), id: 'food-2', name: 'Garlic' },
+                ]
+              : [],
+        }));
+
+      const result = await service.resolveRecipe(
+        'Ingredients:\n2 cloves garlic, crushed\n2 eggs'
+      );
+
+      expect(result.success && result.data).toEqual([
+        {
+          foodItem: expect.objectContaining({ id: 'food-2', name: 'Garlic' }),
+          portion: { amount: 8, unit: 'g', grams: 8 },
+        },
+        {
+          foodItem: expect.objectContaining({
+            name: 'eggs',
+            ingredients: ['eggs'],
+            dataSource: 'recipe',
+          }),
+          portion: { amount: 2, unit: 'serving', grams: 100 },
+        },
+      ]);
+    });
+  });
+
+  describe('getRecommendations', () => {
+    it('should recommend look-alikes of foods eaten without symptoms', async () => {
+      const profile = createMockGutProfile({
+        conditions: createMockConditions({
+          'ibs-fodmap': {
+            enabled: true,
+            severity: 'moderate',
+            knownTriggers: [],
+          },
+        }),
+      });
+      const riceCakes = { ...createFood(['rice']), name: 'Rice Cakes' };
+      mockFindSimilar.mockResolvedValue([
+        createStoredFood('food-2', 'Corn Thins', ['corn', 'salt']),
+        createStoredFood('food-3', 'Garlic Crackers', [
+          'wheat flour',
+          'garlic',
+        ]),
+      ]);
+      mockFindLowFODMAP.mockResolvedValue([
+        createStoredFood('food-2', 'Corn Thins', ['corn', 'salt']),
+        createStoredFood('food-4', 'Oat Bar', ['oats'], 'Bars'),
+      ]);
+
+      const recommendations = await service.getRecommendations(profile, {
+        safeFoods: [
+          {
+            id: 'safe-1',
+            foodItem: riceCakes,
+            addedDate: new Date(),
+            usageCount: 4,
+          },
+        ],
+        scanHistory: [],
+        symptoms: [],
+      });
+
+      expect(logger.error).not.toHaveBeenCalled();
+      expect(mockFindSimilar).toHaveBeenCalledWith('food-1');
+      expect(mockFindGlutenFree).not.toHaveBeenCalled();
+      expect(recommendations.map(({ name }) => name)).toEqual([
+        'Corn Thins',
+        'Oat Bar',
+      ]);
+      expect(recommendations[0]).toMatchObject({
+        id: 'food-2',
+        reason:
+          "Similar to Rice Cakes, which you've had 4 times without symptoms; low FODMAP",
+        category: 'Crackers',
+        nutritionalValue: { calories: 420, protein: 9, carbs: 70, fat: 11 },
+      });
+      expect(recommendations[0]?.confidence).toBeGreaterThan(
+        recommendations[1]?.confidence ?? 1
+      );
+    });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * @fileoverview HealthService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import HealthService from '../../services/HealthService';
+import type { MedicationSupplement } from '../../types';
+
+const mockStore = new Map<string, string>();
+// Keys whose stored value should behave as if it failed to decrypt
+const mockUnreadable = new Set<string>();
+const mockAddToSyncQueue = jest.fn();
+
+jest.mock('../../services/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) => {
+        const value = mockStore.get(key);
+        return value === undefined || mockUnreadable.has(key)
+          ? null
+          : JSON.parse(value);
+      },
+      setItem: async (key: string, value: unknown) => {
+        mockStore.set(key, JSON.stringify(value));
+        mockUnreadable.delete(key);
+      },
+      addToSyncQueue: mockAddToSyncQueue,
+    }),
+  },
+}));
+
+const mockExecuteQuery = jest.fn();
+let mockDatabaseConnected = false;
+
+jest.mock('../../database/connection', () => ({
+  databaseManager: {
+    isConnected: () => mockDatabaseConnected,
+    getConnection: () => ({ executeQuery: mockExecuteQuery }),
+  },
+}));
+
+jest.mock('../../services/AuthService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getAuthState: () => ({ isAuthenticated: true, user: { id: 'user-1' } }),
+    }),
+  },
+}));
+
+const symptomRow = {
+  id: 's1',
+  user_id: 'user-1',
+  type: 'bloating',
+  severity: 5,
+  duration: 30,
+  timestamp: '2024-02-01T12:00:00.000Z',
+  potential_triggers: '["milk"]',
+  created_at: '2024-02-01T12:00:00.000Z',
+  updated_at: '2024-02-01T12:00:00.000Z',
+};
+
+const medication: MedicationSupplement = {
+  id: 'med-1',
+  name: 'Lactase',
+  type: 'enzyme',
+  dosage: '1 tablet',
+  frequency: 'as_needed',
+  startDate: new Date('2024-01-01T00:00:00Z'),
+  isActive: true,
+  gutRelated: true,
+};
+
+describe('HealthService persistence', () => {
+  let service: HealthService;
+
+  const logBloating = () =>
+    service.logSymptoms({
+      symptoms: [
+        {
+          id: 's1',
+          type: 'bloating',
+          severity: 5,
+          duration: 30,
+          timestamp: new Date('2024-02-01T12:00:00Z'),
+        },
+      ],
+      foodItems: ['Milk'],
+    });
+
+  beforeEach(async () => {
+    mockStore.clear();
+    mockUnreadable.clear();
+    mockDatabaseConnected = false;
+    service = HealthService.getInstance();
+    await service.initialize();
+  });
+
+  it('should persist logs encrypted and restore them with dates', async () => {
+    await logBloating();
+    await service.logMedication({ medication, dosage: '1 tablet' });
+
+    await service.initialize();
+
+    const [symptomLog] = service.getSymptomLogs();
+    const [medicationLog] = service.getMedicationLogs();
+    expect(symptomLog?.timestamp).toBeInstanceOf(Date);
+    expect(symptomLog?.symptoms[0]?.timestamp).toEqual(
+      new Date('2024-02-01T12:00:00Z')
+    );
+    expect(medicationLog?.medication.startDate).toEqual(medication.startDate);
+    expect(
+      JSON.parse(mockStore.get('gut_safe_health_manifest') ?? '{}')
+    ).toMatchObject({ version: 1, symptomLogCount: 1, medicationLogCount: 1 });
+  });
+
+  it('should migrate logs stored before versioning', async () => {
+    mockStore.set(
+      'gut_safe_symptom_logs',
+      JSON.stringify([
+        {
+          id: 'legacy',
+          symptoms: [],
+          foodItems: [],
+          timestamp: '2023-12-01T00:00:00Z',
+        },
+      ])
+    );
+
+    await service.initialize();
+
+    expect(service.getSymptomLogs().map((log) => log.id)).toEqual(['legacy']);
+  });
+
+  it('should recover from the backup when logs fail to decrypt', async () => {
+    await logBloating();
+    // Loading takes a backup of the readable logs
+    await service.initialize();
+    await logBloating();
+
+    mockUnreadable.add('gut_safe_symptom_logs');
+    await service.initialize();
+
+    expect(service.getSymptomLogs()).toHaveLength(1);
+  });
+
+  it('should drop records that are too damaged to revive', async () => {
+    mockStore.set(
+      'gut_safe_symptom_logs',
+      JSON.stringify({
+        version: 1,
+        logs: [
+          { id: 'ok', symptoms: [], foodItems: [], timestamp: '2024-01-02' },
+          { id: 'broken', symptoms: [], foodItems: [], timestamp: 'never' },
+        ],
+      })
+    );
+
+    await service.initialize();
+
+    expect(service.getSymptomLogs().map((log) => log.id)).toEqual(['ok']);
+  });
+
+  it('should queue only changed medications for sync', async () => {
+    service.setMedications([]);
+    mockAddToSyncQueue.mockResolvedValue(undefined);
+
+    service.setMedications([medication]);
+    service.setMedications([medication]);
+    service.setMedications([{ ...medication, dosage: '2 tablets' }]);
+
+    expect(mockAddToSyncQueue).toHaveBeenCalledTimes(2);
+    expect(mockAddToSyncQueue).toHaveBeenLastCalledWith(
+      'medications',
+      expect.objectContaining({ clientId: 'med-1', dosage: '2 tablets' })
+    );
+  });
+
+  it('should restore logged meals and count each as one exposure', async () => {
+    const food = {
+      id: 'food-1',
+      name: 'Rice',
+      ingredients: ['rice'],
+      allergens: [],
+      additives: [],
+      glutenFree: true,
+      lactoseFree: true,
+    };
+    await service.logMeal({
+      name: 'Stir-fry',
+      components: [
+        { foodItem: food, portion: { amount: 150, unit: 'g', grams: 150 } },
+        {
+          foodItem: { ...food, id: 'food-2', name: 'Tofu' },
+          portion: { amount: 100, unit: 'g', grams: 100 },
+        },
+      ],
+      analysis: {
+        overallSafety: 'safe',
+        flaggedIngredients: [],
+        conditionWarnings: [],
+        safeAlternatives: [],
+        explanation: 'No triggers found for your gut profile',
+        dataSource: 'FoodService',
+        lastUpdated: new Date(),
+        portionGrams: 250,
+      },
+    });
+
+    await service.initialize();
+
+    const [meal] = service.getMeals();
+    expect(meal?.timestamp).toBeInstanceOf(Date);
+    expect(meal?.analysis.lastUpdated).toBeInstanceOf(Date);
+
+    await service.logSymptoms({
+      symptoms: [
+        {
+          id: 's2',
+          type: 'bloating',
+          severity: 4,
+          duration: 60,
+          timestamp: new Date(
+            (meal?.timestamp.getTime() ?? 0) + 60 * 60 * 1000
+          ),
+        },
+      ],
+      foodItems: [],
+    });
+    expect(
+      service
+        .analyzeFoodCorrelations({ minSupport: 1 })
+        .map(({ food: name, averageGrams }) => [name, averageGrams])
+    ).toEqual([['Stir-fry', 250]]);
+  });
+});
+
+describe('HealthService database queries', () => {
+  let service: HealthService;
+
+  beforeEach(async () => {
+    mockStore.clear();
+    mockExecuteQuery.mockReset();
+    mockExecuteQuery.mockResolvedValue([]);
+    mockDatabaseConnected = false;
+    service = HealthService.getInstance();
+    await service.initialize();
+  });
+
+  it('should mirror logged symptoms into the database', async () => {
+    mockDatabaseConnected = true;
+    mockExecuteQuery.mockImplementation(async (query: string) =>
+      query.includes('FROM gut_symptoms WHERE id = ?') ? [symptomRow] : []
+    );
+
+    await service.logSymptoms({
+      symptoms: [
+        {
+          id: 's1',
+          type: 'bloating',
+          severity: 5,
+          duration: 30,
+          timestamp: new Date('2024-02-01T12:00:00Z'),
+        },
+      ],
+      stressLevel: 4,
+    });
+
+    const queries = mockExecuteQuery.mock.calls.map(([query]) => query);
+    const insert = mockExecuteQuery.mock.calls.find(([query]) =>
+      query.includes('INSERT INTO gut_symptoms')
+    );
+    expect(insert?.[1]).toEqual(
+      expect.arrayContaining(['s1', 'user-1', 'bloating', '[]', 4])
+    );
+    expect(
+      queries.some((query) => query.includes('INSERT INTO analytics_data'))
+    ).toBe(true);
+  });
+
+  it('should mirror edited symptom logs into the database', async () => {
+    mockDatabaseConnected = true;
+    mockExecuteQuery.mockImplementation(async (query: string) =>
+      query.includes('FROM gut_symptoms WHERE id = ?') ? [symptomRow] : []
+    );
+    const logId = await service.logSymptoms({
+      symptoms: [
+        {
+          id: 's1',
+          type: 'bloating',
+          severity: 5,
+          duration: 30,
+          timestamp: new Date('2024-02-01T12:00:00Z'),
+        },
+      ],
+    });
+    mockExecuteQuery.mockClear();
+
+    await service.updateSymptomLog(logId, {
+      symptoms: [
+        {
+          id: 's1',
+          type: 'bloating',
+          severity: 8,
+          duration: 60,
+          timestamp: new Date('2024-02-01T12:00:00Z'),
+        },
+      ],
+    });
+
+    const [deleteCall, insertCall] = mockExecuteQuery.mock.calls;
+    expect(deleteCall).toEqual([
+      'DELETE FROM gut_symptoms WHERE id IN (?)',
+      ['s1'],
+    ]);
+    expect(insertCall?.[0]).toContain('INSERT INTO gut_symptoms');
+    expect(insertCall?.[1]).toEqual(
+      expect.arrayContaining(['s1', 'user-1', 'bloating', 8, 60])
+    );
+  });
+
+  it('should query symptoms in a date range from the database', async () => {
+    mockDatabaseConnected = true;
+    mockExecuteQuery.mockResolvedValue([symptomRow]);
+    const start = new Date('2024-02-01T00:00:00Z');
+    const end = new Date('2024-02-02T00:00:00Z');
+
+    const symptoms = await service.getSymptomsInRange(start, end);
+
+    expect(mockExecuteQuery).toHaveBeenCalledWith(
+      expect.stringContaining('timestamp BETWEEN ? AND ?'),
+      ['user-1', start.toISOString(), end.toISOString()]
+    );
+    expect(symptoms).toEqual([
+      {
+        id: 's1',
+        type: 'bloating',
+        severity: 5,
+        duration: 30,
+        timestamp: new Date('2024-02-01T12:00:00Z'),
+        potentialTriggers: ['milk'],
+      },
+    ]);
+  });
+
+  it('should page symptom history from memory when offline', async () => {
+    await service.logSymptoms({
+      symptoms: [1, 2, 3].map((day) => ({
+        id: `s${day}`,
+        type: 'gas' as const,
+        severity: 3 as const,
+        duration: 10,
+        timestamp: new Date(`2024-03-0${day}T08:00:00Z`),
+      })),
+    });
+
+    const page = await service.getSymptomHistoryPage(1, 2);
+
+    expect(page.items.map((symptom) => symptom.id)).toEqual(['s3', 's2']);
+    expect(page).toMatchObject({ total: 3, hasMore: true });
+    expect(mockExecuteQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview LabelScanService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { createFoodApiMockServer } from '../../../scripts/food-api-mock-server';
+import LabelScanService, {
+  GoogleVisionTextRecognizer,
+  type LabelPhoto,
+} from '../../services/LabelScanService';
+import {
+  createMockConditions,
+  createMockGutProfile,
+} from '../../utils/testUtils';
+
+jest.mock('../../utils/errorHandler');
+
+const mockCreate = jest.fn();
+jest.mock('../../database/repositories/FoodItemRepository', () => ({
+  FoodItemRepository: class {
+    create = mockCreate;
+  },
+}));
+jest.mock('../../database/connection', () => ({
+  databaseManager: { isConnected: () => true },
+}));
+jest.mock('../../services/StorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ addToSyncQueue: jest.fn() }) },
+}));
+
+// Label photos the stand-in server has recorded Vision responses for
+const loadLabelPhoto = (name: string): LabelPhoto => {
+  const file = readFileSync(
+    join(__dirname, '../../../scripts/fixtures/food-apis/labels', name)
+  );
+  return { uri: `data:image/png;base64,${file.toString('base64')}` };
+};
+
+describe('LabelScanService', () => {
+  const foodApiServer = createFoodApiMockServer();
+  const service = LabelScanService.getInstance();
+
+  beforeAll(async () => {
+    // setupTests mocks fetch; these requests must reach the stand-in server
+    global.fetch = jest.requireActual<typeof fetch>('node-fetch');
+    await foodApiServer.start(0);
+    foodApiServer.applyToEnv();
+    process.env['REACT_APP_GOOGLE_VISION_API_KEY'] = 'local';
+  });
+
+  afterAll(async () => {
+    await foodApiServer.stop();
+  });
+
+  beforeEach(() => {
+    foodApiServer.setScenario();
+    service.setTextRecognizer(new GoogleVisionTextRecognizer());
+    jest.clearAllMocks();
+    mockCreate.mockImplementation(async (data: object) => ({
+      ...data,
+      id: 'food-1',
+    }));
+  });
+
+  it('should save the cleaned ingredient list as an unverified user food', async () => {
+    const result = await service.scanIngredientLabel(
+      loadLabelPhoto('granola-bar.png'),
+      { name: 'Crunchy Oat & Honey Bar', barcode: '041196910759' },
+      createMockGutProfile({
+        conditions: createMockConditions({
+          'ibs-fodmap': {
+            enabled: true,
+            severity: 'moderate',
+            knownTriggers: [],
+          },
+        }),
+      })
+    );
+
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Crunchy Oat & Honey Bar',
+        barcode: '00041196910759',
+        ingredients: [
+          'WHOLE GRAIN OATS, HONEY, CANE SUGAR, ALMONDS, CHICORY ROOT FIBER (INULIN), SUNFLOWER OIL, SEA SALT, SOY LECITHIN, NATURAL FLAVOR. MAY CONTAIN PEANUTS.',
+        ],
+        allergens: ['almonds', 'soy'],
+        dataSource: 'user',
+        isVerified: false,
+      })
+    );
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.foodItem).toMatchObject({
+        traces: ['peanuts'],
+        verificationStatus: 'pending',
+      });
+      // Inulin is a high-FODMAP fibre
+      expect(result.data.analysis.overallSafety).not.toBe('safe');
+      expect(result.data.recognizedText).toContain('NET WT');
+    }
+  });
+
+  it('should report a photo without an ingredient list', async () => {
+    const result = await service.scanIngredientLabel(
+      loadLabelPhoto('nutrition-panel.png'),
+      { name: 'Granola Bar' },
+      createMockGutProfile({ conditions: createMockConditions() })
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toBe(
+        'No ingredient list found in the photo'
+      );
+    }
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('should pass on Vision failures without saving', async () => {
+    foodApiServer.setScenario({ failures: { googleVision: 503 } });
+
+    const result = await service.scanIngredientLabel(
+      loadLabelPhoto('oat-drink.png'),
+      { name: 'Oat Drink' },
+      createMockGutProfile({ conditions: createMockConditions() })
+    );
+
+    expect(result.success).toBe(false);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('should accept other OCR engines', async () => {
+    service.setTextRecognizer({
+      recognizeText: async () => ({
+        success: true,
+        data: 'Zutaten: Wasser, Hafer 10 %,\nSonnenblumen-\nöl, Salz.',
+      }),
+    });
+
+    const result = await service.scanIngredientLabel(
+      { uri: 'file:///photo.jpg' },
+      { name: 'Haferdrink', brand: 'Oatly' },
+      createMockGutProfile({ conditions: createMockConditions() })
+    );
+
+    expect(result.success && result.data.foodItem).toMatchObject({
+      brand: 'Oatly',
+      ingredients: ['Wasser, Hafer 10 %, Sonnenblumenöl, Salz.'],
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview OfflineService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import OfflineService from '../../services/OfflineService';
+import type { FoodItem } from '../../types';
+
+const mockUpsertFood = jest.fn();
+jest.mock('../../database/repositories/OfflineFoodRepository', () => ({
+  OfflineFoodRepository: class {
+    upsertFood = mockUpsertFood;
+    async open(): Promise<void> {}
+    async close(): Promise<void> {}
+    async evictToLimits(): Promise<number> {
+      return 0;
+    }
+  },
+}));
+
+let mockFoodsFoundListener: ((foodItems: FoodItem[]) => void) | null = null;
+jest.mock('../../services/FoodService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getCachedFoodItems: () => [],
+      getRecentOpenFoodFactsItems: () => [],
+      onFoodsFound: (listener: (foodItems: FoodItem[]) => void) => {
+        mockFoodsFoundListener = listener;
+        return () => {
+          mockFoodsFoundListener = null;
+        };
+      },
+    }),
+  },
+}));
+
+jest.mock('../../services/NetworkService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ on: jest.fn(), off: jest.fn() }) },
+}));
+
+jest.mock('../../services/StorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getItem: async () => null }) },
+}));
+
+const createFood = (id: string, barcode: string): FoodItem => ({
+  id,
+  name: `Food ${id}`,
+  barcode,
+  ingredients: ['oats'],
+  allergens: [],
+  additives: [],
+  glutenFree: false,
+  lactoseFree: true,
+});
+
+describe('OfflineService', () => {
+  it('should store products found online in the offline store', async () => {
+    const service = OfflineService.getInstance();
+    await service.initialize();
+    const foods = [
+      createFood('food-1', '00012345678905'),
+      createFood('food-2', '04006381333931'),
+    ];
+
+    mockFoodsFoundListener?.(foods);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(mockUpsertFood).toHaveBeenCalledWith(foods[0], 'cache');
+    expect(mockUpsertFood).toHaveBeenCalledWith(foods[1], 'cache');
+
+    service.cleanup();
+    expect(mockFoodsFoundListener).toBeNull();
+  });
+});
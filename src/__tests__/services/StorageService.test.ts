@@ -0,0 +1,151 @@
+/**
+ * @fileoverview StorageService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import AuthService from '../../services/AuthService';
+import StorageService from '../../services/StorageService';
+
+const API_BASE_URL = 'http://localhost:3000/api';
+jest.mock('../../config/environment', () => ({
+  getApiConfig: () => ({ baseUrl: API_BASE_URL, timeout: 30000 }),
+}));
+
+// validation.ts does not build under the test transform; sign-in skips it
+jest.mock('../../utils/validation', () => ({ validators: {} }));
+
+jest.mock('../../utils/errorHandler');
+
+jest.mock('../../services/NetworkService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ isSuitableForSync: async () => true }) },
+}));
+
+const mockSetSettingValue = jest.fn();
+jest.mock('../../services/UserSettingsService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ setSettingValue: mockSetSettingValue }) },
+}));
+
+const respond = (status: number, body: object = {}) =>
+  Promise.resolve({
+    ok: status < 400,
+    status,
+    statusText: `${status}`,
+    json: () => Promise.resolve(body),
+  });
+
+const loginResponse = {
+  user: { id: 'user-1', email: 'ada@example.com', firstName: 'Ada' },
+  tokens: { accessToken: 'access-1', refreshToken: 'refresh-1' },
+};
+
+// Background runs only chain promises, so they finish within one macrotask
+const flushSync = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('StorageService sync', () => {
+  const authService = AuthService.getInstance();
+  const storageService = StorageService.getInstance();
+  const fetchMock = global.fetch as jest.Mock;
+  const scansUrl = `${API_BASE_URL}/scans`;
+
+  const scanRequests = () =>
+    fetchMock.mock.calls.filter(([url]) => url === scansUrl);
+
+  afterEach(async () => {
+    storageService.cleanup();
+    await authService.signOut();
+  });
+
+  it('should push queued changes once the user signs in', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      url.endsWith('/auth/login') ? respond(200, loginResponse) : respond(201)
+    );
+    storageService.startAutoSync({
+      getAuthToken: () => authService.getAccessToken(),
+    });
+
+    await storageService.addToSyncQueue('scans', { id: 'scan-1' });
+    await flushSync();
+    expect(scanRequests()).toHaveLength(0);
+
+    const signIn = await authService.signIn('ada@example.com', 'secret');
+    expect(signIn.success).toBe(true);
+    expect(authService.getAccessToken()).toBe('access-1');
+
+    storageService.requestSync();
+    await flushSync();
+
+    expect(scanRequests()).toHaveLength(1);
+    expect(scanRequests()[0][1]).toMatchObject({
+      method: 'POST',
+      body: JSON.stringify({ id: 'scan-1' }),
+      headers: expect.objectContaining({ Authorization: 'Bearer access-1' }),
+    });
+    expect(storageService.getSyncQueueLength()).toBe(0);
+    expect(mockSetSettingValue).toHaveBeenCalledWith(
+      'sync',
+      'lastSync',
+      expect.any(Date)
+    );
+  });
+
+  it('should renew a refused token and push with the new one', async () => {
+    fetchMock.mockImplementation(
+      (url: string, init: { headers?: Record<string, string> }) => {
+        if (url.endsWith('/auth/login')) {
+          return respond(200, loginResponse);
+        }
+        if (url.endsWith('/auth/refresh')) {
+          return respond(200, { accessToken: 'access-2' });
+        }
+        return respond(
+          init.headers?.['Authorization'] === 'Bearer access-2' ? 201 : 401
+        );
+      }
+    );
+    await authService.signIn('ada@example.com', 'secret');
+    storageService.startAutoSync({
+      getAuthToken: () => authService.getAccessToken(),
+      onUnauthorized: async () => {
+        await authService.refreshAccessToken();
+      },
+    });
+
+    await storageService.addToSyncQueue('scans', { id: 'scan-1' });
+    await flushSync();
+
+    expect(storageService.getSyncQueueLength()).toBe(1);
+    expect(authService.getAccessToken()).toBe('access-2');
+
+    storageService.requestSync();
+    await flushSync();
+
+    expect(storageService.getSyncQueueLength()).toBe(0);
+  });
+
+  it('should stop syncing after sign-out', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      url.endsWith('/auth/login') ? respond(200, loginResponse) : respond(201)
+    );
+    await authService.signIn('ada@example.com', 'secret');
+    await authService.signOut();
+    storageService.startAutoSync({
+      getAuthToken: () => authService.getAccessToken(),
+    });
+
+    await storageService.addToSyncQueue('scans', { id: 'scan-1' });
+    await flushSync();
+
+    expect(authService.getAccessToken()).toBeNull();
+    expect(scanRequests()).toHaveLength(0);
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringMatching(/\/auth\/logout$/),
+      expect.objectContaining({
+        body: JSON.stringify({ refreshToken: 'refresh-1' }),
+      })
+    );
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview UserFoodService.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import UserFoodService from '../../services/UserFoodService';
+
+jest.mock('../../utils/errorHandler');
+
+const mockCreate = jest.fn();
+const mockFindByBarcode = jest.fn();
+jest.mock('../../database/repositories/FoodItemRepository', () => ({
+  FoodItemRepository: jest.fn().mockImplementation(() => ({
+    create: mockCreate,
+    findByBarcode: mockFindByBarcode,
+  })),
+}));
+
+const mockIsConnected = jest.fn();
+jest.mock('../../database/connection', () => ({
+  databaseManager: { isConnected: () => mockIsConnected() },
+}));
+
+const mockAddToSyncQueue = jest.fn();
+jest.mock('../../services/StorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ addToSyncQueue: mockAddToSyncQueue }) },
+}));
+
+const storedFood = {
+  id: 'food-1',
+  name: 'Seed Crackers',
+  barcode: '00041196910759',
+  ingredients: ['Sunflower seeds, flax seeds, sesame. May contain peanuts.'],
+  allergens: ['sesame'],
+  additives: [],
+  gutHealthInfo: { glutenFree: false, lactoseFree: false },
+  dataSource: 'user',
+  isVerified: false,
+};
+
+describe('UserFoodService', () => {
+  const service = UserFoodService.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIsConnected.mockReturnValue(true);
+    mockCreate.mockImplementation(async (data: object) => ({
+      ...data,
+      id: 'food-1',
+    }));
+  });
+
+  it('should store the product unverified and queue it for the backend', async () => {
+    const result = await service.createUserFood({
+      name: ' Seed Crackers ',
+      brand: 'Corner Bakery',
+      barcode: '041196910759',
+      ingredients: 'Sunflower seeds, flax\nseeds, sesa-\nme.',
+      allergens: ['Sesame', ' sesame', ''],
+    });
+
+    const food = {
+      name: 'Seed Crackers',
+      brand: 'Corner Bakery',
+      barcode: '00041196910759',
+      ingredients: ['Sunflower seeds, flax seeds, sesame.'],
+      allergens: ['sesame'],
+      additives: [],
+      gutHealthInfo: { glutenFree: false, lactoseFree: false },
+      dataSource: 'user',
+    };
+    expect(mockCreate).toHaveBeenCalledWith({ ...food, isVerified: false });
+    expect(mockAddToSyncQueue).toHaveBeenCalledWith('foods', food);
+    expect(result.success && result.data).toMatchObject({
+      id: 'food-1',
+      verificationStatus: 'pending',
+    });
+  });
+
+  it('should reject incomplete products without saving them', async () => {
+    const missingName = await service.createUserFood({
+      name: ' ',
+      ingredients: 'Oats',
+      allergens: [],
+    });
+    const badBarcode = await service.createUserFood({
+      name: 'Oat Bar',
+      barcode: '4006381333932',
+      ingredients: 'Oats',
+      allergens: [],
+    });
+
+    expect(!missingName.success && missingName.error.message).toBe(
+      'Product name is required'
+    );
+    expect(!badBarcode.success && badBarcode.error.message).toBe(
+      'Invalid barcode'
+    );
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockAddToSyncQueue).not.toHaveBeenCalled();
+  });
+
+  it('should show how a stored product was reviewed', async () => {
+    mockFindByBarcode.mockResolvedValueOnce({
+      ...storedFood,
+      isVerified: true,
+      verificationDate: new Date(),
+    });
+    mockFindByBarcode.mockResolvedValueOnce({
+      ...storedFood,
+      verificationDate: new Date(),
+    });
+
+    expect(await service.findByBarcode('041196910759')).toMatchObject({
+      verificationStatus: 'verified',
+      traces: ['peanuts'],
+    });
+    expect(
+      (await service.findByBarcode('041196910759'))?.verificationStatus
+    ).toBe('rejected');
+
+    mockIsConnected.mockReturnValue(false);
+    expect(await service.findByBarcode('041196910759')).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview barcode.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  barcodeVariants,
+  calculateCheckDigit,
+  expandUpcE,
+  hasValidCheckDigit,
+  normaliseBarcode,
+  toGtin14,
+  toLookupBarcode,
+  toUpcA,
+} from '../../utils/barcode';
+
+describe('barcode', () => {
+  it('should calculate and verify GS1 check digits', () => {
+    expect(calculateCheckDigit('400638133393')).toBe(1);
+    expect(calculateCheckDigit('03600029145')).toBe(2);
+    expect(hasValidCheckDigit('4006381333931')).toBe(true);
+    expect(hasValidCheckDigit('4006381333932')).toBe(false);
+    expect(hasValidCheckDigit('96385074')).toBe(true);
+  });
+
+  it('should canonicalise every printed form of a code to the same GTIN-14', () => {
+    expect(normaliseBarcode('036000291452')).toEqual({
+      gtin14: '00036000291452',
+      format: 'UPC-A',
+    });
+    expect(toGtin14('0036000291452')).toBe('00036000291452');
+    expect(toGtin14('00036000291452')).toBe('00036000291452');
+    expect(toGtin14('0 36000-29145 2')).toBe('00036000291452');
+    expect(toGtin14('96385074')).toBe('00000096385074');
+
+    expect(toLookupBarcode('00036000291452')).toBe('0036000291452');
+    expect(toLookupBarcode('00000096385074')).toBe('96385074');
+    expect(toUpcA('00036000291452')).toBe('036000291452');
+    expect(toUpcA('04006381333931')).toBeNull();
+  });
+
+  it('should list every form a code may have been stored under', () => {
+    expect(barcodeVariants('00036000291452')).toEqual([
+      '00036000291452',
+      '0036000291452',
+      '036000291452',
+    ]);
+    expect(barcodeVariants('04006381333931')).toEqual([
+      '04006381333931',
+      '4006381333931',
+    ]);
+    expect(barcodeVariants('00000096385074')).toContain('96385074');
+  });
+
+  it('should expand UPC-E codes', () => {
+    expect(expandUpcE('04252614')).toBe('042100005264');
+    expect(expandUpcE('04252615')).toBeNull();
+    expect(normaliseBarcode('04252614', 'upc_e')).toEqual({
+      gtin14: '00042100005264',
+      format: 'UPC-E',
+    });
+  });
+
+  it('should reject misreads', () => {
+    expect(toGtin14('4006381333932')).toBeNull();
+    expect(toGtin14('40063813339')).toBeNull();
+    expect(toGtin14('40063813339X')).toBeNull();
+    expect(toGtin14('0000000000000')).toBeNull();
+    expect(toGtin14('')).toBeNull();
+  });
+});
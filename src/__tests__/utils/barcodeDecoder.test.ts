@@ -0,0 +1,69 @@
+/**
+ * @fileoverview barcodeDecoder.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import type { BarcodeImage } from '../../utils/barcodeDecoder';
+import { decodeBarcodeImage } from '../../utils/barcodeDecoder';
+
+// Fixture photos are binary greyscale PGM files
+const loadFixture = (name: string): BarcodeImage => {
+  const file = readFileSync(join(__dirname, '../fixtures/barcodes', name));
+  const [, width, height] =
+    /^P5\s+(\d+)\s+(\d+)\s+255\s/.exec(file.toString('latin1')) ?? [];
+  const pixels = Number(width) * Number(height);
+  return {
+    width: Number(width),
+    height: Number(height),
+    data: file.subarray(file.length - pixels),
+    channels: 1,
+  };
+};
+
+describe('barcodeDecoder', () => {
+  it('should read a slightly rotated EAN-13 under uneven lighting', () => {
+    expect(decodeBarcodeImage(loadFixture('ean13-5449000000996.pgm'))).toEqual({
+      type: 'ean13',
+      data: '5449000000996',
+    });
+  });
+
+  it('should read an upside-down UPC-A', () => {
+    expect(decodeBarcodeImage(loadFixture('upca-041196910759.pgm'))).toEqual({
+      type: 'upc_a',
+      data: '041196910759',
+    });
+  });
+
+  it('should read EAN-8 and a sideways UPC-E', () => {
+    expect(decodeBarcodeImage(loadFixture('ean8-96385074.pgm'))).toEqual({
+      type: 'ean8',
+      data: '96385074',
+    });
+    expect(decodeBarcodeImage(loadFixture('upce-04252614.pgm'))).toEqual({
+      type: 'upc_e',
+      data: '04252614',
+    });
+  });
+
+  it('should read RGBA frames like those from a canvas', () => {
+    const grey = loadFixture('ean8-96385074.pgm');
+    const rgba = new Uint8ClampedArray(grey.width * grey.height * 4);
+    Array.from(grey.data).forEach((value, i) => {
+      rgba.set([value, value, value, 255], i * 4);
+    });
+
+    expect(
+      decodeBarcodeImage({ width: grey.width, height: grey.height, data: rgba })
+    ).toEqual({ type: 'ean8', data: '96385074' });
+  });
+
+  it('should find nothing in an image without a barcode', () => {
+    expect(decodeBarcodeImage(loadFixture('no-barcode.pgm'))).toBeNull();
+  });
+});
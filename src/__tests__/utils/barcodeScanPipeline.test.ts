@@ -0,0 +1,92 @@
+/**
+ * @fileoverview barcodeScanPipeline.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { BarcodeScanPipeline } from '../../utils/barcodeScanPipeline';
+
+const mockSearchByBarcode = jest.fn();
+jest.mock('../../services/FoodService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ searchByBarcode: mockSearchByBarcode }),
+  },
+}));
+
+const coke = { type: 'ean13', data: '5449000000996' };
+
+describe('BarcodeScanPipeline', () => {
+  it('should accept a code only after consistent reads', () => {
+    const pipeline = new BarcodeScanPipeline({ requiredReads: 3 });
+
+    expect(pipeline.submitRead(coke, 0)).toBeNull();
+    // Misreads are dropped without breaking the run
+    expect(
+      pipeline.submitRead({ ...coke, data: '5449000000997' }, 100)
+    ).toBeNull();
+    expect(pipeline.submitRead(coke, 200)).toBeNull();
+    expect(pipeline.submitRead(coke, 300)).toEqual({
+      gtin14: '05449000000996',
+      format: 'EAN-13',
+    });
+  });
+
+  it('should start counting again for a different code or a long gap', () => {
+    const pipeline = new BarcodeScanPipeline({
+      requiredReads: 2,
+      readWindowMs: 500,
+    });
+
+    pipeline.submitRead(coke, 0);
+    expect(
+      pipeline.submitRead({ type: 'ean8', data: '96385074' }, 100)
+    ).toBeNull();
+    expect(pipeline.submitRead(coke, 200)).toBeNull();
+    expect(pipeline.submitRead(coke, 1000)).toBeNull();
+    expect(pipeline.submitRead(coke, 1100)?.gtin14).toBe('05449000000996');
+  });
+
+  it('should debounce repeated reads of an accepted code', () => {
+    const pipeline = new BarcodeScanPipeline({
+      requiredReads: 1,
+      debounceMs: 2000,
+    });
+
+    expect(pipeline.submitRead(coke, 0)).not.toBeNull();
+    expect(pipeline.submitRead(coke, 500)).toBeNull();
+    // The same product written as a GTIN-14 is still the same code
+    expect(
+      pipeline.submitRead({ type: 'itf14', data: '05449000000996' }, 1000)
+    ).toBeNull();
+    expect(pipeline.submitRead(coke, 2500)).not.toBeNull();
+
+    pipeline.reset();
+    expect(pipeline.submitRead(coke, 2600)).not.toBeNull();
+  });
+
+  it('should hand a still image to FoodService by its canonical barcode', async () => {
+    mockSearchByBarcode.mockResolvedValue({ success: true, data: null });
+    const pipeline = new BarcodeScanPipeline();
+    const file = readFileSync(
+      join(__dirname, '../fixtures/barcodes/upca-041196910759.pgm')
+    );
+
+    const outcome = await pipeline.scanImage({
+      width: 320,
+      height: 150,
+      data: file.subarray(file.length - 320 * 150),
+      channels: 1,
+    });
+
+    expect(mockSearchByBarcode).toHaveBeenCalledWith('00041196910759');
+    expect(outcome).toEqual({
+      barcode: { gtin14: '00041196910759', format: 'UPC-A' },
+      food: { success: true, data: null },
+    });
+  });
+});
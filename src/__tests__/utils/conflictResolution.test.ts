@@ -0,0 +1,143 @@
+/**
+ * @fileoverview conflictResolution.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { SafeFood } from '../../types';
+import {
+  mergeGutProfiles,
+  mergeSafeFoods,
+} from '../../utils/conflictResolution';
+import {
+  createMockGutProfile,
+  type MockGutProfileOverrides,
+} from '../../utils/testUtils';
+
+// The copy both devices started from
+const savedProfile: MockGutProfileOverrides = {
+  conditions: {
+    lactose: { enabled: true, severity: 'moderate', knownTriggers: ['Milk'] },
+  },
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+const createSafeFood = (overrides: Partial<SafeFood> = {}): SafeFood => ({
+  id: 'safe-1',
+  foodItem: {
+    id: 'food-1',
+    name: 'Rice',
+    ingredients: ['rice'],
+    allergens: [],
+    additives: [],
+    glutenFree: true,
+    lactoseFree: true,
+  },
+  addedDate: new Date('2024-01-01'),
+  usageCount: 1,
+  ...overrides,
+});
+
+describe('conflictResolution', () => {
+  it('should merge conditions field by field using the newest edit', () => {
+    const local = createMockGutProfile({
+      ...savedProfile,
+      updatedAt: new Date('2024-03-01'),
+    });
+    local.conditions['ibs-fodmap'] = {
+      enabled: true,
+      severity: 'mild',
+      knownTriggers: [],
+      lastUpdated: new Date('2024-02-01'),
+    };
+    const remote = createMockGutProfile({
+      ...savedProfile,
+      updatedAt: new Date('2024-02-15'),
+    });
+    remote.conditions['ibs-fodmap'] = {
+      enabled: true,
+      severity: 'severe',
+      knownTriggers: [],
+      lastUpdated: new Date('2024-02-10'),
+    };
+    remote.conditions.gluten = {
+      enabled: true,
+      severity: 'mild',
+      knownTriggers: [],
+      lastUpdated: new Date('2023-12-01'),
+    };
+
+    const { merged, conflicts } = mergeGutProfiles(local, remote);
+
+    // The remote severity edit is newer even though the local profile is
+    expect(merged.conditions['ibs-fodmap'].severity).toBe('severe');
+    // The remote gluten edit predates the local profile
+    expect(merged.conditions.gluten.enabled).toBe(false);
+    expect(merged.updatedAt).toEqual(new Date('2024-03-01'));
+    expect(conflicts.map((conflict) => conflict.field)).toEqual([
+      'conditions.ibs-fodmap.severity',
+      'conditions.gluten.enabled',
+    ]);
+  });
+
+  it('should keep known triggers from both devices', () => {
+    const local = createMockGutProfile(savedProfile);
+    const remote = createMockGutProfile(savedProfile);
+    remote.conditions.lactose = {
+      ...remote.conditions.lactose,
+      knownTriggers: ['milk', 'Cheese'],
+    };
+
+    const { merged, conflicts } = mergeGutProfiles(local, remote);
+
+    expect(merged.conditions.lactose.knownTriggers).toEqual(['Milk', 'Cheese']);
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        field: 'conditions.lactose.knownTriggers',
+        strategy: 'union',
+      }),
+    ]);
+  });
+
+  it('should keep the most recently edited safe food notes', () => {
+    const local = createSafeFood({
+      notes: 'Fine in small portions',
+      usageCount: 4,
+      updatedAt: new Date('2024-02-01'),
+    });
+    const remote = createSafeFood({
+      notes: 'Fine with lactase',
+      usageCount: 2,
+      lastUsed: new Date('2024-02-20'),
+      updatedAt: new Date('2024-02-10'),
+    });
+
+    const { merged, conflicts } = mergeSafeFoods(local, remote);
+
+    expect(merged.notes).toBe('Fine with lactase');
+    expect(merged.usageCount).toBe(4);
+    expect(merged.lastUsed).toEqual(new Date('2024-02-20'));
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        field: 'notes',
+        localValue: 'Fine in small portions',
+        resolvedValue: 'Fine with lactase',
+        strategy: 'last_writer_wins',
+      }),
+    ]);
+  });
+
+  it('should report no conflicts for identical copies', () => {
+    const food = createSafeFood({ notes: 'Always fine' });
+
+    expect(
+      mergeGutProfiles(
+        createMockGutProfile(savedProfile),
+        createMockGutProfile(savedProfile)
+      ).conflicts
+    ).toEqual([]);
+    expect(mergeSafeFoods(food, { ...food }).conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview fodmapClassifier.test.ts - Tests for FODMAP subgroup classification
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  classifyFodmaps,
+  classifyMealFodmaps,
+  getOverallFodmapLevel,
+} from '../../utils/fodmapClassifier';
+
+describe('fodmapClassifier', () => {
+  describe('classifyFodmaps', () => {
+    it('should compare declared amounts against serving thresholds', () => {
+      const breakdown = classifyFodmaps({
+        ingredients: ['Wheat flour (50%), sugar, sorbitol (2%)'],
+        servingSizeGrams: 40,
+      });
+
+      expect(breakdown).toEqual([
+        {
+          subgroup: 'fructans',
+          level: 'moderate',
+          ingredients: ['Wheat flour'],
+          estimatedGrams: 20,
+          servingSizeGrams: 40,
+        },
+        {
+          subgroup: 'polyols',
+          level: 'moderate',
+          ingredients: ['sorbitol'],
+          estimatedGrams: 0.8,
+          servingSizeGrams: 40,
+        },
+      ]);
+    });
+
+    it('should drop below the threshold for small servings', () => {
+      const breakdown = classifyFodmaps({
+        ingredients: ['rice, sorbitol (2%)'],
+        servingSizeGrams: 10,
+      });
+
+      expect(breakdown[0]).toMatchObject({ subgroup: 'polyols', level: 'low' });
+    });
+
+    it('should fall back to list position when amounts are unknown', () => {
+      const breakdown = classifyFodmaps({
+        ingredients: [
+          'Onion, tomatoes, water, salt, oil, spice (garlic), whey powder',
+        ],
+      });
+
+      const bySubgroup = Object.fromEntries(
+        breakdown.map((item) => [item.subgroup, item])
+      );
+      expect(bySubgroup['fructans']?.level).toBe('high');
+      expect(bySubgroup['fructans']?.ingredients).toEqual(['Onion', 'garlic']);
+      expect(bySubgroup['lactose']?.level).toBe('moderate');
+      expect(bySubgroup['fructans']?.estimatedGrams).toBeUndefined();
+    });
+
+    it('should estimate every ingredient from the portion eaten', () => {
+      const breakdown = classifyFodmaps(
+        {
+          ingredients: ['Wheat flour (50%), sugar, honey'],
+          servingSizeGrams: 100,
+        },
+        undefined,
+        40
+      );
+
+      expect(breakdown).toEqual([
+        {
+          subgroup: 'excess-fructose',
+          level: 'high',
+          ingredients: ['honey'],
+          // Third in the list, so at most a third of the portion
+          estimatedGrams: 40 / 3,
+          servingSizeGrams: 40,
+        },
+        {
+          subgroup: 'fructans',
+          level: 'moderate',
+          ingredients: ['Wheat flour'],
+          estimatedGrams: 20,
+          servingSizeGrams: 40,
+        },
+      ]);
+    });
+
+    it('should let stored subgroup levels override the estimate', () => {
+      const breakdown = classifyFodmaps({
+        ingredients: ['Garlic-infused oil'],
+        fodmapSubgroups: { fructans: 'low', polyols: 'high' },
+      });
+
+      expect(breakdown.map((item) => [item.subgroup, item.level])).toEqual([
+        ['polyols', 'high'],
+        ['fructans', 'low'],
+      ]);
+    });
+
+    it('should ignore may contain traces', () => {
+      expect(
+        classifyFodmaps({ ingredients: ['rice. May contain milk.'] })
+      ).toEqual([]);
+    });
+  });
+
+  describe('classifyMealFodmaps', () => {
+    it('should add up doses that are low on their own', () => {
+      const breakdown = classifyMealFodmaps([
+        { foodItem: { ingredients: ['Wheat flour'] }, portionGrams: 10 },
+        { foodItem: { ingredients: ['garlic'] }, portionGrams: 0.3 },
+      ]);
+
+      expect(breakdown).toEqual([
+        {
+          subgroup: 'fructans',
+          level: 'moderate',
+          ingredients: ['Wheat flour', 'garlic'],
+          estimatedGrams: 10.3,
+          servingSizeGrams: 10.3,
+        },
+      ]);
+    });
+
+    it('should count stored subgroup levels as a full dose', () => {
+      const breakdown = classifyMealFodmaps([
+        {
+          foodItem: {
+            ingredients: ['onion'],
+            fodmapSubgroups: { fructans: 'moderate' },
+          },
+          portionGrams: 100,
+        },
+        { foodItem: { ingredients: ['onion'] }, portionGrams: 3 },
+      ]);
+
+      // 3 g of onion is moderate alone; the curated food tips it to high
+      expect(breakdown[0]).toMatchObject({
+        subgroup: 'fructans',
+        level: 'high',
+        ingredients: ['onion'],
+        estimatedGrams: 3,
+      });
+    });
+  });
+
+  describe('getOverallFodmapLevel', () => {
+    it('should return the worst subgroup level', () => {
+      expect(getOverallFodmapLevel([])).toBe('low');
+      expect(
+        getOverallFodmapLevel(
+          classifyFodmaps({ ingredients: ['honey, rice, salt, water'] })
+        )
+      ).toBe('high');
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview foodAnalysisEngine.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem } from '../../types';
+import { analyzeFoodItem, analyzeMeal } from '../../utils/foodAnalysisEngine';
+import {
+  createMockConditions,
+  createMockGutProfile,
+} from '../../utils/testUtils';
+
+const createFood = (ingredients: string[]): FoodItem => ({
+  id: 'food-1',
+  name: 'Cached Bar',
+  ingredients,
+  allergens: [],
+  additives: [],
+  glutenFree: false,
+  lactoseFree: false,
+});
+
+describe('foodAnalysisEngine', () => {
+  it('should mark offline verdicts and keep the rule-based result', () => {
+    const profile = createMockGutProfile({
+      conditions: createMockConditions({
+        lactose: { enabled: true, severity: 'severe', knownTriggers: [] },
+      }),
+    });
+    const food = createFood(['oats', 'whey powder']);
+
+    const online = analyzeFoodItem(food, profile);
+    const offline = analyzeFoodItem(food, profile, {
+      dataSource: 'Offline Cache',
+      offline: true,
+    });
+
+    expect(offline.isOffline).toBe(true);
+    expect(offline.dataSource).toBe('Offline Cache');
+    expect(online.isOffline).toBeUndefined();
+    expect(offline.overallSafety).toBe(online.overallSafety);
+    expect(offline.flaggedIngredients).toEqual(online.flaggedIngredients);
+    expect(offline.overallSafety).toBe('avoid');
+  });
+
+  it('should not flag anything when no triggers match', () => {
+    const analysis = analyzeFoodItem(
+      createFood(['rice', 'salt']),
+      createMockGutProfile({
+        conditions: createMockConditions({
+          gluten: { enabled: true, severity: 'moderate', knownTriggers: [] },
+        }),
+      }),
+      { offline: true }
+    );
+
+    expect(analysis.overallSafety).toBe('safe');
+    expect(analysis.flaggedIngredients).toHaveLength(0);
+    expect(analysis.explanation).toBe('No triggers found for your gut profile');
+  });
+
+  it('should check declared additives and traces, skipping labelled free-from conditions', () => {
+    const profile = createMockGutProfile({
+      conditions: createMockConditions({
+        'ibs-fodmap': {
+          enabled: true,
+          severity: 'moderate',
+          knownTriggers: [],
+        },
+        lactose: { enabled: true, severity: 'severe', knownTriggers: [] },
+        allergies: { enabled: true, severity: 'severe', knownTriggers: [] },
+      }),
+    });
+    const food: FoodItem = {
+      ...createFood(['skimmed milk', 'sorbitol']),
+      additives: ['E420', 'E965'],
+      traces: ['peanuts'],
+      lactoseFree: true,
+    };
+
+    const analysis = analyzeFoodItem(food, profile);
+
+    // E420 is sorbitol, already flagged from the ingredient list
+    expect(analysis.flaggedIngredients.map((ing) => ing.ingredient)).toEqual([
+      'skimmed milk',
+      'sorbitol',
+      'E965',
+      'may contain peanuts',
+    ]);
+    // Milk is still an allergen, but not a lactose problem
+    expect(
+      analysis.conditionWarnings.map((warning) => warning.condition)
+    ).not.toContain('lactose');
+  });
+
+  it('should rate a product labelled free from every enabled condition safe', () => {
+    const profile = createMockGutProfile({
+      conditions: createMockConditions({
+        gluten: { enabled: true, severity: 'severe', knownTriggers: [] },
+      }),
+    });
+    const food: FoodItem = {
+      ...createFood(['wheat flour', 'milk', 'garlic']),
+      glutenFree: true,
+    };
+
+    const analysis = analyzeFoodItem(food, profile);
+
+    expect(analysis.overallSafety).toBe('safe');
+    expect(analysis.flaggedIngredients).toHaveLength(0);
+    expect(analysis.conditionWarnings).toHaveLength(0);
+  });
+
+  it('should scale FODMAP thresholds to the portion eaten', () => {
+    const profile = createMockGutProfile({
+      conditions: createMockConditions({
+        'ibs-fodmap': {
+          enabled: true,
+          severity: 'moderate',
+          knownTriggers: [],
+        },
+      }),
+    });
+    const honey = createFood(['honey']);
+
+    const teaspoon = analyzeFoodItem(honey, profile, { portionGrams: 4.9 });
+    const cup = analyzeFoodItem(honey, profile, { portionGrams: 236.6 });
+
+    expect(analyzeFoodItem(honey, profile).overallSafety).toBe('caution');
+    expect(teaspoon.overallSafety).toBe('safe');
+    expect(teaspoon.fodmapBreakdown?.[0]?.level).toBe('low');
+    expect(cup.overallSafety).toBe('avoid');
+    expect(cup.portionGrams).toBe(236.6);
+    expect(cup.fodmapBreakdown?.[0]).toMatchObject({
+      subgroup: 'excess-fructose',
+      level: 'high',
+      estimatedGrams: 236.6,
+    });
+  });
+
+  it('should scale histamine thresholds to the portion eaten', () => {
+    const profile = createMockGutProfile({
+      conditions: createMockConditions({
+        histamine: { enabled: true, severity: 'moderate', knownTriggers: [] },
+      }),
+    });
+    const passata = createFood(['tomatoes', 'olive oil', 'salt']);
+
+    expect(
+      analyzeFoodItem(passata, profile, { portionGrams: 20 }).overallSafety
+    ).toBe('safe');
+    expect(
+      analyzeFoodItem(passata, profile, { portionGrams: 300 }).overallSafety
+    ).toBe('caution');
+  });
+
+  it('should push a meal up when FODMAP loads stack across foods', () => {
+    const profile = createMockGutProfile({
+      conditions: createMockConditions({
+        'ibs-fodmap': {
+          enabled: true,
+          severity: 'moderate',
+          knownTriggers: [],
+        },
+      }),
+    });
+    const components = [
+      {
+        foodItem: createFood(['wheat flour']),
+        portion: { amount: 10, unit: 'g' as const, grams: 10 },
+      },
+      {
+        foodItem: { ...createFood(['garlic']), id: 'food-2' },
+        portion: { amount: 0.3, unit: 'g' as const, grams: 0.3 },
+      },
+    ];
+
+    components.forEach(({ foodItem, portion }) =>
+      expect(
+        analyzeFoodItem(foodItem, profile, { portionGrams: portion.grams })
+          .overallSafety
+      ).toBe('safe')
+    );
+
+    const meal = analyzeMeal(components, profile);
+    expect(meal.overallSafety).toBe('caution');
+    expect(meal.portionGrams).toBe(10.3);
+    expect(meal.flaggedIngredients).toContainEqual({
+      ingredient: 'wheat flour + garlic',
+      reason: 'Stacked fructans load across the meal',
+      severity: 'moderate',
+      condition: 'ibs-fodmap',
+    });
+    expect(meal.conditionWarnings[0]).toMatchObject({
+      condition: 'ibs-fodmap',
+      severity: 'moderate',
+    });
+
+    // Nothing is stacked once the subgroup is known to be tolerated
+    expect(
+      analyzeMeal(components, {
+        ...profile,
+        fodmapTolerance: { fructans: 'tolerated' },
+      }).overallSafety
+    ).toBe('safe');
+  });
+});
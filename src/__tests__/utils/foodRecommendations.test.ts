@@ -0,0 +1,141 @@
+/**
+ * @fileoverview foodRecommendations.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem, ScanHistory } from '../../types';
+import {
+  getSymptomFreeFoods,
+  rankRecommendations,
+} from '../../utils/foodRecommendations';
+import {
+  createMockConditions,
+  createMockGutProfile,
+} from '../../utils/testUtils';
+
+const createFood = (
+  id: string,
+  name: string,
+  ingredients: string[] = ['oats']
+): FoodItem => ({
+  id,
+  name,
+  ingredients,
+  allergens: [],
+  additives: [],
+  glutenFree: false,
+  lactoseFree: false,
+});
+
+const createScan = (
+  foodItem: FoodItem,
+  timestamp: string,
+  overallSafety: ScanHistory['analysis']['overallSafety'] = 'safe'
+): ScanHistory =>
+  ({
+    id: `scan-${foodItem.id}-${timestamp}`,
+    foodItem,
+    analysis: { overallSafety },
+    timestamp: new Date(timestamp),
+  }) as ScanHistory;
+
+describe('foodRecommendations', () => {
+  describe('getSymptomFreeFoods', () => {
+    it('should count safe food usage and scans not followed by symptoms', () => {
+      const oats = createFood('food-1', 'Oats');
+      const bread = createFood('food-2', 'Bread');
+      const cheese = createFood('food-3', 'Cheese');
+
+      const foods = getSymptomFreeFoods({
+        safeFoods: [
+          {
+            id: 'safe-1',
+            foodItem: oats,
+            addedDate: new Date(),
+            usageCount: 2,
+          },
+        ],
+        scanHistory: [
+          createScan(oats, '2024-02-20T08:00:00Z'),
+          createScan(bread, '2024-03-02T08:00:00Z'),
+          createScan(cheese, '2024-03-05T08:00:00Z', 'avoid'),
+        ],
+        symptoms: [
+          {
+            id: 's1',
+            type: 'bloating',
+            severity: 6,
+            duration: 60,
+            timestamp: new Date('2024-03-02T20:00:00Z'),
+          },
+        ],
+      });
+
+      expect(
+        foods.map(({ foodItem, timesEaten }) => [foodItem.name, timesEaten])
+      ).toEqual([['Oats', 3]]);
+    });
+  });
+
+  describe('rankRecommendations', () => {
+    it('should drop known and unsafe foods and explain the rest', () => {
+      const oats = createFood('food-1', 'Oats');
+      const history = {
+        safeFoods: [
+          {
+            id: 'safe-1',
+            foodItem: oats,
+            addedDate: new Date(),
+            usageCount: 1,
+          },
+        ],
+        scanHistory: [],
+        symptoms: [],
+      };
+
+      const recommendations = rankRecommendations(
+        [
+          { foodItem: oats, source: { kind: 'lactose-free' } },
+          {
+            foodItem: createFood('food-2', 'Milk Chocolate', ['whole milk']),
+            source: { kind: 'similar', seed: oats, timesEaten: 1 },
+          },
+          {
+            foodItem: createFood('food-3', 'Oat Milk'),
+            source: { kind: 'lactose-free' },
+          },
+          {
+            foodItem: createFood('food-4', 'Rice Drink', []),
+            source: { kind: 'lactose-free' },
+          },
+        ],
+        createMockGutProfile({
+          conditions: createMockConditions({
+            lactose: { enabled: true, severity: 'moderate', knownTriggers: [] },
+          }),
+          preferences: {
+            dietaryRestrictions: [],
+            preferredAlternatives: ['oat milk'],
+          },
+        }),
+        history
+      );
+
+      expect(recommendations).toEqual([
+        expect.objectContaining({
+          id: 'food-3',
+          reason: 'One of your preferred alternatives (oat milk); lactose-free',
+          confidence: 0.58,
+        }),
+        expect.objectContaining({
+          id: 'food-4',
+          reason: 'Lactose-free; no triggers for your gut profile',
+          // Nothing to check without ingredients
+          confidence: 0.2,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview ingredientLabelText.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  cleanLabelText,
+  extractIngredientLabel,
+} from '../../utils/ingredientLabelText';
+
+describe('ingredientLabelText', () => {
+  it('should rejoin hyphenated words and line breaks', () => {
+    expect(
+      cleanLabelText(
+        'Water, calcium carbo-\r\nnate , vitamins ( D2,\nB12 ) • salt •'
+      )
+    ).toBe('Water, calcium carbonate, vitamins (D2, B12), salt');
+  });
+
+  it('should take the paragraph after the heading up to the next section', () => {
+    const label = extractIngredientLabel(
+      'OAT DRINK\nINGREDIENTS\nWATER, OATS (10%), RAPESEED OIL,\n' +
+        'ACIDITY REGULATOR (DIPOTASSIUM PHOS-\nPHATE), SALT.\n' +
+        'STORE IN A COOL, DRY PLACE.\n'
+    );
+
+    expect(label).toEqual({
+      ingredientsText:
+        'WATER, OATS (10%), RAPESEED OIL, ACIDITY REGULATOR (DIPOTASSIUM PHOSPHATE), SALT.',
+      allergens: [],
+    });
+  });
+
+  it('should split off the allergen statement but keep trace warnings', () => {
+    const label = extractIngredientLabel(
+      'Ingrédients : sugar, cocoa butter, whole milk powder,\n' +
+        'emulsifier (soya lecithin), vanilla. Contains: milk and soy.\n' +
+        'May contain hazelnuts.\n\nNet wt 100 g'
+    );
+
+    expect(label).toEqual({
+      ingredientsText:
+        'sugar, cocoa butter, whole milk powder, emulsifier (soya lecithin), vanilla. May contain hazelnuts.',
+      allergens: ['milk', 'soy'],
+    });
+  });
+
+  it('should leave "contains 2% or less of" in the ingredient list', () => {
+    expect(
+      extractIngredientLabel(
+        'INGREDIENTS: ENRICHED FLOUR, WATER, CONTAINS 2% OR LESS OF: SALT, YEAST.'
+      )?.ingredientsText
+    ).toBe('ENRICHED FLOUR, WATER, CONTAINS 2% OR LESS OF: SALT, YEAST.');
+  });
+
+  it('should return null without an ingredient list', () => {
+    expect(
+      extractIngredientLabel('NUTRITION FACTS\nMade with natural ingredients')
+    ).toBeNull();
+    expect(
+      extractIngredientLabel('INGREDIENTS:\n\nNUTRITION FACTS')
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview ingredientParser.test.ts - Tests for ingredient list parsing
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  flattenIngredients,
+  parseIngredientList,
+} from '../../utils/ingredientParser';
+
+describe('ingredientParser', () => {
+  describe('parseIngredientList', () => {
+    it('should parse nested sub-ingredients into a tree', () => {
+      const result = parseIngredientList(
+        'Potatoes, seasoning (onion powder, garlic, whey), salt'
+      );
+
+      expect(result.ingredients.map((i) => i.name)).toEqual([
+        'Potatoes',
+        'seasoning',
+        'salt',
+      ]);
+      expect(result.ingredients[1]?.children.map((i) => i.normalized)).toEqual([
+        'onion powder',
+        'garlic',
+        'whey',
+      ]);
+    });
+
+    it('should handle multiple levels of nesting', () => {
+      const result = parseIngredientList(
+        'Filling (chocolate [cocoa mass, sugar], hazelnuts)'
+      );
+      const names = flattenIngredients(result.ingredients).map(
+        (i) => i.normalized
+      );
+
+      expect(names).toEqual([
+        'filling',
+        'chocolate',
+        'cocoa mass',
+        'sugar',
+        'hazelnuts',
+      ]);
+    });
+
+    it('should extract percentages including decimal commas', () => {
+      const result = parseIngredientList(
+        'Tomatoes (45%), olive oil 12,5%, basil'
+      );
+
+      expect(result.ingredients[0]).toMatchObject({
+        name: 'Tomatoes',
+        percentage: 45,
+        children: [],
+      });
+      expect(result.ingredients[1]).toMatchObject({
+        name: 'olive oil',
+        percentage: 12.5,
+      });
+      expect(result.ingredients[2]?.percentage).toBeUndefined();
+    });
+
+    it('should normalise case and accents', () => {
+      const result = parseIngredientList('Crème Fraîche, SUGAR');
+
+      expect(result.ingredients.map((i) => i.normalized)).toEqual([
+        'creme fraiche',
+        'sugar',
+      ]);
+    });
+
+    it('should detect may contain statements as traces', () => {
+      const result = parseIngredientList(
+        'Ingredients: oats, sugar. May contain traces of peanuts, milk and sesame.'
+      );
+
+      expect(result.ingredients.map((i) => i.name)).toEqual(['oats', 'sugar']);
+      expect(result.traces).toEqual(['peanuts', 'milk', 'sesame']);
+    });
+
+    it('should treat class names with a colon as parents', () => {
+      const result = parseIngredientList('Emulsifier: soy lecithin, water');
+
+      expect(result.ingredients[0]?.name).toBe('Emulsifier');
+      expect(result.ingredients[0]?.children[0]?.name).toBe('soy lecithin');
+    });
+
+    it('should accept an array of ingredient strings', () => {
+      const result = parseIngredientList(['rice', 'sauce (soy sauce, ginger)']);
+
+      expect(flattenIngredients(result.ingredients)).toHaveLength(4);
+    });
+  });
+});
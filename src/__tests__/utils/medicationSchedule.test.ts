@@ -0,0 +1,91 @@
+/**
+ * @fileoverview medicationSchedule.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { MedicationSupplement } from '../../types';
+import {
+  calculateAdherence,
+  expandDoseSchedule,
+} from '../../utils/medicationSchedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = new Date('2024-06-01T08:00:00Z');
+
+const hoursAfterStart = (hours: number): Date =>
+  new Date(START.getTime() + hours * HOUR_MS);
+
+const createMedication = (
+  overrides: Partial<MedicationSupplement> = {}
+): MedicationSupplement => ({
+  id: 'med-1',
+  name: 'Peppermint Oil',
+  type: 'supplement',
+  dosage: '1 capsule',
+  frequency: 'daily',
+  startDate: START,
+  isActive: true,
+  gutRelated: true,
+  ...overrides,
+});
+
+describe('medicationSchedule', () => {
+  describe('expandDoseSchedule', () => {
+    it('should expand twice daily doses up to the end date', () => {
+      const doses = expandDoseSchedule(
+        createMedication({
+          frequency: 'twice_daily',
+          endDate: hoursAfterStart(36),
+        }),
+        START,
+        hoursAfterStart(100)
+      );
+
+      expect(doses).toEqual([0, 12, 24, 36].map(hoursAfterStart));
+    });
+
+    it('should not schedule as-needed medications', () => {
+      expect(
+        expandDoseSchedule(
+          createMedication({ frequency: 'as_needed' }),
+          START,
+          hoursAfterStart(100)
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('calculateAdherence', () => {
+    it('should match logs within the tolerance and report missed doses', () => {
+      // Five daily doses due; day 3 is missed and day 4 is logged far too late
+      const logs = [1, 25, 73 + 8, 96].map((hours) => ({
+        takenAt: hoursAfterStart(hours),
+      }));
+
+      const result = calculateAdherence(createMedication(), logs, {
+        to: hoursAfterStart(100),
+      });
+
+      expect(result.expectedDoses).toBe(5);
+      expect(result.takenDoses).toBe(3);
+      expect(result.missedDoses).toEqual([48, 72].map(hoursAfterStart));
+      expect(result.adherence).toBeCloseTo(0.6);
+      expect(result.currentStreak).toBe(1);
+      expect(result.longestStreak).toBe(2);
+    });
+
+    it('should not count a dose as missed while its window is open', () => {
+      const result = calculateAdherence(
+        createMedication(),
+        [{ takenAt: hoursAfterStart(0) }],
+        { to: hoursAfterStart(26) }
+      );
+
+      expect(result.expectedDoses).toBe(1);
+      expect(result.missedDoses).toEqual([]);
+      expect(result.adherence).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview offlineFoodSearch.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  buildFtsMatchQuery,
+  fuzzyMatchScore,
+  rankFuzzyMatches,
+  selectEvictions,
+  tokenizeSearchQuery,
+} from '../../utils/offlineFoodSearch';
+
+const yogurt = {
+  id: '1',
+  name: 'Greek Yogurt',
+  brand: 'Fage',
+  barcode: '5200435000027',
+};
+const oatMilk = {
+  id: '2',
+  name: 'Oat Milk',
+  brand: 'Oatly',
+  barcode: '7394376616037',
+};
+const bread = { id: '3', name: 'Sourdough Bread', brand: null, barcode: null };
+const foods = [yogurt, oatMilk, bread];
+
+describe('offlineFoodSearch', () => {
+  it('should build a prefix query that ignores FTS operators', () => {
+    const tokens = tokenizeSearchQuery('Crème "fraîche" OR*');
+
+    expect(tokens).toEqual(['creme', 'fraiche', 'or']);
+    expect(buildFtsMatchQuery(tokens)).toBe('"creme"* "fraiche"* "or"*');
+  });
+
+  it('should match prefixes, barcodes and small typos', () => {
+    expect(fuzzyMatchScore(['gre', 'yog'], yogurt)).toBe(1);
+    expect(fuzzyMatchScore(['739437'], oatMilk)).toBe(1);
+    expect(fuzzyMatchScore(['sourdoguh'], bread)).toBeGreaterThan(0.5);
+    expect(fuzzyMatchScore(['pasta'], bread)).toBe(0);
+  });
+
+  it('should rank the closest matches first', () => {
+    const ranked = rankFuzzyMatches('oat mlk', foods, 5);
+
+    expect(ranked.map((food) => food.id)).toEqual(['2']);
+    expect(rankFuzzyMatches('yoghurt', foods, 5)[0]?.id).toBe('1');
+  });
+
+  it('should evict the least recently used entries past either limit', () => {
+    const entries = [
+      { id: 'newest', sizeBytes: 400 },
+      { id: 'recent', sizeBytes: 400 },
+      { id: 'older', sizeBytes: 400 },
+      { id: 'oldest', sizeBytes: 100 },
+    ];
+
+    expect(
+      selectEvictions(entries, { maxEntries: 3, maxBytes: 10000 })
+    ).toEqual(['oldest']);
+    expect(
+      selectEvictions(entries, { maxEntries: 10, maxBytes: 1000 })
+    ).toEqual(['older', 'oldest']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview offlinePinning.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem, ScanHistory } from '../../types';
+import { selectFoodsToPin } from '../../utils/offlinePinning';
+
+const makeFood = (id: string, barcode: string): FoodItem => ({
+  id,
+  name: `Food ${id}`,
+  barcode,
+  ingredients: [],
+  allergens: [],
+  additives: [],
+  glutenFree: false,
+  lactoseFree: false,
+});
+
+const makeScan = (foodItem: FoodItem, daysAgo: number): ScanHistory => ({
+  id: `scan_${foodItem.id}`,
+  foodItem,
+  analysis: {
+    overallSafety: 'safe',
+    flaggedIngredients: [],
+    conditionWarnings: [],
+    safeAlternatives: [],
+    explanation: '',
+    dataSource: 'FoodService',
+    lastUpdated: new Date(),
+  },
+  timestamp: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+});
+
+describe('offlinePinning', () => {
+  it('should keep only the most recent scans', () => {
+    const older = makeFood('older', '1111111111111');
+    const newer = makeFood('newer', '2222222222222');
+
+    const pins = selectFoodsToPin(
+      {
+        safeFoods: [],
+        scanHistory: [makeScan(older, 5), makeScan(newer, 1)],
+        categoryFoods: [],
+      },
+      1
+    );
+
+    expect(pins).toEqual([{ foodItem: newer, reason: 'recent_scan' }]);
+  });
+
+  it('should pin each product once, preferring safe foods', () => {
+    const yogurt = makeFood('yogurt', '5200435000027');
+    // Same product returned by a category search under another ID
+    const yogurtFromCategory = makeFood('openfoodfacts_1', '5200435000027');
+    const manualA = makeFood('manual_1', '0000000000000');
+    const manualB = makeFood('manual_2', '0000000000000');
+
+    const pins = selectFoodsToPin(
+      {
+        safeFoods: [
+          { id: 'sf1', foodItem: yogurt, addedDate: new Date(), usageCount: 0 },
+        ],
+        scanHistory: [
+          makeScan(yogurt, 1),
+          makeScan(manualA, 2),
+          makeScan(manualB, 3),
+        ],
+        categoryFoods: [yogurtFromCategory],
+      },
+      10
+    );
+
+    expect(pins.map((pin) => [pin.foodItem.id, pin.reason])).toEqual([
+      ['yogurt', 'safe_food'],
+      ['manual_1', 'recent_scan'],
+      ['manual_2', 'recent_scan'],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview openFoodFactsMapper.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { OpenFoodFactsProduct } from '../../services/OpenFoodFactsService';
+import {
+  additiveTagToENumber,
+  mapOpenFoodFactsNutrition,
+  mapOpenFoodFactsProduct,
+} from '../../utils/openFoodFactsMapper';
+
+const oatDrink: OpenFoodFactsProduct = {
+  code: '7394376616037',
+  product_name: 'Oat Drink',
+  brands: 'Oatly',
+  categories: 'Plant-based beverages',
+  ingredients_text: 'Water, oats 10%, rapeseed oil, calcium carbonate, salt',
+  allergens_tags: ['en:gluten'],
+  traces_tags: ['en:nuts', 'en:soybeans'],
+  additives_tags: ['en:e170i', 'en:e340ii', 'en:e340ii'],
+  labels_tags: ['en:vegan', 'en:no-lactose', 'en:gluten-free'],
+  nutriscore_grade: 'b',
+  nova_group: 4,
+  serving_quantity: 250,
+  nutriments: {
+    'energy-kj_100g': 192,
+    fat_100g: 1.5,
+    'saturated-fat_100g': '0.2',
+    carbohydrates_100g: 6.7,
+    sugars_100g: 4,
+    proteins_100g: 1,
+    salt_100g: 0.1,
+    calcium_100g: 0.12,
+  },
+};
+
+describe('openFoodFactsMapper', () => {
+  it('should convert additive tags to E-numbers', () => {
+    expect(additiveTagToENumber('en:e322i')).toBe('E322i');
+    expect(additiveTagToENumber('en:e1442')).toBe('E1442');
+    expect(additiveTagToENumber('en:pectin')).toBe('pectin');
+  });
+
+  it('should normalise nutrition to kcal and grams', () => {
+    expect(mapOpenFoodFactsNutrition(oatDrink)).toEqual({
+      calories: 45.9,
+      fat: 1.5,
+      saturatedFat: 0.2,
+      carbs: 6.7,
+      sugars: 4,
+      protein: 1,
+      salt: 0.1,
+      sodium: 0.04,
+      calcium: 0.12,
+    });
+  });
+
+  it('should carry allergens, traces, labels and scores', () => {
+    const food = mapOpenFoodFactsProduct(oatDrink);
+
+    expect(food).toMatchObject({
+      id: 'openfoodfacts_7394376616037',
+      barcode: '7394376616037',
+      allergens: ['gluten'],
+      traces: ['nuts', 'soybeans'],
+      additives: ['E170i', 'E340ii'],
+      nutriScore: 'b',
+      novaGroup: 4,
+      servingSizeGrams: 250,
+      lactoseFree: true,
+      // The gluten allergen overrides the gluten-free label
+      glutenFree: false,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview portions.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { parseIngredientList } from '../../utils/ingredientParser';
+import {
+  createPortion,
+  estimateIngredientGrams,
+  formatGrams,
+  formatPortion,
+  getDefaultPortion,
+  portionToGrams,
+} from '../../utils/portions';
+
+describe('portions', () => {
+  it('should convert metric, imperial and household units to grams', () => {
+    expect(portionToGrams(250, 'ml')).toBe(250);
+    expect(portionToGrams(2, 'oz')).toBeCloseTo(56.7, 1);
+    expect(portionToGrams(1, 'tsp')).toBeCloseTo(4.93, 2);
+    expect(portionToGrams(1, 'cup')).toBeCloseTo(236.6, 1);
+    expect(portionToGrams(2, 'serving', 30)).toBe(60);
+  });
+
+  it('should reject amounts it cannot convert', () => {
+    expect(portionToGrams(1, 'serving')).toBeNull();
+    expect(portionToGrams(0, 'g')).toBeNull();
+    expect(portionToGrams(NaN, 'g')).toBeNull();
+    expect(createPortion(1, 'serving', {})).toBeNull();
+  });
+
+  it('should record the entered portion with its weight', () => {
+    const portion = createPortion(2, 'tbsp', {});
+
+    expect(portion).toEqual({ amount: 2, unit: 'tbsp', grams: 29.6 });
+    expect(portion && formatPortion(portion)).toBe('2 tbsp');
+    expect(formatPortion({ amount: 2, unit: 'serving', grams: 60 })).toBe(
+      '2 servings'
+    );
+  });
+
+  it('should suggest a serving or a measurement-system default', () => {
+    expect(getDefaultPortion({ servingSizeGrams: 30 }, 'imperial')).toEqual({
+      amount: 1,
+      unit: 'serving',
+      grams: 30,
+    });
+    expect(getDefaultPortion({}, 'metric')).toEqual({
+      amount: 100,
+      unit: 'g',
+      grams: 100,
+    });
+    expect(getDefaultPortion({}, 'imperial')).toEqual({
+      amount: 3.5,
+      unit: 'oz',
+      grams: 99.2,
+    });
+    expect(formatGrams(30, 'imperial')).toBe('1.1 oz');
+    expect(formatGrams(30, 'metric')).toBe('30 g');
+  });
+
+  it('should estimate ingredient amounts from percentages and list order', () => {
+    const { ingredients } = parseIngredientList(
+      'Oats (60%), honey, chocolate (sugar, cocoa), salt'
+    );
+    const estimates = estimateIngredientGrams(ingredients, 50);
+    const byName = Object.fromEntries(
+      Array.from(estimates.entries()).map(([ingredient, grams]) => [
+        ingredient.name,
+        grams,
+      ])
+    );
+
+    expect(byName).toEqual({
+      Oats: 30,
+      honey: 25,
+      chocolate: 50 / 3,
+      sugar: 50 / 3,
+      cocoa: 50 / 3,
+      salt: 12.5,
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview productResolution.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem } from '../../types';
+import {
+  mergeDuplicateFoods,
+  mergeFoodItems,
+} from '../../utils/productResolution';
+
+const openFoodFacts: FoodItem = {
+  id: 'openfoodfacts_0041196910759',
+  name: 'Tomato Soup',
+  brand: 'Progresso',
+  category: 'Soups',
+  barcode: '0041196910759',
+  ingredients: ['Water', 'Tomato puree', 'Onion powder'],
+  allergens: [],
+  additives: [],
+  nutrition: { calories: 40, sodium: 0.3 },
+  glutenFree: false,
+  lactoseFree: false,
+  dataSource: 'openfoodfacts',
+};
+
+const usda: FoodItem = {
+  id: 'usda_2345',
+  name: 'PROGRESSO TOMATO SOUP',
+  brand: 'General Mills',
+  category: 'Unknown',
+  barcode: '',
+  ingredients: [],
+  allergens: [],
+  additives: [],
+  nutrition: { calories: 42, sodium: 0.32, protein: 1.2 },
+  glutenFree: false,
+  lactoseFree: false,
+  dataSource: 'usda',
+};
+
+describe('productResolution', () => {
+  it('should take each field from its most trusted source', () => {
+    const merged = mergeFoodItems([usda, openFoodFacts]);
+
+    expect(merged).toMatchObject({
+      id: openFoodFacts.id,
+      name: 'Tomato Soup',
+      ingredients: openFoodFacts.ingredients,
+      nutrition: usda.nutrition,
+      barcode: '0041196910759',
+      dataSource: 'openfoodfacts, usda',
+    });
+    expect(merged?.fieldSources).toEqual({
+      name: 'openfoodfacts',
+      brand: 'openfoodfacts',
+      category: 'openfoodfacts',
+      ingredients: 'openfoodfacts',
+      nutrition: 'usda',
+    });
+  });
+
+  it('should fill gaps from less trusted sources and keep provenance when re-merged', () => {
+    const withoutIngredients = { ...openFoodFacts, ingredients: [] };
+    const spoonacular: FoodItem = {
+      ...usda,
+      id: 'spoonacular_99',
+      ingredients: ['Tomatoes', 'Water'],
+      nutrition: { calories: 90 },
+      dataSource: 'spoonacular',
+    };
+
+    const merged = mergeFoodItems([withoutIngredients, spoonacular]);
+    expect(merged?.ingredients).toEqual(['Tomatoes', 'Water']);
+    expect(merged?.fieldSources?.ingredients).toBe('spoonacular');
+    expect(merged?.fieldSources?.nutrition).toBe('openfoodfacts');
+
+    const remerged = merged && mergeFoodItems([merged, usda]);
+    expect(remerged?.fieldSources).toMatchObject({
+      ingredients: 'spoonacular',
+      nutrition: 'usda',
+    });
+  });
+
+  it('should merge search results for the same barcode', () => {
+    const foods = mergeDuplicateFoods([
+      openFoodFacts,
+      { ...usda, barcode: '41196910759' },
+      { ...usda, id: 'usda_1', name: 'Chicken Soup', barcode: '' },
+    ]);
+
+    expect(foods.map((food) => food.id)).toEqual([openFoodFacts.id, 'usda_1']);
+    expect(foods[0]?.dataSource).toBe('openfoodfacts, usda');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview recipeParser.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { parseRecipeLine, parseRecipeText } from '../../utils/recipeParser';
+
+describe('recipeParser', () => {
+  it('should read amounts, units and food names', () => {
+    expect(parseRecipeLine('200g chicken breast, diced')).toEqual({
+      text: '200g chicken breast, diced',
+      name: 'chicken breast',
+      amount: 200,
+      unit: 'g',
+    });
+    expect(parseRecipeLine('1 ½ cups of plain flour')).toMatchObject({
+      name: 'plain flour',
+      amount: 1.5,
+      unit: 'cup',
+    });
+    expect(parseRecipeLine('2 tbsp. soy sauce (low sodium)')).toMatchObject({
+      name: 'soy sauce',
+      amount: 2,
+      unit: 'tbsp',
+    });
+    expect(parseRecipeLine('3/4 tsp salt')).toMatchObject({
+      amount: 0.75,
+      unit: 'tsp',
+    });
+  });
+
+  it('should convert larger units and household measures', () => {
+    expect(parseRecipeLine('1.5 kg potatoes')).toMatchObject({
+      amount: 1500,
+      unit: 'g',
+    });
+    expect(parseRecipeLine('1 l vegetable stock')).toMatchObject({
+      amount: 1000,
+      unit: 'ml',
+    });
+    expect(parseRecipeLine('2 cloves garlic')).toMatchObject({
+      name: 'garlic',
+      amount: 8,
+      unit: 'g',
+    });
+  });
+
+  it('should count items without a unit as servings', () => {
+    expect(parseRecipeLine('2-3 large eggs')).toMatchObject({
+      name: 'large eggs',
+      amount: 3,
+      unit: 'serving',
+    });
+    expect(parseRecipeLine('1 green bean')).toMatchObject({
+      name: 'green bean',
+      unit: 'serving',
+    });
+    expect(parseRecipeLine('Salt and pepper to taste')).toMatchObject({
+      name: 'Salt and pepper',
+      amount: 1,
+      unit: 'serving',
+    });
+  });
+
+  it('should skip headings, blank lines and list markers', () => {
+    const lines = parseRecipeText(
+      'For the sauce:\n- 400 g tinned tomatoes\n\n2. 1 onion, chopped\r\n'
+    );
+
+    expect(lines.map(({ name, amount, unit }) => [name, amount, unit])).toEqual(
+      [
+        ['tinned tomatoes', 400, 'g'],
+        ['onion', 1, 'serving'],
+      ]
+    );
+  });
+});
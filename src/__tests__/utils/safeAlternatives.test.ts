@@ -0,0 +1,137 @@
+/**
+ * @fileoverview safeAlternatives.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem } from '../../types';
+import {
+  getBrandSimilarity,
+  normalizeSafeAlternatives,
+  rankSafeAlternatives,
+} from '../../utils/safeAlternatives';
+import {
+  createMockConditions,
+  createMockGutProfile,
+} from '../../utils/testUtils';
+
+const createFood = (
+  id: string,
+  name: string,
+  overrides: Partial<FoodItem> = {}
+): FoodItem => ({
+  id,
+  name,
+  category: 'Yogurts',
+  ingredients: ['coconut cream', 'live cultures'],
+  allergens: [],
+  additives: [],
+  glutenFree: true,
+  lactoseFree: true,
+  ...overrides,
+});
+
+describe('safeAlternatives', () => {
+  describe('getBrandSimilarity', () => {
+    it('should score the same brand above the same brand family', () => {
+      expect(getBrandSimilarity('Chobani', 'chobani')).toBe(1);
+      expect(getBrandSimilarity('Chobani', 'Chobani Flip')).toBe(0.5);
+      expect(getBrandSimilarity('Chobani', 'Danone')).toBe(0);
+      expect(getBrandSimilarity(undefined, undefined)).toBe(0);
+    });
+  });
+
+  describe('normalizeSafeAlternatives', () => {
+    it('should read alternatives saved as bare names as unlinked references', () => {
+      expect(
+        normalizeSafeAlternatives([
+          'Rice Cakes',
+          { id: 'food-2', name: 'Oat Yogurt', brand: 'Oatly' },
+        ])
+      ).toEqual([
+        { id: '', name: 'Rice Cakes' },
+        { id: 'food-2', name: 'Oat Yogurt', brand: 'Oatly' },
+      ]);
+    });
+  });
+
+  describe('rankSafeAlternatives', () => {
+    it('should keep safe products in the category, most alike first', () => {
+      const yogurt = createFood('food-1', 'Chobani Greek Yogurt Vanilla', {
+        brand: 'Chobani',
+        barcode: '00818290010162',
+        ingredients: ['cultured milk', 'vanilla'],
+        nutrition: { calories: 80, protein: 9, carbs: 7, fat: 2 },
+      });
+
+      const alternatives = rankSafeAlternatives(
+        yogurt,
+        [
+          createFood('food-2', 'Coconut Yogurt Vanilla', {
+            nutrition: { calories: 160, protein: 1, carbs: 10, fat: 12 },
+          }),
+          createFood('food-3', 'Chobani Oat Yogurt Vanilla', {
+            brand: 'Chobani Oat',
+            nutrition: { calories: 110, protein: 2, carbs: 14, fat: 4 },
+          }),
+          createFood('food-4', 'Coconut Yogurt Plain', {
+            nutrition: { calories: 90, protein: 1, carbs: 6, fat: 3 },
+          }),
+          // Not safe, another category, nothing to check and the same product
+          createFood('food-5', 'Chobani Yogurt Vanilla', {
+            brand: 'Chobani',
+            ingredients: ['skim milk'],
+            lactoseFree: false,
+          }),
+          createFood('food-6', 'Oat Drink Vanilla', { category: 'Drinks' }),
+          createFood('food-7', 'Almond Yogurt Vanilla', { ingredients: [] }),
+          createFood('food-8', 'Greek Yogurt Vanilla', {
+            barcode: '00818290010162',
+          }),
+        ],
+        createMockGutProfile({
+          conditions: createMockConditions({
+            lactose: { enabled: true, severity: 'severe', knownTriggers: [] },
+          }),
+        })
+      );
+
+      expect(alternatives).toEqual([
+        {
+          id: 'food-3',
+          name: 'Chobani Oat Yogurt Vanilla',
+          brand: 'Chobani Oat',
+          category: 'Yogurts',
+        },
+        { id: 'food-2', name: 'Coconut Yogurt Vanilla', category: 'Yogurts' },
+        { id: 'food-4', name: 'Coconut Yogurt Plain', category: 'Yogurts' },
+      ]);
+    });
+
+    it('should fall back to the brand family for uncategorized foods', () => {
+      const { category: _category, ...cheese } = createFood(
+        'food-1',
+        'Aged Cheddar',
+        { brand: 'Cabot', ingredients: ['milk', 'salt'] }
+      );
+
+      const alternatives = rankSafeAlternatives(
+        cheese,
+        [
+          createFood('food-2', 'Plant Cheddar', { brand: 'Violife' }),
+          createFood('food-3', 'Lactose Free Cheddar', {
+            brand: 'Cabot Creamery',
+          }),
+        ],
+        createMockGutProfile({
+          conditions: createMockConditions({
+            lactose: { enabled: true, severity: 'severe', knownTriggers: [] },
+          }),
+        })
+      );
+
+      expect(alternatives.map(({ id }) => id)).toEqual(['food-3']);
+    });
+  });
+});
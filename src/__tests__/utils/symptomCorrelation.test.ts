@@ -0,0 +1,112 @@
+/**
+ * @fileoverview symptomCorrelation.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  FoodExposure,
+  SymptomEvent,
+} from '../../utils/symptomCorrelation';
+import {
+  correlateFoodsWithSymptoms,
+  pearsonCorrelation,
+  wilsonInterval,
+} from '../../utils/symptomCorrelation';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = new Date('2024-05-01T08:00:00Z').getTime();
+
+const at = (day: number, hours = 0): Date =>
+  new Date(START + day * 24 * HOUR_MS + hours * HOUR_MS);
+
+const exposure = (food: string, day: number): FoodExposure => ({
+  food,
+  timestamp: at(day),
+});
+
+const symptom = (
+  day: number,
+  hours: number,
+  type: SymptomEvent['type'] = 'bloating'
+): SymptomEvent => ({ type, severity: 6, timestamp: at(day, hours) });
+
+describe('symptomCorrelation', () => {
+  describe('correlateFoodsWithSymptoms', () => {
+    // Alternating meals three days apart, bloating 4h after every milk meal
+    const exposures = [0, 3, 6, 9, 12, 15, 18, 21].map((day) =>
+      exposure(day % 2 === 0 ? 'Milk' : 'Rice', day)
+    );
+    const symptoms = [0, 6, 12, 18].map((day) => symptom(day, 4));
+
+    it('should attribute symptoms to the food and lag window that explain them', () => {
+      const [milk, ...rest] = correlateFoodsWithSymptoms(exposures, symptoms);
+
+      expect(milk?.food).toBe('Milk');
+      expect(milk?.lagWindow).toBe('2-8h');
+      expect(milk?.support).toBe(4);
+      expect(milk?.symptomRate).toBe(1);
+      expect(milk?.baselineRate).toBe(0);
+      expect(milk?.correlation).toBe(1);
+      expect(rest).toEqual([]);
+    });
+
+    it('should report a confidence interval around the correlation', () => {
+      const [milk] = correlateFoodsWithSymptoms(exposures, symptoms);
+      const [lower, upper] = milk?.confidenceInterval ?? [0, 0];
+
+      expect(lower).toBeGreaterThan(0);
+      expect(lower).toBeLessThan(1);
+      expect(upper).toBe(1);
+    });
+
+    it('should skip foods below the support threshold', () => {
+      expect(
+        correlateFoodsWithSymptoms(exposures, symptoms, { minSupport: 5 })
+      ).toEqual([]);
+    });
+
+    it('should respect custom lag windows and symptom types', () => {
+      const lateOnly = correlateFoodsWithSymptoms(exposures, symptoms, {
+        lagWindows: [{ label: '8-48h', startHours: 8, endHours: 48 }],
+      });
+      const nausea = correlateFoodsWithSymptoms(exposures, symptoms, {
+        symptomType: 'nausea',
+      });
+
+      // No symptom falls 8-48h after any meal
+      expect(lateOnly).toEqual([]);
+      expect(nausea).toEqual([]);
+    });
+
+    it('should relate symptoms to the portion when one is recorded', () => {
+      // Bloating only after the large glasses of milk
+      const doses = [0, 3, 6, 9, 12, 15].map((day, index) => ({
+        ...exposure('Milk', day),
+        grams: index % 2 === 0 ? 250 : 20,
+      }));
+      const [milk] = correlateFoodsWithSymptoms(
+        doses,
+        [0, 6, 12].map((day) => symptom(day, 4))
+      );
+
+      expect(milk?.averageGrams).toBe(135);
+      expect(milk?.doseResponse).toBeCloseTo(1);
+      expect(
+        correlateFoodsWithSymptoms(exposures, symptoms)[0]?.doseResponse
+      ).toBeUndefined();
+    });
+  });
+
+  describe('statistics helpers', () => {
+    it('should compute Wilson intervals and Pearson correlation', () => {
+      const [lower, upper] = wilsonInterval(5, 10);
+
+      expect(lower).toBeCloseTo(0.237, 3);
+      expect(upper).toBeCloseTo(0.763, 3);
+      expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+      expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBe(0);
+    });
+  });
+});
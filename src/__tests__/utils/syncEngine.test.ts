@@ -0,0 +1,202 @@
+/**
+ * @fileoverview syncEngine.test.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { SyncQueueItem } from '../../types/comprehensive';
+import { pullRemoteChanges, syncQueueItems } from '../../utils/syncEngine';
+
+jest.mock('../../utils/errorHandler');
+
+const BASE_URL = 'http://localhost:3000/api';
+const options = {
+  baseUrl: BASE_URL,
+  authToken: 'token',
+  batchSize: 2,
+  retry: { maxAttempts: 2, baseDelay: 0, maxDelay: 0 },
+};
+
+const createItem = (
+  key: string,
+  overrides: Partial<SyncQueueItem> = {}
+): SyncQueueItem => ({
+  key,
+  data: { id: key },
+  timestamp: 0,
+  retryCount: 0,
+  maxRetries: 3,
+  ...overrides,
+});
+
+const respond = (status: number) =>
+  Promise.resolve({ ok: status < 400, status, statusText: `${status}` });
+
+const respondJson = (body: object) =>
+  Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+
+const createSafeFoodRow = (id: string, overrides: object = {}) => ({
+  id,
+  food_item_id: `food-${id}`,
+  food_name: 'Rice Cakes',
+  barcode: null,
+  brand: null,
+  category: 'Snacks',
+  ingredients: ['rice', 'salt'],
+  allergens: [],
+  additives: [],
+  gut_health_info: { glutenFree: true, lactoseFree: true },
+  data_source: null,
+  added_date: '2024-01-01T00:00:00.000Z',
+  last_used: null,
+  usage_count: 3,
+  notes: null,
+  updated_at: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('syncEngine', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('should push each entity to its backend route', async () => {
+    fetchMock.mockImplementation(() => respond(201));
+
+    const result = await syncQueueItems(
+      [
+        createItem('scans'),
+        createItem('safe_foods'),
+        createItem('medications'),
+        createItem('foods'),
+      ],
+      options
+    );
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      `${BASE_URL}/scans`,
+      `${BASE_URL}/users/safe-foods`,
+      `${BASE_URL}/users/medications`,
+      `${BASE_URL}/foods`,
+    ]);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      body: JSON.stringify({ id: 'scans' }),
+      headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+    });
+    expect(result.synced).toHaveLength(4);
+    expect(result.remaining).toHaveLength(0);
+  });
+
+  it('should retry transient failures and keep items that still fail', async () => {
+    fetchMock.mockImplementation(() => respond(503));
+
+    const result = await syncQueueItems(
+      [createItem('scans'), createItem('medications', { retryCount: 2 })],
+      options
+    );
+
+    // Two attempts per item within the run
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(result.remaining).toEqual([
+      expect.objectContaining({ key: 'scans', retryCount: 1 }),
+    ]);
+    expect(result.rejected).toEqual([
+      expect.objectContaining({ key: 'medications', retryCount: 3 }),
+    ]);
+  });
+
+  it('should reject items the server refuses without retrying', async () => {
+    fetchMock.mockImplementation(() => respond(422));
+
+    const result = await syncQueueItems(
+      [createItem('safe_foods'), createItem('unknown')],
+      options
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.rejected.map((item) => item.key)).toEqual([
+      'safe_foods',
+      'unknown',
+    ]);
+  });
+
+  it('should stop and keep the queue untouched when not authorized', async () => {
+    fetchMock.mockImplementation(() => respond(401));
+    const items = ['scans', 'safe_foods', 'medications'].map((key) =>
+      createItem(key)
+    );
+
+    const result = await syncQueueItems(items, options);
+
+    // Only the first batch is attempted
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.remaining).toEqual(items);
+    expect(result.rejected).toHaveLength(0);
+    expect(result.unauthorized).toBe(true);
+  });
+
+  it('should pull the gut profile and safe foods the backend has', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      url.endsWith('/users/gut-profile')
+        ? respond(404)
+        : respondJson({
+            safeFoods: [
+              createSafeFoodRow('sf-1', {
+                food_item_id: 'food-1',
+                notes: 'Fine in small amounts',
+              }),
+            ],
+          })
+    );
+
+    const remote = await pullRemoteChanges(options);
+
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({
+      method: 'GET',
+      headers: expect.objectContaining({ Authorization: 'Bearer token' }),
+    });
+    expect(remote.gutProfile).toBeNull();
+    expect(remote.safeFoods).toEqual([
+      expect.objectContaining({
+        id: 'sf-1',
+        foodItem: expect.objectContaining({
+          id: 'food-1',
+          name: 'Rice Cakes',
+          category: 'Snacks',
+          ingredients: ['rice', 'salt'],
+          glutenFree: true,
+          lactoseFree: true,
+        }),
+        usageCount: 3,
+        notes: 'Fine in small amounts',
+        updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+      }),
+    ]);
+  });
+
+  it('should pull every page of safe foods', async () => {
+    fetchMock.mockImplementation((url: string) => {
+      if (url.endsWith('/users/gut-profile')) {
+        return respond(404);
+      }
+      const page = new URL(url).searchParams.get('page');
+      return respondJson({
+        safeFoods: [createSafeFoodRow(`sf-${page}`)],
+        pagination: { hasNext: page === '1' },
+      });
+    });
+
+    const remote = await pullRemoteChanges(options);
+
+    expect(remote.safeFoods.map((safeFood) => safeFood.id)).toEqual([
+      'sf-1',
+      'sf-2',
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
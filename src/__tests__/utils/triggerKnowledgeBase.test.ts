@@ -0,0 +1,109 @@
+/**
+ * @fileoverview triggerKnowledgeBase.test.ts - Tests for ingredient trigger rules
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  TRIGGER_KNOWLEDGE_BASE_VERSION,
+  normalizeIngredientText,
+  triggerKnowledgeBase,
+} from '../../utils/triggerKnowledgeBase';
+import type { GutCondition } from '../../types';
+
+describe('TriggerKnowledgeBase', () => {
+  it('should expose a version', () => {
+    expect(triggerKnowledgeBase.getVersion()).toBe(
+      TRIGGER_KNOWLEDGE_BASE_VERSION
+    );
+  });
+
+  it('should have rules for every gut condition', () => {
+    const conditions: GutCondition[] = [
+      'ibs-fodmap',
+      'gluten',
+      'lactose',
+      'reflux',
+      'histamine',
+      'allergies',
+      'additives',
+    ];
+
+    conditions.forEach((condition) => {
+      expect(triggerKnowledgeBase.getRules(condition).length).toBeGreaterThan(
+        0
+      );
+    });
+  });
+
+  describe('match', () => {
+    it('should detect whey as a hidden dairy trigger', () => {
+      const matches = triggerKnowledgeBase.match('Whey Powder');
+
+      expect(matches.map((m) => m.rule.id)).toContain('whey');
+      expect(matches[0]?.rule.hidden).toBe(true);
+
+      const triggers = triggerKnowledgeBase.collectTriggers(matches);
+      expect(triggers).toEqual(
+        expect.arrayContaining([
+          { trigger: 'whey', condition: 'lactose', severity: 'moderate' },
+        ])
+      );
+    });
+
+    it('should detect inulin via chicory root synonym', () => {
+      const matches = triggerKnowledgeBase.match('chicory root fibre');
+
+      expect(matches.map((m) => m.rule.id)).toContain('inulin');
+      expect(matches[0]?.matchType).toBe('synonym');
+    });
+
+    it('should match E-numbers with or without spacing', () => {
+      ['E621', 'e 621', 'flavour enhancer (E621)'].forEach((ingredient) => {
+        const ids = triggerKnowledgeBase
+          .match(ingredient)
+          .map((m) => m.rule.id);
+        expect(ids).toContain('glutamate');
+      });
+    });
+
+    it('should respect exclusions', () => {
+      expect(triggerKnowledgeBase.match('coconut milk')).toHaveLength(0);
+      expect(triggerKnowledgeBase.match('gluten-free oats')).toEqual(
+        expect.not.arrayContaining([
+          expect.objectContaining({
+            rule: expect.objectContaining({ id: 'gluten' }),
+          }),
+        ])
+      );
+    });
+
+    it('should filter triggers by the requested conditions', () => {
+      const matches = triggerKnowledgeBase.match('skimmed milk', ['lactose']);
+      const triggers = triggerKnowledgeBase.collectTriggers(matches);
+
+      expect(triggers.length).toBeGreaterThan(0);
+      triggers.forEach((trigger) => {
+        expect(trigger.condition).toBe('lactose');
+      });
+      expect(triggerKnowledgeBase.match('skimmed milk', ['reflux'])).toEqual(
+        []
+      );
+    });
+
+    it('should match nothing for an empty condition list', () => {
+      expect(triggerKnowledgeBase.match('skimmed milk', [])).toEqual([]);
+      expect(triggerKnowledgeBase.match('wheat flour', [])).toEqual([]);
+    });
+
+    it('should return no matches for benign ingredients', () => {
+      expect(triggerKnowledgeBase.match('water')).toHaveLength(0);
+      expect(triggerKnowledgeBase.match('rice')).toHaveLength(0);
+    });
+  });
+
+  it('should normalize accents and punctuation', () => {
+    expect(normalizeIngredientText('  Crème-Fraîche! ')).toBe('creme fraiche');
+  });
+});
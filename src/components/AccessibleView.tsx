@@ -16,8 +16,9 @@ import {
   TouchableOpacity,
   StyleSheet,
   Animated,
-  AccessibilityInfo
- useColorScheme } from 'react-native';
+  AccessibilityInfo,
+  useColorScheme,
+} from 'react-native';
 import { Colors } from '../constants/colors';
 import { Spacing } from '../constants/spacing';
 import { Typography } from '../constants/typography';
@@ -21,6 +21,7 @@ import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
 import type { MedicationSupplement } from '../types';
+import type { MedicationAdherence } from '../utils/medicationSchedule';
 
 import LinearGradient from './LinearGradientWrapper';
 
@@ -31,6 +32,7 @@ interface MedicationTrackerProps {
     id: string,
     updates: Partial<MedicationSupplement>
   ) => void;
+  adherence?: Record<string, MedicationAdherence>;
 }
 
 const medicationTypes = [
@@ -64,6 +66,7 @@ export const MedicationTracker: React.FC<MedicationTrackerProps> = ({
   onAddMedication,
   medications,
   onUpdateMedication,
+  adherence = {},
 }) => {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
@@ -130,6 +133,35 @@ export const MedicationTracker: React.FC<MedicationTrackerProps> = ({
     return categories.find((c) => c.key === cat)?.label || cat;
   };
 
+  const getAdherenceLabel = (stats: MedicationAdherence): string => {
+    const parts = [`${Math.round(stats.adherence * 100)}% adherence`];
+    if (stats.missedDoses.length > 0) {
+      parts.push(`${stats.missedDoses.length} missed`);
+    }
+    if (stats.currentStreak > 1) {
+      parts.push(`${stats.currentStreak}-dose streak`);
+    }
+    return parts.join(' • ');
+  };
+
+  const renderAdherence = (medicationId: string): React.ReactElement | null => {
+    const stats = adherence[medicationId];
+    if (!stats || stats.expectedDoses === 0) {
+      return null;
+    }
+
+    return (
+      <Text
+        style={[
+          styles.medicationAdherence,
+          { color: stats.adherence >= 0.8 ? Colors.safe : Colors.caution },
+        ]}
+      >
+        {getAdherenceLabel(stats)}
+      </Text>
+    );
+  };
+
   const activeMedications = medications.filter((m) => m.isActive);
   const inactiveMedications = medications.filter((m) => !m.isActive);
 
@@ -439,6 +471,7 @@ export const MedicationTracker: React.FC<MedicationTrackerProps> = ({
                 >
                   Started: {medication.startDate.toLocaleDateString()}
                 </Text>
+                {renderAdherence(medication.id)}
               </View>
             ))}
           </View>
@@ -687,6 +720,11 @@ const styles = StyleSheet.create({
     fontSize: Typography.fontSize.body,
     marginBottom: Spacing.sm,
   },
+  medicationAdherence: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.caption,
+    marginTop: Spacing.xs,
+  },
   medicationCard: {
     borderColor: 'rgba(15, 82, 87, 0.1)',
     borderRadius: BorderRadius.md,
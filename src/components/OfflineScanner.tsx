@@ -21,14 +21,17 @@ import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
 import NetworkService from '../services/NetworkService';
+import OfflinePinningService from '../services/OfflinePinningService';
 import OfflineService from '../services/OfflineService';
-import type {
-  ScanHistory,
-  FoodItem,
-  ScanResult,
-  GutCondition,
-  SeverityLevel,
-} from '../types';
+import type { ScanHistory, FoodItem } from '../types';
+import { logger } from '../utils/logger';
+import type { PinReason } from '../utils/offlinePinning';
+
+const PIN_REASON_LABELS: Record<PinReason, string> = {
+  safe_food: 'Safe food',
+  recent_scan: 'Recent scan',
+  category: 'Pinned category',
+};
 
 interface OfflineScannerProps {
   onScanComplete: (scan: ScanHistory) => void;
@@ -48,6 +51,9 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
   const [isSearching, setIsSearching] = useState(false);
   // const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [pinnedFoods, setPinnedFoods] = useState<Map<string, PinReason>>(
+    new Map()
+  );
   const [networkStatus, setNetworkStatus] = useState({
     isOnline: true,
     quality: 0,
@@ -59,10 +65,20 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
 
   useEffect(() => {
     // Check network status
-    const updateNetworkStatus = async () => {
+    const updateNetworkStatus = (): void => {
       const isOnline = networkService.isOnline();
-      const quality = await networkService.getNetworkQuality();
-      setNetworkStatus({ isOnline, quality: quality.score });
+      networkService
+        .getNetworkQuality()
+        .then((quality) =>
+          setNetworkStatus({ isOnline, quality: quality.score })
+        )
+        .catch((error) => {
+          logger.error(
+            'Failed to check network status',
+            'OfflineScanner',
+            error
+          );
+        });
     };
 
     updateNetworkStatus();
@@ -81,6 +97,24 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
     };
   }, [networkService]);
 
+  useEffect(() => {
+    const loadPinnedFoods = (): void => {
+      offlineService
+        .getPinnedFoods()
+        .then(setPinnedFoods)
+        .catch((error) => {
+          logger.error('Failed to load pinned foods', 'OfflineScanner', error);
+        });
+    };
+
+    loadPinnedFoods();
+
+    // Pins change when they are refreshed in the background
+    return OfflinePinningService.getInstance().subscribe(() => {
+      loadPinnedFoods();
+    });
+  }, [offlineService]);
+
   const performSearch = useCallback(
     async (query: string) => {
       setIsSearching(true);
@@ -88,7 +122,7 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
         const results = await offlineService.searchCachedFoods(query);
         setSearchResults(results);
       } catch (error) {
-        console.error('Search failed:', error);
+        logger.error('Search failed', 'OfflineScanner', error);
         Alert.alert(
           'Search Error',
           'Failed to search cached foods. Please try again.'
@@ -122,92 +156,13 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
     };
   }, [searchQuery, performSearch]);
 
-  const analyzeFood = async (foodItem: FoodItem): Promise<ScanHistory> => {
-    // Simulate offline analysis based on cached data
-    const analysis = {
-      overallSafety: 'caution' as ScanResult,
-      flaggedIngredients: [] as any[],
-      conditionWarnings: [] as any[],
-      safeAlternatives: [] as string[],
-      explanation:
-        'Offline analysis - limited data available. Please check online for complete analysis.',
-      dataSource: 'Offline Cache',
-      lastUpdated: new Date(),
-    };
-
-    // Basic offline analysis based on common triggers
-    const commonTriggers = [
-      { ingredient: 'gluten', conditions: ['gluten', 'ibs-fodmap'] },
-      { ingredient: 'lactose', conditions: ['lactose'] },
-      { ingredient: 'fructose', conditions: ['ibs-fodmap'] },
-      { ingredient: 'sorbitol', conditions: ['ibs-fodmap'] },
-      { ingredient: 'mannitol', conditions: ['ibs-fodmap'] },
-      { ingredient: 'histamine', conditions: ['histamine'] },
-      { ingredient: 'tyramine', conditions: ['histamine'] },
-      { ingredient: 'sulfites', conditions: ['additives'] },
-      { ingredient: 'msg', conditions: ['additives'] },
-      { ingredient: 'artificial colors', conditions: ['additives'] },
-      { ingredient: 'artificial flavors', conditions: ['additives'] },
-    ];
-
-    // Check ingredients for common triggers
-    for (const trigger of commonTriggers) {
-      const hasTrigger = foodItem.ingredients.some((ingredient) =>
-        ingredient.toLowerCase().includes(trigger.ingredient)
-      );
-
-      if (hasTrigger) {
-        analysis.flaggedIngredients.push({
-          ingredient: trigger.ingredient,
-          reason: `Contains ${trigger.ingredient} which may trigger symptoms`,
-          severity: 'moderate' as SeverityLevel,
-          condition: trigger.conditions[0] as GutCondition,
-        });
-
-        analysis.conditionWarnings.push({
-          ingredient: trigger.ingredient,
-          severity: 'moderate' as SeverityLevel,
-          condition: trigger.conditions[0] as GutCondition,
-        });
-      }
-    }
-
-    // Determine overall safety
-    if (analysis.flaggedIngredients.length === 0) {
-      analysis.overallSafety = 'safe';
-      analysis.explanation = 'No common triggers detected in offline analysis.';
-    } else if (analysis.flaggedIngredients.length > 2) {
-      analysis.overallSafety = 'avoid';
-      analysis.explanation =
-        'Multiple potential triggers detected. Consider avoiding or checking online for detailed analysis.';
-    }
-
-    // Generate basic safe alternatives
-    if (analysis.flaggedIngredients.length > 0) {
-      analysis.safeAlternatives = [
-        'Check online for detailed alternatives',
-        'Consult with healthcare provider',
-        'Try small portion first',
-      ];
-    }
-
-    const scanHistory: ScanHistory = {
-      id: `offline_${Date.now()}`,
-      foodItem,
-      analysis,
-      timestamp: new Date(),
-      userFeedback: 'accurate' as const,
-    };
-
-    return scanHistory;
-  };
-
   const handleFoodSelect = async (foodItem: FoodItem) => {
     // setSelectedFood(foodItem);
     setIsAnalyzing(true);
 
     try {
-      const scanResult = await analyzeFood(foodItem);
+      // Same rules as online scans, run against the cached food item
+      const scanResult = await offlineService.analyzeCachedFood(foodItem);
 
       // Store offline scan for later sync
       await offlineService.storeOfflineScan(scanResult);
@@ -216,11 +171,11 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
 
       Alert.alert(
         'Scan Complete',
-        'Food analyzed offline. Results will be synced when online.',
+        'Food analyzed offline. The verdict will be re-checked when you are back online.',
         [{ text: 'OK', onPress: onClose }]
       );
     } catch (error) {
-      console.error('Analysis failed:', error);
+      logger.error('Analysis failed', 'OfflineScanner', error);
       Alert.alert(
         'Analysis Error',
         'Failed to analyze food. Please try again.'
@@ -259,6 +214,18 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
     ]);
   };
 
+  const renderPinnedBadge = (foodId: string) => {
+    const reason = pinnedFoods.get(foodId);
+    if (reason === undefined) {
+      return null;
+    }
+    return (
+      <Text style={[styles.pinnedBadge, { color: colors.accent }]}>
+        📌 Pinned offline · {PIN_REASON_LABELS[reason]}
+      </Text>
+    );
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       {/* Header */}
@@ -287,6 +254,7 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
         </View>
         <Text style={[styles.offlineNote, { color: colors.textSecondary }]}>
           Searching cached foods only
+          {pinnedFoods.size > 0 && ` · ${pinnedFoods.size} pinned`}
         </Text>
       </View>
 
@@ -380,6 +348,7 @@ export const OfflineScanner: React.FC<OfflineScannerProps> = ({
               >
                 {food.category}
               </Text>
+              {renderPinnedBadge(food.id)}
             </View>
             <View style={styles.foodActions}>
               <Text style={[styles.analyzeText, { color: colors.accent }]}>
@@ -516,6 +485,11 @@ const styles = StyleSheet.create({
     fontSize: Typography.fontSize.caption,
     textAlign: 'center',
   },
+  pinnedBadge: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.caption,
+    marginTop: Spacing.xs,
+  },
   resultsContainer: {
     flex: 1,
     paddingHorizontal: Spacing.lg,
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview PortionInput.tsx
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  useColorScheme,
+  Alert,
+} from 'react-native';
+
+import { Colors } from '../constants/colors';
+import { Spacing, BorderRadius } from '../constants/spacing';
+import { Typography } from '../constants/typography';
+import type {
+  ConsumedPortion,
+  FoodItem,
+  PortionUnit,
+  UserPreferences,
+} from '../types';
+import {
+  PORTION_UNITS,
+  createPortion,
+  formatGrams,
+  getDefaultPortion,
+  portionToGrams,
+} from '../utils/portions';
+
+interface PortionInputProps {
+  foodItem: FoodItem;
+  units: UserPreferences['units'];
+  // Serving size is passed back when the user entered one the food lacked
+  onSubmit: (portion: ConsumedPortion, servingSizeGrams?: number) => void;
+  onCancel: () => void;
+}
+
+export const PortionInput: React.FC<PortionInputProps> = ({
+  foodItem,
+  units,
+  onSubmit,
+  onCancel,
+}) => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const defaultPortion = getDefaultPortion(foodItem, units);
+  const servingUnit: PortionUnit = units === 'imperial' ? 'oz' : 'g';
+
+  const [amount, setAmount] = useState(String(defaultPortion.amount));
+  const [unit, setUnit] = useState<PortionUnit>(defaultPortion.unit);
+  const [servingSize, setServingSize] = useState('');
+
+  const enteredServingGrams = portionToGrams(
+    parseFloat(servingSize),
+    servingUnit
+  );
+  const servingSizeGrams =
+    foodItem.servingSizeGrams ?? enteredServingGrams ?? undefined;
+
+  // A serving can only be converted once its size is known
+  const availableUnits = PORTION_UNITS[units].filter(
+    (option) => option !== 'serving' || servingSizeGrams !== undefined
+  );
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: colors.surface,
+      borderColor: colors.border,
+      color: colors.text,
+    },
+  ];
+
+  const handleSubmit = (): void => {
+    const portion = createPortion(parseFloat(amount), unit, {
+      ...(servingSizeGrams !== undefined && { servingSizeGrams }),
+    });
+    if (!portion) {
+      Alert.alert('Invalid Portion', 'Please enter how much you had.');
+      return;
+    }
+    onSubmit(
+      portion,
+      foodItem.servingSizeGrams === undefined ? servingSizeGrams : undefined
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <Text style={[styles.title, { color: colors.text }]}>
+        How much did you have?
+      </Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+        {foodItem.name}
+      </Text>
+
+      {foodItem.servingSizeGrams !== undefined ? (
+        <Text style={[styles.servingText, { color: colors.textSecondary }]}>
+          One serving is {formatGrams(foodItem.servingSizeGrams, units)}
+        </Text>
+      ) : (
+        <>
+          <Text style={[styles.label, { color: colors.text }]}>
+            Serving size ({servingUnit}, optional)
+          </Text>
+          <TextInput
+            keyboardType="decimal-pad"
+            placeholder="As printed on the pack"
+            placeholderTextColor={colors.textTertiary}
+            style={inputStyle}
+            value={servingSize}
+            onChangeText={setServingSize}
+          />
+        </>
+      )}
+
+      <Text style={[styles.label, { color: colors.text }]}>Amount</Text>
+      <TextInput
+        keyboardType="decimal-pad"
+        placeholder="Amount"
+        placeholderTextColor={colors.textTertiary}
+        style={inputStyle}
+        value={amount}
+        onChangeText={setAmount}
+      />
+
+      <View style={styles.unitRow}>
+        {availableUnits.map((option) => (
+          <TouchableOpacity
+            key={option}
+            accessibilityRole="button"
+            accessibilityState={{ selected: unit === option }}
+            style={[
+              styles.unitButton,
+              {
+                backgroundColor:
+                  unit === option ? Colors.primary : colors.surface,
+                borderColor: unit === option ? Colors.primary : colors.border,
+              },
+            ]}
+            onPress={() => setUnit(option)}
+          >
+            <Text
+              style={[
+                styles.unitText,
+                { color: unit === option ? Colors.white : colors.text },
+              ]}
+            >
+              {option}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, { borderColor: colors.border }]}
+          onPress={onCancel}
+        >
+          <Text style={[styles.buttonText, { color: colors.text }]}>
+            Cancel
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.primaryButton]}
+          onPress={handleSubmit}
+        >
+          <Text style={[styles.buttonText, { color: Colors.white }]}>
+            Analyze
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    alignItems: 'center',
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    flex: 1,
+    paddingVertical: Spacing.md,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginTop: Spacing.lg,
+  },
+  buttonText: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+  },
+  container: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  label: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.sm,
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  servingText: {
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.bodySmall,
+    marginBottom: Spacing.md,
+  },
+  subtitle: {
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.lg,
+  },
+  title: {
+    fontFamily: Typography.fontFamily.bold,
+    fontSize: Typography.fontSize.h3,
+    marginBottom: Spacing.xs,
+  },
+  unitButton: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  unitRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  unitText: {
+    fontFamily: Typography.fontFamily.medium,
+    fontSize: Typography.fontSize.bodySmall,
+  },
+});
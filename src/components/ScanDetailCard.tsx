@@ -294,9 +294,9 @@ export const ScanDetailCard: React.FC<ScanDetailCardProps> = React.memo(({
                 Safe Alternatives
               </Text>
               <View style={styles.alternativesList}>
-                {safeAlternatives.map((alternative, index) => (
+                {safeAlternatives.map((alternative) => (
                   <View
-                    key={index}
+                    key={alternative.id || alternative.name}
                     style={[
                       styles.alternativeItem,
                       { backgroundColor: colors.background },
@@ -306,7 +306,7 @@ export const ScanDetailCard: React.FC<ScanDetailCardProps> = React.memo(({
                     <Text
                       style={[styles.alternativeText, { color: colors.text }]}
                     >
-                      {alternative}
+                      {alternative.name}
                     </Text>
                   </View>
                 ))}
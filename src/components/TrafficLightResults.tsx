@@ -22,6 +22,7 @@ import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
 import type { ScanResult, SeverityLevel, GutCondition } from '../types';
+import type { FoodItemReference } from '../types/comprehensive';
 
 // const { width } = Dimensions.get('window');
 
@@ -33,12 +34,17 @@ interface TrafficLightResultsProps {
     severity: SeverityLevel;
     condition: GutCondition;
   }>;
-  safeAlternatives: string[];
+  conditionWarnings?: Array<{
+    ingredient: string;
+    severity: SeverityLevel;
+    condition: GutCondition;
+  }>;
+  safeAlternatives: FoodItemReference[];
   explanation: string;
   confidence: number;
   dataSource: string;
   lastUpdated: Date;
-  onAlternativePress?: (alternative: string) => void;
+  onAlternativePress?: (alternative: FoodItemReference) => void;
   onIngredientPress?: (ingredient: string) => void;
   showDetailedBreakdown?: boolean;
 }
@@ -46,6 +52,7 @@ interface TrafficLightResultsProps {
 export const TrafficLightResults: React.FC<TrafficLightResultsProps> = ({
   overallSafety,
   flaggedIngredients,
+  conditionWarnings = [],
   safeAlternatives,
   explanation,
   confidence,
@@ -239,6 +246,72 @@ export const TrafficLightResults: React.FC<TrafficLightResultsProps> = ({
       {/* Detailed Breakdown */}
       {showDetailedBreakdown && (
         <View style={styles.breakdownContainer}>
+          {/* Condition Warnings */}
+          {conditionWarnings.length > 0 && (
+            <View style={[styles.section, { backgroundColor: colors.surface }]}>
+              <TouchableOpacity
+                style={styles.sectionHeader}
+                onPress={() => toggleSection('conditions')}
+              >
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  Affected Conditions ({conditionWarnings.length})
+                </Text>
+                <Text
+                  style={[styles.expandIcon, { color: colors.textSecondary }]}
+                >
+                  {expandedSection === 'conditions' ? '▼' : '▶'}
+                </Text>
+              </TouchableOpacity>
+
+              {expandedSection === 'conditions' && (
+                <View style={styles.sectionContent}>
+                  {conditionWarnings.map((warning) => (
+                    <View key={warning.condition} style={styles.ingredientItem}>
+                      <View style={styles.ingredientHeader}>
+                        <Text style={styles.severityIcon}>
+                          {getSeverityIcon(warning.severity)}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.ingredientName,
+                            { color: colors.text },
+                          ]}
+                        >
+                          {warning.condition.replace('-', ' ').toUpperCase()}
+                        </Text>
+                        <View
+                          style={[
+                            styles.severityBadge,
+                            {
+                              backgroundColor: `${getSeverityColor(warning.severity)}20`,
+                            },
+                          ]}
+                        >
+                          <Text
+                            style={[
+                              styles.severityText,
+                              { color: getSeverityColor(warning.severity) },
+                            ]}
+                          >
+                            {warning.severity.toUpperCase()}
+                          </Text>
+                        </View>
+                      </View>
+                      <Text
+                        style={[
+                          styles.ingredientReason,
+                          { color: colors.textSecondary },
+                        ]}
+                      >
+                        Driven by {warning.ingredient}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Flagged Ingredients */}
           {flaggedIngredients.length > 0 && (
             <View style={[styles.section, { backgroundColor: colors.surface }]}>
@@ -356,7 +429,7 @@ export const TrafficLightResults: React.FC<TrafficLightResultsProps> = ({
                             { color: Colors.safe },
                           ]}
                         >
-                          {alternative}
+                          {alternative.name}
                         </Text>
                       </TouchableOpacity>
                     ))}
@@ -0,0 +1,36 @@
+/**
+ * Food API Endpoints
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Base URLs of the external food databases, and of the Google Cloud Vision
+ * API used to read ingredient labels from photos. Each one can be overridden
+ * from the environment, e.g. to use the local stand-in server started with
+ * `npm run mock:food-apis`.
+ */
+
+export type FoodApi = 'openFoodFacts' | 'usda' | 'spoonacular' | 'googleVision';
+
+export const DEFAULT_FOOD_API_BASE_URLS: Record<FoodApi, string> = {
+  openFoodFacts: 'https://world.openfoodfacts.org/api/v2',
+  usda: 'https://api.nal.usda.gov/fdc/v1',
+  spoonacular: 'https://api.spoonacular.com',
+  googleVision: 'https://vision.googleapis.com/v1',
+};
+
+/**
+ * Base URL for a food API. The environment is read on every call so that
+ * tests can point services at a server started after they were loaded.
+ */
+export const getFoodApiBaseUrl = (api: FoodApi): string => {
+  // Spelled out so the bundler can inline each variable
+  const overrides: Record<FoodApi, string | undefined> = {
+    openFoodFacts: process.env['REACT_APP_OPENFOODFACTS_BASE_URL'],
+    usda: process.env['REACT_APP_USDA_BASE_URL'],
+    spoonacular: process.env['REACT_APP_SPOONACULAR_BASE_URL'],
+    googleVision: process.env['REACT_APP_GOOGLE_VISION_BASE_URL'],
+  };
+  const override = overrides[api]?.trim();
+  return override !== undefined && override !== ''
+    ? override.replace(/\/+$/, '')
+    : DEFAULT_FOOD_API_BASE_URLS[api];
+};
@@ -23,6 +23,7 @@ export * from './environment';
 export * from './secrets';
 export * from './build';
 export * from './validation';
+export * from './foodApis';
 
 // Export environment-specific configurations
 export { developmentConfig } from './environments/development';
@@ -8,8 +8,10 @@
 import type { ReactNode } from 'react';
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
 
+import ConflictResolutionService from '../services/ConflictResolutionService';
 import type { ScanHistory, GutProfile } from '../types';
 import { logger } from '../utils/logger';
+import { normalizeSafeAlternatives } from '../utils/safeAlternatives';
 
 // App State Interface
 interface AppState {
@@ -220,7 +222,18 @@ export function AppProvider({ children }: AppProviderProps) {
         if (savedScanHistory) {
           const scanHistory = JSON.parse(savedScanHistory);
           scanHistory.forEach((scan: ScanHistory) => {
-            dispatch({ type: 'ADD_SCAN', payload: scan });
+            dispatch({
+              type: 'ADD_SCAN',
+              payload: {
+                ...scan,
+                analysis: {
+                  ...scan.analysis,
+                  safeAlternatives: normalizeSafeAlternatives(
+                    scan.analysis.safeAlternatives
+                  ),
+                },
+              },
+            });
           });
         }
 
@@ -277,6 +290,25 @@ export function AppProvider({ children }: AppProviderProps) {
     }
   }, [state.gutProfile]);
 
+  // Merge gut profiles edited on other devices into the one shown here
+  useEffect(() => {
+    ConflictResolutionService.getInstance().setLocalGutProfile(
+      state.gutProfile
+    );
+  }, [state.gutProfile]);
+
+  useEffect(
+    () =>
+      ConflictResolutionService.getInstance().subscribeToMerges(
+        ({ gutProfile }) => {
+          if (gutProfile) {
+            dispatch({ type: 'SET_GUT_PROFILE', payload: gutProfile });
+          }
+        }
+      ),
+    []
+  );
+
   useEffect(() => {
     try {
       if (state.userSettings) {
@@ -421,6 +421,16 @@ export const getDatabaseConfig = (): DatabaseConfig => {
   }
 };
 
+// Offline food store configuration. The store lives on the device, so it is
+// always SQLite whatever the main database is.
+export const getOfflineDatabaseConfig = (): DatabaseConfig => ({
+  type: 'sqlite',
+  database:
+    config.app.environment === 'test' ? ':memory:' : 'gutsafe_offline.db',
+  logging: false,
+  synchronize: true,
+});
+
 // Singleton database connection
 class DatabaseManager {
   private static instance: DatabaseManager;
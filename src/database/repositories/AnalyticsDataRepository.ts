@@ -0,0 +1,325 @@
+/**
+ * Analytics Data Repository
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Repository for managing daily analytics data.
+ */
+
+import { AnalyticsDataSchema, type AnalyticsData } from '../schema';
+
+import { BaseRepository } from './BaseRepository';
+
+type DailyMetrics = Partial<
+  Omit<AnalyticsData, 'id' | 'userId' | 'date' | 'createdAt' | 'updatedAt'>
+>;
+
+// Maps metric fields to their analytics_data columns
+const METRIC_COLUMNS: Record<keyof DailyMetrics, string> = {
+  totalScans: 'total_scans',
+  safeScans: 'safe_scans',
+  cautionScans: 'caution_scans',
+  avoidScans: 'avoid_scans',
+  symptomsReported: 'symptoms_reported',
+  energyLevel: 'energy_level',
+  sleepQuality: 'sleep_quality',
+  mood: 'mood',
+  stressLevel: 'stress_level',
+  waterIntake: 'water_intake',
+  exerciseMinutes: 'exercise_minutes',
+  weather: 'weather',
+};
+
+const SCAN_COLUMNS = {
+  safe: 'safe_scans',
+  caution: 'caution_scans',
+  avoid: 'avoid_scans',
+} as const;
+
+// Analytics rows are keyed by calendar day
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+export class AnalyticsDataRepository extends BaseRepository<AnalyticsData> {
+  constructor() {
+    super('analytics_data', AnalyticsDataSchema);
+  }
+
+  // Find a record by ID
+  override async findById(id: string): Promise<AnalyticsData | null> {
+    const results = await this.executeQuery(
+      'SELECT * FROM analytics_data WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? this.transformResult(results[0]) : null;
+  }
+
+  // Get the record for a user on a given day
+  async findByUserIdAndDate(
+    userId: string,
+    date: Date
+  ): Promise<AnalyticsData | null> {
+    const results = await this.executeQuery(
+      'SELECT * FROM analytics_data WHERE user_id = ? AND date = ? LIMIT 1',
+      [userId, toDateKey(date)]
+    );
+    return results.length > 0 ? this.transformResult(results[0]) : null;
+  }
+
+  // Set metrics for a day, creating the day's record if needed
+  async upsertDailyMetrics(
+    userId: string,
+    date: Date,
+    metrics: DailyMetrics
+  ): Promise<AnalyticsData> {
+    const entries = (Object.keys(metrics) as Array<keyof DailyMetrics>)
+      .filter((key) => metrics[key] !== undefined)
+      .map((key) => ({
+        column: METRIC_COLUMNS[key],
+        value:
+          key === 'weather'
+            ? this.serializeJson(metrics.weather)
+            : metrics[key],
+      }));
+
+    const now = new Date().toISOString();
+    const columns = entries.map((entry) => entry.column);
+    const updateClause = columns
+      .map((column) => `${column} = excluded.${column}`)
+      .concat(['updated_at = excluded.updated_at'])
+      .join(', ');
+
+    const query = `
+      INSERT INTO analytics_data (
+        id, user_id, date, ${columns.concat(['created_at', 'updated_at']).join(', ')}
+      ) VALUES (${['?', '?', '?', ...columns.map(() => '?'), '?', '?'].join(', ')})
+      ON CONFLICT(user_id, date) DO UPDATE SET ${updateClause}
+    `;
+
+    await this.executeQuery(query, [
+      this.generateId(),
+      userId,
+      toDateKey(date),
+      ...entries.map((entry) => entry.value),
+      now,
+      now,
+    ]);
+
+    const saved = await this.findByUserIdAndDate(userId, date);
+    if (!saved) {
+      throw new Error('Failed to save analytics data');
+    }
+
+    return saved;
+  }
+
+  // Count a scan against the day it happened
+  async recordScan(
+    userId: string,
+    result: keyof typeof SCAN_COLUMNS,
+    date: Date = new Date()
+  ): Promise<void> {
+    const column = SCAN_COLUMNS[result];
+    const now = new Date().toISOString();
+    const query = `
+      INSERT INTO analytics_data (
+        id, user_id, date, total_scans, ${column}, created_at, updated_at
+      ) VALUES (?, ?, ?, 1, 1, ?, ?)
+      ON CONFLICT(user_id, date) DO UPDATE SET
+        total_scans = total_scans + 1,
+        ${column} = ${column} + 1,
+        updated_at = excluded.updated_at
+    `;
+
+    await this.executeQuery(query, [
+      this.generateId(),
+      userId,
+      toDateKey(date),
+      now,
+      now,
+    ]);
+  }
+
+  // Count reported symptoms against the day they happened
+  async recordSymptoms(
+    userId: string,
+    count: number,
+    date: Date = new Date()
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const query = `
+      INSERT INTO analytics_data (
+        id, user_id, date, symptoms_reported, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, date) DO UPDATE SET
+        symptoms_reported = symptoms_reported + excluded.symptoms_reported,
+        updated_at = excluded.updated_at
+    `;
+
+    await this.executeQuery(query, [
+      this.generateId(),
+      userId,
+      toDateKey(date),
+      count,
+      now,
+      now,
+    ]);
+  }
+
+  // Get daily records for a user within a date range
+  async findByUserIdInRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    limit?: number,
+    offset?: number
+  ): Promise<AnalyticsData[]> {
+    let query = `
+      SELECT * FROM analytics_data
+      WHERE user_id = ? AND date BETWEEN ? AND ?
+      ORDER BY date DESC
+    `;
+
+    const parameters: any[] = [
+      userId,
+      toDateKey(startDate),
+      toDateKey(endDate),
+    ];
+
+    if (limit) {
+      query += ' LIMIT ?';
+      parameters.push(limit);
+    }
+
+    if (offset) {
+      query += ' OFFSET ?';
+      parameters.push(offset);
+    }
+
+    const results = await this.executeQuery(query, parameters);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get totals and averages for a user over a date range
+  async getSummary(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<{
+    days: number;
+    totalScans: number;
+    safeScans: number;
+    cautionScans: number;
+    avoidScans: number;
+    symptomsReported: number;
+    averageEnergyLevel: number | null;
+    averageSleepQuality: number | null;
+    averageMood: number | null;
+    averageStressLevel: number | null;
+  }> {
+    const query = `
+      SELECT
+        COUNT(*) as days,
+        SUM(total_scans) as total_scans,
+        SUM(safe_scans) as safe_scans,
+        SUM(caution_scans) as caution_scans,
+        SUM(avoid_scans) as avoid_scans,
+        SUM(symptoms_reported) as symptoms_reported,
+        AVG(energy_level) as average_energy_level,
+        AVG(sleep_quality) as average_sleep_quality,
+        AVG(mood) as average_mood,
+        AVG(stress_level) as average_stress_level
+      FROM analytics_data
+      WHERE user_id = ? AND date BETWEEN ? AND ?
+    `;
+
+    const results = await this.executeQuery<{
+      days: number;
+      total_scans: number | null;
+      safe_scans: number | null;
+      caution_scans: number | null;
+      avoid_scans: number | null;
+      symptoms_reported: number | null;
+      average_energy_level: number | null;
+      average_sleep_quality: number | null;
+      average_mood: number | null;
+      average_stress_level: number | null;
+    }>(query, [userId, toDateKey(startDate), toDateKey(endDate)]);
+
+    const stats = results[0];
+
+    return {
+      days: stats?.days ?? 0,
+      totalScans: stats?.total_scans ?? 0,
+      safeScans: stats?.safe_scans ?? 0,
+      cautionScans: stats?.caution_scans ?? 0,
+      avoidScans: stats?.avoid_scans ?? 0,
+      symptomsReported: stats?.symptoms_reported ?? 0,
+      averageEnergyLevel: stats?.average_energy_level ?? null,
+      averageSleepQuality: stats?.average_sleep_quality ?? null,
+      averageMood: stats?.average_mood ?? null,
+      averageStressLevel: stats?.average_stress_level ?? null,
+    };
+  }
+
+  // Get weekly totals for charts
+  async getWeeklyTrends(
+    userId: string,
+    weeks: number = 12
+  ): Promise<
+    Array<{
+      week: string;
+      totalScans: number;
+      safeScans: number;
+      symptomsReported: number;
+    }>
+  > {
+    const query = `
+      SELECT
+        strftime('%Y-%W', date) as week,
+        SUM(total_scans) as total_scans,
+        SUM(safe_scans) as safe_scans,
+        SUM(symptoms_reported) as symptoms_reported
+      FROM analytics_data
+      WHERE user_id = ?
+        AND date >= date('now', '-${weeks * 7} days')
+      GROUP BY week
+      ORDER BY week DESC
+    `;
+
+    const results = await this.executeQuery<{
+      week: string;
+      total_scans: number;
+      safe_scans: number;
+      symptoms_reported: number;
+    }>(query, [userId]);
+
+    return results.map((row) => ({
+      week: row.week,
+      totalScans: row.total_scans,
+      safeScans: row.safe_scans,
+      symptomsReported: row.symptoms_reported,
+    }));
+  }
+
+  // Transform database result to AnalyticsData object
+  private transformResult(result: any): AnalyticsData {
+    return {
+      id: result.id,
+      userId: result.user_id,
+      date: new Date(result.date),
+      totalScans: result.total_scans ?? 0,
+      safeScans: result.safe_scans ?? 0,
+      cautionScans: result.caution_scans ?? 0,
+      avoidScans: result.avoid_scans ?? 0,
+      symptomsReported: result.symptoms_reported ?? 0,
+      energyLevel: result.energy_level ?? undefined,
+      sleepQuality: result.sleep_quality ?? undefined,
+      mood: result.mood ?? undefined,
+      stressLevel: result.stress_level ?? undefined,
+      waterIntake: result.water_intake ?? undefined,
+      exerciseMinutes: result.exercise_minutes ?? undefined,
+      weather: result.weather ? JSON.parse(result.weather) : undefined,
+      createdAt: new Date(result.created_at),
+      updatedAt: new Date(result.updated_at),
+    };
+  }
+}
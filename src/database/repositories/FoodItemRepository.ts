@@ -5,6 +5,7 @@
  * Repository for managing food item data.
  */
 
+import { barcodeVariants, toGtin14 } from '../../utils/barcode';
 import type { FoodItem } from '../schema';
 import { FoodItemSchema } from '../schema';
 
@@ -15,9 +16,36 @@ export class FoodItemRepository extends BaseRepository<FoodItem> {
     super('food_items', FoodItemSchema);
   }
 
-  // Find food by barcode
+  // Find food by barcode in any printed form. Rows saved before barcodes
+  // were stored as GTIN-14 keep the form they were scanned in.
   async findByBarcode(barcode: string): Promise<FoodItem | null> {
-    return this.findOneByField('barcode', barcode);
+    const gtin14 = toGtin14(barcode);
+    if (gtin14 === null) {
+      return this.findOneByField('barcode', barcode);
+    }
+
+    const variants = barcodeVariants(gtin14);
+    const query = `
+      SELECT * FROM ${this.tableName}
+      WHERE barcode IN (${variants.map(() => '?').join(', ')})
+    `;
+    const results = await this.executeQuery<FoodItem>(query, variants);
+    const match = results.find((food) => food.barcode === gtin14) ?? results[0];
+    return match ? this.schema.parse(match) : null;
+  }
+
+  // Store barcodes as GTIN-14 so a UPC-A and an EAN-13 scan share a row
+  override async create(
+    data: Omit<FoodItem, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<FoodItem> {
+    return super.create(this.withCanonicalBarcode(data));
+  }
+
+  override async update(
+    id: string,
+    data: Partial<Omit<FoodItem, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<FoodItem> {
+    return super.update(id, this.withCanonicalBarcode(data));
   }
 
   // Search foods by name
@@ -316,6 +344,19 @@ export class FoodItemRepository extends BaseRepository<FoodItem> {
     };
   }
 
+  // User-contributed foods nobody has reviewed yet, oldest first
+  async findAwaitingVerification(limit: number = 50): Promise<FoodItem[]> {
+    const query = `
+      SELECT * FROM food_items
+      WHERE data_source = 'user' AND is_verified = ? AND verification_date IS NULL
+      ORDER BY created_at
+      LIMIT ?
+    `;
+
+    const results = await this.executeQuery<FoodItem>(query, [false, limit]);
+    return results.map((item) => this.schema.parse(item));
+  }
+
   // Verify food item
   async verifyFoodItem(
     id: string,
@@ -468,4 +509,11 @@ export class FoodItemRepository extends BaseRepository<FoodItem> {
       trend: row.trend as 'increasing' | 'stable' | 'decreasing',
     }));
   }
+
+  private withCanonicalBarcode<T extends { barcode?: string | undefined }>(
+    data: T
+  ): T {
+    const gtin14 = data.barcode !== undefined ? toGtin14(data.barcode) : null;
+    return gtin14 !== null ? { ...data, barcode: gtin14 } : data;
+  }
 }
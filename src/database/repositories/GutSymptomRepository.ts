@@ -0,0 +1,314 @@
+/**
+ * Gut Symptom Repository
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Repository for managing gut symptom data.
+ */
+
+import { GutSymptomSchema, type GutSymptom } from '../schema';
+
+import { BaseRepository } from './BaseRepository';
+
+export class GutSymptomRepository extends BaseRepository<GutSymptom> {
+  constructor() {
+    super('gut_symptoms', GutSymptomSchema);
+  }
+
+  // Find a symptom by ID
+  override async findById(id: string): Promise<GutSymptom | null> {
+    const results = await this.executeQuery(
+      'SELECT * FROM gut_symptoms WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? this.transformResult(results[0]) : null;
+  }
+
+  // Record a symptom for a user
+  async createSymptom(
+    data: Omit<GutSymptom, 'createdAt' | 'updatedAt'>
+  ): Promise<GutSymptom> {
+    const now = new Date().toISOString();
+    const query = `
+      INSERT INTO gut_symptoms (
+        id, user_id, type, severity, description, duration, timestamp,
+        potential_triggers, location, related_foods, weather, mood,
+        stress_level, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.executeQuery(query, [
+      data.id,
+      data.userId,
+      data.type,
+      data.severity,
+      data.description ?? null,
+      data.duration,
+      data.timestamp.toISOString(),
+      this.serializeJson(data.potentialTriggers),
+      data.location ?? null,
+      data.relatedFoods ? this.serializeJson(data.relatedFoods) : null,
+      data.weather ? this.serializeJson(data.weather) : null,
+      data.mood ?? null,
+      data.stressLevel ?? null,
+      now,
+      now,
+    ]);
+
+    const created = await this.findById(data.id);
+    if (!created) {
+      throw new Error('Failed to create symptom');
+    }
+
+    return created;
+  }
+
+  // Get symptoms for a user, newest first
+  async findByUserId(
+    userId: string,
+    limit?: number,
+    offset?: number
+  ): Promise<GutSymptom[]> {
+    let query = `
+      SELECT * FROM gut_symptoms
+      WHERE user_id = ?
+      ORDER BY timestamp DESC
+    `;
+
+    const parameters: any[] = [userId];
+
+    if (limit) {
+      query += ' LIMIT ?';
+      parameters.push(limit);
+    }
+
+    if (offset) {
+      query += ' OFFSET ?';
+      parameters.push(offset);
+    }
+
+    const results = await this.executeQuery(query, parameters);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get a page of symptoms with the total count for paging controls
+  async findPageByUserId(
+    userId: string,
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<{
+    items: GutSymptom[];
+    total: number;
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+  }> {
+    const [items, total] = await Promise.all([
+      this.findByUserId(userId, pageSize, (page - 1) * pageSize),
+      this.countByField('user_id', userId),
+    ]);
+
+    return {
+      items,
+      total,
+      page,
+      pageSize,
+      hasMore: page * pageSize < total,
+    };
+  }
+
+  // Get symptoms for a user within a date range
+  async findByUserIdInRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    type?: GutSymptom['type']
+  ): Promise<GutSymptom[]> {
+    let query = `
+      SELECT * FROM gut_symptoms
+      WHERE user_id = ? AND timestamp BETWEEN ? AND ?
+    `;
+
+    const parameters: any[] = [
+      userId,
+      startDate.toISOString(),
+      endDate.toISOString(),
+    ];
+
+    if (type) {
+      query += ' AND type = ?';
+      parameters.push(type);
+    }
+
+    query += ' ORDER BY timestamp DESC';
+
+    const results = await this.executeQuery(query, parameters);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get symptom statistics for a user
+  async getSymptomStatistics(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<{
+    totalSymptoms: number;
+    averageSeverity: number;
+    maxSeverity: number;
+    totalDurationMinutes: number;
+  }> {
+    let query = `
+      SELECT
+        COUNT(*) as total_symptoms,
+        AVG(severity) as average_severity,
+        MAX(severity) as max_severity,
+        SUM(duration) as total_duration
+      FROM gut_symptoms
+      WHERE user_id = ?
+    `;
+
+    const parameters: any[] = [userId];
+
+    if (startDate && endDate) {
+      query += ' AND timestamp BETWEEN ? AND ?';
+      parameters.push(startDate.toISOString(), endDate.toISOString());
+    }
+
+    const results = await this.executeQuery<{
+      total_symptoms: number;
+      average_severity: number | null;
+      max_severity: number | null;
+      total_duration: number | null;
+    }>(query, parameters);
+
+    const stats = results[0];
+
+    return {
+      totalSymptoms: stats?.total_symptoms ?? 0,
+      averageSeverity: stats?.average_severity ?? 0,
+      maxSeverity: stats?.max_severity ?? 0,
+      totalDurationMinutes: stats?.total_duration ?? 0,
+    };
+  }
+
+  // Get symptom counts and average severity by type
+  async getSymptomTypeBreakdown(
+    userId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<
+    Array<{
+      type: GutSymptom['type'];
+      count: number;
+      averageSeverity: number;
+    }>
+  > {
+    let query = `
+      SELECT
+        type,
+        COUNT(*) as count,
+        AVG(severity) as average_severity
+      FROM gut_symptoms
+      WHERE user_id = ?
+    `;
+
+    const parameters: any[] = [userId];
+
+    if (startDate && endDate) {
+      query += ' AND timestamp BETWEEN ? AND ?';
+      parameters.push(startDate.toISOString(), endDate.toISOString());
+    }
+
+    query += ' GROUP BY type ORDER BY count DESC';
+
+    const results = await this.executeQuery<{
+      type: GutSymptom['type'];
+      count: number;
+      average_severity: number;
+    }>(query, parameters);
+
+    return results.map((row) => ({
+      type: row.type,
+      count: row.count,
+      averageSeverity: row.average_severity,
+    }));
+  }
+
+  // Get daily symptom trends
+  async getDailyTrends(
+    userId: string,
+    days: number = 30
+  ): Promise<
+    Array<{
+      date: string;
+      count: number;
+      averageSeverity: number;
+      maxSeverity: number;
+    }>
+  > {
+    const query = `
+      SELECT
+        DATE(timestamp) as date,
+        COUNT(*) as count,
+        AVG(severity) as average_severity,
+        MAX(severity) as max_severity
+      FROM gut_symptoms
+      WHERE user_id = ?
+        AND timestamp >= datetime('now', '-${days} days')
+      GROUP BY DATE(timestamp)
+      ORDER BY date DESC
+    `;
+
+    const results = await this.executeQuery<{
+      date: string;
+      count: number;
+      average_severity: number;
+      max_severity: number;
+    }>(query, [userId]);
+
+    return results.map((row) => ({
+      date: row.date,
+      count: row.count,
+      averageSeverity: row.average_severity,
+      maxSeverity: row.max_severity,
+    }));
+  }
+
+  // Delete old symptoms (cleanup)
+  async deleteOldSymptoms(
+    userId: string,
+    olderThanDays: number = 365
+  ): Promise<number> {
+    const query = `
+      DELETE FROM gut_symptoms
+      WHERE user_id = ? AND timestamp < datetime('now', '-${olderThanDays} days')
+    `;
+
+    await this.executeQuery(query, [userId]);
+    return 1; // SQLite doesn't return affected rows count
+  }
+
+  // Transform database result to GutSymptom object
+  private transformResult(result: any): GutSymptom {
+    return {
+      id: result.id,
+      userId: result.user_id,
+      type: result.type,
+      severity: result.severity,
+      description: result.description ?? undefined,
+      duration: result.duration,
+      timestamp: new Date(result.timestamp),
+      potentialTriggers: result.potential_triggers
+        ? JSON.parse(result.potential_triggers)
+        : [],
+      location: result.location ?? undefined,
+      relatedFoods: result.related_foods
+        ? JSON.parse(result.related_foods)
+        : undefined,
+      weather: result.weather ? JSON.parse(result.weather) : undefined,
+      mood: result.mood ?? undefined,
+      stressLevel: result.stress_level ?? undefined,
+      createdAt: new Date(result.created_at),
+      updatedAt: new Date(result.updated_at),
+    };
+  }
+}
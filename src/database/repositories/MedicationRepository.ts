@@ -0,0 +1,246 @@
+/**
+ * Medication Repository
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Repository for managing medication and supplement data.
+ */
+
+import {
+  MedicationSupplementSchema,
+  type MedicationSupplement,
+} from '../schema';
+
+import { BaseRepository } from './BaseRepository';
+
+export class MedicationRepository extends BaseRepository<MedicationSupplement> {
+  constructor() {
+    super('medications', MedicationSupplementSchema);
+  }
+
+  // Find a medication by ID
+  override async findById(id: string): Promise<MedicationSupplement | null> {
+    const results = await this.executeQuery(
+      'SELECT * FROM medications WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? this.transformResult(results[0]) : null;
+  }
+
+  // Insert or replace a medication, keeping the original creation time
+  async upsert(
+    data: Omit<MedicationSupplement, 'createdAt' | 'updatedAt'>
+  ): Promise<MedicationSupplement> {
+    const now = new Date().toISOString();
+    const query = `
+      INSERT INTO medications (
+        id, user_id, name, type, dosage, frequency, start_date, end_date,
+        is_active, notes, gut_related, category, side_effects, effectiveness,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        type = excluded.type,
+        dosage = excluded.dosage,
+        frequency = excluded.frequency,
+        start_date = excluded.start_date,
+        end_date = excluded.end_date,
+        is_active = excluded.is_active,
+        notes = excluded.notes,
+        gut_related = excluded.gut_related,
+        category = excluded.category,
+        side_effects = excluded.side_effects,
+        effectiveness = excluded.effectiveness,
+        updated_at = excluded.updated_at
+    `;
+
+    await this.executeQuery(query, [
+      data.id,
+      data.userId,
+      data.name,
+      data.type,
+      data.dosage,
+      data.frequency,
+      data.startDate.toISOString(),
+      data.endDate?.toISOString() ?? null,
+      data.isActive ? 1 : 0,
+      data.notes ?? null,
+      data.gutRelated ? 1 : 0,
+      data.category ?? null,
+      data.sideEffects ? this.serializeJson(data.sideEffects) : null,
+      data.effectiveness ?? null,
+      now,
+      now,
+    ]);
+
+    const saved = await this.findById(data.id);
+    if (!saved) {
+      throw new Error('Failed to save medication');
+    }
+
+    return saved;
+  }
+
+  // Get medications for a user
+  async findByUserId(
+    userId: string,
+    limit?: number,
+    offset?: number
+  ): Promise<MedicationSupplement[]> {
+    let query = `
+      SELECT * FROM medications
+      WHERE user_id = ?
+      ORDER BY is_active DESC, start_date DESC
+    `;
+
+    const parameters: any[] = [userId];
+
+    if (limit) {
+      query += ' LIMIT ?';
+      parameters.push(limit);
+    }
+
+    if (offset) {
+      query += ' OFFSET ?';
+      parameters.push(offset);
+    }
+
+    const results = await this.executeQuery(query, parameters);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get active medications for a user
+  async findActiveByUserId(userId: string): Promise<MedicationSupplement[]> {
+    const query = `
+      SELECT * FROM medications
+      WHERE user_id = ? AND is_active = 1
+      ORDER BY name
+    `;
+
+    const results = await this.executeQuery(query, [userId]);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get medications that were being taken at any point in a date range
+  async findTakenInRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<MedicationSupplement[]> {
+    const query = `
+      SELECT * FROM medications
+      WHERE user_id = ?
+        AND start_date <= ?
+        AND (end_date IS NULL OR end_date >= ?)
+      ORDER BY start_date DESC
+    `;
+
+    const results = await this.executeQuery(query, [
+      userId,
+      endDate.toISOString(),
+      startDate.toISOString(),
+    ]);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get medications by type
+  async findByType(
+    userId: string,
+    type: MedicationSupplement['type']
+  ): Promise<MedicationSupplement[]> {
+    const query = `
+      SELECT * FROM medications
+      WHERE user_id = ? AND type = ?
+      ORDER BY name
+    `;
+
+    const results = await this.executeQuery(query, [userId, type]);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get medication counts and effectiveness by type
+  async getTypeBreakdown(userId: string): Promise<
+    Array<{
+      type: MedicationSupplement['type'];
+      count: number;
+      activeCount: number;
+      averageEffectiveness: number | null;
+    }>
+  > {
+    const query = `
+      SELECT
+        type,
+        COUNT(*) as count,
+        SUM(CASE WHEN is_active = 1 THEN 1 ELSE 0 END) as active_count,
+        AVG(effectiveness) as average_effectiveness
+      FROM medications
+      WHERE user_id = ?
+      GROUP BY type
+      ORDER BY count DESC
+    `;
+
+    const results = await this.executeQuery<{
+      type: MedicationSupplement['type'];
+      count: number;
+      active_count: number;
+      average_effectiveness: number | null;
+    }>(query, [userId]);
+
+    return results.map((row) => ({
+      type: row.type,
+      count: row.count,
+      activeCount: row.active_count,
+      averageEffectiveness: row.average_effectiveness,
+    }));
+  }
+
+  // Activate or deactivate a medication
+  async setActive(
+    id: string,
+    isActive: boolean
+  ): Promise<MedicationSupplement> {
+    const query = `
+      UPDATE medications
+      SET is_active = ?, end_date = ?, updated_at = ?
+      WHERE id = ?
+    `;
+
+    const now = new Date().toISOString();
+    await this.executeQuery(query, [
+      isActive ? 1 : 0,
+      isActive ? null : now,
+      now,
+      id,
+    ]);
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Medication not found');
+    }
+
+    return updated;
+  }
+
+  // Transform database result to MedicationSupplement object
+  private transformResult(result: any): MedicationSupplement {
+    return {
+      id: result.id,
+      userId: result.user_id,
+      name: result.name,
+      type: result.type,
+      dosage: result.dosage,
+      frequency: result.frequency,
+      startDate: new Date(result.start_date),
+      endDate: result.end_date ? new Date(result.end_date) : undefined,
+      isActive: Boolean(result.is_active),
+      notes: result.notes ?? undefined,
+      gutRelated: Boolean(result.gut_related),
+      category: result.category ?? undefined,
+      sideEffects: result.side_effects
+        ? JSON.parse(result.side_effects)
+        : undefined,
+      effectiveness: result.effectiveness ?? undefined,
+      createdAt: new Date(result.created_at),
+      updatedAt: new Date(result.updated_at),
+    };
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Offline Food Repository
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Repository for the device-local food store used when the app is offline.
+ */
+
+import type { FoodItem } from '../../types';
+import { toGtin14 } from '../../utils/barcode';
+import { logger } from '../../utils/logger';
+import {
+  buildFtsMatchQuery,
+  rankFuzzyMatches,
+  selectEvictions,
+  tokenizeSearchQuery,
+  type StoreLimits,
+} from '../../utils/offlineFoodSearch';
+import type { PinReason } from '../../utils/offlinePinning';
+import {
+  DatabaseFactory,
+  getOfflineDatabaseConfig,
+  type DatabaseConnection,
+} from '../connection';
+import {
+  DatabaseIndexes,
+  OfflineFoodSchema,
+  type OfflineFood,
+} from '../schema';
+
+import { BaseRepository } from './BaseRepository';
+
+export type OfflineFoodSource = OfflineFood['source'];
+
+// Number of recently used foods scanned for fuzzy matches
+const FUZZY_CANDIDATE_LIMIT = 500;
+// Keeps IN (...) lists well under SQLite's parameter limit
+const DELETE_BATCH_SIZE = 100;
+
+export class OfflineFoodRepository extends BaseRepository<OfflineFood> {
+  private readonly connection: DatabaseConnection;
+  private ftsAvailable = false;
+
+  constructor(
+    connection: DatabaseConnection = DatabaseFactory.createConnection(
+      getOfflineDatabaseConfig()
+    )
+  ) {
+    super('offline_foods', OfflineFoodSchema);
+    this.connection = connection;
+  }
+
+  // The offline store has its own SQLite database, separate from the main one
+  protected override getConnection(): DatabaseConnection {
+    return this.connection;
+  }
+
+  // Open the store and create its tables. The schema is device-local, so it
+  // is created here rather than in the shared migrations.
+  async open(): Promise<void> {
+    if (!this.connection.isConnected()) {
+      await this.connection.connect();
+    }
+
+    await this.executeQuery(`
+      CREATE TABLE IF NOT EXISTS offline_foods (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        brand TEXT,
+        barcode TEXT,
+        source TEXT NOT NULL CHECK (source IN ('cache', 'openfoodfacts', 'scan')),
+        data TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        access_count INTEGER NOT NULL DEFAULT 0,
+        last_accessed DATETIME NOT NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await this.connection.createIndex(
+      DatabaseIndexes.offline_foods_barcode,
+      'offline_foods',
+      ['barcode']
+    );
+    await this.connection.createIndex(
+      DatabaseIndexes.offline_foods_last_accessed,
+      'offline_foods',
+      ['last_accessed']
+    );
+    // Pinned foods are kept out of eviction
+    await this.executeQuery(`
+      CREATE TABLE IF NOT EXISTS offline_pins (
+        food_id TEXT PRIMARY KEY,
+        reason TEXT NOT NULL CHECK (reason IN ('safe_food', 'recent_scan', 'category')),
+        pinned_at DATETIME NOT NULL
+      )
+    `);
+
+    try {
+      await this.executeQuery(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS offline_foods_fts USING fts5(
+          food_id UNINDEXED,
+          name,
+          brand,
+          barcode,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        )
+      `);
+      this.ftsAvailable = true;
+    } catch (error) {
+      // Builds without FTS5 fall back to LIKE matching
+      logger.warn(
+        'FTS5 unavailable, using LIKE search',
+        'OfflineFoodRepository',
+        error
+      );
+      this.ftsAvailable = false;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.connection.disconnect();
+  }
+
+  // Find a stored food by ID
+  override async findById(id: string): Promise<OfflineFood | null> {
+    const results = await this.executeQuery(
+      'SELECT * FROM offline_foods WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? this.transformResult(results[0]) : null;
+  }
+
+  // Insert or refresh a food, keeping its usage history
+  async upsertFood(
+    foodItem: FoodItem,
+    source: OfflineFoodSource
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const data = JSON.stringify(foodItem);
+    const query = `
+      INSERT INTO offline_foods (
+        id, name, brand, barcode, source, data, size_bytes, access_count,
+        last_accessed, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        brand = excluded.brand,
+        barcode = excluded.barcode,
+        source = excluded.source,
+        data = excluded.data,
+        size_bytes = excluded.size_bytes,
+        updated_at = excluded.updated_at
+    `;
+
+    // Barcodes are stored as GTIN-14 so any printed form finds the food
+    const barcode =
+      foodItem.barcode !== undefined
+        ? (toGtin14(foodItem.barcode) ?? foodItem.barcode)
+        : null;
+    await this.executeQuery(query, [
+      foodItem.id,
+      foodItem.name,
+      foodItem.brand ?? null,
+      barcode,
+      source,
+      data,
+      data.length,
+      now,
+      now,
+      now,
+    ]);
+
+    if (this.ftsAvailable) {
+      await this.executeQuery(
+        'DELETE FROM offline_foods_fts WHERE food_id = ?',
+        [foodItem.id]
+      );
+      await this.executeQuery(
+        'INSERT INTO offline_foods_fts (food_id, name, brand, barcode) VALUES (?, ?, ?, ?)',
+        [
+          foodItem.id,
+          foodItem.name,
+          foodItem.brand ?? '',
+          foodItem.barcode ?? '',
+        ]
+      );
+    }
+  }
+
+  // Get the most recently updated food with a barcode
+  async findFoodByBarcode(barcode: string): Promise<FoodItem | null> {
+    const results = await this.executeQuery(
+      `SELECT * FROM offline_foods WHERE barcode = ?
+       ORDER BY updated_at DESC LIMIT 1`,
+      [toGtin14(barcode) ?? barcode]
+    );
+    return results.length > 0 ? this.transformFoodItem(results[0]) : null;
+  }
+
+  // Search by prefix over name, brand and barcode, topping up with fuzzy
+  // matches when there are too few prefix matches
+  async searchFoods(query: string, limit: number): Promise<FoodItem[]> {
+    const tokens = tokenizeSearchQuery(query);
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    const results = this.ftsAvailable
+      ? await this.executeQuery(
+          `SELECT f.* FROM offline_foods_fts
+           JOIN offline_foods f ON f.id = offline_foods_fts.food_id
+           WHERE offline_foods_fts MATCH ?
+           ORDER BY bm25(offline_foods_fts), f.access_count DESC
+           LIMIT ?`,
+          [buildFtsMatchQuery(tokens), limit]
+        )
+      : await this.searchWithLike(tokens, limit);
+
+    const foods = results.map((result) => this.transformFoodItem(result));
+    if (foods.length >= limit) {
+      return foods;
+    }
+
+    const found = new Set(foods.map((food) => food.id));
+    const candidates = await this.executeQuery<{
+      id: string;
+      name: string;
+      brand: string | null;
+      barcode: string | null;
+    }>(
+      `SELECT id, name, brand, barcode FROM offline_foods
+       ORDER BY last_accessed DESC LIMIT ?`,
+      [FUZZY_CANDIDATE_LIMIT]
+    );
+    const fuzzyIds = rankFuzzyMatches(
+      query,
+      candidates.filter((candidate) => !found.has(candidate.id)),
+      limit - foods.length
+    ).map((candidate) => candidate.id);
+
+    if (fuzzyIds.length === 0) {
+      return foods;
+    }
+
+    const fuzzyResults = await this.executeQuery<{ id: string }>(
+      `SELECT * FROM offline_foods WHERE id IN (${fuzzyIds.map(() => '?').join(', ')})`,
+      fuzzyIds
+    );
+    const fuzzyFoods = new Map(
+      fuzzyResults.map((result) => [result.id, this.transformFoodItem(result)])
+    );
+
+    return [
+      ...foods,
+      ...fuzzyIds
+        .map((id) => fuzzyFoods.get(id))
+        .filter((food): food is FoodItem => food !== undefined),
+    ];
+  }
+
+  // Mark a food as used so eviction keeps it
+  async recordAccess(id: string): Promise<void> {
+    await this.executeQuery(
+      `UPDATE offline_foods
+       SET access_count = access_count + 1, last_accessed = ?
+       WHERE id = ?`,
+      [new Date().toISOString(), id]
+    );
+  }
+
+  // Replace the set of pinned foods
+  async replacePins(
+    pins: Array<{ foodId: string; reason: PinReason }>
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.executeQuery('DELETE FROM offline_pins');
+    await Promise.all(
+      pins.map((pin) =>
+        this.executeQuery(
+          'INSERT OR REPLACE INTO offline_pins (food_id, reason, pinned_at) VALUES (?, ?, ?)',
+          [pin.foodId, pin.reason, now]
+        )
+      )
+    );
+  }
+
+  // Get the reason each pinned food is pinned, keyed by food ID
+  async getPins(): Promise<Map<string, PinReason>> {
+    const results = await this.executeQuery<{
+      food_id: string;
+      reason: PinReason;
+    }>('SELECT food_id, reason FROM offline_pins');
+    return new Map(results.map((row) => [row.food_id, row.reason]));
+  }
+
+  // Evict the least recently used unpinned foods until the store fits its
+  // limits
+  async evictToLimits(limits: StoreLimits): Promise<number> {
+    const entries = await this.executeQuery<{
+      id: string;
+      size_bytes: number;
+    }>(
+      `SELECT id, size_bytes FROM offline_foods
+       WHERE id NOT IN (SELECT food_id FROM offline_pins)
+       ORDER BY last_accessed DESC`
+    );
+    const evicted = selectEvictions(
+      entries.map((entry) => ({ id: entry.id, sizeBytes: entry.size_bytes })),
+      limits
+    );
+
+    const batches: string[][] = [];
+    for (let i = 0; i < evicted.length; i += DELETE_BATCH_SIZE) {
+      batches.push(evicted.slice(i, i + DELETE_BATCH_SIZE));
+    }
+
+    await Promise.all(
+      batches.map(async (batch) => {
+        const placeholders = batch.map(() => '?').join(', ');
+        await this.executeQuery(
+          `DELETE FROM offline_foods WHERE id IN (${placeholders})`,
+          batch
+        );
+        if (this.ftsAvailable) {
+          await this.executeQuery(
+            `DELETE FROM offline_foods_fts WHERE food_id IN (${placeholders})`,
+            batch
+          );
+        }
+      })
+    );
+
+    return evicted.length;
+  }
+
+  // Get entry count, total size and number of pinned foods
+  async getStoreStatistics(): Promise<{
+    entries: number;
+    sizeBytes: number;
+    bySource: Record<OfflineFoodSource, number>;
+    pinned: number;
+  }> {
+    const results = await this.executeQuery<{
+      source: OfflineFoodSource;
+      count: number;
+      size_bytes: number | null;
+    }>(
+      `SELECT source, COUNT(*) as count, SUM(size_bytes) as size_bytes
+       FROM offline_foods GROUP BY source`
+    );
+
+    const bySource: Record<OfflineFoodSource, number> = {
+      cache: 0,
+      openfoodfacts: 0,
+      scan: 0,
+    };
+    let entries = 0;
+    let sizeBytes = 0;
+    results.forEach((row) => {
+      bySource[row.source] = row.count;
+      entries += row.count;
+      sizeBytes += row.size_bytes ?? 0;
+    });
+
+    const pinned = await this.executeQuery<{ count: number }>(
+      `SELECT COUNT(*) as count FROM offline_pins
+       WHERE food_id IN (SELECT id FROM offline_foods)`
+    );
+
+    return { entries, sizeBytes, bySource, pinned: pinned[0]?.count ?? 0 };
+  }
+
+  // Remove every stored food
+  async clearAll(): Promise<void> {
+    await this.executeQuery('DELETE FROM offline_foods');
+    await this.executeQuery('DELETE FROM offline_pins');
+    if (this.ftsAvailable) {
+      await this.executeQuery('DELETE FROM offline_foods_fts');
+    }
+  }
+
+  private async searchWithLike(
+    tokens: string[],
+    limit: number
+  ): Promise<any[]> {
+    const conditions = tokens
+      .map(
+        () =>
+          "(LOWER(name) LIKE ? OR LOWER(COALESCE(brand, '')) LIKE ? OR barcode LIKE ?)"
+      )
+      .join(' AND ');
+    const parameters = tokens.flatMap((token) => [
+      `%${token}%`,
+      `%${token}%`,
+      `${token}%`,
+    ]);
+
+    return this.executeQuery(
+      `SELECT * FROM offline_foods WHERE ${conditions}
+       ORDER BY access_count DESC, last_accessed DESC LIMIT ?`,
+      [...parameters, limit]
+    );
+  }
+
+  // Transform database result to the stored app FoodItem
+  private transformFoodItem(result: any): FoodItem {
+    const foodItem = JSON.parse(result.data) as FoodItem;
+    return {
+      ...foodItem,
+      ...(foodItem.addedToSafeFoods && {
+        addedToSafeFoods: new Date(foodItem.addedToSafeFoods),
+      }),
+    };
+  }
+
+  // Transform database result to OfflineFood object
+  private transformResult(result: any): OfflineFood {
+    return {
+      id: result.id,
+      name: result.name,
+      brand: result.brand ?? undefined,
+      barcode: result.barcode ?? undefined,
+      source: result.source,
+      data: result.data,
+      sizeBytes: result.size_bytes,
+      accessCount: result.access_count,
+      lastAccessed: new Date(result.last_accessed),
+      createdAt: new Date(result.created_at),
+      updatedAt: new Date(result.updated_at),
+    };
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Safe Food Repository
+ * Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ *
+ * Repository for managing a user's safe foods list.
+ */
+
+import type {
+  FoodItem as AppFoodItem,
+  SafeFood as AppSafeFood,
+} from '../../types';
+import { barcodeVariants, toGtin14 } from '../../utils/barcode';
+import { SafeFoodSchema, type SafeFood } from '../schema';
+
+import { BaseRepository } from './BaseRepository';
+
+export type SafeFoodSortOrder = 'recent' | 'usage' | 'name';
+
+const SORT_CLAUSES: Record<SafeFoodSortOrder, string> = {
+  recent: 'sf.last_used DESC, sf.added_date DESC',
+  usage: 'sf.usage_count DESC, fi.name',
+  name: 'fi.name COLLATE NOCASE',
+};
+
+export class SafeFoodRepository extends BaseRepository<SafeFood> {
+  constructor() {
+    super('safe_foods', SafeFoodSchema);
+  }
+
+  // Find a safe food by ID
+  override async findById(id: string): Promise<SafeFood | null> {
+    const results = await this.executeQuery(
+      'SELECT * FROM safe_foods WHERE id = ?',
+      [id]
+    );
+    return results.length > 0 ? this.transformResult(results[0]) : null;
+  }
+
+  // Add a food to a user's safe foods
+  async addSafeFood(
+    userId: string,
+    foodItemId: string,
+    notes?: string
+  ): Promise<SafeFood> {
+    const id = this.generateId();
+    const now = new Date().toISOString();
+    const query = `
+      INSERT INTO safe_foods (
+        id, user_id, food_item_id, added_date, usage_count, notes,
+        is_favorite, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, 0, ?, 0, ?, ?)
+    `;
+
+    await this.executeQuery(query, [
+      id,
+      userId,
+      foodItemId,
+      now,
+      notes ?? null,
+      now,
+      now,
+    ]);
+
+    const created = await this.findById(id);
+    if (!created) {
+      throw new Error('Failed to add safe food');
+    }
+
+    return created;
+  }
+
+  // Get a user's safe foods with their food items, for list screens
+  async findWithFoodItems(
+    userId: string,
+    options: {
+      search?: string;
+      sortBy?: SafeFoodSortOrder;
+      limit?: number;
+      offset?: number;
+    } = {}
+  ): Promise<AppSafeFood[]> {
+    let query = `
+      SELECT sf.*,
+             fi.name as food_name,
+             fi.brand as food_brand,
+             fi.category as food_category,
+             fi.barcode as food_barcode,
+             fi.ingredients as food_ingredients,
+             fi.allergens as food_allergens,
+             fi.additives as food_additives,
+             fi.gut_health_info as food_gut_health_info,
+             fi.data_source as food_data_source
+      FROM safe_foods sf
+      JOIN food_items fi ON sf.food_item_id = fi.id
+      WHERE sf.user_id = ?
+    `;
+
+    const parameters: any[] = [userId];
+
+    if (options.search) {
+      query += ' AND (fi.name LIKE ? OR fi.brand LIKE ?)';
+      const searchPattern = `%${options.search}%`;
+      parameters.push(searchPattern, searchPattern);
+    }
+
+    query += ` ORDER BY ${SORT_CLAUSES[options.sortBy ?? 'recent']}`;
+
+    if (options.limit) {
+      query += ' LIMIT ?';
+      parameters.push(options.limit);
+    }
+
+    if (options.offset) {
+      query += ' OFFSET ?';
+      parameters.push(options.offset);
+    }
+
+    const results = await this.executeQuery(query, parameters);
+    return results.map((result) => this.transformJoinedResult(result));
+  }
+
+  // Save a safe food merged from another device. Its food item is added
+  // unless this device already has it under the same id or barcode.
+  async saveSyncedSafeFood(
+    userId: string,
+    safeFood: AppSafeFood
+  ): Promise<void> {
+    const foodItemId = await this.storeFoodItem(safeFood.foodItem);
+    const now = new Date().toISOString();
+    const query = `
+      INSERT INTO safe_foods (
+        id, user_id, food_item_id, added_date, last_used, usage_count, notes,
+        is_favorite, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        last_used = excluded.last_used,
+        usage_count = excluded.usage_count,
+        notes = excluded.notes,
+        updated_at = excluded.updated_at
+    `;
+
+    await this.executeQuery(query, [
+      safeFood.id,
+      userId,
+      foodItemId,
+      safeFood.addedDate.toISOString(),
+      safeFood.lastUsed?.toISOString() ?? null,
+      safeFood.usageCount,
+      safeFood.notes ?? null,
+      now,
+      safeFood.updatedAt?.toISOString() ?? now,
+    ]);
+  }
+
+  // Get a user's favourite safe foods
+  async findFavorites(userId: string): Promise<SafeFood[]> {
+    const query = `
+      SELECT * FROM safe_foods
+      WHERE user_id = ? AND is_favorite = 1
+      ORDER BY usage_count DESC
+    `;
+
+    const results = await this.executeQuery(query, [userId]);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Get safe foods added within a date range
+  async findAddedInRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<SafeFood[]> {
+    const query = `
+      SELECT * FROM safe_foods
+      WHERE user_id = ? AND added_date BETWEEN ? AND ?
+      ORDER BY added_date DESC
+    `;
+
+    const results = await this.executeQuery(query, [
+      userId,
+      startDate.toISOString(),
+      endDate.toISOString(),
+    ]);
+    return results.map((result) => this.transformResult(result));
+  }
+
+  // Record that a safe food was eaten
+  async recordUsage(id: string): Promise<SafeFood> {
+    const now = new Date().toISOString();
+    const query = `
+      UPDATE safe_foods
+      SET usage_count = usage_count + 1, last_used = ?, updated_at = ?
+      WHERE id = ?
+    `;
+
+    await this.executeQuery(query, [now, now, id]);
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Safe food not found');
+    }
+
+    return updated;
+  }
+
+  // Update the personal note on a safe food
+  async updateNotes(id: string, notes: string): Promise<SafeFood> {
+    const query = `
+      UPDATE safe_foods
+      SET notes = ?, updated_at = ?
+      WHERE id = ?
+    `;
+
+    await this.executeQuery(query, [notes, new Date().toISOString(), id]);
+
+    const updated = await this.findById(id);
+    if (!updated) {
+      throw new Error('Safe food not found');
+    }
+
+    return updated;
+  }
+
+  // Get safe food usage statistics for a user
+  async getUsageStatistics(userId: string): Promise<{
+    totalFoods: number;
+    favoriteCount: number;
+    totalUsage: number;
+    averageRating: number | null;
+  }> {
+    const query = `
+      SELECT
+        COUNT(*) as total_foods,
+        SUM(CASE WHEN is_favorite = 1 THEN 1 ELSE 0 END) as favorite_count,
+        SUM(usage_count) as total_usage,
+        AVG(rating) as average_rating
+      FROM safe_foods
+      WHERE user_id = ?
+    `;
+
+    const results = await this.executeQuery<{
+      total_foods: number;
+      favorite_count: number | null;
+      total_usage: number | null;
+      average_rating: number | null;
+    }>(query, [userId]);
+
+    const stats = results[0];
+
+    return {
+      totalFoods: stats?.total_foods ?? 0,
+      favoriteCount: stats?.favorite_count ?? 0,
+      totalUsage: stats?.total_usage ?? 0,
+      averageRating: stats?.average_rating ?? null,
+    };
+  }
+
+  // Find the food item this device stores the food as, adding it if there
+  // is none. Barcodes are matched in any printed form.
+  private async storeFoodItem(foodItem: AppFoodItem): Promise<string> {
+    const gtin14 =
+      foodItem.barcode !== undefined ? toGtin14(foodItem.barcode) : null;
+    const barcodes =
+      gtin14 !== null ? barcodeVariants(gtin14) : [foodItem.barcode ?? null];
+    const existing = await this.executeQuery<{ id: string }>(
+      `SELECT id FROM food_items
+       WHERE id = ? OR barcode IN (${barcodes.map(() => '?').join(', ')})
+       LIMIT 1`,
+      [foodItem.id, ...barcodes]
+    );
+    if (existing[0]) {
+      return existing[0].id;
+    }
+
+    await this.executeQuery(
+      `INSERT INTO food_items (
+        id, name, barcode, brand, category, ingredients, allergens,
+        additives, gut_health_info, data_source
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        foodItem.id,
+        foodItem.name,
+        gtin14 ?? foodItem.barcode ?? null,
+        foodItem.brand ?? null,
+        foodItem.category ?? null,
+        JSON.stringify(foodItem.ingredients),
+        JSON.stringify(foodItem.allergens),
+        JSON.stringify(foodItem.additives),
+        JSON.stringify({
+          glutenFree: foodItem.glutenFree,
+          lactoseFree: foodItem.lactoseFree,
+          ...(foodItem.fodmapLevel && { fodmapLevel: foodItem.fodmapLevel }),
+          ...(foodItem.histamineLevel && {
+            histamineLevel: foodItem.histamineLevel,
+          }),
+        }),
+        foodItem.dataSource ?? 'sync',
+      ]
+    );
+    return foodItem.id;
+  }
+
+  // Transform database result to SafeFood object
+  private transformResult(result: any): SafeFood {
+    return {
+      id: result.id,
+      userId: result.user_id,
+      foodItemId: result.food_item_id,
+      addedDate: new Date(result.added_date),
+      lastUsed: result.last_used ? new Date(result.last_used) : undefined,
+      usageCount: result.usage_count ?? 0,
+      notes: result.notes ?? undefined,
+      isFavorite: Boolean(result.is_favorite),
+      tags: result.tags ? JSON.parse(result.tags) : undefined,
+      rating: result.rating ?? undefined,
+      createdAt: new Date(result.created_at),
+      updatedAt: new Date(result.updated_at),
+    };
+  }
+
+  // Transform a safe food joined with its food item to the app model
+  private transformJoinedResult(result: any): AppSafeFood {
+    const gutHealthInfo = result.food_gut_health_info
+      ? JSON.parse(result.food_gut_health_info)
+      : {};
+    const addedDate = new Date(result.added_date);
+
+    const foodItem: AppFoodItem = {
+      id: result.food_item_id,
+      name: result.food_name,
+      ingredients: JSON.parse(result.food_ingredients ?? '[]'),
+      allergens: JSON.parse(result.food_allergens ?? '[]'),
+      additives: JSON.parse(result.food_additives ?? '[]'),
+      glutenFree: Boolean(gutHealthInfo.glutenFree),
+      lactoseFree: Boolean(gutHealthInfo.lactoseFree),
+      isSafeFood: true,
+      addedToSafeFoods: addedDate,
+      ...(result.food_brand && { brand: result.food_brand }),
+      ...(result.food_category && { category: result.food_category }),
+      ...(result.food_barcode && { barcode: result.food_barcode }),
+      ...(gutHealthInfo.fodmapLevel && {
+        fodmapLevel: gutHealthInfo.fodmapLevel,
+      }),
+      ...(gutHealthInfo.histamineLevel && {
+        histamineLevel: gutHealthInfo.histamineLevel,
+      }),
+      ...(result.food_data_source && { dataSource: result.food_data_source }),
+    };
+
+    return {
+      id: result.id,
+      foodItem,
+      addedDate,
+      usageCount: result.usage_count ?? 0,
+      ...(result.last_used && { lastUsed: new Date(result.last_used) }),
+      ...(result.notes && { notes: result.notes }),
+      ...(result.updated_at && { updatedAt: new Date(result.updated_at) }),
+    };
+  }
+}
@@ -128,7 +128,21 @@ export const ScanAnalysisSchema = BaseEntitySchema.extend({
       condition: GutConditionSchema,
     })
   ),
-  safeAlternatives: z.array(z.string()),
+  // Analyses saved before alternatives linked to foods hold bare names
+  safeAlternatives: z.array(
+    z.preprocess(
+      (alternative) =>
+        typeof alternative === 'string'
+          ? { id: '', name: alternative }
+          : alternative,
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        brand: z.string().optional(),
+        category: z.string().optional(),
+      })
+    )
+  ),
   explanation: z.string(),
   dataSource: z.string(),
   isUserVerified: z.boolean().default(false),
@@ -310,6 +324,21 @@ export const IngredientAnalysisSchema = BaseEntitySchema.extend({
   dataSource: z.string(),
 });
 
+// Offline Food Schema - device-local copy of a food item for offline search
+export const OfflineFoodSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  brand: z.string().optional(),
+  barcode: z.string().optional(),
+  source: z.enum(['cache', 'openfoodfacts', 'scan']),
+  data: z.string(), // JSON of the app FoodItem
+  sizeBytes: z.number(),
+  accessCount: z.number().default(0),
+  lastAccessed: z.date(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 // Database Indexes
 export const DatabaseIndexes = {
   // User indexes
@@ -355,6 +384,10 @@ export const DatabaseIndexes = {
   // Ingredient analysis indexes
   ingredient_analysis_ingredient: 'ingredient_analysis_ingredient_idx',
   ingredient_analysis_risk_level: 'ingredient_analysis_risk_level_idx',
+
+  // Offline food indexes
+  offline_foods_barcode: 'offline_foods_barcode_idx',
+  offline_foods_last_accessed: 'offline_foods_last_accessed_idx',
 };
 
 // Database constraints
@@ -390,3 +423,4 @@ export type SafeFood = z.infer<typeof SafeFoodSchema>;
 export type AnalyticsData = z.infer<typeof AnalyticsDataSchema>;
 export type FoodTrend = z.infer<typeof FoodTrendSchema>;
 export type IngredientAnalysis = z.infer<typeof IngredientAnalysisSchema>;
+export type OfflineFood = z.infer<typeof OfflineFoodSchema>;
@@ -23,17 +23,20 @@ import {
   LazyScannerScreen,
   LazyScanHistoryScreen,
   LazyScanDetailScreen,
+  LazyCreateProductScreen,
+  LazyLogMealScreen,
   LazySafeFoodsScreen,
   LazyAnalyticsScreen,
   LazyGutProfileScreen,
   LazyOnboardingScreen,
 } from '../screens/lazy';
+import type { RootStackParamList } from '../types/navigation';
 import AccessibilityService from '../utils/accessibility';
 import { HapticFeedback } from '../utils/haptics';
 import { linkingConfig, DeepLinkHandler } from './linking';
 
 const Tab = createBottomTabNavigator();
-const Stack = createStackNavigator();
+const Stack = createStackNavigator<RootStackParamList>();
 
 // Simplified Main Stack Navigator
 const MainStack = () => (
@@ -68,6 +71,20 @@ const MainStack = () => (
         </LazyWrapper>
       )}
     </Stack.Screen>
+    <Stack.Screen name="CreateProduct">
+      {() => (
+        <LazyWrapper>
+          <LazyCreateProductScreen />
+        </LazyWrapper>
+      )}
+    </Stack.Screen>
+    <Stack.Screen name="LogMeal">
+      {() => (
+        <LazyWrapper>
+          <LazyLogMealScreen />
+        </LazyWrapper>
+      )}
+    </Stack.Screen>
     <Stack.Screen name="SafeFoods">
       {() => (
         <LazyWrapper>
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview CreateProductScreen.tsx
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import {
+  type RouteProp,
+  useNavigation,
+  useRoute,
+} from '@react-navigation/native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  Alert,
+} from 'react-native';
+
+import LinearGradient from '../components/LinearGradientWrapper';
+import { Colors } from '../constants/colors';
+import { Spacing, BorderRadius } from '../constants/spacing';
+import { Typography } from '../constants/typography';
+import UserFoodService from '../services/UserFoodService';
+import type { RootStackParamList } from '../types/navigation';
+
+type CreateProductRouteProp = RouteProp<RootStackParamList, 'CreateProduct'>;
+
+export const CreateProductScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<CreateProductRouteProp>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [barcode, setBarcode] = useState(route.params?.barcode ?? '');
+  const [ingredients, setIngredients] = useState('');
+  const [allergens, setAllergens] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: colors.surface,
+      borderColor: colors.border,
+      color: colors.text,
+    },
+  ];
+
+  const handleSave = async (): Promise<void> => {
+    setIsSaving(true);
+    try {
+      const result = await UserFoodService.getInstance().createUserFood({
+        name,
+        brand,
+        barcode,
+        ingredients,
+        allergens: allergens.split(','),
+      });
+
+      if (!result.success) {
+        Alert.alert('Could Not Add Product', result.error.message);
+        return;
+      }
+
+      Alert.alert(
+        'Product Added',
+        `${result.data.name} is saved on this device and waiting for review.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <LinearGradient colors={Colors.primaryGradient} style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Add Product</Text>
+        <Text style={styles.headerSubtitle}>
+          Copy the details from the pack
+        </Text>
+      </LinearGradient>
+
+      <ScrollView
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+        style={styles.content}
+      >
+        <Text style={[styles.label, { color: colors.text }]}>Name *</Text>
+        <TextInput
+          placeholder="Product name"
+          placeholderTextColor={colors.textTertiary}
+          style={inputStyle}
+          value={name}
+          onChangeText={setName}
+        />
+
+        <Text style={[styles.label, { color: colors.text }]}>Brand</Text>
+        <TextInput
+          placeholder="Brand"
+          placeholderTextColor={colors.textTertiary}
+          style={inputStyle}
+          value={brand}
+          onChangeText={setBrand}
+        />
+
+        <Text style={[styles.label, { color: colors.text }]}>Barcode</Text>
+        <TextInput
+          keyboardType="number-pad"
+          placeholder="Number under the barcode"
+          placeholderTextColor={colors.textTertiary}
+          style={inputStyle}
+          value={barcode}
+          onChangeText={setBarcode}
+        />
+
+        <Text style={[styles.label, { color: colors.text }]}>
+          Ingredients *
+        </Text>
+        <TextInput
+          multiline
+          placeholder="Ingredient list as printed"
+          placeholderTextColor={colors.textTertiary}
+          style={[inputStyle, styles.multilineInput]}
+          textAlignVertical="top"
+          value={ingredients}
+          onChangeText={setIngredients}
+        />
+
+        <Text style={[styles.label, { color: colors.text }]}>Allergens</Text>
+        <TextInput
+          autoCapitalize="none"
+          placeholder="e.g., milk, soy, wheat"
+          placeholderTextColor={colors.textTertiary}
+          style={inputStyle}
+          value={allergens}
+          onChangeText={setAllergens}
+        />
+
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Products you add are checked by our team before they count as
+          verified.
+        </Text>
+
+        <TouchableOpacity
+          disabled={isSaving}
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          onPress={(): void => {
+            handleSave().catch(() =>
+              Alert.alert('Could Not Add Product', 'Please try again.')
+            );
+          }}
+        >
+          <Text style={styles.saveButtonText}>
+            {isSaving ? 'Saving...' : 'Save Product'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  backButton: {
+    left: Spacing.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    position: 'absolute',
+    top: 60,
+  },
+  backButtonText: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+  },
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: Spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    paddingBottom: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 60,
+  },
+  headerSubtitle: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.body,
+    opacity: 0.9,
+    textAlign: 'center',
+  },
+  headerTitle: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.bold,
+    fontSize: Typography.fontSize.h1,
+    marginBottom: Spacing.xs,
+  },
+  hint: {
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.bodySmall,
+    marginBottom: Spacing.lg,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  label: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.sm,
+  },
+  multilineInput: {
+    minHeight: 120,
+  },
+  saveButton: {
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xxl,
+    paddingVertical: Spacing.md,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+  },
+});
@@ -6,7 +6,7 @@
  */
 
 import { useNavigation } from '@react-navigation/native';
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -24,6 +24,8 @@ import { SymptomTracker } from '../components/SymptomTracker';
 import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
+import FodmapProtocolService from '../services/FodmapProtocolService';
+import HealthService from '../services/HealthService';
 import type {
   GutCondition,
   SeverityLevel,
@@ -31,6 +33,7 @@ import type {
   GutSymptom,
   MedicationSupplement,
 } from '../types';
+import { logger } from '../utils/logger';
 
 export const GutProfileScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -67,6 +70,23 @@ export const GutProfileScreen: React.FC = () => {
     setConditionToggles(initialConditions);
   }, []);
 
+  // Keep HealthService in step so adherence is measured against schedules
+  useEffect(() => {
+    HealthService.getInstance().setMedications(medications);
+  }, [medications]);
+
+  const medicationAdherence = useMemo(() => {
+    const healthService = HealthService.getInstance();
+    return Object.fromEntries(
+      medications
+        .filter((medication) => medication.isActive)
+        .map((medication) => [
+          medication.id,
+          healthService.getMedicationAdherence(medication),
+        ])
+    );
+  }, [medications]);
+
   const handleConditionToggle = (condition: GutCondition, enabled: boolean) => {
     setConditionToggles((prev) =>
       prev.map((toggle) =>
@@ -126,6 +146,17 @@ export const GutProfileScreen: React.FC = () => {
       id: Date.now().toString(),
     };
     setSymptoms((prev) => [newSymptom, ...prev]);
+
+    // Attribute the symptom to any running FODMAP challenge
+    FodmapProtocolService.getInstance()
+      .recordSymptom(symptomData)
+      .catch((error) => {
+        logger.error(
+          'Failed to record challenge symptom',
+          'GutProfileScreen',
+          error
+        );
+      });
   };
 
   const handleAddMedication = (
@@ -315,6 +346,7 @@ export const GutProfileScreen: React.FC = () => {
         {activeTab === 'medications' && (
           <View style={styles.tabContent}>
             <MedicationTracker
+              adherence={medicationAdherence}
               medications={medications}
               onAddMedication={handleAddMedication}
               onUpdateMedication={handleUpdateMedication}
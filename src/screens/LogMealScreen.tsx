@@ -0,0 +1,323 @@
+/**
+ * @fileoverview LogMealScreen.tsx
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { useNavigation } from '@react-navigation/native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  useColorScheme,
+  Alert,
+} from 'react-native';
+
+import LinearGradient from '../components/LinearGradientWrapper';
+import { Colors } from '../constants/colors';
+import { Spacing, BorderRadius } from '../constants/spacing';
+import { Typography } from '../constants/typography';
+import FoodService from '../services/FoodService';
+import HealthService from '../services/HealthService';
+import UserSettingsService from '../services/UserSettingsService';
+import type { MealComponent } from '../types';
+import { formatGrams, formatPortion } from '../utils/portions';
+
+export const LogMealScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [name, setName] = useState('');
+  const [recipe, setRecipe] = useState('');
+  const [components, setComponents] = useState<MealComponent[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const units =
+    UserSettingsService.getInstance().getSettings()?.preferences.units ??
+    'metric';
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: colors.surface,
+      borderColor: colors.border,
+      color: colors.text,
+    },
+  ];
+
+  const handleFindFoods = async (): Promise<void> => {
+    setIsWorking(true);
+    const result = await FoodService.getInstance()
+      .resolveRecipe(recipe)
+      .finally(() => setIsWorking(false));
+
+    if (!result.success) {
+      Alert.alert('Could Not Read Recipe', result.error.message);
+      return;
+    }
+    setComponents(result.data);
+  };
+
+  const handleRemove = (index: number): void => {
+    setComponents((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleAnalyze = async (): Promise<void> => {
+    const gutProfile =
+      UserSettingsService.getInstance().getSettings()?.profile.gutProfile;
+    if (!gutProfile) {
+      Alert.alert('No Gut Profile', 'Set up your gut profile first.');
+      return;
+    }
+
+    setIsWorking(true);
+    const result = await FoodService.getInstance()
+      .analyzeMeal(components, gutProfile)
+      .finally(() => setIsWorking(false));
+
+    if (!result.success) {
+      Alert.alert('Could Not Analyze Meal', result.error.message);
+      return;
+    }
+
+    const analysis = result.data;
+    const mealName = name.trim() || 'Meal';
+    Alert.alert(
+      'Meal Analyzed',
+      `${mealName}\nResult: ${analysis.overallSafety.toUpperCase()}\n\n${analysis.explanation}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Log Meal',
+          onPress: (): void => {
+            HealthService.getInstance()
+              .logMeal({ name: mealName, components, analysis })
+              .then(() => navigation.goBack())
+              .catch(() =>
+                Alert.alert('Could Not Log Meal', 'Please try again.')
+              );
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <LinearGradient colors={Colors.primaryGradient} style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Log a Meal</Text>
+        <Text style={styles.headerSubtitle}>
+          Paste a recipe to check everything that went in
+        </Text>
+      </LinearGradient>
+
+      <ScrollView
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+        style={styles.content}
+      >
+        <Text style={[styles.label, { color: colors.text }]}>Meal name</Text>
+        <TextInput
+          placeholder="e.g., Chicken stir-fry"
+          placeholderTextColor={colors.textTertiary}
+          style={inputStyle}
+          value={name}
+          onChangeText={setName}
+        />
+
+        <Text style={[styles.label, { color: colors.text }]}>Ingredients</Text>
+        <TextInput
+          multiline
+          placeholder={
+            'One per line, e.g.\n200 g chicken breast\n2 cloves garlic'
+          }
+          placeholderTextColor={colors.textTertiary}
+          style={[inputStyle, styles.multilineInput]}
+          textAlignVertical="top"
+          value={recipe}
+          onChangeText={setRecipe}
+        />
+
+        <TouchableOpacity
+          disabled={isWorking}
+          style={[styles.secondaryButton, { borderColor: Colors.primary }]}
+          onPress={(): void => {
+            handleFindFoods().catch(() =>
+              Alert.alert('Could Not Read Recipe', 'Please try again.')
+            );
+          }}
+        >
+          <Text style={[styles.buttonText, { color: Colors.primary }]}>
+            {isWorking ? 'Working...' : 'Find Foods'}
+          </Text>
+        </TouchableOpacity>
+
+        {components.map((component, index) => (
+          <View
+            key={`${component.foodItem.id}_${index}`}
+            style={[styles.componentRow, { backgroundColor: colors.surface }]}
+          >
+            <View style={styles.componentText}>
+              <Text style={[styles.componentName, { color: colors.text }]}>
+                {component.foodItem.name}
+              </Text>
+              <Text
+                style={[
+                  styles.componentPortion,
+                  { color: colors.textSecondary },
+                ]}
+              >
+                {formatPortion(component.portion)} (
+                {formatGrams(component.portion.grams, units)})
+              </Text>
+            </View>
+            <TouchableOpacity
+              accessibilityLabel={`Remove ${component.foodItem.name}`}
+              onPress={() => handleRemove(index)}
+            >
+              <Text
+                style={[styles.removeText, { color: colors.textSecondary }]}
+              >
+                ✕
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        {components.length > 0 && (
+          <TouchableOpacity
+            disabled={isWorking}
+            style={[
+              styles.primaryButton,
+              isWorking && styles.primaryButtonDisabled,
+            ]}
+            onPress={(): void => {
+              handleAnalyze().catch(() =>
+                Alert.alert('Could Not Analyze Meal', 'Please try again.')
+              );
+            }}
+          >
+            <Text style={[styles.buttonText, { color: Colors.white }]}>
+              Analyze Meal
+            </Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  backButton: {
+    left: Spacing.lg,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    position: 'absolute',
+    top: 60,
+  },
+  backButtonText: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+  },
+  buttonText: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+  },
+  componentName: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+  },
+  componentPortion: {
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.bodySmall,
+  },
+  componentRow: {
+    alignItems: 'center',
+    borderRadius: BorderRadius.md,
+    flexDirection: 'row',
+    marginBottom: Spacing.sm,
+    padding: Spacing.md,
+  },
+  componentText: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: Spacing.lg,
+  },
+  header: {
+    alignItems: 'center',
+    paddingBottom: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+    paddingTop: 60,
+  },
+  headerSubtitle: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.body,
+    opacity: 0.9,
+    textAlign: 'center',
+  },
+  headerTitle: {
+    color: Colors.white,
+    fontFamily: Typography.fontFamily.bold,
+    fontSize: Typography.fontSize.h1,
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  label: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.body,
+    marginBottom: Spacing.sm,
+  },
+  multilineInput: {
+    minHeight: 160,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.xxl,
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  removeText: {
+    fontSize: Typography.fontSize.body,
+    paddingHorizontal: Spacing.sm,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+});
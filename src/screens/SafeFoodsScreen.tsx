@@ -6,7 +6,7 @@
  */
 
 import { useNavigation } from '@react-navigation/native';
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -24,7 +24,24 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
+import { databaseManager } from '../database/connection';
+import { SafeFoodRepository } from '../database/repositories/SafeFoodRepository';
+import AuthService from '../services/AuthService';
+import ConflictResolutionService from '../services/ConflictResolutionService';
+import StorageService from '../services/StorageService';
 import type { SafeFood } from '../types';
+import { logger } from '../utils/logger';
+import { toSafeFoodSyncData } from '../utils/syncPayloads';
+
+const safeFoodRepository = new SafeFoodRepository();
+
+// Safe foods are stored per user, so the database is only used once signed in
+const getDatabaseUserId = (): string | null => {
+  if (!databaseManager.isConnected()) {
+    return null;
+  }
+  return AuthService.getInstance().getAuthState().user?.id ?? null;
+};
 
 // Mock safe foods data
 const mockSafeFoods: SafeFood[] = [
@@ -111,7 +128,9 @@ export const SafeFoodsScreen: React.FC = () => {
   const isDark = colorScheme === 'dark';
   const colors = isDark ? Colors.dark : Colors.light;
 
-  const [safeFoods, setSafeFoods] = useState<SafeFood[]>(mockSafeFoods);
+  const [safeFoods, setSafeFoods] = useState<SafeFood[]>(() =>
+    getDatabaseUserId() ? [] : mockSafeFoods
+  );
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'recent' | 'usage' | 'name'>('recent');
@@ -140,12 +159,73 @@ export const SafeFoodsScreen: React.FC = () => {
     }
   }, [safeFoods, searchQuery, sortBy]);
 
-  const onRefresh = async () => {
+  const loadSafeFoods = useCallback(async () => {
+    const userId = getDatabaseUserId();
+    if (userId === null) {
+      return;
+    }
+
+    try {
+      setSafeFoods(await safeFoodRepository.findWithFoodItems(userId));
+    } catch (error) {
+      logger.error('Failed to load safe foods', 'SafeFoodsScreen', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSafeFoods().catch((error) => {
+      logger.error('Failed to load safe foods', 'SafeFoodsScreen', error);
+    });
+  }, [loadSafeFoods]);
+
+  // Reload when safe foods edited on other devices are merged in
+  useEffect(
+    () =>
+      ConflictResolutionService.getInstance().subscribeToMerges(
+        ({ safeFoods: merged }) => {
+          if (merged.length > 0) {
+            loadSafeFoods().catch((error) => {
+              logger.error(
+                'Failed to reload merged safe foods',
+                'SafeFoodsScreen',
+                error
+              );
+            });
+          }
+        }
+      ),
+    [loadSafeFoods]
+  );
+
+  const onRefresh = (): void => {
     setRefreshing(true);
-    // Simulate API call
-    setTimeout(() => {
-      setRefreshing(false);
-    }, 1000);
+    loadSafeFoods()
+      .finally(() => setRefreshing(false))
+      .catch((error) => {
+        logger.error('Failed to refresh safe foods', 'SafeFoodsScreen', error);
+      });
+  };
+
+  const removeSafeFood = async (foodId: string): Promise<void> => {
+    if (getDatabaseUserId() !== null) {
+      await safeFoodRepository.delete(foodId);
+    }
+    setSafeFoods((prev) => prev.filter((food) => food.id !== foodId));
+  };
+
+  const saveNote = async (food: SafeFood, note: string): Promise<void> => {
+    if (getDatabaseUserId() !== null) {
+      await safeFoodRepository.updateNotes(food.id, note);
+      await StorageService.getInstance().addToSyncQueue(
+        'safe_foods',
+        toSafeFoodSyncData({ ...food, notes: note })
+      );
+    }
+    setSafeFoods((prev) =>
+      prev.map((f) =>
+        f.id === food.id ? { ...f, notes: note, updatedAt: new Date() } : f
+      )
+    );
   };
 
   const handleRemoveSafeFood = (foodId: string) => {
@@ -157,8 +237,15 @@ export const SafeFoodsScreen: React.FC = () => {
         {
           text: 'Remove',
           style: 'destructive',
-          onPress: () => {
-            setSafeFoods((prev) => prev.filter((food) => food.id !== foodId));
+          onPress: (): void => {
+            removeSafeFood(foodId).catch((error) => {
+              logger.error(
+                'Failed to remove safe food',
+                'SafeFoodsScreen',
+                error
+              );
+              Alert.alert('Error', 'Could not remove this safe food.');
+            });
           },
         },
       ]
@@ -178,12 +265,14 @@ export const SafeFoodsScreen: React.FC = () => {
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Save',
-          onPress: (note) => {
-            if (note) {
-              setSafeFoods((prev) =>
-                prev.map((f) => (f.id === foodId ? { ...f, notes: note } : f))
-              );
+          onPress: (note): void => {
+            if (!note) {
+              return;
             }
+            saveNote(food, note).catch((error) => {
+              logger.error('Failed to save note', 'SafeFoodsScreen', error);
+              Alert.alert('Error', 'Could not save this note.');
+            });
           },
         },
       ],
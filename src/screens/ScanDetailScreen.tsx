@@ -25,22 +25,62 @@ import LinearGradient from '../components/LinearGradientWrapper';
 import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
+import FoodService from '../services/FoodService';
+import UserSettingsService from '../services/UserSettingsService';
 import type {
   ScanHistory,
   ScanResult,
   SeverityLevel,
   GutCondition,
+  FodmapLevel,
+  FodmapSubgroup,
+  FoodProvenanceField,
+  FoodVerificationStatus,
 } from '../types';
 import { SharingService } from '../utils/sharing';
 
 interface ScanDetailRouteParams {
   ScanDetail: {
-    scanId: string;
+    scanId?: string;
+    foodItemId?: string;
   };
 }
 
 type ScanDetailRouteProp = RouteProp<ScanDetailRouteParams, 'ScanDetail'>;
 
+const FODMAP_SUBGROUP_LABELS: Record<FodmapSubgroup, string> = {
+  fructans: 'Fructans',
+  gos: 'GOS',
+  lactose: 'Lactose',
+  'excess-fructose': 'Excess Fructose',
+  polyols: 'Polyols',
+};
+
+const PROVENANCE_FIELD_LABELS: Record<FoodProvenanceField, string> = {
+  name: 'Name',
+  brand: 'Brand',
+  category: 'Category',
+  ingredients: 'Ingredients',
+  allergens: 'Allergens',
+  traces: 'May contain',
+  additives: 'Additives',
+  nutrition: 'Nutrition',
+  servingSizeGrams: 'Serving size',
+};
+
+const DATA_SOURCE_LABELS: Record<string, string> = {
+  openfoodfacts: 'Open Food Facts',
+  usda: 'USDA FoodData Central',
+  spoonacular: 'Spoonacular',
+  user: 'Added by a user',
+};
+
+const VERIFICATION_LABELS: Record<FoodVerificationStatus, string> = {
+  pending: 'Waiting for review',
+  verified: 'Verified',
+  rejected: 'Not confirmed by review',
+};
+
 // Mock scan data - in real app, this would come from a store or API
 const mockScanData: { [key: string]: ScanHistory } = {
   '1': {
@@ -63,7 +103,10 @@ const mockScanData: { [key: string]: ScanHistory } = {
       overallSafety: 'safe' as ScanResult,
       flaggedIngredients: [],
       conditionWarnings: [],
-      safeAlternatives: ['Coconut yogurt', 'Almond yogurt'],
+      safeAlternatives: [
+        { id: 'coconut-yogurt', name: 'Coconut yogurt' },
+        { id: 'almond-yogurt', name: 'Almond yogurt' },
+      ],
       explanation:
         'This Greek yogurt is low in histamine and contains probiotics that may benefit gut health. No problematic ingredients detected.',
       dataSource: 'USDA Food Database',
@@ -111,11 +154,22 @@ const mockScanData: { [key: string]: ScanHistory } = {
           condition: 'gluten' as GutCondition,
         },
       ],
-      safeAlternatives: ['Sourdough bread', 'Gluten-free bread', 'Rice cakes'],
+      safeAlternatives: [
+        { id: 'sourdough-bread', name: 'Sourdough bread' },
+        { id: 'gluten-free-bread', name: 'Gluten-free bread' },
+        { id: 'rice-cakes', name: 'Rice cakes' },
+      ],
       explanation:
         'This wheat bread contains gluten and fructans that may trigger digestive symptoms in sensitive individuals.',
       dataSource: 'Monash FODMAP Database',
       lastUpdated: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
+      fodmapBreakdown: [
+        {
+          subgroup: 'fructans' as FodmapSubgroup,
+          level: 'high' as FodmapLevel,
+          ingredients: ['Wheat flour'],
+        },
+      ],
     },
     timestamp: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
   },
@@ -159,9 +213,9 @@ const mockScanData: { [key: string]: ScanHistory } = {
         },
       ],
       safeAlternatives: [
-        'Fresh mozzarella',
-        'Cottage cheese',
-        'Ricotta cheese',
+        { id: 'fresh-mozzarella', name: 'Fresh mozzarella' },
+        { id: 'cottage-cheese', name: 'Cottage cheese' },
+        { id: 'ricotta-cheese', name: 'Ricotta cheese' },
       ],
       explanation:
         'This aged cheddar cheese contains very high levels of histamine and tyramine, which can trigger severe reactions in sensitive individuals.',
@@ -179,7 +233,7 @@ export const ScanDetailScreen: React.FC = () => {
   const isDark = colorScheme === 'dark';
   const colors = isDark ? Colors.dark : Colors.light;
 
-  const { scanId } = route.params;
+  const { scanId, foodItemId } = route.params;
   const [scanData, setScanData] = useState<ScanHistory | null>(null);
   const [userFeedback, setUserFeedback] = useState<
     'accurate' | 'inaccurate' | null
@@ -189,31 +243,68 @@ export const ScanDetailScreen: React.FC = () => {
   const slideAnim = useRef(new Animated.Value(50)).current;
 
   useEffect(() => {
-    // Simulate loading scan data
-    const loadScanData = () => {
-      const data = mockScanData[scanId];
-      if (data) {
-        setScanData(data);
-        setUserFeedback(data.userFeedback || null);
-
-        // Animate content in
-        Animated.parallel([
-          Animated.timing(fadeAnim, {
-            toValue: 1,
-            duration: 300,
-            useNativeDriver: true,
-          }),
-          Animated.timing(slideAnim, {
-            toValue: 0,
-            duration: 300,
-            useNativeDriver: true,
-          }),
-        ]).start();
+    const showScanData = (data: ScanHistory): void => {
+      setScanData(data);
+      setUserFeedback(data.userFeedback || null);
+
+      // Animate content in
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: 0,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    };
+
+    // A food opened from a list, such as a suggested alternative, has not
+    // been scanned, so it is analyzed against the user's profile here
+    const loadFoodItem = async (id: string): Promise<void> => {
+      const gutProfile =
+        UserSettingsService.getInstance().getSettings()?.profile.gutProfile;
+      if (!gutProfile) {
+        Alert.alert('No Gut Profile', 'Set up your gut profile first.');
+        return;
+      }
+
+      const foodService = FoodService.getInstance();
+      const found = await foodService.getFoodItemById(id);
+      if (!found.success || !found.data) {
+        Alert.alert('Food Not Found', 'This food is no longer available.');
+        return;
+      }
+
+      const result = await foodService.analyzeFood(found.data, gutProfile);
+      if (!result.success) {
+        Alert.alert('Could Not Analyze Food', result.error.message);
+        return;
       }
+      showScanData({
+        id: `food_${id}`,
+        foodItem: found.data,
+        analysis: result.data,
+        timestamp: new Date(),
+      });
     };
 
-    loadScanData();
-  }, [scanId, fadeAnim, slideAnim]);
+    if (foodItemId !== undefined) {
+      loadFoodItem(foodItemId).catch(() =>
+        Alert.alert('Could Not Open Food', 'Please try again.')
+      );
+      return;
+    }
+
+    // Simulate loading scan data
+    const data = scanId !== undefined ? mockScanData[scanId] : undefined;
+    if (data) {
+      showScanData(data);
+    }
+  }, [scanId, foodItemId, fadeAnim, slideAnim]);
 
   const getResultConfig = () => {
     if (!scanData) {
@@ -270,6 +361,17 @@ export const ScanDetailScreen: React.FC = () => {
     }
   };
 
+  const getFodmapLevelColor = (level: FodmapLevel) => {
+    switch (level) {
+      case 'low':
+        return Colors.safe;
+      case 'moderate':
+        return Colors.caution;
+      case 'high':
+        return Colors.avoid;
+    }
+  };
+
   const formatTimestamp = (date: Date) => {
     return date.toLocaleDateString('en-US', {
       weekday: 'long',
@@ -330,6 +432,11 @@ export const ScanDetailScreen: React.FC = () => {
     );
   };
 
+  // Pushed rather than navigated to, so back returns to this food
+  const handleOpenAlternative = (id: string): void => {
+    (navigation as any).push('ScanDetail', { foodItemId: id });
+  };
+
   if (!scanData) {
     return (
       <SafeAreaView
@@ -484,6 +591,65 @@ export const ScanDetailScreen: React.FC = () => {
             </View>
           )}
 
+          {/* FODMAP Breakdown */}
+          {analysis.fodmapBreakdown && analysis.fodmapBreakdown.length > 0 && (
+            <View style={[styles.section, { backgroundColor: colors.surface }]}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                FODMAP Breakdown
+              </Text>
+              {analysis.fodmapBreakdown.map((group) => (
+                <View key={group.subgroup} style={styles.ingredientCard}>
+                  <View style={styles.ingredientHeader}>
+                    <Text
+                      style={[styles.ingredientName, { color: colors.text }]}
+                    >
+                      {FODMAP_SUBGROUP_LABELS[group.subgroup]}
+                    </Text>
+                    <View
+                      style={[
+                        styles.severityBadge,
+                        {
+                          backgroundColor: `${getFodmapLevelColor(group.level)}20`,
+                        },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.severityText,
+                          { color: getFodmapLevelColor(group.level) },
+                        ]}
+                      >
+                        {group.level}
+                      </Text>
+                    </View>
+                  </View>
+                  {group.ingredients.length > 0 && (
+                    <Text
+                      style={[
+                        styles.ingredientReason,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      From: {group.ingredients.join(', ')}
+                    </Text>
+                  )}
+                  {group.estimatedGrams !== undefined &&
+                    group.servingSizeGrams !== undefined && (
+                      <Text
+                        style={[
+                          styles.conditionText,
+                          { color: colors.textTertiary },
+                        ]}
+                      >
+                        ~{group.estimatedGrams.toFixed(1)} g per{' '}
+                        {group.servingSizeGrams} g serving
+                      </Text>
+                    )}
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Safe Alternatives */}
           {analysis.safeAlternatives.length > 0 && (
             <View style={[styles.section, { backgroundColor: colors.surface }]}>
@@ -491,21 +657,38 @@ export const ScanDetailScreen: React.FC = () => {
                 Safe Alternatives
               </Text>
               <View style={styles.alternativesGrid}>
-                {analysis.safeAlternatives.map((alternative, index) => (
-                  <View
-                    key={index}
+                {analysis.safeAlternatives.map((alternative) => (
+                  <TouchableOpacity
+                    key={alternative.id || alternative.name}
+                    accessibilityLabel={`Open ${alternative.name}`}
+                    accessibilityRole="link"
+                    // Alternatives saved as bare names have no food to open
+                    disabled={alternative.id === ''}
                     style={[
                       styles.alternativeCard,
                       { backgroundColor: colors.background },
                     ]}
+                    onPress={() => handleOpenAlternative(alternative.id)}
                   >
                     <Text style={styles.alternativeIcon}>✅</Text>
-                    <Text
-                      style={[styles.alternativeText, { color: colors.text }]}
-                    >
-                      {alternative}
-                    </Text>
-                  </View>
+                    <View style={styles.alternativeText}>
+                      <Text
+                        style={[styles.alternativeName, { color: colors.text }]}
+                      >
+                        {alternative.name}
+                      </Text>
+                      {alternative.brand !== undefined && (
+                        <Text
+                          style={[
+                            styles.alternativeBrand,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          {alternative.brand}
+                        </Text>
+                      )}
+                    </View>
+                  </TouchableOpacity>
                 ))}
               </View>
             </View>
@@ -534,6 +717,37 @@ export const ScanDetailScreen: React.FC = () => {
                 <Text style={styles.dataSourceIconText}>📊</Text>
               </View>
             </View>
+            {foodItem.fieldSources && (
+              <View style={styles.provenanceList}>
+                <Text
+                  style={[
+                    styles.provenanceTitle,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  Data from
+                </Text>
+                {(
+                  Object.entries(foodItem.fieldSources) as Array<
+                    [FoodProvenanceField, string]
+                  >
+                ).map(([field, source]) => (
+                  <View key={field} style={styles.detailItem}>
+                    <Text
+                      style={[
+                        styles.detailLabel,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      {PROVENANCE_FIELD_LABELS[field]}
+                    </Text>
+                    <Text style={[styles.detailValue, { color: colors.text }]}>
+                      {DATA_SOURCE_LABELS[source] ?? source}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </View>
 
           {/* Food Details */}
@@ -592,6 +806,21 @@ export const ScanDetailScreen: React.FC = () => {
                   </Text>
                 </View>
               )}
+              {foodItem.verificationStatus && (
+                <View style={styles.detailItem}>
+                  <Text
+                    style={[
+                      styles.detailLabel,
+                      { color: colors.textSecondary },
+                    ]}
+                  >
+                    Verification
+                  </Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {VERIFICATION_LABELS[foodItem.verificationStatus]}
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
 
@@ -671,6 +900,10 @@ const styles = StyleSheet.create({
     fontFamily: Typography.fontFamily.semiBold,
     fontSize: Typography.fontSize.body,
   },
+  alternativeBrand: {
+    fontFamily: Typography.fontFamily.regular,
+    fontSize: Typography.fontSize.label,
+  },
   alternativeCard: {
     alignItems: 'center',
     borderRadius: BorderRadius.lg,
@@ -684,11 +917,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginRight: Spacing.sm,
   },
-  alternativeText: {
-    flex: 1,
+  alternativeName: {
     fontFamily: Typography.fontFamily.regular,
     fontSize: Typography.fontSize.bodySmall,
   },
+  alternativeText: {
+    flex: 1,
+  },
   alternativesGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -843,6 +1078,14 @@ const styles = StyleSheet.create({
     fontFamily: Typography.fontFamily.regular,
     fontSize: Typography.fontSize.body,
   },
+  provenanceList: {
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  provenanceTitle: {
+    fontFamily: Typography.fontFamily.semiBold,
+    fontSize: Typography.fontSize.bodySmall,
+  },
   resultHeader: {
     borderRadius: BorderRadius.lg,
     marginBottom: Spacing.md,
@@ -62,7 +62,10 @@ const mockScanHistory: ScanHistory[] = [
       overallSafety: 'safe' as ScanResult,
       flaggedIngredients: [],
       conditionWarnings: [],
-      safeAlternatives: ['Coconut yogurt', 'Almond yogurt'],
+      safeAlternatives: [
+        { id: 'coconut-yogurt', name: 'Coconut yogurt' },
+        { id: 'almond-yogurt', name: 'Almond yogurt' },
+      ],
       explanation:
         'This Greek yogurt is low in histamine and contains probiotics that may benefit gut health. No problematic ingredients detected.',
       dataSource: 'USDA Food Database',
@@ -110,7 +113,11 @@ const mockScanHistory: ScanHistory[] = [
           condition: 'gluten' as GutCondition,
         },
       ],
-      safeAlternatives: ['Sourdough bread', 'Gluten-free bread', 'Rice cakes'],
+      safeAlternatives: [
+        { id: 'sourdough-bread', name: 'Sourdough bread' },
+        { id: 'gluten-free-bread', name: 'Gluten-free bread' },
+        { id: 'rice-cakes', name: 'Rice cakes' },
+      ],
       explanation:
         'This wheat bread contains gluten and fructans that may trigger digestive symptoms in sensitive individuals.',
       dataSource: 'Monash FODMAP Database',
@@ -158,9 +165,9 @@ const mockScanHistory: ScanHistory[] = [
         },
       ],
       safeAlternatives: [
-        'Fresh mozzarella',
-        'Cottage cheese',
-        'Ricotta cheese',
+        { id: 'fresh-mozzarella', name: 'Fresh mozzarella' },
+        { id: 'cottage-cheese', name: 'Cottage cheese' },
+        { id: 'ricotta-cheese', name: 'Ricotta cheese' },
       ],
       explanation:
         'This aged cheddar cheese contains very high levels of histamine and tyramine, which can trigger severe reactions in sensitive individuals.',
@@ -189,7 +196,10 @@ const mockScanHistory: ScanHistory[] = [
       overallSafety: 'safe' as ScanResult,
       flaggedIngredients: [],
       conditionWarnings: [],
-      safeAlternatives: ['Green banana', 'Plantain'],
+      safeAlternatives: [
+        { id: 'green-banana', name: 'Green banana' },
+        { id: 'plantain', name: 'Plantain' },
+      ],
       explanation:
         'Bananas are generally well-tolerated and contain prebiotic fiber that supports gut health. Choose slightly green bananas for lower sugar content.',
       dataSource: 'FODMAP Database',
@@ -250,7 +260,11 @@ const mockScanHistory: ScanHistory[] = [
           condition: 'additives' as GutCondition,
         },
       ],
-      safeAlternatives: ['Green tea', 'Herbal tea', 'Coconut water'],
+      safeAlternatives: [
+        { id: 'green-tea', name: 'Green tea' },
+        { id: 'herbal-tea', name: 'Herbal tea' },
+        { id: 'coconut-water', name: 'Coconut water' },
+      ],
       explanation:
         'This energy drink contains high levels of caffeine and artificial ingredients that may irritate the digestive system.',
       dataSource: 'Caffeine Database',
@@ -454,7 +468,9 @@ export const ScanHistoryScreen: React.FC = () => {
       scan.analysis.overallSafety,
       scan.foodItem.ingredients.join('; '),
       scan.analysis.flaggedIngredients.map((f) => f.ingredient).join('; '),
-      scan.analysis.safeAlternatives.join('; '),
+      scan.analysis.safeAlternatives
+        .map((alternative) => alternative.name)
+        .join('; '),
       scan.analysis.explanation,
     ]);
 
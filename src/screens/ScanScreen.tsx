@@ -56,8 +56,7 @@ export const ScanScreen: React.FC = () => {
   };
 
   const handleRecipeScan = () => {
-    // TODO: Implement recipe scanning
-    console.log('Recipe scan pressed');
+    (navigation as any).navigate('LogMeal');
   };
 
   const handleRecentScans = () => {
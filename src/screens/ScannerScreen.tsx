@@ -6,7 +6,8 @@
  */
 
 import { useNavigation } from '@react-navigation/native';
-import { Camera } from 'expo-camera';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { CameraView } from 'expo-camera';
 import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
@@ -24,21 +25,43 @@ import { AnimatedButton } from '../components/AnimatedButton';
 import { GlassmorphicCard } from '../components/GlassmorphicCard';
 import LinearGradient from '../components/LinearGradientWrapper';
 import { OfflineScanner } from '../components/OfflineScanner';
+import { PortionInput } from '../components/PortionInput';
 import { StatusIndicator } from '../components/StatusIndicator';
 import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
 import DataService from '../services/DataService';
+import FoodService from '../services/FoodService';
 import NetworkService from '../services/NetworkService';
 import OfflineService from '../services/OfflineService';
-import type { ScanResult, ScanHistory } from '../types';
+import UserFoodService from '../services/UserFoodService';
+import UserSettingsService from '../services/UserSettingsService';
+import type {
+  ConsumedPortion,
+  FoodItem,
+  ScanResult,
+  ScanHistory,
+} from '../types';
+import type { RootStackParamList } from '../types/navigation';
 import AccessibilityService from '../utils/accessibility';
+import { toLookupBarcode } from '../utils/barcode';
+import type { BarcodeScanOutcome } from '../utils/barcodeScanPipeline';
 import { HapticFeedback } from '../utils/haptics';
+import { logger } from '../utils/logger';
+import { formatPortion } from '../utils/portions';
 import { cameraManager } from '../utils/cameraManager';
 import { useMobileOptimizations } from '../hooks/useMobileOptimizations';
 
+// Product barcodes only; the scan pipeline validates them as GTINs
+const PRODUCT_BARCODE_TYPES: Array<'ean13' | 'ean8' | 'upc_a' | 'upc_e'> = [
+  'ean13',
+  'ean8',
+  'upc_a',
+  'upc_e',
+];
+
 export const ScannerScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const colors = isDark ? Colors.dark : Colors.light;
@@ -50,6 +73,8 @@ export const ScannerScreen: React.FC = () => {
   const [isOnline, setIsOnline] = useState(true);
   const [showOfflineScanner, setShowOfflineScanner] = useState(false);
   const [networkQuality, setNetworkQuality] = useState(0);
+  // Found food waiting for the user to say how much they had
+  const [portionFood, setPortionFood] = useState<FoodItem | null>(null);
 
   const dataService = DataService.getInstance();
   const offlineService = OfflineService.getInstance();
@@ -147,7 +172,7 @@ export const ScannerScreen: React.FC = () => {
         const endTime = performance.now();
         trackPerformance('ScannerScreen', 'cameraInitialization', endTime - startTime);
       } catch (error) {
-        console.error('Camera initialization failed:', error);
+        logger.error('Camera initialization failed', 'ScannerScreen', error);
         setHasPermission(false);
       }
     };
@@ -168,7 +193,7 @@ export const ScannerScreen: React.FC = () => {
         await cameraManager.startScanning();
       }
     } catch (error) {
-      console.error('Permission request failed:', error);
+      logger.error('Permission request failed', 'ScannerScreen', error);
       setHasPermission(false);
     }
   };
@@ -177,9 +202,111 @@ export const ScannerScreen: React.FC = () => {
   //   // Mock analysis function - commented out for now
   // };
 
-  // const handleBarCodeScanned = async ({ type, data }: { type: string; data: string }) => {
-  //   // Mock barcode scanning function - commented out for now
-  // };
+  useEffect(() => {
+    // Barcodes arrive once the scan pipeline has confirmed and looked them up
+    const showScannedFood = async ({
+      barcode,
+      food,
+    }: BarcodeScanOutcome): Promise<void> => {
+      setScanned(true);
+
+      if (!food.success) {
+        HapticFeedback.error();
+        Alert.alert('Lookup Failed', food.error.message);
+        return;
+      }
+
+      // Products the user added after an earlier scan found nothing
+      const foodItem =
+        food.data ??
+        (await UserFoodService.getInstance().findByBarcode(barcode.gtin14));
+      if (!foodItem) {
+        const printedBarcode = toLookupBarcode(barcode.gtin14);
+        HapticFeedback.error();
+        Alert.alert(
+          'Product Not Found',
+          `No product matches barcode ${printedBarcode}. You can add it yourself.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Add Product',
+              onPress: () =>
+                navigation.navigate('CreateProduct', {
+                  barcode: printedBarcode,
+                }),
+            },
+          ]
+        );
+        return;
+      }
+
+      setPortionFood(foodItem);
+    };
+
+    return cameraManager.onBarcodeScanned((outcome) => {
+      showScannedFood(outcome).catch((error) => {
+        logger.error('Showing scanned food failed', 'ScannerScreen', error);
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    // Let the user know when an offline verdict changes after re-checking
+    const unsubscribe = offlineService.onScanRevalidated(
+      (scan, offlineScan) => {
+        if (
+          scan.analysis.overallSafety === offlineScan.analysis.overallSafety
+        ) {
+          return;
+        }
+        Alert.alert(
+          'Scan Result Updated',
+          `${scan.foodItem.name} was re-checked online.\nOffline: ${offlineScan.analysis.overallSafety.toUpperCase()}\nNow: ${scan.analysis.overallSafety.toUpperCase()}\n\n${scan.analysis.explanation}`
+        );
+      }
+    );
+
+    return unsubscribe;
+  }, [offlineService]);
+
+  // Verdicts depend on the dose, so analysis waits for the portion
+  const analyzeScannedFood = async (
+    scannedFood: FoodItem,
+    portion: ConsumedPortion,
+    servingSizeGrams?: number
+  ): Promise<void> => {
+    setPortionFood(null);
+    const foodItem =
+      servingSizeGrams !== undefined
+        ? { ...scannedFood, servingSizeGrams }
+        : scannedFood;
+
+    const gutProfile =
+      UserSettingsService.getInstance().getSettings()?.profile.gutProfile;
+    const analysis = gutProfile
+      ? await FoodService.getInstance().analyzeFood(
+          foodItem,
+          gutProfile,
+          portion
+        )
+      : null;
+    if (analysis?.success !== true) {
+      Alert.alert('Product Found', foodItem.name);
+      return;
+    }
+
+    const reviewNote =
+      foodItem.verificationStatus !== undefined &&
+      foodItem.verificationStatus !== 'verified'
+        ? '\n\nAdded by a user and not verified yet.'
+        : '';
+    HapticFeedback.success();
+    setScanResult(analysis.data.overallSafety);
+    Alert.alert(
+      'Scan Complete',
+      `Food: ${foodItem.name}\nPortion: ${formatPortion(portion)}\nResult: ${analysis.data.overallSafety.toUpperCase()}\n\n${analysis.data.explanation}${reviewNote}`
+    );
+  };
 
   const handleOfflineScanComplete = (scan: ScanHistory) => {
     setShowOfflineScanner(false);
@@ -203,6 +330,9 @@ export const ScannerScreen: React.FC = () => {
     HapticFeedback.buttonPress();
     setScanned(false);
     setScanResult(null);
+    cameraManager.startScanning().catch((error) => {
+      logger.error('Restarting scanner failed', 'ScannerScreen', error);
+    });
 
     // Reset animations with optimized config
     const animationConfig = getAnimationConfig();
@@ -282,6 +412,14 @@ export const ScannerScreen: React.FC = () => {
   return (
     <View style={styles.container}>
       <View style={styles.camera}>
+        <CameraView
+          barcodeScannerSettings={{ barcodeTypes: PRODUCT_BARCODE_TYPES }}
+          facing="back"
+          style={StyleSheet.absoluteFill}
+          onBarcodeScanned={
+            scanned ? undefined : cameraManager.handleBarcodeScanned
+          }
+        />
         <View style={styles.overlay}>
           {/* Top overlay */}
           <LinearGradient
@@ -447,6 +585,39 @@ export const ScannerScreen: React.FC = () => {
           onScanComplete={handleOfflineScanComplete}
         />
       </Modal>
+
+      <Modal
+        transparent
+        animationType="fade"
+        visible={portionFood !== null}
+        onRequestClose={() => setPortionFood(null)}
+      >
+        <View style={styles.portionOverlay}>
+          {portionFood && (
+            <PortionInput
+              foodItem={portionFood}
+              units={
+                UserSettingsService.getInstance().getSettings()?.preferences
+                  .units ?? 'metric'
+              }
+              onCancel={() => setPortionFood(null)}
+              onSubmit={(portion, servingSizeGrams) => {
+                analyzeScannedFood(
+                  portionFood,
+                  portion,
+                  servingSizeGrams
+                ).catch((error) => {
+                  logger.error(
+                    'Analyzing scanned food failed',
+                    'ScannerScreen',
+                    error
+                  );
+                });
+              }}
+            />
+          )}
+        </View>
+      </Modal>
     </View>
   );
 };
@@ -607,6 +778,12 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.md,
     textAlign: 'center',
   },
+  portionOverlay: {
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
   resultContainer: {
     bottom: 200,
     left: Spacing.lg,
@@ -21,6 +21,8 @@ import {
 import { Colors } from '../constants/colors';
 import { Spacing, BorderRadius } from '../constants/spacing';
 import { Typography } from '../constants/typography';
+import ConflictResolutionService from '../services/ConflictResolutionService';
+import type { SyncConflict } from '../services/ConflictResolutionService';
 import UserSettingsService from '../services/UserSettingsService';
 import type { UserSettings } from '../types/comprehensive';
 // import { GutCondition, SeverityLevel } from '../types';
@@ -38,9 +40,12 @@ export const UserSettingsScreen: React.FC = () => {
     | 'scanning'
     | 'notifications'
     | 'privacy'
+    | 'sync'
     | 'advanced'
   >('profile');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
   const userSettingsService = UserSettingsService.getInstance();
+  const conflictResolutionService = ConflictResolutionService.getInstance();
 
   useEffect(() => {
     // Load settings
@@ -50,14 +55,30 @@ export const UserSettingsScreen: React.FC = () => {
     };
     loadSettings();
 
+    // Load the log of edits merged from other devices
+    const loadConflicts = async () => {
+      try {
+        await conflictResolutionService.initialize();
+        setConflicts(conflictResolutionService.getConflicts());
+      } catch (error) {
+        console.error('Failed to load conflict log:', error);
+      }
+    };
+    void loadConflicts();
+
     // Listen for settings changes
     const unsubscribe = userSettingsService.addListener(
       (newSettings: UserSettings) => {
         setSettings(newSettings);
       }
     );
+    const unsubscribeConflicts =
+      conflictResolutionService.subscribe(setConflicts);
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribeConflicts();
+    };
   }, []);
 
   const handleSettingChange = async (
@@ -141,6 +162,38 @@ export const UserSettingsScreen: React.FC = () => {
     );
   };
 
+  const handleMarkConflictReviewed = async (conflictId: string) => {
+    try {
+      await conflictResolutionService.markReviewed(conflictId);
+    } catch (error) {
+      console.error('Failed to update conflict log:', error);
+    }
+  };
+
+  const handleClearConflicts = () => {
+    Alert.alert(
+      'Clear Sync Log',
+      'This will remove all merged edits from the log. Are you sure?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await conflictResolutionService.clearConflicts();
+            } catch (error) {
+              Alert.alert(
+                'Error',
+                'Failed to clear the sync log. Please try again.'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const getSectionIcon = (section: string) => {
     const icons = {
       profile: '👤',
@@ -148,6 +201,7 @@ export const UserSettingsScreen: React.FC = () => {
       scanning: '📱',
       notifications: '🔔',
       privacy: '🔒',
+      sync: '🔄',
       advanced: '🔧',
     };
     return icons[section as keyof typeof icons];
@@ -188,6 +242,7 @@ export const UserSettingsScreen: React.FC = () => {
             { key: 'scanning', label: 'Scanning' },
             { key: 'notifications', label: 'Notifications' },
             { key: 'privacy', label: 'Privacy' },
+            { key: 'sync', label: 'Sync' },
             { key: 'advanced', label: 'Advanced' },
           ].map((section) => (
             <TouchableOpacity
@@ -256,6 +311,14 @@ export const UserSettingsScreen: React.FC = () => {
             onSettingChange={handleSettingChange}
           />
         )}
+        {activeSection === 'sync' && (
+          <SyncSection
+            conflicts={conflicts}
+            settings={settings}
+            onClear={handleClearConflicts}
+            onMarkReviewed={handleMarkConflictReviewed}
+          />
+        )}
         {activeSection === 'advanced' && (
           <AdvancedSection
             settings={settings} 
@@ -943,6 +1006,144 @@ const PrivacySection: React.FC<{
   );
 };
 
+const formatConflictValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return 'None';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const ENTITY_LABELS: Record<SyncConflict['entityType'], string> = {
+  gutProfile: 'Gut profile',
+  safeFood: 'Safe food',
+};
+
+const STRATEGY_LABELS: Record<SyncConflict['strategy'], string> = {
+  field_merge: 'Most recent change kept',
+  union: 'Both lists combined',
+  last_writer_wins: 'Latest edit kept',
+};
+
+// Sync Section Component
+const SyncSection: React.FC<{
+  settings: UserSettings;
+  conflicts: SyncConflict[];
+  onMarkReviewed: (conflictId: string) => void;
+  onClear: () => void;
+}> = ({ settings, conflicts, onMarkReviewed, onClear }) => {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  return (
+    <View style={styles.sectionContent}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>
+        Sync & Devices
+      </Text>
+
+      <View style={[styles.settingGroup, { backgroundColor: colors.surface }]}>
+        <Text style={[styles.groupTitle, { color: colors.text }]}>Status</Text>
+
+        <View style={styles.settingItem}>
+          <Text style={[styles.settingLabel, { color: colors.text }]}>
+            Last Sync
+          </Text>
+          <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+            {settings.sync.lastSync
+              ? new Date(settings.sync.lastSync).toLocaleString()
+              : 'Never'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={[styles.settingGroup, { backgroundColor: colors.surface }]}>
+        <Text style={[styles.groupTitle, { color: colors.text }]}>
+          Merged Edits
+        </Text>
+
+        {conflicts.length === 0 ? (
+          <Text style={[styles.settingValue, { color: colors.textSecondary }]}>
+            No edits from other devices needed merging.
+          </Text>
+        ) : (
+          conflicts.map((conflict) => (
+            <View key={conflict.id} style={styles.conflictItem}>
+              <Text style={[styles.settingLabel, { color: colors.text }]}>
+                {ENTITY_LABELS[conflict.entityType]} · {conflict.field}
+              </Text>
+              <Text
+                style={[styles.conflictDetail, { color: colors.textSecondary }]}
+              >
+                This device: {formatConflictValue(conflict.localValue)}
+              </Text>
+              <Text
+                style={[styles.conflictDetail, { color: colors.textSecondary }]}
+              >
+                Other device: {formatConflictValue(conflict.remoteValue)}
+              </Text>
+              <Text style={[styles.conflictDetail, { color: colors.text }]}>
+                Kept: {formatConflictValue(conflict.resolvedValue)}
+              </Text>
+              <Text
+                style={[styles.conflictDetail, { color: colors.textSecondary }]}
+              >
+                {STRATEGY_LABELS[conflict.strategy]}
+              </Text>
+              <View style={styles.conflictFooter}>
+                <Text
+                  style={[
+                    styles.conflictDetail,
+                    { color: colors.textTertiary },
+                  ]}
+                >
+                  {conflict.detectedAt.toLocaleString()}
+                </Text>
+                {conflict.reviewed ? (
+                  <Text
+                    style={[
+                      styles.conflictDetail,
+                      { color: colors.textTertiary },
+                    ]}
+                  >
+                    Reviewed
+                  </Text>
+                ) : (
+                  <TouchableOpacity onPress={() => onMarkReviewed(conflict.id)}>
+                    <Text
+                      style={[styles.conflictAction, { color: colors.accent }]}
+                    >
+                      Mark Reviewed
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          ))
+        )}
+
+        {conflicts.length > 0 && (
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              {
+                backgroundColor: colors.surface,
+                borderColor: colors.border,
+                borderWidth: 1,
+                marginTop: Spacing.md,
+              },
+            ]}
+            onPress={onClear}
+          >
+            <Text style={[styles.actionButtonText, { color: colors.text }]}>
+              Clear Log
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
 // Advanced Section Component
 const AdvancedSection: React.FC<{
   settings: UserSettings;
@@ -1085,6 +1286,25 @@ const styles = StyleSheet.create({
     fontSize: Typography.fontSize.body,
     fontFamily: Typography.fontFamily.semiBold,
   },
+  conflictAction: {
+    fontSize: Typography.fontSize.bodySmall,
+    fontFamily: Typography.fontFamily.semiBold,
+  },
+  conflictDetail: {
+    fontSize: Typography.fontSize.bodySmall,
+    fontFamily: Typography.fontFamily.regular,
+    marginTop: Spacing.xs,
+  },
+  conflictFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  conflictItem: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(15, 82, 87, 0.1)',
+  },
   container: {
     flex: 1,
   },
@@ -48,6 +48,16 @@ export const LazyScanDetailScreen = createLazyScreen(() =>
     default: module.ScanDetailScreen,
   }))
 );
+export const LazyCreateProductScreen = createLazyScreen(() =>
+  import('../CreateProductScreen').then((module) => ({
+    default: module.CreateProductScreen,
+  }))
+);
+export const LazyLogMealScreen = createLazyScreen(() =>
+  import('../LogMealScreen').then((module) => ({
+    default: module.LogMealScreen,
+  }))
+);
 export const LazySafeFoodsScreen = createLazyScreen(() =>
   import('../SafeFoodsScreen').then((module) => ({
     default: module.SafeFoodsScreen,
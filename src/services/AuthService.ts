@@ -5,6 +5,7 @@
  * @private
  */
 
+import { getApiConfig } from '../config/environment';
 import type { GutProfile } from '../types';
 import type {
   UserSettings,
@@ -27,6 +28,16 @@ export interface AuthState {
   error: AppError | null;
 }
 
+// Bodies of the backend's /auth/login and /auth/refresh responses
+interface LoginResponse {
+  user: { id: string; email: string; firstName: string | null };
+  tokens: { accessToken: string; refreshToken: string };
+}
+
+interface RefreshResponse {
+  accessToken: string;
+}
+
 /**
  * AuthService - Handles user authentication and settings management
  * Consolidates user management, authentication, and settings functionality
@@ -41,6 +52,9 @@ class AuthService {
     error: null,
   };
   private readonly listeners: Set<(state: AuthState) => void> = new Set();
+  // Tokens the backend issued at sign-in; the refresh token renews the other
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
 
   private constructor() {}
 
@@ -103,26 +117,37 @@ class AuthService {
     return { ...this.authState };
   }
 
+  /**
+   * Get the signed-in user's backend token, or null when there is none
+   */
+  getAccessToken(): string | null {
+    return this.authState.isAuthenticated ? this.accessToken : null;
+  }
+
   /**
    * Sign in user
    */
   async signIn(
     email: string,
-    _password: string
+    password: string
   ): Promise<Result<void, ServiceError>> {
     try {
       this.authState.isLoading = true;
       this.authState.error = null;
       this.notifyListeners();
 
-      // Mock authentication - replace with real implementation
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const { user, tokens } = await this.postToAuthApi<LoginResponse>(
+        '/login',
+        { email, password }
+      );
+      this.accessToken = tokens.accessToken;
+      this.refreshToken = tokens.refreshToken;
 
       this.authState.isAuthenticated = true;
       this.authState.user = {
-        id: '1',
-        email,
-        name: email.split('@')[0] || 'User',
+        id: user.id,
+        email: user.email,
+        name: user.firstName ?? (email.split('@')[0] || 'User'),
       };
       this.authState.isLoading = false;
       this.notifyListeners();
@@ -147,16 +172,52 @@ class AuthService {
     }
   }
 
+  /**
+   * Get a new access token with the refresh token from sign-in. Returns
+   * false, and drops the expired token, when the backend refuses.
+   */
+  async refreshAccessToken(): Promise<boolean> {
+    const { refreshToken } = this;
+    if (refreshToken === null) {
+      return false;
+    }
+
+    try {
+      const { accessToken } = await this.postToAuthApi<RefreshResponse>(
+        '/refresh',
+        { refreshToken }
+      );
+      this.accessToken = accessToken;
+      logger.info('Access token refreshed', 'AuthService');
+      return true;
+    } catch (error) {
+      this.accessToken = null;
+      logger.warn('Failed to refresh access token', 'AuthService', error);
+      return false;
+    }
+  }
+
   /**
    * Sign out user
    */
   async signOut(): Promise<void> {
     try {
+      const { refreshToken } = this;
       this.authState.isAuthenticated = false;
       this.authState.user = null;
       this.authState.settings = null;
+      this.accessToken = null;
+      this.refreshToken = null;
       this.notifyListeners();
 
+      if (refreshToken !== null) {
+        // The session ends locally either way; this revokes it on the backend
+        await this.postToAuthApi('/logout', { refreshToken }).catch(
+          (error: unknown) =>
+            logger.warn('Failed to end backend session', 'AuthService', error)
+        );
+      }
+
       logger.info('User signed out', 'AuthService');
     } catch (error) {
       logger.error('Failed to sign out', 'AuthService', error);
@@ -340,6 +401,29 @@ class AuthService {
     }
   }
 
+  /**
+   * POST to a backend auth route, throwing the backend's message on failure
+   */
+  private async postToAuthApi<T>(path: string, body: object): Promise<T> {
+    const response = await fetch(`${getApiConfig().baseUrl}/auth${path}`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(getApiConfig().timeout),
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const data = (await response.json().catch(() => ({}))) as {
+      message?: string;
+    };
+
+    if (!response.ok) {
+      throw new Error(data.message ?? `HTTP ${response.status}`);
+    }
+    return data as T;
+  }
+
   /**
    * Notify listeners of state changes
    */
@@ -0,0 +1,385 @@
+/**
+ * @fileoverview ConflictResolutionService.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { databaseManager } from '../database/connection';
+import { SafeFoodRepository } from '../database/repositories/SafeFoodRepository';
+import type { GutProfile, SafeFood } from '../types';
+import { toGtin14 } from '../utils/barcode';
+import {
+  mergeGutProfiles,
+  mergeSafeFoods,
+  type ConflictDetail,
+  type MergeResult,
+} from '../utils/conflictResolution';
+import { logger } from '../utils/logger';
+import type { RemoteChanges } from '../utils/syncEngine';
+
+import AuthService from './AuthService';
+import StorageService from './StorageService';
+
+// A conflict that was resolved automatically, kept for the user to review
+export interface SyncConflict extends ConflictDetail {
+  id: string;
+  detectedAt: Date;
+  reviewed: boolean;
+}
+
+// Records merged from the backend, for the screens showing them
+export interface MergedChanges {
+  // Null when the backend's gut profile has not changed since the last merge
+  gutProfile: GutProfile | null;
+  safeFoods: SafeFood[];
+}
+
+const CONFLICT_LOG_STORAGE_KEY = 'gut_safe_conflict_log';
+const MAX_CONFLICT_LOG_SIZE = 200;
+// The backend's updatedAt for each record when it was last merged, so an
+// unchanged copy is not merged, and its conflicts logged, on every pull
+const MERGED_VERSIONS_STORAGE_KEY = 'gut_safe_merged_versions';
+const GUT_PROFILE_VERSION_KEY = 'gutProfile';
+
+const safeFoodVersionKey = (safeFood: SafeFood): string =>
+  `safeFood:${safeFood.id}`;
+
+const safeFoodVersion = (safeFood: SafeFood): string =>
+  (safeFood.updatedAt ?? safeFood.addedDate).toISOString();
+
+const canonicalBarcode = (barcode: string | undefined): string | undefined =>
+  barcode !== undefined ? (toGtin14(barcode) ?? barcode) : undefined;
+
+// The two copies are the same safe food, or safe foods of the same food
+const isSameSafeFood = (local: SafeFood, remote: SafeFood): boolean => {
+  if (local.id === remote.id || local.foodItem.id === remote.foodItem.id) {
+    return true;
+  }
+  const barcode = canonicalBarcode(local.foodItem.barcode);
+  return (
+    barcode !== undefined &&
+    barcode === canonicalBarcode(remote.foodItem.barcode)
+  );
+};
+
+/**
+ * ConflictResolutionService - Merges copies of a record edited on different
+ * devices and keeps a log of what was decided
+ */
+class ConflictResolutionService {
+  private static instance: ConflictResolutionService;
+  private conflicts: SyncConflict[] = [];
+  private isInitialized: boolean = false;
+  private readonly listeners: Set<(conflicts: SyncConflict[]) => void> =
+    new Set();
+  private readonly mergeListeners: Set<(changes: MergedChanges) => void> =
+    new Set();
+  // The gut profile the app is showing, which remote copies merge into
+  private localGutProfile: GutProfile | null = null;
+  private readonly storageService: StorageService;
+  private readonly safeFoodRepository = new SafeFoodRepository();
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  public static getInstance(): ConflictResolutionService {
+    if (!ConflictResolutionService.instance) {
+      ConflictResolutionService.instance = new ConflictResolutionService();
+    }
+    return ConflictResolutionService.instance;
+  }
+
+  /**
+   * Initialize the conflict resolution service
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      await this.loadConflicts();
+      this.isInitialized = true;
+      logger.info(
+        'ConflictResolutionService initialized',
+        'ConflictResolutionService',
+        { conflicts: this.conflicts.length }
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to initialize ConflictResolutionService',
+        'ConflictResolutionService',
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to conflict log changes
+   */
+  subscribe(listener: (conflicts: SyncConflict[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to records merged from the backend
+   */
+  subscribeToMerges(listener: (changes: MergedChanges) => void): () => void {
+    this.mergeListeners.add(listener);
+    return () => this.mergeListeners.delete(listener);
+  }
+
+  /**
+   * Set the gut profile the app is showing, to merge remote copies into
+   */
+  setLocalGutProfile(profile: GutProfile | null): void {
+    this.localGutProfile = profile;
+  }
+
+  /**
+   * Merge a gut profile received from another device into the local copy
+   */
+  async resolveGutProfile(
+    local: GutProfile,
+    remote: GutProfile
+  ): Promise<GutProfile> {
+    return this.applyMerge(mergeGutProfiles(local, remote));
+  }
+
+  /**
+   * Merge a safe food received from another device into the local copy
+   */
+  async resolveSafeFood(local: SafeFood, remote: SafeFood): Promise<SafeFood> {
+    return this.applyMerge(mergeSafeFoods(local, remote));
+  }
+
+  /**
+   * Merge the backend's copies of the gut profile and safe foods into the
+   * local ones. Copies unchanged since they were last merged are skipped.
+   * Safe foods are matched by food item and saved to the database; remote
+   * ones this device does not have are added.
+   */
+  async mergeRemoteChanges(remote: RemoteChanges): Promise<void> {
+    const mergedVersions =
+      (await this.storageService.getItem<Record<string, string>>(
+        MERGED_VERSIONS_STORAGE_KEY
+      )) ?? {};
+
+    const profileVersion = remote.gutProfile?.updatedAt.toISOString();
+    const gutProfile =
+      remote.gutProfile &&
+      mergedVersions[GUT_PROFILE_VERSION_KEY] !== profileVersion
+        ? await this.mergeGutProfile(remote.gutProfile)
+        : null;
+
+    const changedSafeFoods = remote.safeFoods.filter(
+      (safeFood) =>
+        mergedVersions[safeFoodVersionKey(safeFood)] !==
+        safeFoodVersion(safeFood)
+    );
+    const safeFoods = await this.mergeSafeFoods(changedSafeFoods);
+
+    if (gutProfile === null && safeFoods.length === 0) {
+      return;
+    }
+    await this.storageService.setItem(MERGED_VERSIONS_STORAGE_KEY, {
+      ...mergedVersions,
+      ...(gutProfile !== null &&
+        profileVersion !== undefined && {
+          [GUT_PROFILE_VERSION_KEY]: profileVersion,
+        }),
+      ...(safeFoods.length > 0 &&
+        Object.fromEntries(
+          changedSafeFoods.map((safeFood) => [
+            safeFoodVersionKey(safeFood),
+            safeFoodVersion(safeFood),
+          ])
+        )),
+    });
+    this.notifyMergeListeners({ gutProfile, safeFoods });
+  }
+
+  /**
+   * Get the conflict log, newest first
+   */
+  getConflicts(): SyncConflict[] {
+    return [...this.conflicts];
+  }
+
+  getUnreviewedCount(): number {
+    return this.conflicts.filter((conflict) => !conflict.reviewed).length;
+  }
+
+  /**
+   * Mark a conflict as reviewed by the user
+   */
+  async markReviewed(conflictId: string): Promise<void> {
+    this.conflicts = this.conflicts.map((conflict) =>
+      conflict.id === conflictId ? { ...conflict, reviewed: true } : conflict
+    );
+    await this.saveConflicts();
+  }
+
+  /**
+   * Clear the conflict log
+   */
+  async clearConflicts(): Promise<void> {
+    this.conflicts = [];
+    await this.saveConflicts();
+  }
+
+  private async mergeGutProfile(remote: GutProfile): Promise<GutProfile> {
+    const local = this.localGutProfile;
+    if (!local) {
+      return remote;
+    }
+
+    // The backend does not store reintroduction results
+    const merged = await this.resolveGutProfile(local, {
+      ...remote,
+      ...(local.fodmapTolerance && {
+        fodmapTolerance: local.fodmapTolerance,
+      }),
+    });
+    this.localGutProfile = merged;
+    return merged;
+  }
+
+  // Merge the changed remote safe foods into the local ones and save them;
+  // nothing is saved when the database is unavailable
+  private async mergeSafeFoods(remote: SafeFood[]): Promise<SafeFood[]> {
+    const userId = AuthService.getInstance().getAuthState().user?.id;
+    if (remote.length === 0 || userId === undefined) {
+      return [];
+    }
+    if (!databaseManager.isConnected()) {
+      logger.warn(
+        'Database not connected, safe foods not merged',
+        'ConflictResolutionService'
+      );
+      return [];
+    }
+
+    const local = await this.safeFoodRepository.findWithFoodItems(userId);
+    return Promise.all(
+      remote.map(async (remoteCopy) => {
+        const localCopy = local.find((safeFood) =>
+          isSameSafeFood(safeFood, remoteCopy)
+        );
+        const merged = localCopy
+          ? await this.resolveSafeFood(localCopy, remoteCopy)
+          : remoteCopy;
+        await this.safeFoodRepository.saveSyncedSafeFood(userId, merged);
+        return merged;
+      })
+    );
+  }
+
+  private async applyMerge<T>(result: MergeResult<T>): Promise<T> {
+    if (result.conflicts.length === 0) {
+      return result.merged;
+    }
+
+    const detectedAt = new Date();
+    const logged = result.conflicts.map((conflict) => ({
+      ...conflict,
+      id: this.generateId(),
+      detectedAt,
+      reviewed: false,
+    }));
+    this.conflicts = [...logged, ...this.conflicts].slice(
+      0,
+      MAX_CONFLICT_LOG_SIZE
+    );
+    await this.saveConflicts();
+
+    logger.info('Resolved sync conflicts', 'ConflictResolutionService', {
+      count: logged.length,
+      entityType: logged[0]?.entityType,
+    });
+
+    return result.merged;
+  }
+
+  private async loadConflicts(): Promise<void> {
+    const stored = await this.storageService.getItem<SyncConflict[]>(
+      CONFLICT_LOG_STORAGE_KEY,
+      true
+    );
+    this.conflicts = (stored ?? []).map((conflict) => ({
+      ...conflict,
+      detectedAt: new Date(conflict.detectedAt),
+    }));
+  }
+
+  private async saveConflicts(): Promise<void> {
+    try {
+      await this.storageService.setItem(
+        CONFLICT_LOG_STORAGE_KEY,
+        this.conflicts,
+        true
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to save conflict log',
+        'ConflictResolutionService',
+        error
+      );
+    }
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const conflicts = this.getConflicts();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(conflicts);
+      } catch (error) {
+        logger.error(
+          'Error notifying conflict listener',
+          'ConflictResolutionService',
+          error
+        );
+      }
+    });
+  }
+
+  private notifyMergeListeners(changes: MergedChanges): void {
+    this.mergeListeners.forEach((listener) => {
+      try {
+        listener(changes);
+      } catch (error) {
+        logger.error(
+          'Error notifying merge listener',
+          'ConflictResolutionService',
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    this.listeners.clear();
+    this.mergeListeners.clear();
+    logger.info(
+      'ConflictResolutionService cleaned up',
+      'ConflictResolutionService'
+    );
+  }
+}
+
+export default ConflictResolutionService;
@@ -6,8 +6,11 @@
  */
 
 import type { AppError } from '../types/comprehensive';
-import type { ErrorContext } from '../utils/errorHandler';
-import { ErrorSeverity, ErrorCategory } from '../utils/errorHandler';
+import {
+  ErrorSeverity,
+  ErrorCategory,
+  type ErrorContext,
+} from '../utils/errorTypes';
 import { logger } from '../utils/logger';
 import { retryUtils } from '../utils/retryUtils';
 
@@ -0,0 +1,514 @@
+/**
+ * @fileoverview FodmapProtocolService.ts - Low-FODMAP elimination and reintroduction tracking
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FodmapSubgroup, FodmapTolerance, GutSymptom } from '../types';
+import { FODMAP_SUBGROUPS } from '../utils/fodmapClassifier';
+import { logger } from '../utils/logger';
+
+import HealthService from './HealthService';
+import StorageService from './StorageService';
+
+// Protocol Types
+export type FodmapProtocolPhase =
+  | 'not_started'
+  | 'elimination'
+  | 'reintroduction'
+  | 'personalisation';
+
+export interface ChallengeDose {
+  day: 1 | 2 | 3;
+  amount: string;
+  food: string;
+  takenAt: Date;
+}
+
+export interface FodmapChallenge {
+  id: string;
+  subgroup: FodmapSubgroup;
+  food: string;
+  plannedDoses: [string, string, string];
+  startDate: Date;
+  status: 'scheduled' | 'in_progress' | 'completed';
+  doses: ChallengeDose[];
+  symptomLogIds: string[];
+  verdict?: FodmapTolerance;
+  // Largest dose taken without a reaction
+  toleratedDose?: string;
+  peakSeverity?: number;
+  completedAt?: Date;
+}
+
+export interface FodmapProtocolState {
+  phase: FodmapProtocolPhase;
+  eliminationStartedAt?: Date;
+  reintroductionStartedAt?: Date;
+  // Average symptom severity over the last week of elimination
+  baselineSeverity: number;
+  challenges: FodmapChallenge[];
+}
+
+const PROTOCOL_STORAGE_KEY = 'gut_safe_fodmap_protocol';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHALLENGE_DAYS = 3;
+const WASHOUT_DAYS = 3;
+const MIN_ELIMINATION_DAYS = 14;
+const BASELINE_WINDOW_DAYS = 7;
+// Symptoms this many points (1-10 scale) above baseline count as a reaction
+const REACTION_THRESHOLD = 3;
+// Symptoms can lag the last dose by up to a day
+const SYMPTOM_LAG_DAYS = 1;
+
+// Standard challenge foods with small, medium and large doses
+const CHALLENGE_PLANS: Record<
+  FodmapSubgroup,
+  { food: string; doses: [string, string, string] }
+> = {
+  fructans: {
+    food: 'wheat bread',
+    doses: ['1/2 slice', '1 slice', '2 slices'],
+  },
+  gos: { food: 'chickpeas', doses: ['1/4 cup', '1/2 cup', '1 cup'] },
+  lactose: { food: 'milk', doses: ['1/2 cup', '1 cup', '1 1/2 cups'] },
+  'excess-fructose': { food: 'honey', doses: ['1 tsp', '2 tsp', '1 tbsp'] },
+  polyols: {
+    food: 'avocado',
+    doses: ['1/8 avocado', '1/4 avocado', '1/2 avocado'],
+  },
+};
+
+const createInitialState = (): FodmapProtocolState => ({
+  phase: 'not_started',
+  baselineSeverity: 0,
+  challenges: [],
+});
+
+/**
+ * FodmapProtocolService - Runs the low-FODMAP elimination and reintroduction
+ * protocol on top of HealthService symptom logs and the user's GutProfile
+ */
+class FodmapProtocolService {
+  private static instance: FodmapProtocolService;
+  private state: FodmapProtocolState = createInitialState();
+  private readonly healthService: HealthService;
+  private readonly storageService: StorageService;
+
+  private constructor() {
+    this.healthService = HealthService.getInstance();
+    this.storageService = StorageService.getInstance();
+  }
+
+  public static getInstance(): FodmapProtocolService {
+    if (!FodmapProtocolService.instance) {
+      FodmapProtocolService.instance = new FodmapProtocolService();
+    }
+    return FodmapProtocolService.instance;
+  }
+
+  /**
+   * Initialize the protocol service
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.loadState();
+      logger.info(
+        'FodmapProtocolService initialized',
+        'FodmapProtocolService',
+        {
+          phase: this.state.phase,
+        }
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to initialize FodmapProtocolService',
+        'FodmapProtocolService',
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get a copy of the current protocol state
+   */
+  getState(): FodmapProtocolState {
+    return {
+      ...this.state,
+      challenges: this.state.challenges.map((challenge) => ({
+        ...challenge,
+        doses: [...challenge.doses],
+        symptomLogIds: [...challenge.symptomLogIds],
+      })),
+    };
+  }
+
+  /**
+   * Whether the user's gut profile has the ibs-fodmap condition switched on
+   */
+  isApplicable(): boolean {
+    return (
+      this.healthService.getGutProfile()?.conditions['ibs-fodmap'].enabled ??
+      false
+    );
+  }
+
+  /**
+   * Begin the elimination phase
+   */
+  async startElimination(startDate: Date = new Date()): Promise<void> {
+    this.state = {
+      ...createInitialState(),
+      phase: 'elimination',
+      eliminationStartedAt: startDate,
+    };
+    await this.saveState();
+
+    logger.info('FODMAP elimination started', 'FodmapProtocolService', {
+      startDate,
+    });
+  }
+
+  /**
+   * End elimination and schedule one 3-day challenge per FODMAP subgroup,
+   * each followed by a washout period
+   */
+  async startReintroduction(
+    options: { startDate?: Date; subgroups?: FodmapSubgroup[] } = {}
+  ): Promise<FodmapChallenge[]> {
+    if (
+      this.state.phase !== 'elimination' ||
+      !this.state.eliminationStartedAt
+    ) {
+      throw new Error('Reintroduction requires an active elimination phase');
+    }
+
+    const startDate = options.startDate ?? new Date();
+    const eliminationDays =
+      (startDate.getTime() - this.state.eliminationStartedAt.getTime()) /
+      DAY_MS;
+    if (eliminationDays < MIN_ELIMINATION_DAYS) {
+      logger.warn(
+        'Starting reintroduction before recommended elimination period',
+        'FodmapProtocolService',
+        { eliminationDays }
+      );
+    }
+
+    const subgroups = options.subgroups ?? FODMAP_SUBGROUPS;
+    const challenges = subgroups.map((subgroup, index) => {
+      const plan = CHALLENGE_PLANS[subgroup];
+      return {
+        id: this.generateId(),
+        subgroup,
+        food: plan.food,
+        plannedDoses: plan.doses,
+        startDate: new Date(
+          startDate.getTime() + index * (CHALLENGE_DAYS + WASHOUT_DAYS) * DAY_MS
+        ),
+        status: 'scheduled' as const,
+        doses: [],
+        symptomLogIds: [],
+      };
+    });
+
+    this.state = {
+      ...this.state,
+      phase: 'reintroduction',
+      reintroductionStartedAt: startDate,
+      baselineSeverity: this.calculateBaseline(startDate),
+      challenges,
+    };
+    await this.saveState();
+
+    logger.info('FODMAP reintroduction scheduled', 'FodmapProtocolService', {
+      challengeCount: challenges.length,
+      baselineSeverity: this.state.baselineSeverity,
+    });
+
+    return this.getState().challenges;
+  }
+
+  /**
+   * Get the challenge whose window covers the given time
+   */
+  getActiveChallenge(at: Date = new Date()): FodmapChallenge | null {
+    if (this.state.phase !== 'reintroduction') {
+      return null;
+    }
+    return (
+      this.state.challenges.find(
+        (challenge) =>
+          challenge.status !== 'completed' &&
+          at >= challenge.startDate &&
+          at.getTime() < challenge.startDate.getTime() + CHALLENGE_DAYS * DAY_MS
+      ) ?? null
+    );
+  }
+
+  /**
+   * Record a challenge dose
+   */
+  async recordDose(
+    challengeId: string,
+    dose: { day: ChallengeDose['day']; amount?: string; takenAt?: Date }
+  ): Promise<void> {
+    const challenge = this.findChallenge(challengeId);
+
+    challenge.doses = challenge.doses.filter((d) => d.day !== dose.day);
+    challenge.doses.push({
+      day: dose.day,
+      amount: dose.amount ?? challenge.plannedDoses[dose.day - 1] ?? '',
+      food: challenge.food,
+      takenAt: dose.takenAt ?? new Date(),
+    });
+    challenge.doses.sort((a, b) => a.day - b.day);
+    challenge.status = 'in_progress';
+    await this.saveState();
+
+    logger.info('Challenge dose recorded', 'FodmapProtocolService', {
+      challengeId,
+      subgroup: challenge.subgroup,
+      day: dose.day,
+    });
+  }
+
+  /**
+   * Record a symptom from SymptomTracker against the active challenge.
+   * Returns the HealthService log id, or null when no challenge is running.
+   */
+  async recordSymptom(symptom: Omit<GutSymptom, 'id'>): Promise<string | null> {
+    const challenge = this.getActiveChallenge(symptom.timestamp);
+    if (!challenge) {
+      return null;
+    }
+
+    const logId = await this.healthService.logSymptoms({
+      symptoms: [{ ...symptom, id: this.generateId() }],
+      foodItems: [challenge.food],
+      tags: ['fodmap-challenge', challenge.subgroup],
+    });
+
+    challenge.symptomLogIds.push(logId);
+    await this.saveState();
+
+    return logId;
+  }
+
+  /**
+   * Close a challenge and work out the tolerance verdict from the symptoms
+   * logged during it. The verdict is written back to the gut profile.
+   */
+  async evaluateChallenge(challengeId: string): Promise<FodmapChallenge> {
+    const challenge = this.findChallenge(challengeId);
+    if (challenge.doses.length === 0) {
+      throw new Error('Cannot evaluate a challenge with no recorded doses');
+    }
+
+    const windowStart = challenge.startDate.getTime();
+    const windowEnd =
+      windowStart + (CHALLENGE_DAYS + SYMPTOM_LAG_DAYS) * DAY_MS;
+
+    // Worst symptom per challenge day; lagged symptoms count towards day 3
+    const peakByDay = [0, 0, 0];
+    this.healthService.getSymptomLogs().forEach((log) => {
+      log.symptoms.forEach((symptom) => {
+        const time = symptom.timestamp.getTime();
+        if (time < windowStart || time >= windowEnd) {
+          return;
+        }
+        const dayIndex = Math.min(
+          CHALLENGE_DAYS - 1,
+          Math.floor((time - windowStart) / DAY_MS)
+        );
+        peakByDay[dayIndex] = Math.max(
+          peakByDay[dayIndex] ?? 0,
+          symptom.severity
+        );
+      });
+    });
+
+    const reactionDayIndex = peakByDay.findIndex(
+      (peak) => peak - this.state.baselineSeverity >= REACTION_THRESHOLD
+    );
+
+    let verdict: FodmapTolerance;
+    let toleratedDose: string | undefined;
+    if (reactionDayIndex === -1) {
+      verdict = 'tolerated';
+      toleratedDose = challenge.doses[challenge.doses.length - 1]?.amount;
+    } else if (reactionDayIndex === 0) {
+      verdict = 'not_tolerated';
+    } else {
+      verdict = 'partial';
+      toleratedDose = challenge.doses.find(
+        (dose) => dose.day === reactionDayIndex
+      )?.amount;
+    }
+
+    challenge.verdict = verdict;
+    challenge.peakSeverity = Math.max(...peakByDay);
+    challenge.status = 'completed';
+    challenge.completedAt = new Date();
+    if (toleratedDose !== undefined) {
+      challenge.toleratedDose = toleratedDose;
+    }
+
+    if (this.state.challenges.every((c) => c.status === 'completed')) {
+      this.state.phase = 'personalisation';
+    }
+
+    await this.saveState();
+    this.applyToleranceToProfile();
+
+    logger.info('Challenge evaluated', 'FodmapProtocolService', {
+      challengeId,
+      subgroup: challenge.subgroup,
+      verdict,
+    });
+
+    return { ...challenge };
+  }
+
+  /**
+   * Get the latest verdict for each challenged subgroup
+   */
+  getToleranceVerdicts(): Partial<Record<FodmapSubgroup, FodmapTolerance>> {
+    const verdicts: Partial<Record<FodmapSubgroup, FodmapTolerance>> = {};
+    this.state.challenges.forEach((challenge) => {
+      if (challenge.verdict) {
+        verdicts[challenge.subgroup] = challenge.verdict;
+      }
+    });
+    return verdicts;
+  }
+
+  /**
+   * Abandon the protocol and clear all progress
+   */
+  async reset(): Promise<void> {
+    this.state = createInitialState();
+    await this.saveState();
+    logger.info('FODMAP protocol reset', 'FodmapProtocolService');
+  }
+
+  /**
+   * Average symptom severity over the final week of elimination
+   */
+  private calculateBaseline(reintroductionStart: Date): number {
+    const windowStart =
+      reintroductionStart.getTime() - BASELINE_WINDOW_DAYS * DAY_MS;
+    const severities = this.healthService
+      .getSymptomLogs()
+      .flatMap((log) => log.symptoms)
+      .filter(
+        (symptom) =>
+          symptom.timestamp.getTime() >= windowStart &&
+          symptom.timestamp < reintroductionStart
+      )
+      .map((symptom) => symptom.severity);
+
+    if (severities.length === 0) {
+      return 0;
+    }
+    return (
+      severities.reduce((sum, value) => sum + value, 0) / severities.length
+    );
+  }
+
+  /**
+   * Push the current verdicts onto the gut profile so food analysis uses them
+   */
+  private applyToleranceToProfile(): void {
+    const profile = this.healthService.getGutProfile();
+    if (!profile) {
+      return;
+    }
+    this.healthService.setGutProfile({
+      ...profile,
+      fodmapTolerance: {
+        ...profile.fodmapTolerance,
+        ...this.getToleranceVerdicts(),
+      },
+      updatedAt: new Date(),
+    });
+  }
+
+  private findChallenge(challengeId: string): FodmapChallenge {
+    const challenge = this.state.challenges.find((c) => c.id === challengeId);
+    if (!challenge) {
+      throw new Error(`Challenge with ID ${challengeId} not found`);
+    }
+    return challenge;
+  }
+
+  /**
+   * Load protocol state from storage, reviving dates
+   */
+  private async loadState(): Promise<void> {
+    const stored = await this.storageService.getItem<FodmapProtocolState>(
+      PROTOCOL_STORAGE_KEY,
+      true
+    );
+    if (!stored) {
+      this.state = createInitialState();
+      return;
+    }
+
+    const toDate = (value: Date | string): Date => new Date(value);
+    this.state = {
+      ...stored,
+      ...(stored.eliminationStartedAt && {
+        eliminationStartedAt: toDate(stored.eliminationStartedAt),
+      }),
+      ...(stored.reintroductionStartedAt && {
+        reintroductionStartedAt: toDate(stored.reintroductionStartedAt),
+      }),
+      challenges: stored.challenges.map((challenge) => ({
+        ...challenge,
+        startDate: toDate(challenge.startDate),
+        doses: challenge.doses.map((dose) => ({
+          ...dose,
+          takenAt: toDate(dose.takenAt),
+        })),
+        ...(challenge.completedAt && {
+          completedAt: toDate(challenge.completedAt),
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Save protocol state to encrypted storage
+   */
+  private async saveState(): Promise<void> {
+    try {
+      await this.storageService.setItem(PROTOCOL_STORAGE_KEY, this.state, true);
+    } catch (error) {
+      logger.error(
+        'Failed to save FODMAP protocol',
+        'FodmapProtocolService',
+        error
+      );
+    }
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(): string {
+    return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    logger.info('FodmapProtocolService cleaned up', 'FodmapProtocolService');
+  }
+}
+
+export default FodmapProtocolService;
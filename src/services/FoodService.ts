@@ -5,15 +5,23 @@
  * @private
  */
 
+import { getFoodApiBaseUrl } from '../config/foodApis';
+import { databaseManager } from '../database/connection';
+import { FoodItemRepository } from '../database/repositories/FoodItemRepository';
+import type { FoodItem as StoredFoodItem } from '../database/schema';
 import type {
+  ConsumedPortion,
   FoodItem,
-  GutCondition,
+  GutProfile,
+  MealComponent,
+  NutritionFacts,
   ScanResult,
   ScanAnalysis,
   IngredientAnalysisResult,
   HiddenTrigger,
 } from '../types';
 import type {
+  FoodItemReference,
   FoodRecommendation,
   PatternAnalysis,
   ServiceError,
@@ -21,8 +29,30 @@ import type {
   NetworkError,
 } from '../types/comprehensive';
 import { apiKeyManager } from '../utils/apiKeyManager';
+import { toGtin14, toLookupBarcode, toUpcA } from '../utils/barcode';
 import { errorHandler } from '../utils/errorHandler';
+import { analyzeFoodItem, analyzeMeal } from '../utils/foodAnalysisEngine';
+import type {
+  FreeFromKind,
+  RecommendationCandidate,
+  RecommendationHistory,
+} from '../utils/foodRecommendations';
+import {
+  FREE_FROM_CONDITIONS,
+  getSymptomFreeFoods,
+  rankRecommendations,
+} from '../utils/foodRecommendations';
 import { logger } from '../utils/logger';
+import { rankFuzzyMatches } from '../utils/offlineFoodSearch';
+import { mapOpenFoodFactsProduct } from '../utils/openFoodFactsMapper';
+import { createPortion } from '../utils/portions';
+import {
+  mergeDuplicateFoods,
+  mergeFoodItems,
+} from '../utils/productResolution';
+import { parseRecipeText } from '../utils/recipeParser';
+import { rankSafeAlternatives } from '../utils/safeAlternatives';
+import { toAppFoodItem } from '../utils/storedFoodItem';
 
 import type { OpenFoodFactsProduct } from './OpenFoodFactsService';
 import OpenFoodFactsService from './OpenFoodFactsService';
@@ -30,24 +60,31 @@ import OpenFoodFactsService from './OpenFoodFactsService';
 // API Configuration
 const API_CONFIG = {
   OPENFOODFACTS: {
-    baseUrl: 'https://world.openfoodfacts.org/api/v2',
     timeout: 10000,
     userAgent: 'GutSafe/1.0.0 (https://gutsafe.com)',
   },
   USDA: {
-    baseUrl: 'https://api.nal.usda.gov/fdc/v1',
     timeout: 10000,
   },
   SPOONACULAR: {
-    baseUrl: 'https://api.spoonacular.com',
     timeout: 10000,
   },
-  GOOGLE_VISION: {
-    baseUrl: 'https://vision.googleapis.com/v1',
-    timeout: 15000,
-  },
 };
 
+// Weight of a counted recipe item, e.g. "2 eggs", when the food found has
+// no serving size
+const DEFAULT_ITEM_GRAMS = 50;
+
+// Foods the user eats most whose look-alikes are considered, and how many
+// candidates each free-from list contributes
+const RECOMMENDATION_SEED_FOODS = 5;
+const RECOMMENDATION_CANDIDATES = 50;
+
+// Products looked at per category and per brand when suggesting
+// alternatives to a food to avoid, and how many are offered
+const ALTERNATIVE_CANDIDATES = 50;
+const SAFE_ALTERNATIVES = 5;
+
 // API Keys will be managed through apiKeyManager
 
 // Database Types
@@ -56,30 +93,55 @@ interface USDAProduct {
   fdcId: number;
   description: string;
   brandOwner?: string;
+  gtinUpc?: string;
   ingredients?: string;
+  // Food details use the nested shape, search results the flat one
   foodNutrients: Array<{
-    nutrient: {
+    nutrient?: {
       id: number;
       name: string;
       unitName: string;
     };
-    amount: number;
+    amount?: number;
+    nutrientId?: number;
+    value?: number;
   }>;
 }
 
+// USDA nutrient IDs and the NutritionFacts fields they fill. Sodium,
+// cholesterol and minerals are reported in mg and converted to grams.
+const USDA_NUTRIENTS: Record<
+  number,
+  { field: keyof NutritionFacts; gramsPerUnit: number }
+> = {
+  1008: { field: 'calories', gramsPerUnit: 1 },
+  1003: { field: 'protein', gramsPerUnit: 1 },
+  1004: { field: 'fat', gramsPerUnit: 1 },
+  1258: { field: 'saturatedFat', gramsPerUnit: 1 },
+  1005: { field: 'carbs', gramsPerUnit: 1 },
+  2000: { field: 'sugars', gramsPerUnit: 1 },
+  1079: { field: 'fiber', gramsPerUnit: 1 },
+  1093: { field: 'sodium', gramsPerUnit: 0.001 },
+  1253: { field: 'cholesterol', gramsPerUnit: 0.001 },
+  1092: { field: 'potassium', gramsPerUnit: 0.001 },
+  1087: { field: 'calcium', gramsPerUnit: 0.001 },
+  1089: { field: 'iron', gramsPerUnit: 0.001 },
+};
+
 interface SpoonacularProduct {
   id: number;
   title: string;
   image: string;
   imageType: string;
-  nutrition: {
+  // Search results only carry the id, title and image
+  nutrition?: {
     nutrients: Array<{
       name: string;
       amount: number;
       unit: string;
     }>;
   };
-  ingredients: Array<{
+  ingredients?: Array<{
     id: number;
     name: string;
     amount: number;
@@ -117,6 +179,9 @@ class FoodService {
   private readonly cache: Map<string, any> = new Map();
   private readonly cacheTimeout = 60 * 60 * 1000; // 1 hour
   private readonly openFoodFactsService: OpenFoodFactsService;
+  private readonly foodItemRepository = new FoodItemRepository();
+  private readonly foodsFoundListeners: Set<(foodItems: FoodItem[]) => void> =
+    new Set();
 
   private constructor() {
     this.openFoodFactsService = OpenFoodFactsService.getInstance();
@@ -147,37 +212,82 @@ class FoodService {
   async searchByBarcode(
     barcode: string
   ): Promise<Result<FoodItem | null, ServiceError>> {
+    const gtin14 = toGtin14(barcode);
+    if (gtin14 === null) {
+      return {
+        success: false,
+        error: {
+          code: 'SERVICE_ERROR' as const,
+          message: 'Invalid barcode',
+          details: { barcode },
+          timestamp: new Date(),
+          service: 'FoodService',
+          operation: 'searchByBarcode',
+        },
+      };
+    }
+
     const result = await errorHandler.withErrorHandling(
       async () => {
-        const cacheKey = `barcode_${barcode}`;
+        const cacheKey = `barcode_${gtin14}`;
         const cached = this.getCachedData(cacheKey);
         if (cached) {
           return cached;
         }
 
-        // Try OpenFoodFacts first with retry
-        const openFoodFactsResult =
-          await this.openFoodFactsService.getProductByBarcode(barcode);
+        // Ask every source and merge what they know about the product
+        const [openFoodFactsResult, usdaResult, spoonacularResult] =
+          await Promise.allSettled([
+            this.openFoodFactsService.getProductByBarcode(gtin14),
+            this.searchUSDA(gtin14),
+            this.searchSpoonacularByBarcode(gtin14),
+          ]);
 
-        if (openFoodFactsResult.success && openFoodFactsResult.data) {
-          const foodItem = this.convertToFoodItem(
-            openFoodFactsResult.data,
-            'openfoodfacts'
+        const candidates: FoodItem[] = [];
+        if (
+          openFoodFactsResult.status === 'fulfilled' &&
+          openFoodFactsResult.value.success &&
+          openFoodFactsResult.value.data
+        ) {
+          candidates.push(
+            this.convertToFoodItem(
+              openFoodFactsResult.value.data,
+              'openfoodfacts'
+            )
+          );
+        }
+        if (
+          usdaResult.status === 'fulfilled' &&
+          usdaResult.value.success &&
+          usdaResult.value.data
+        ) {
+          candidates.push(
+            this.convertToFoodItem(usdaResult.value.data, 'usda')
+          );
+        }
+        if (
+          spoonacularResult.status === 'fulfilled' &&
+          spoonacularResult.value.success &&
+          spoonacularResult.value.data
+        ) {
+          candidates.push(
+            this.convertToFoodItem(spoonacularResult.value.data, 'spoonacular')
           );
-          this.setCachedData(cacheKey, foodItem);
-          return foodItem;
         }
 
-        // Try USDA if OpenFoodFacts fails with retry
-        const usdaResult = await this.searchUSDA(barcode);
-
-        if (usdaResult.success && usdaResult.data) {
-          const foodItem = this.convertToFoodItem(usdaResult.data, 'usda');
-          this.setCachedData(cacheKey, foodItem);
-          return foodItem;
+        const merged = mergeFoodItems(candidates);
+        if (!merged) {
+          return null;
         }
 
-        return null;
+        const foodItem = { ...merged, barcode: gtin14 };
+        logger.info('Resolved product from sources', 'FoodService', {
+          barcode: gtin14,
+          sources: foodItem.dataSource,
+        });
+        this.setCachedData(cacheKey, foodItem);
+        this.notifyFoodsFound([foodItem]);
+        return foodItem;
       },
       {
         operation: 'searchByBarcode',
@@ -253,8 +363,9 @@ class FoodService {
         }
 
         // Remove duplicates and limit results
-        const uniqueResults = this.removeDuplicateFoods(results).slice(0, 20);
+        const uniqueResults = mergeDuplicateFoods(results).slice(0, 20);
         this.setCachedData(cacheKey, uniqueResults);
+        this.notifyFoodsFound(uniqueResults);
 
         return uniqueResults;
       },
@@ -282,55 +393,82 @@ class FoodService {
   }
 
   /**
-   * Analyze food for gut health
+   * Get popular OpenFoodFacts products in a category
+   */
+  async searchByCategory(
+    category: string,
+    limit: number = 20
+  ): Promise<Result<FoodItem[], ServiceError>> {
+    const result = await errorHandler.withErrorHandling(
+      async () => {
+        const cacheKey = `search_category_${category.toLowerCase()}_${limit}`;
+        const cached = this.getCachedData(cacheKey);
+        if (cached) {
+          return cached;
+        }
+
+        const response = await this.openFoodFactsService.searchProducts({
+          search_terms: '',
+          category,
+          page_size: limit,
+          sort_by: 'popularity',
+        });
+        if (!response.success) {
+          throw new Error(response.error.message);
+        }
+
+        const foodItems = mergeDuplicateFoods(
+          response.data.products.map((product) =>
+            this.convertToFoodItem(product, 'openfoodfacts')
+          )
+        );
+        this.setCachedData(cacheKey, foodItems);
+        return foodItems;
+      },
+      {
+        operation: 'searchByCategory',
+        service: 'FoodService',
+        additionalData: { category },
+      },
+      'FoodService'
+    );
+
+    if (result.success) {
+      return { success: true, data: result.data as FoodItem[] };
+    } else {
+      return {
+        success: false,
+        error: {
+          ...result.error,
+          code: 'SERVICE_ERROR' as const,
+          service: 'FoodService',
+          operation: 'searchByCategory',
+        },
+      };
+    }
+  }
+
+  /**
+   * Analyze food for gut health against the user's gut profile, scaled to
+   * the portion eaten when one is given
    */
   async analyzeFood(
     foodItem: FoodItem,
-    gutProfile: GutCondition[]
+    gutProfile: GutProfile,
+    portion?: ConsumedPortion
   ): Promise<Result<ScanAnalysis, ServiceError>> {
     const result = await errorHandler.withErrorHandling(
       async () => {
-        const analysis: ScanAnalysis = {
-          overallSafety: 'safe' as ScanResult,
-          flaggedIngredients: [],
-          conditionWarnings: [],
-          safeAlternatives: [],
-          explanation: '',
-          dataSource: 'FoodService',
-          lastUpdated: new Date(),
-        };
-
-        // Analyze ingredients
-        if (foodItem.ingredients) {
-          const ingredientAnalysis = await this.analyzeIngredients(
-            foodItem.ingredients.join(', '),
+        const analysis = analyzeFoodItem(foodItem, gutProfile, {
+          ...(portion && { portionGrams: portion.grams }),
+        });
+        if (analysis.overallSafety === 'avoid') {
+          analysis.safeAlternatives = await this.findSafeAlternatives(
+            foodItem,
             gutProfile
           );
-          analysis.flaggedIngredients = ingredientAnalysis.flagged.map(
-            (ing) => ({
-              ingredient: ing.ingredient,
-              reason: 'Potential trigger',
-              severity:
-                ing.riskLevel === 'severe'
-                  ? 'severe'
-                  : ing.riskLevel === 'moderate'
-                    ? 'moderate'
-                    : 'mild',
-              condition: 'ibs-fodmap' as GutCondition, // Default condition
-            })
-          );
-          analysis.overallSafety =
-            this.calculateOverallRisk(ingredientAnalysis);
         }
 
-        // Generate recommendations
-        analysis.safeAlternatives = this.generateRecommendations(
-          foodItem,
-          analysis,
-          gutProfile
-        );
-        analysis.explanation = `Analysis completed with ${analysis.flaggedIngredients.length} flagged ingredients`;
-
         logger.info('Food analysis completed', 'FoodService', {
           foodId: foodItem.id,
           risk: analysis.overallSafety,
@@ -343,7 +481,8 @@ class FoodService {
         service: 'FoodService',
         additionalData: {
           foodId: foodItem.id,
-          gutProfileCount: gutProfile.length,
+          gutProfileId: gutProfile.id,
+          portionGrams: portion?.grams,
         },
       },
       'FoodService'
@@ -365,41 +504,277 @@ class FoodService {
   }
 
   /**
-   * Get food recommendations based on gut profile
+   * Find products like the given one, in its category and ideally from its
+   * brand, that pass the user's gut profile
    */
-  async getRecommendations(
-    _gutProfile: GutCondition[]
-  ): Promise<FoodRecommendation[]> {
+  async findSafeAlternatives(
+    foodItem: FoodItem,
+    gutProfile: GutProfile,
+    limit: number = SAFE_ALTERNATIVES
+  ): Promise<FoodItemReference[]> {
     try {
-      // This would use AI/ML in a real implementation
-      const recommendations: FoodRecommendation[] = [
-        {
-          id: '1',
-          name: 'Quinoa',
-          reason: 'High in fiber and protein, gentle on digestive system',
-          confidence: 0.9,
-          category: 'Grains',
-          nutritionalValue: {
-            calories: 120,
-            protein: 4.4,
-            carbs: 22,
-            fat: 1.9,
-          },
+      if (
+        !databaseManager.isConnected() ||
+        (foodItem.category === undefined && foodItem.brand === undefined)
+      ) {
+        return [];
+      }
+
+      const [byBrand, byCategory] = await Promise.all([
+        foodItem.brand !== undefined
+          ? this.foodItemRepository.findByBrand(
+              foodItem.brand,
+              ALTERNATIVE_CANDIDATES
+            )
+          : [],
+        foodItem.category !== undefined
+          ? this.foodItemRepository.findByCategory(
+              foodItem.category,
+              ALTERNATIVE_CANDIDATES
+            )
+          : [],
+      ]);
+
+      const alternatives = rankSafeAlternatives(
+        foodItem,
+        [...byBrand, ...byCategory].map(toAppFoodItem),
+        gutProfile,
+        limit
+      );
+
+      logger.info('Safe alternatives found', 'FoodService', {
+        foodId: foodItem.id,
+        candidateCount: byBrand.length + byCategory.length,
+        alternativeCount: alternatives.length,
+      });
+
+      return alternatives;
+    } catch (error) {
+      logger.error('Failed to find safe alternatives', 'FoodService', error);
+      return [];
+    }
+  }
+
+  /**
+   * Look up a stored food by id, e.g. to open a suggested alternative
+   */
+  async getFoodItemById(
+    id: string
+  ): Promise<Result<FoodItem | null, ServiceError>> {
+    const result = await errorHandler.withErrorHandling(
+      async () => {
+        const record = await this.foodItemRepository.findById(id);
+        return record ? toAppFoodItem(record) : null;
+      },
+      {
+        operation: 'getFoodItemById',
+        service: 'FoodService',
+        additionalData: { id },
+      },
+      'FoodService'
+    );
+
+    if (result.success) {
+      return { success: true, data: result.data };
+    } else {
+      return {
+        success: false,
+        error: {
+          ...result.error,
+          code: 'SERVICE_ERROR' as const,
+          service: 'FoodService',
+          operation: 'getFoodItemById',
         },
-        {
-          id: '2',
-          name: 'Greek Yogurt',
-          reason: 'Contains probiotics that support gut health',
-          confidence: 0.85,
-          category: 'Dairy',
-          nutritionalValue: {
-            calories: 100,
-            protein: 10,
-            carbs: 6,
-            fat: 0,
-          },
+      };
+    }
+  }
+
+  /**
+   * Analyze several foods eaten together as one meal, so FODMAP loads that
+   * stack up across them are caught
+   */
+  async analyzeMeal(
+    components: MealComponent[],
+    gutProfile: GutProfile
+  ): Promise<Result<ScanAnalysis, ServiceError>> {
+    const result = await errorHandler.withErrorHandling(
+      async () => {
+        if (components.length === 0) {
+          throw new Error('A meal needs at least one food');
+        }
+        const analysis = analyzeMeal(components, gutProfile);
+
+        logger.info('Meal analysis completed', 'FoodService', {
+          componentCount: components.length,
+          risk: analysis.overallSafety,
+        });
+
+        return analysis;
+      },
+      {
+        operation: 'analyzeMeal',
+        service: 'FoodService',
+        additionalData: {
+          foodIds: components.map(({ foodItem }) => foodItem.id),
+          gutProfileId: gutProfile.id,
+        },
+      },
+      'FoodService'
+    );
+
+    if (result.success) {
+      return { success: true, data: result.data };
+    } else {
+      return {
+        success: false,
+        error: {
+          ...result.error,
+          code: 'SERVICE_ERROR' as const,
+          service: 'FoodService',
+          operation: 'analyzeMeal',
         },
-      ];
+      };
+    }
+  }
+
+  /**
+   * Resolve a pasted recipe ingredient list to foods with portions. Each
+   * line is matched to the closest food found by name; lines with no match
+   * become a generic food named after the line, so the knowledge base can
+   * still check it.
+   */
+  async resolveRecipe(
+    text: string
+  ): Promise<Result<MealComponent[], ServiceError>> {
+    const result = await errorHandler.withErrorHandling(
+      async () => {
+        const lines = parseRecipeText(text);
+        if (lines.length === 0) {
+          throw new Error('No ingredients found');
+        }
+
+        return Promise.all(
+          lines.map(async (line): Promise<MealComponent> => {
+            const search = await this.searchByName(line.name);
+            const found = search.success ? search.data : [];
+            // An exact name beats a longer one that merely contains it
+            const foodItem: FoodItem = found.find(
+              (food) => food.name.toLowerCase() === line.name.toLowerCase()
+            ) ??
+              rankFuzzyMatches(line.name, found, 1)[0] ?? {
+                id: `recipe_${line.name.toLowerCase().replace(/\s+/g, '_')}`,
+                name: line.name,
+                ingredients: [line.name],
+                allergens: [],
+                additives: [],
+                glutenFree: false,
+                lactoseFree: false,
+                dataSource: 'recipe',
+              };
+            const portion =
+              createPortion(line.amount, line.unit, foodItem) ??
+              createPortion(line.amount, line.unit, {
+                servingSizeGrams: DEFAULT_ITEM_GRAMS,
+              });
+            if (!portion) {
+              throw new Error(`Invalid amount for ${line.name}`);
+            }
+            return { foodItem, portion };
+          })
+        );
+      },
+      {
+        operation: 'resolveRecipe',
+        service: 'FoodService',
+        additionalData: { lineCount: text.split('\n').length },
+      },
+      'FoodService'
+    );
+
+    if (result.success) {
+      return { success: true, data: result.data };
+    } else {
+      return {
+        success: false,
+        error: {
+          ...result.error,
+          code: 'SERVICE_ERROR' as const,
+          service: 'FoodService',
+          operation: 'resolveRecipe',
+        },
+      };
+    }
+  }
+
+  /**
+   * Recommend foods from the user's own history: foods similar to what
+   * they eat without symptoms, and free-from foods for their conditions,
+   * that pass their gut profile
+   */
+  async getRecommendations(
+    gutProfile: GutProfile,
+    history: RecommendationHistory,
+    limit: number = 10
+  ): Promise<FoodRecommendation[]> {
+    try {
+      if (!databaseManager.isConnected()) {
+        return [];
+      }
+
+      const seeds = getSymptomFreeFoods(history).slice(
+        0,
+        RECOMMENDATION_SEED_FOODS
+      );
+      const freeFromKinds = (
+        Object.keys(FREE_FROM_CONDITIONS) as FreeFromKind[]
+      ).filter(
+        (kind) => gutProfile.conditions[FREE_FROM_CONDITIONS[kind]].enabled
+      );
+      const freeFromQueries: Record<
+        FreeFromKind,
+        (limit: number) => Promise<StoredFoodItem[]>
+      > = {
+        'low-fodmap': (count) => this.foodItemRepository.findLowFODMAP(count),
+        'gluten-free': (count) => this.foodItemRepository.findGlutenFree(count),
+        'lactose-free': (count) =>
+          this.foodItemRepository.findLactoseFree(count),
+      };
+
+      const [similar, freeFrom] = await Promise.all([
+        Promise.all(
+          seeds.map(async ({ foodItem, timesEaten }) =>
+            (await this.foodItemRepository.findSimilar(foodItem.id)).map(
+              (record): RecommendationCandidate => ({
+                foodItem: toAppFoodItem(record),
+                source: { kind: 'similar', seed: foodItem, timesEaten },
+              })
+            )
+          )
+        ),
+        Promise.all(
+          freeFromKinds.map(async (kind) =>
+            (await freeFromQueries[kind](RECOMMENDATION_CANDIDATES)).map(
+              (record): RecommendationCandidate => ({
+                foodItem: toAppFoodItem(record),
+                source: { kind },
+              })
+            )
+          )
+        ),
+      ]);
+
+      const recommendations = rankRecommendations(
+        [...similar.flat(), ...freeFrom.flat()],
+        gutProfile,
+        history,
+        limit
+      );
+
+      logger.info('Recommendations computed', 'FoodService', {
+        seedCount: seeds.length,
+        freeFromKinds,
+        recommendationCount: recommendations.length,
+      });
 
       return recommendations;
     } catch (error) {
@@ -441,8 +816,10 @@ class FoodService {
    * Search USDA by barcode
    */
   private async searchUSDA(
-    barcode: string
+    gtin14: string
   ): Promise<Result<USDAProduct | null, NetworkError>> {
+    // USDA keeps the UPC-A for US products
+    const barcode = toUpcA(gtin14) ?? toLookupBarcode(gtin14);
     try {
       const apiKey = await apiKeyManager.getApiKey('USDA_API_KEY');
       if (!apiKey) {
@@ -450,7 +827,7 @@ class FoodService {
           code: 'NETWORK_ERROR',
           message: 'USDA API key not configured',
           status: 500,
-          url: `${API_CONFIG.USDA.baseUrl}/foods/search`,
+          url: `${getFoodApiBaseUrl('usda')}/foods/search`,
           method: 'GET',
           timestamp: new Date(),
           details: { barcode },
@@ -459,7 +836,7 @@ class FoodService {
       }
 
       const response = await fetch(
-        `${API_CONFIG.USDA.baseUrl}/foods/search?query=${barcode}&api_key=${apiKey}`,
+        `${getFoodApiBaseUrl('usda')}/foods/search?query=${barcode}&api_key=${apiKey}`,
         {
           signal: AbortSignal.timeout(API_CONFIG.USDA.timeout),
         }
@@ -479,7 +856,11 @@ class FoodService {
       }
 
       const data = await response.json();
-      const product = data.foods?.[0] || null;
+      // Full-text search also returns near matches, so check the barcode
+      const product =
+        data.foods?.find(
+          (food: USDAProduct) => toGtin14(food.gtinUpc ?? '') === gtin14
+        ) ?? null;
       return { success: true, data: product };
     } catch (error) {
       const networkError: NetworkError = {
@@ -509,7 +890,7 @@ class FoodService {
       }
 
       const response = await fetch(
-        `${API_CONFIG.USDA.baseUrl}/foods/search?query=${encodeURIComponent(query)}&api_key=${apiKey}`,
+        `${getFoodApiBaseUrl('usda')}/foods/search?query=${encodeURIComponent(query)}&api_key=${apiKey}`,
         {
           signal: AbortSignal.timeout(API_CONFIG.USDA.timeout),
         }
@@ -565,7 +946,7 @@ class FoodService {
       }
 
       const response = await fetch(
-        `${API_CONFIG.SPOONACULAR.baseUrl}/food/products/search?query=${encodeURIComponent(query)}&apiKey=${apiKey}`,
+        `${getFoodApiBaseUrl('spoonacular')}/food/products/search?query=${encodeURIComponent(query)}&apiKey=${apiKey}`,
         {
           signal: AbortSignal.timeout(API_CONFIG.SPOONACULAR.timeout),
         }
@@ -610,6 +991,82 @@ class FoodService {
     }
   }
 
+  /**
+   * Look up a product by UPC on Spoonacular
+   */
+  private async searchSpoonacularByBarcode(
+    gtin14: string
+  ): Promise<Result<SpoonacularProduct | null, NetworkError>> {
+    const barcode = toUpcA(gtin14) ?? toLookupBarcode(gtin14);
+    try {
+      const apiKey = await apiKeyManager.getApiKey('SPOONACULAR_API_KEY');
+      if (!apiKey) {
+        return { success: true, data: null };
+      }
+
+      const response = await fetch(
+        `${getFoodApiBaseUrl('spoonacular')}/food/products/upc/${encodeURIComponent(barcode)}?apiKey=${apiKey}`,
+        {
+          signal: AbortSignal.timeout(API_CONFIG.SPOONACULAR.timeout),
+        }
+      );
+
+      if (response.status === 404) {
+        return { success: true, data: null };
+      }
+      if (!response.ok) {
+        const networkError: NetworkError = {
+          code: 'NETWORK_ERROR',
+          message: `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          url: response.url,
+          method: 'GET',
+          timestamp: new Date(),
+          details: { barcode },
+        };
+        return { success: false, error: networkError };
+      }
+
+      const product: SpoonacularProduct = await response.json();
+      return { success: true, data: product };
+    } catch (error) {
+      const networkError: NetworkError = {
+        code: 'NETWORK_ERROR',
+        message:
+          error instanceof Error ? error.message : 'Network request failed',
+        timestamp: new Date(),
+        details: { barcode, error },
+      };
+
+      logger.error('Spoonacular barcode search failed', 'FoodService', {
+        barcode,
+        error,
+      });
+      return { success: false, error: networkError };
+    }
+  }
+
+  /**
+   * Read per-100 g nutrition from a USDA product. Spoonacular reports
+   * nutrients per serving, so they are not used.
+   */
+  private extractNutrition(
+    product: USDAProduct | SpoonacularProduct
+  ): NutritionFacts {
+    const nutrition: NutritionFacts = {};
+    if ('fdcId' in product) {
+      product.foodNutrients.forEach((entry) => {
+        const id = entry.nutrient?.id ?? entry.nutrientId;
+        const amount = entry.amount ?? entry.value;
+        const mapping = id !== undefined ? USDA_NUTRIENTS[id] : undefined;
+        if (mapping && amount !== undefined) {
+          nutrition[mapping.field] = amount * mapping.gramsPerUnit;
+        }
+      });
+    }
+    return nutrition;
+  }
+
   /**
    * Convert API product to FoodItem
    */
@@ -617,169 +1074,88 @@ class FoodService {
     product: OpenFoodFactsProduct | USDAProduct | SpoonacularProduct,
     source: string
   ): FoodItem {
-    const baseId =
-      'code' in product
-        ? product.code
-        : 'fdcId' in product
-          ? product.fdcId
-          : product.id;
-    const name =
-      'product_name' in product
-        ? product.product_name
-        : 'description' in product
-          ? product.description
-          : product.title;
-    const brand =
-      'brands' in product
-        ? product.brands
-        : 'brandOwner' in product
-          ? product.brandOwner
-          : '';
-    const category = 'categories' in product ? product.categories : 'Unknown';
+    if ('code' in product) {
+      return mapOpenFoodFactsProduct(product);
+    }
+
+    const baseId = 'fdcId' in product ? product.fdcId : product.id;
+    const name = 'description' in product ? product.description : product.title;
+    const brand = 'brandOwner' in product ? product.brandOwner : '';
     const ingredients =
-      'ingredients_text' in product
-        ? product.ingredients_text
-        : 'ingredients' in product
-          ? Array.isArray(product.ingredients)
-            ? product.ingredients
-                .map((ing) => (typeof ing === 'string' ? ing : ing.name))
-                .join(', ')
-            : ''
-          : '';
-    const barcode = 'code' in product ? product.code : '';
-    const allergens =
-      'allergens_tags' in product ? product.allergens_tags || [] : [];
-    const additives =
-      'additives_tags' in product
-        ? Array.isArray(product.additives_tags)
-          ? product.additives_tags
-          : []
-        : [];
+      'fdcId' in product
+        ? (product.ingredients ?? '')
+        : (product.ingredients ?? []).map((ing) => ing.name).join(', ');
+    const barcode = 'gtinUpc' in product ? product.gtinUpc : '';
+    const nutrition = this.extractNutrition(product);
 
     return {
       id: `${source}_${baseId}`,
       name: name || 'Unknown Product',
       brand: brand || '',
-      category: category || 'Unknown',
-      ingredients: Array.isArray(ingredients)
-        ? ingredients
-        : ingredients
-          ? [ingredients]
-          : [],
+      category: 'Unknown',
+      ingredients: ingredients ? [ingredients] : [],
       barcode: barcode || '',
-      allergens,
-      additives,
+      allergens: [],
+      additives: [],
       dataSource: source,
+      ...(Object.keys(nutrition).length > 0 && { nutrition }),
       glutenFree: false, // Default value, would be determined by analysis
       lactoseFree: false, // Default value, would be determined by analysis
     };
   }
 
   /**
-   * Analyze ingredients for gut health
+   * Get food items still held in the lookup and search cache
    */
-  private async analyzeIngredients(
-    ingredients: string,
-    _gutProfile: GutCondition[]
-  ): Promise<{
-    flagged: IngredientAnalysisResult[];
-    hidden: HiddenTrigger[];
-    confidence: number;
-  }> {
-    // This would use AI/ML in a real implementation
-    const flagged: IngredientAnalysisResult[] = [];
-    const hidden: HiddenTrigger[] = [];
-
-    // Mock analysis based on common triggers
-    const commonTriggers = ['dairy', 'gluten', 'soy', 'nuts', 'eggs'];
-    const ingredientList = ingredients
-      .toLowerCase()
-      .split(',')
-      .map((i) => i.trim());
-
-    ingredientList.forEach((ingredient) => {
-      commonTriggers.forEach((trigger) => {
-        if (ingredient.includes(trigger)) {
-          flagged.push({
-            ingredient: ingredient.trim(),
-            isProblematic: true,
-            isHidden: false,
-            detectedTriggers: [],
-            confidence: 0.7,
-            category: 'common_trigger',
-            riskLevel: 'moderate',
-            recommendations: {
-              avoid: true,
-              caution: false,
-              alternatives: [],
-              modifications: [],
-            },
-          });
-        }
-      });
+  getCachedFoodItems(): FoodItem[] {
+    const foods: FoodItem[] = [];
+    this.cache.forEach((cached, key) => {
+      if (Date.now() - cached.timestamp >= this.cacheTimeout) {
+        return;
+      }
+      if (key.startsWith('barcode_') && cached.data) {
+        foods.push(cached.data as FoodItem);
+      } else if (key.startsWith('search_') && Array.isArray(cached.data)) {
+        foods.push(...(cached.data as FoodItem[]));
+      }
     });
-
-    return {
-      flagged,
-      hidden,
-      confidence: 0.8,
-    };
+    return mergeDuplicateFoods(foods);
   }
 
   /**
-   * Calculate overall risk from analysis
+   * Subscribe to products found by barcode and name lookups
    */
-  private calculateOverallRisk(analysis: {
-    flagged: IngredientAnalysisResult[];
-  }): ScanResult {
-    if (analysis.flagged.length === 0) {
-      return 'safe';
-    }
-    if (analysis.flagged.some((f) => f.riskLevel === 'severe')) {
-      return 'avoid';
-    }
-    if (analysis.flagged.some((f) => f.riskLevel === 'moderate')) {
-      return 'caution';
-    }
-    return 'safe';
+  onFoodsFound(listener: (foodItems: FoodItem[]) => void): () => void {
+    this.foodsFoundListeners.add(listener);
+    return () => this.foodsFoundListeners.delete(listener);
   }
 
-  /**
-   * Generate recommendations based on analysis
-   */
-  private generateRecommendations(
-    _foodItem: FoodItem,
-    analysis: ScanAnalysis,
-    _gutProfile: GutCondition[]
-  ): string[] {
-    const recommendations: string[] = [];
-
-    if (analysis.overallSafety === 'avoid') {
-      recommendations.push(
-        'Consider avoiding this food due to potential triggers'
-      );
-    } else if (analysis.overallSafety === 'caution') {
-      recommendations.push('Consume in moderation and monitor symptoms');
-    } else {
-      recommendations.push('This food appears safe for your gut profile');
+  private notifyFoodsFound(foodItems: FoodItem[]): void {
+    if (foodItems.length === 0) {
+      return;
     }
-
-    return recommendations;
+    this.foodsFoundListeners.forEach((listener) => {
+      try {
+        listener(foodItems);
+      } catch (error) {
+        logger.error(
+          'Error notifying foods found listener',
+          'FoodService',
+          error
+        );
+      }
+    });
   }
 
   /**
-   * Remove duplicate foods from search results
+   * Get recent OpenFoodFacts results as food items
    */
-  private removeDuplicateFoods(foods: FoodItem[]): FoodItem[] {
-    const seen = new Set<string>();
-    return foods.filter((food) => {
-      const key = `${food.name}_${food.brand}`.toLowerCase();
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
-    });
+  getRecentOpenFoodFactsItems(): FoodItem[] {
+    return mergeDuplicateFoods(
+      this.openFoodFactsService
+        .getRecentProducts()
+        .map((product) => this.convertToFoodItem(product, 'openfoodfacts'))
+    );
   }
 
   /**
@@ -806,6 +1182,7 @@ class FoodService {
    */
   cleanup(): void {
     this.cache.clear();
+    this.foodsFoundListeners.clear();
     this.openFoodFactsService.cleanup();
     logger.info('FoodService cleaned up', 'FoodService');
   }
@@ -5,8 +5,36 @@
  * @private
  */
 
-import type { GutSymptom, MedicationSupplement, GutProfile } from '../types';
+import { databaseManager } from '../database/connection';
+import { AnalyticsDataRepository } from '../database/repositories/AnalyticsDataRepository';
+import { GutSymptomRepository } from '../database/repositories/GutSymptomRepository';
+import { MedicationRepository } from '../database/repositories/MedicationRepository';
+import type {
+  GutSymptom as StoredGutSymptom,
+  MedicationSupplement as StoredMedication,
+} from '../database/schema';
+import type {
+  GutSymptom,
+  MedicationSupplement,
+  GutProfile,
+  Meal,
+  ScanHistory,
+} from '../types';
 import { logger } from '../utils/logger';
+import {
+  calculateAdherence,
+  type MedicationAdherence,
+} from '../utils/medicationSchedule';
+import {
+  correlateFoodsWithSymptoms,
+  pearsonCorrelation,
+  type CorrelationOptions,
+  type FoodCorrelation,
+} from '../utils/symptomCorrelation';
+import { toMedicationSyncData } from '../utils/syncPayloads';
+
+import AuthService from './AuthService';
+import StorageService from './StorageService';
 
 // Health Service Types
 export interface SymptomLog {
@@ -58,7 +86,7 @@ export interface SymptomInsights {
     lifestyle: string[];
   };
   correlations: {
-    food: Array<{ food: string; correlation: number }>;
+    food: FoodCorrelation[];
     lifestyle: Array<{ factor: string; correlation: number }>;
     time: Array<{ period: string; correlation: number }>;
   };
@@ -83,6 +111,133 @@ export interface HealthSummary {
   lastUpdated: Date;
 }
 
+// Stored logs are wrapped with the schema version they were written in
+interface StoredHealthLogs {
+  version: number;
+  logs: unknown[];
+}
+
+// Written unencrypted alongside the logs so a failed decrypt can be told
+// apart from an empty history
+interface HealthDataManifest {
+  version: number;
+  symptomLogCount: number;
+  medicationLogCount: number;
+  // Absent in manifests saved before meals could be logged
+  mealLogCount?: number;
+  savedAt: string;
+}
+
+type HealthLogKind = 'symptomLogs' | 'medicationLogs' | 'mealLogs';
+
+const HEALTH_STORAGE_KEYS = {
+  SYMPTOM_LOGS: 'gut_safe_symptom_logs',
+  MEDICATION_LOGS: 'gut_safe_medication_logs',
+  MEAL_LOGS: 'gut_safe_meal_logs',
+  MANIFEST: 'gut_safe_health_manifest',
+} as const;
+
+const BACKUP_SUFFIX = '_backup';
+
+// Bump when the stored log shape changes and add a migration below
+const HEALTH_DATA_VERSION = 1;
+
+// Migrations keyed by the version they upgrade from
+const HEALTH_DATA_MIGRATIONS: Record<
+  number,
+  Partial<Record<HealthLogKind, (logs: unknown[]) => unknown[]>>
+> = {
+  // Version 0 stored bare arrays; the records themselves are unchanged
+  0: {},
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (
+    typeof value !== 'string' &&
+    typeof value !== 'number' &&
+    !(value instanceof Date)
+  ) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const reviveSymptomLog = (raw: unknown): SymptomLog | null => {
+  const log = raw as SymptomLog;
+  const timestamp = toDate(log?.timestamp);
+  if (!timestamp || !Array.isArray(log.symptoms)) {
+    return null;
+  }
+  return {
+    ...log,
+    timestamp,
+    symptoms: log.symptoms.map((symptom) => ({
+      ...symptom,
+      timestamp: toDate(symptom.timestamp) ?? timestamp,
+    })),
+  };
+};
+
+const reviveMedicationLog = (raw: unknown): MedicationLog | null => {
+  const log = raw as MedicationLog;
+  const takenAt = toDate(log?.takenAt);
+  const startDate = toDate(log?.medication?.startDate);
+  if (!takenAt || !startDate) {
+    return null;
+  }
+  const endDate = toDate(log.medication.endDate);
+  return {
+    ...log,
+    takenAt,
+    medication: {
+      ...log.medication,
+      startDate,
+      ...(endDate && { endDate }),
+    },
+  };
+};
+
+const reviveMeal = (raw: unknown): Meal | null => {
+  const meal = raw as Meal;
+  const timestamp = toDate(meal?.timestamp);
+  const lastUpdated = toDate(meal?.analysis?.lastUpdated);
+  if (!timestamp || !lastUpdated || !Array.isArray(meal.components)) {
+    return null;
+  }
+  return { ...meal, timestamp, analysis: { ...meal.analysis, lastUpdated } };
+};
+
+// Database rows carry ownership and audit fields the app models do not
+const toAppSymptom = (symptom: StoredGutSymptom): GutSymptom => ({
+  id: symptom.id,
+  type: symptom.type,
+  severity: symptom.severity as GutSymptom['severity'],
+  duration: symptom.duration,
+  timestamp: symptom.timestamp,
+  potentialTriggers: symptom.potentialTriggers,
+  ...(symptom.description !== undefined && {
+    description: symptom.description,
+  }),
+  ...(symptom.location !== undefined && { location: symptom.location }),
+});
+
+const toAppMedication = (
+  medication: StoredMedication
+): MedicationSupplement => ({
+  id: medication.id,
+  name: medication.name,
+  type: medication.type,
+  dosage: medication.dosage,
+  frequency: medication.frequency,
+  startDate: medication.startDate,
+  isActive: medication.isActive,
+  gutRelated: medication.gutRelated,
+  ...(medication.endDate !== undefined && { endDate: medication.endDate }),
+  ...(medication.notes !== undefined && { notes: medication.notes }),
+  ...(medication.category !== undefined && { category: medication.category }),
+});
+
 /**
  * HealthService - Handles all health-related tracking and analysis
  * Consolidates symptom logging, medication tracking, and health insights
@@ -91,8 +246,14 @@ class HealthService {
   private static instance: HealthService;
   private symptomLogs: SymptomLog[] = [];
   private medicationLogs: MedicationLog[] = [];
+  private medications: MedicationSupplement[] = [];
+  private scanHistory: ScanHistory[] = [];
+  private meals: Meal[] = [];
   private gutProfile: GutProfile | null = null;
   private readonly listeners: Set<(summary: HealthSummary) => void> = new Set();
+  private readonly symptomRepository = new GutSymptomRepository();
+  private readonly medicationRepository = new MedicationRepository();
+  private readonly analyticsRepository = new AnalyticsDataRepository();
 
   private constructor() {}
 
@@ -109,6 +270,7 @@ class HealthService {
   async initialize(): Promise<void> {
     try {
       await this.loadHealthData();
+      await this.loadMedicationsFromDatabase();
       logger.info('HealthService initialized', 'HealthService');
     } catch (error) {
       logger.error(
@@ -140,6 +302,39 @@ class HealthService {
     return this.gutProfile;
   }
 
+  /**
+   * Set the scan history used as food exposures for correlation analysis
+   */
+  setScanHistory(history: ScanHistory[]): void {
+    this.scanHistory = history;
+  }
+
+  /**
+   * Correlate scanned foods and logged meals with symptoms logged after
+   * them, using the recorded portions as dose. A meal counts as one
+   * exposure named after the meal.
+   */
+  analyzeFoodCorrelations(options: CorrelationOptions = {}): FoodCorrelation[] {
+    const exposures = [
+      ...this.scanHistory.map((scan) => ({
+        food: scan.foodItem.name,
+        timestamp: new Date(scan.timestamp),
+        ...(scan.portion && { grams: scan.portion.grams }),
+      })),
+      ...this.meals.map((meal) => ({
+        food: meal.name,
+        timestamp: meal.timestamp,
+        grams: meal.components.reduce(
+          (sum, { portion }) => sum + portion.grams,
+          0
+        ),
+      })),
+    ];
+    const symptoms = this.symptomLogs.flatMap((log) => log.symptoms);
+
+    return correlateFoodsWithSymptoms(exposures, symptoms, options);
+  }
+
   /**
    * Log symptoms
    */
@@ -155,6 +350,7 @@ class HealthService {
 
       this.symptomLogs.push(log);
       await this.saveHealthData();
+      await this.saveSymptomsToDatabase(log);
       this.notifyListeners();
 
       logger.info('Symptoms logged', 'HealthService', {
@@ -169,6 +365,44 @@ class HealthService {
     }
   }
 
+  /**
+   * Log a meal of several foods as one event
+   */
+  async logMeal(mealData: Omit<Meal, 'id' | 'timestamp'>): Promise<string> {
+    try {
+      const meal: Meal = {
+        ...mealData,
+        id: this.generateId(),
+        timestamp: new Date(),
+      };
+
+      this.meals.push(meal);
+      await this.saveHealthData();
+      this.notifyListeners();
+
+      logger.info('Meal logged', 'HealthService', {
+        mealId: meal.id,
+        componentCount: meal.components.length,
+        risk: meal.analysis.overallSafety,
+      });
+
+      return meal.id;
+    } catch (error) {
+      logger.error('Failed to log meal', 'HealthService', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get logged meals, newest first
+   */
+  getMeals(limit?: number): Meal[] {
+    const meals = [...this.meals].sort(
+      (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+    );
+    return limit ? meals.slice(0, limit) : meals;
+  }
+
   /**
    * Get symptom logs
    */
@@ -179,6 +413,76 @@ class HealthService {
     return limit ? logs.slice(0, limit) : logs;
   }
 
+  /**
+   * Get symptoms within a date range, newest first
+   */
+  async getSymptomsInRange(
+    startDate: Date,
+    endDate: Date,
+    type?: GutSymptom['type']
+  ): Promise<GutSymptom[]> {
+    const userId = this.getDatabaseUserId();
+    if (userId !== null) {
+      try {
+        const symptoms = await this.symptomRepository.findByUserIdInRange(
+          userId,
+          startDate,
+          endDate,
+          type
+        );
+        return symptoms.map(toAppSymptom);
+      } catch (error) {
+        logger.error('Failed to query symptoms', 'HealthService', error);
+      }
+    }
+
+    return this.getAllSymptoms().filter(
+      (symptom) =>
+        symptom.timestamp >= startDate &&
+        symptom.timestamp <= endDate &&
+        (!type || symptom.type === type)
+    );
+  }
+
+  /**
+   * Get a page of symptom history, newest first
+   */
+  async getSymptomHistoryPage(
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<{
+    items: GutSymptom[];
+    total: number;
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+  }> {
+    const userId = this.getDatabaseUserId();
+    if (userId !== null) {
+      try {
+        const result = await this.symptomRepository.findPageByUserId(
+          userId,
+          page,
+          pageSize
+        );
+        return { ...result, items: result.items.map(toAppSymptom) };
+      } catch (error) {
+        logger.error('Failed to query symptom history', 'HealthService', error);
+      }
+    }
+
+    const symptoms = this.getAllSymptoms();
+    const offset = (page - 1) * pageSize;
+
+    return {
+      items: symptoms.slice(offset, offset + pageSize),
+      total: symptoms.length,
+      page,
+      pageSize,
+      hasMore: offset + pageSize < symptoms.length,
+    };
+  }
+
   /**
    * Update symptom log
    */
@@ -197,7 +501,7 @@ class HealthService {
         throw new Error(`Symptom log with ID ${logId} not found`);
       }
 
-      this.symptomLogs[index] = {
+      const updatedLog: SymptomLog = {
         ...existingLog,
         ...updates,
         id: logId, // Ensure ID doesn't change
@@ -205,8 +509,10 @@ class HealthService {
         foodItems: updates.foodItems || existingLog.foodItems,
         timestamp: updates.timestamp || existingLog.timestamp,
       };
+      this.symptomLogs[index] = updatedLog;
 
       await this.saveHealthData();
+      await this.updateSymptomsInDatabase(existingLog, updatedLog);
       this.notifyListeners();
 
       logger.info('Symptom log updated', 'HealthService', { logId });
@@ -226,8 +532,9 @@ class HealthService {
         throw new Error('Symptom log not found');
       }
 
-      this.symptomLogs.splice(index, 1);
+      const [deletedLog] = this.symptomLogs.splice(index, 1);
       await this.saveHealthData();
+      await this.deleteSymptomsFromDatabase(deletedLog?.symptoms ?? []);
       this.notifyListeners();
 
       logger.info('Symptom log deleted', 'HealthService', { logId });
@@ -277,19 +584,51 @@ class HealthService {
   }
 
   /**
-   * Get medication compliance
+   * Set the user's medications so adherence can be measured against their
+   * schedules
    */
-  getMedicationCompliance(medicationId: string, days: number = 30): number {
+  setMedications(medications: MedicationSupplement[]): void {
+    const changed = medications.filter((medication) => {
+      const previous = this.medications.find(({ id }) => id === medication.id);
+      return JSON.stringify(previous) !== JSON.stringify(medication);
+    });
+    this.medications = medications;
+    this.saveMedicationsToDatabase(medications);
+    this.queueMedicationsForSync(changed);
+    this.notifyListeners();
+  }
+
+  /**
+   * Get adherence to a medication's schedule over the last number of days
+   */
+  getMedicationAdherence(
+    medication: MedicationSupplement,
+    days: number = 30
+  ): MedicationAdherence {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
+    const startDate = new Date(medication.startDate);
 
-    const relevantLogs = this.medicationLogs.filter(
-      (log) => log.medication.id === medicationId && log.takenAt >= cutoffDate
+    return calculateAdherence(
+      medication,
+      this.medicationLogs.filter((log) => log.medication.id === medication.id),
+      { from: startDate > cutoffDate ? startDate : cutoffDate }
     );
+  }
 
-    // This would calculate actual compliance based on prescribed schedule
-    // For now, return a mock value
-    return Math.min(1, relevantLogs.length / 30);
+  /**
+   * Get medication compliance
+   */
+  getMedicationCompliance(medicationId: string, days: number = 30): number {
+    const medication =
+      this.medications.find((m) => m.id === medicationId) ??
+      this.getMedicationLogs().find((log) => log.medication.id === medicationId)
+        ?.medication;
+    if (!medication) {
+      return 0;
+    }
+
+    return this.getMedicationAdherence(medication, days).adherence;
   }
 
   /**
@@ -416,15 +755,14 @@ class HealthService {
    * Calculate correlations
    */
   private calculateCorrelations(): SymptomInsights['correlations'] {
-    // This would use statistical analysis in a real implementation
+    const food = this.analyzeFoodCorrelations();
+    const { stress, sleep } = this.calculateLifestyleCorrelations();
+
     return {
-      food: [
-        { food: 'Dairy', correlation: 0.7 },
-        { food: 'Gluten', correlation: 0.5 },
-      ],
+      food,
       lifestyle: [
-        { factor: 'Stress', correlation: 0.6 },
-        { factor: 'Sleep', correlation: 0.4 },
+        { factor: 'Stress', correlation: stress },
+        { factor: 'Sleep', correlation: sleep },
       ],
       time: [
         { period: 'Morning', correlation: 0.3 },
@@ -433,6 +771,54 @@ class HealthService {
     };
   }
 
+  /**
+   * Correlate stress and poor sleep with the worst symptom of each log.
+   * Sleep quality is inverted so both read as "more of this, worse symptoms".
+   */
+  private calculateLifestyleCorrelations(symptomType?: string): {
+    stress: number;
+    sleep: number;
+  } {
+    const logs = this.symptomLogs
+      .map((log) => ({
+        log,
+        severity: Math.max(
+          0,
+          ...log.symptoms
+            .filter(
+              (symptom) =>
+                symptomType === undefined || symptom.type === symptomType
+            )
+            .map((symptom) => symptom.severity)
+        ),
+      }))
+      .filter(({ severity }) => symptomType === undefined || severity > 0);
+
+    const correlate = (values: Array<number | undefined>): number => {
+      const pairs = logs
+        .map(({ severity }, index) => [values[index], severity] as const)
+        .filter(
+          (pair): pair is readonly [number, number] => pair[0] !== undefined
+        );
+      return Math.max(
+        0,
+        pearsonCorrelation(
+          pairs.map(([value]) => value),
+          pairs.map(([, severity]) => severity)
+        )
+      );
+    };
+
+    return {
+      stress: correlate(logs.map(({ log }) => log.stressLevel)),
+      sleep: correlate(
+        logs.map(({ log }) =>
+          log.sleepQuality !== undefined ? -log.sleepQuality : undefined
+        )
+      ),
+    };
+  }
+
   /**
    * Calculate average severity
    */
@@ -513,12 +899,20 @@ class HealthService {
    * Calculate overall medication compliance
    */
   private calculateOverallMedicationCompliance(): number {
-    if (this.medicationLogs.length === 0) {
+    const scheduled = this.medications.filter(
+      (medication) =>
+        medication.isActive && medication.frequency !== 'as_needed'
+    );
+    if (scheduled.length === 0) {
       return 0;
     }
 
-    // This would calculate based on prescribed schedules in a real implementation
-    return 0.85; // Mock value
+    const total = scheduled.reduce(
+      (sum, medication) =>
+        sum + this.getMedicationAdherence(medication).adherence,
+      0
+    );
+    return total / scheduled.length;
   }
 
   /**
@@ -532,9 +926,12 @@ class HealthService {
   /**
    * Find common triggers for symptom
    */
-  private findCommonTriggers(_symptomType: string): string[] {
-    // This would analyze food correlations in a real implementation
-    return ['Dairy', 'Spicy foods'];
+  private findCommonTriggers(symptomType: string): string[] {
+    return this.analyzeFoodCorrelations({
+      symptomType: symptomType as GutSymptom['type'],
+    })
+      .slice(0, 3)
+      .map((correlation) => correlation.food);
   }
 
   /**
@@ -574,14 +971,19 @@ class HealthService {
    * Calculate correlations for symptom
    */
   private calculateCorrelationsForSymptom(
-    _symptomType: string
+    symptomType: string
   ): SymptomPattern['correlation'] {
-    // This would calculate actual correlations in a real implementation
+    const [strongestFood] = this.analyzeFoodCorrelations({
+      symptomType: symptomType as GutSymptom['type'],
+    });
+    const { stress, sleep } = this.calculateLifestyleCorrelations(symptomType);
+
     return {
-      food: 0.6,
-      stress: 0.4,
-      sleep: 0.3,
-      weather: 0.1,
+      food: strongestFood?.correlation ?? 0,
+      stress,
+      sleep,
+      // Weather is free text, so there is nothing to correlate against yet
+      weather: 0,
     };
   }
 
@@ -590,26 +992,358 @@ class HealthService {
    */
   private async loadHealthData(): Promise<void> {
     try {
-      // This would load from actual storage in a real implementation
-      this.symptomLogs = [];
-      this.medicationLogs = [];
+      const storageService = StorageService.getInstance();
+      const manifest = await storageService.getItem<HealthDataManifest>(
+        HEALTH_STORAGE_KEYS.MANIFEST
+      );
+
+      const [symptomLogs, medicationLogs, mealLogs] = await Promise.all([
+        this.readLogs(
+          HEALTH_STORAGE_KEYS.SYMPTOM_LOGS,
+          'symptomLogs',
+          manifest?.symptomLogCount ?? 0
+        ),
+        this.readLogs(
+          HEALTH_STORAGE_KEYS.MEDICATION_LOGS,
+          'medicationLogs',
+          manifest?.medicationLogCount ?? 0
+        ),
+        this.readLogs(
+          HEALTH_STORAGE_KEYS.MEAL_LOGS,
+          'mealLogs',
+          manifest?.mealLogCount ?? 0
+        ),
+      ]);
+
+      this.symptomLogs = this.reviveLogs(symptomLogs, reviveSymptomLog);
+      this.medicationLogs = this.reviveLogs(
+        medicationLogs,
+        reviveMedicationLog
+      );
+      this.meals = this.reviveLogs(mealLogs, reviveMeal);
+
+      logger.info('Health data loaded', 'HealthService', {
+        symptomLogCount: this.symptomLogs.length,
+        medicationLogCount: this.medicationLogs.length,
+        mealLogCount: this.meals.length,
+      });
     } catch (error) {
       logger.error('Failed to load health data', 'HealthService', error);
+      this.symptomLogs = [];
+      this.medicationLogs = [];
+      this.meals = [];
     }
   }
 
+  /**
+   * Read one kind of log, falling back to the last good copy when the
+   * stored logs cannot be decrypted
+   */
+  private async readLogs(
+    key: string,
+    kind: HealthLogKind,
+    expectedCount: number
+  ): Promise<unknown[]> {
+    const storageService = StorageService.getInstance();
+    const stored = await storageService.getItem<StoredHealthLogs | unknown[]>(
+      key,
+      true
+    );
+
+    if (stored !== null) {
+      const logs = this.migrateLogs(stored, kind);
+      // Keep the last readable copy for recovery
+      await storageService.setItem(
+        `${key}${BACKUP_SUFFIX}`,
+        { version: HEALTH_DATA_VERSION, logs },
+        true
+      );
+      return logs;
+    }
+
+    if (expectedCount === 0) {
+      return [];
+    }
+
+    logger.error('Stored health logs could not be read', 'HealthService', {
+      kind,
+      expectedCount,
+    });
+
+    const backup = await storageService.getItem<StoredHealthLogs | unknown[]>(
+      `${key}${BACKUP_SUFFIX}`,
+      true
+    );
+    if (backup === null) {
+      logger.error('No readable backup for health logs', 'HealthService', {
+        kind,
+      });
+      return [];
+    }
+
+    const logs = this.migrateLogs(backup, kind);
+    logger.warn('Health logs restored from backup', 'HealthService', {
+      kind,
+      restored: logs.length,
+      lost: Math.max(0, expectedCount - logs.length),
+    });
+    return logs;
+  }
+
+  /**
+   * Run stored logs through each migration up to the current version
+   */
+  private migrateLogs(
+    stored: StoredHealthLogs | unknown[],
+    kind: HealthLogKind
+  ): unknown[] {
+    let { version, logs } = Array.isArray(stored)
+      ? { version: 0, logs: stored }
+      : stored;
+
+    if (version > HEALTH_DATA_VERSION) {
+      logger.warn(
+        'Health logs were written by a newer version',
+        'HealthService',
+        { kind, version }
+      );
+      return logs;
+    }
+
+    while (version < HEALTH_DATA_VERSION) {
+      const migrate = HEALTH_DATA_MIGRATIONS[version]?.[kind];
+      if (migrate) {
+        logs = migrate(logs);
+      }
+      version++;
+    }
+    return logs;
+  }
+
+  /**
+   * Revive stored records, dropping any that are too damaged to use
+   */
+  private reviveLogs<T>(
+    logs: unknown[],
+    revive: (raw: unknown) => T | null
+  ): T[] {
+    const revived = logs.map(revive).filter((log): log is T => log !== null);
+
+    if (revived.length < logs.length) {
+      logger.warn('Dropped unreadable health log records', 'HealthService', {
+        dropped: logs.length - revived.length,
+      });
+    }
+    return revived;
+  }
+
   /**
    * Save health data to storage
    */
   private async saveHealthData(): Promise<void> {
     try {
-      // This would save to actual storage in a real implementation
+      const storageService = StorageService.getInstance();
+
+      await storageService.setItem<StoredHealthLogs>(
+        HEALTH_STORAGE_KEYS.SYMPTOM_LOGS,
+        { version: HEALTH_DATA_VERSION, logs: this.symptomLogs },
+        true
+      );
+      await storageService.setItem<StoredHealthLogs>(
+        HEALTH_STORAGE_KEYS.MEDICATION_LOGS,
+        { version: HEALTH_DATA_VERSION, logs: this.medicationLogs },
+        true
+      );
+      await storageService.setItem<StoredHealthLogs>(
+        HEALTH_STORAGE_KEYS.MEAL_LOGS,
+        { version: HEALTH_DATA_VERSION, logs: this.meals },
+        true
+      );
+      await storageService.setItem<HealthDataManifest>(
+        HEALTH_STORAGE_KEYS.MANIFEST,
+        {
+          version: HEALTH_DATA_VERSION,
+          symptomLogCount: this.symptomLogs.length,
+          medicationLogCount: this.medicationLogs.length,
+          mealLogCount: this.meals.length,
+          savedAt: new Date().toISOString(),
+        }
+      );
+
       logger.info('Health data saved', 'HealthService');
     } catch (error) {
       logger.error('Failed to save health data', 'HealthService', error);
     }
   }
 
+  /**
+   * Get the signed-in user's ID when the local database is available
+   */
+  private getDatabaseUserId(): string | null {
+    if (!databaseManager.isConnected()) {
+      return null;
+    }
+    return AuthService.getInstance().getAuthState().user?.id ?? null;
+  }
+
+  /**
+   * Load the user's medications from the database
+   */
+  private async loadMedicationsFromDatabase(): Promise<void> {
+    const userId = this.getDatabaseUserId();
+    if (userId === null) {
+      return;
+    }
+
+    try {
+      const medications = await this.medicationRepository.findByUserId(userId);
+      this.medications = medications.map(toAppMedication);
+    } catch (error) {
+      logger.error(
+        'Failed to load medications from database',
+        'HealthService',
+        error
+      );
+    }
+  }
+
+  /**
+   * Mirror a symptom log into the database. Local storage stays the source
+   * of truth, so failures are logged rather than thrown.
+   */
+  private async saveSymptomsToDatabase(log: SymptomLog): Promise<void> {
+    const userId = this.getDatabaseUserId();
+    if (userId === null) {
+      return;
+    }
+
+    try {
+      await this.createSymptomRows(log, userId);
+      await this.analyticsRepository.recordSymptoms(
+        userId,
+        log.symptoms.length,
+        log.timestamp
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to save symptoms to database',
+        'HealthService',
+        error
+      );
+    }
+  }
+
+  /**
+   * Mirror an edited symptom log. Symptoms may have been added, removed or
+   * changed, so the log's old rows are replaced with its current ones.
+   */
+  private async updateSymptomsInDatabase(
+    previous: SymptomLog,
+    updated: SymptomLog
+  ): Promise<void> {
+    const userId = this.getDatabaseUserId();
+    if (userId === null) {
+      return;
+    }
+
+    try {
+      await this.symptomRepository.deleteMany(
+        previous.symptoms.map((symptom) => symptom.id)
+      );
+      await this.createSymptomRows(updated, userId);
+    } catch (error) {
+      logger.error(
+        'Failed to update symptoms in database',
+        'HealthService',
+        error
+      );
+    }
+  }
+
+  private async createSymptomRows(
+    log: SymptomLog,
+    userId: string
+  ): Promise<void> {
+    await Promise.all(
+      log.symptoms.map((symptom) =>
+        this.symptomRepository.createSymptom({
+          ...symptom,
+          userId,
+          potentialTriggers: symptom.potentialTriggers ?? [],
+          ...(log.stressLevel !== undefined && {
+            stressLevel: log.stressLevel,
+          }),
+        })
+      )
+    );
+  }
+
+  private async deleteSymptomsFromDatabase(
+    symptoms: GutSymptom[]
+  ): Promise<void> {
+    if (this.getDatabaseUserId() === null || symptoms.length === 0) {
+      return;
+    }
+
+    try {
+      await this.symptomRepository.deleteMany(
+        symptoms.map((symptom) => symptom.id)
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to delete symptoms from database',
+        'HealthService',
+        error
+      );
+    }
+  }
+
+  private saveMedicationsToDatabase(medications: MedicationSupplement[]): void {
+    const userId = this.getDatabaseUserId();
+    if (userId === null) {
+      return;
+    }
+
+    Promise.all(
+      medications.map((medication) =>
+        this.medicationRepository.upsert({ ...medication, userId })
+      )
+    ).catch((error) => {
+      logger.error(
+        'Failed to save medications to database',
+        'HealthService',
+        error
+      );
+    });
+  }
+
+  private queueMedicationsForSync(medications: MedicationSupplement[]): void {
+    const storageService = StorageService.getInstance();
+    Promise.all(
+      medications.map((medication) =>
+        storageService.addToSyncQueue(
+          'medications',
+          toMedicationSyncData(medication)
+        )
+      )
+    ).catch((error) => {
+      logger.error(
+        'Failed to queue medications for sync',
+        'HealthService',
+        error
+      );
+    });
+  }
+
+  /**
+   * All logged symptoms, newest first
+   */
+  private getAllSymptoms(): GutSymptom[] {
+    return this.symptomLogs
+      .flatMap((log) => log.symptoms)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
   /**
    * Notify listeners of changes
    */
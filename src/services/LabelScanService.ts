@@ -0,0 +1,236 @@
+/**
+ * @fileoverview LabelScanService.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { getFoodApiBaseUrl } from '../config/foodApis';
+import type { FoodItem, GutProfile, ScanAnalysis } from '../types';
+import type {
+  NetworkError,
+  Result,
+  ServiceError,
+} from '../types/comprehensive';
+import { apiKeyManager } from '../utils/apiKeyManager';
+import { errorHandler } from '../utils/errorHandler';
+import { analyzeFoodItem } from '../utils/foodAnalysisEngine';
+import { extractIngredientLabel } from '../utils/ingredientLabelText';
+import { logger } from '../utils/logger';
+
+import UserFoodService, { type UserFoodDetails } from './UserFoodService';
+
+/**
+ * A photo of a label: the URI from `cameraManager.capturePhoto`, a data URL,
+ * or a remote image such as an OpenFoodFacts `image_ingredients_url`
+ */
+export interface LabelPhoto {
+  uri: string;
+}
+
+export interface TextRecognizer {
+  recognizeText(photo: LabelPhoto): Promise<Result<string, NetworkError>>;
+}
+
+// What the user tells us about the product the label belongs to
+export type LabelProductDetails = Omit<
+  UserFoodDetails,
+  'ingredients' | 'allergens'
+>;
+
+export interface LabelScanResult {
+  foodItem: FoodItem;
+  analysis: ScanAnalysis;
+  // Everything read from the photo, for the user to check
+  recognizedText: string;
+}
+
+const VISION_TIMEOUT = 15000;
+
+// Read a local photo into base64, as Vision cannot fetch device files
+const readPhotoContent = async (uri: string): Promise<string> => {
+  if (uri.startsWith('data:')) {
+    return uri.slice(uri.indexOf(',') + 1);
+  }
+  const blob = await (await fetch(uri)).blob();
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (): void => resolve(String(reader.result));
+    reader.onerror = (): void => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+};
+
+/**
+ * Reads label text with Google Cloud Vision document text detection
+ */
+export class GoogleVisionTextRecognizer implements TextRecognizer {
+  async recognizeText(
+    photo: LabelPhoto
+  ): Promise<Result<string, NetworkError>> {
+    const url = `${getFoodApiBaseUrl('googleVision')}/images:annotate`;
+    try {
+      const apiKey = await apiKeyManager.getApiKey('GOOGLE_VISION_API_KEY');
+      if (!apiKey) {
+        const networkError: NetworkError = {
+          code: 'NETWORK_ERROR',
+          message: 'Google Vision API key not configured',
+          status: 500,
+          url,
+          method: 'POST',
+          timestamp: new Date(),
+          details: {},
+        };
+        return { success: false, error: networkError };
+      }
+
+      // Remote images are fetched by Vision itself
+      const image = /^https?:/i.test(photo.uri)
+        ? { source: { imageUri: photo.uri } }
+        : { content: await readPhotoContent(photo.uri) };
+      const response = await fetch(`${url}?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: [
+            { image, features: [{ type: 'DOCUMENT_TEXT_DETECTION' }] },
+          ],
+        }),
+        signal: AbortSignal.timeout(VISION_TIMEOUT),
+      });
+
+      if (!response.ok) {
+        const networkError: NetworkError = {
+          code: 'NETWORK_ERROR',
+          message: `HTTP ${response.status}: ${response.statusText}`,
+          status: response.status,
+          url,
+          method: 'POST',
+          timestamp: new Date(),
+          details: {},
+        };
+        return { success: false, error: networkError };
+      }
+
+      const data = await response.json();
+      const [annotation] = data.responses ?? [];
+      if (annotation?.error !== undefined) {
+        const networkError: NetworkError = {
+          code: 'NETWORK_ERROR',
+          message: annotation.error.message,
+          url,
+          method: 'POST',
+          timestamp: new Date(),
+          details: { error: annotation.error },
+        };
+        return { success: false, error: networkError };
+      }
+      // Vision leaves the annotation out when there is no text in the photo
+      return {
+        success: true,
+        data: annotation?.fullTextAnnotation?.text ?? '',
+      };
+    } catch (error) {
+      const networkError: NetworkError = {
+        code: 'NETWORK_ERROR',
+        message:
+          error instanceof Error ? error.message : 'Network request failed',
+        timestamp: new Date(),
+        details: { error },
+      };
+
+      logger.error('Label text recognition failed', 'LabelScanService', error);
+      return { success: false, error: networkError };
+    }
+  }
+}
+
+/**
+ * LabelScanService - Reads the ingredient list from a photo of a product
+ * label and saves the product as a user-contributed food
+ */
+class LabelScanService {
+  private static instance: LabelScanService;
+  private textRecognizer: TextRecognizer = new GoogleVisionTextRecognizer();
+
+  public static getInstance(): LabelScanService {
+    if (!LabelScanService.instance) {
+      LabelScanService.instance = new LabelScanService();
+    }
+    return LabelScanService.instance;
+  }
+
+  /**
+   * Use a different OCR engine, e.g. an on-device one
+   */
+  setTextRecognizer(recognizer: TextRecognizer): void {
+    this.textRecognizer = recognizer;
+  }
+
+  /**
+   * Read the ingredient list from a label photo, analyze it for the user's
+   * gut profile and save the product as a user-contributed food
+   */
+  async scanIngredientLabel(
+    photo: LabelPhoto,
+    details: LabelProductDetails,
+    gutProfile: GutProfile
+  ): Promise<Result<LabelScanResult, ServiceError>> {
+    const result = await errorHandler.withErrorHandling(
+      async () => {
+        const recognized = await this.textRecognizer.recognizeText(photo);
+        if (!recognized.success) {
+          throw new Error(recognized.error.message);
+        }
+        const label = extractIngredientLabel(recognized.data);
+        if (!label) {
+          throw new Error('No ingredient list found in the photo');
+        }
+
+        const saved = await UserFoodService.getInstance().createUserFood({
+          ...details,
+          ingredients: label.ingredientsText,
+          allergens: label.allergens,
+        });
+        if (!saved.success) {
+          throw new Error(saved.error.message);
+        }
+
+        const foodItem = saved.data;
+        const analysis = analyzeFoodItem(foodItem, gutProfile, {
+          dataSource: 'LabelScanService',
+        });
+
+        logger.info('Read ingredient label', 'LabelScanService', {
+          foodItemId: foodItem.id,
+        });
+        return { foodItem, analysis, recognizedText: recognized.data };
+      },
+      {
+        operation: 'scanIngredientLabel',
+        service: 'LabelScanService',
+        additionalData: { name: details.name },
+      },
+      'LabelScanService'
+    );
+
+    if (result.success) {
+      return { success: true, data: result.data as LabelScanResult };
+    } else {
+      return {
+        success: false,
+        error: {
+          code: 'SERVICE_ERROR' as const,
+          message: result.error.message || 'Failed to scan ingredient label',
+          details: { name: details.name },
+          timestamp: new Date(),
+          service: 'LabelScanService',
+          operation: 'scanIngredientLabel',
+        },
+      };
+    }
+  }
+}
+
+export default LabelScanService;
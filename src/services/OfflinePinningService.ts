@@ -0,0 +1,278 @@
+/**
+ * @fileoverview OfflinePinningService.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { databaseManager } from '../database/connection';
+import { SafeFoodRepository } from '../database/repositories/SafeFoodRepository';
+import type { FoodItem, SafeFood, ScanHistory } from '../types';
+import { logger } from '../utils/logger';
+import { selectFoodsToPin } from '../utils/offlinePinning';
+
+import AuthService from './AuthService';
+import FoodService from './FoodService';
+import NetworkService from './NetworkService';
+import OfflineService from './OfflineService';
+import StorageService from './StorageService';
+
+export interface OfflinePinSettings {
+  // OpenFoodFacts category tags the user wants available offline
+  categories: string[];
+  recentScanLimit: number;
+  lastRefreshed?: Date;
+}
+
+const PIN_SETTINGS_STORAGE_KEY = 'gut_safe_offline_pins';
+// Written by AppContext as plain JSON
+const SCAN_HISTORY_STORAGE_KEY = 'gut_safe_scan_history';
+const DEFAULT_RECENT_SCAN_LIMIT = 50;
+const FOODS_PER_CATEGORY = 50;
+// Pins are refreshed at most this often unless forced
+const PIN_REFRESH_INTERVAL = 12 * 60 * 60 * 1000;
+
+/**
+ * OfflinePinningService - Pre-fetches the user's usual foods into the
+ * offline store and keeps them pinned there
+ */
+class OfflinePinningService {
+  private static instance: OfflinePinningService;
+  private settings: OfflinePinSettings = {
+    categories: [],
+    recentScanLimit: DEFAULT_RECENT_SCAN_LIMIT,
+  };
+  private isRefreshing = false;
+  private readonly safeFoodRepository = new SafeFoodRepository();
+  private readonly listeners: Set<(settings: OfflinePinSettings) => void> =
+    new Set();
+
+  public static getInstance(): OfflinePinningService {
+    if (!OfflinePinningService.instance) {
+      OfflinePinningService.instance = new OfflinePinningService();
+    }
+    return OfflinePinningService.instance;
+  }
+
+  /**
+   * Initialize the pinning service and refresh pins when the connection
+   * allows it
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.loadSettings();
+      NetworkService.getInstance().on('online', this.handleOnline);
+      this.handleOnline();
+      logger.info(
+        'OfflinePinningService initialized',
+        'OfflinePinningService',
+        {
+          categories: this.settings.categories.length,
+        }
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to initialize OfflinePinningService',
+        'OfflinePinningService',
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to pin setting and refresh changes
+   */
+  subscribe(listener: (settings: OfflinePinSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSettings(): OfflinePinSettings {
+    return { ...this.settings, categories: [...this.settings.categories] };
+  }
+
+  /**
+   * Choose the categories to keep available offline
+   */
+  async setPinnedCategories(categories: string[]): Promise<void> {
+    this.settings = {
+      ...this.settings,
+      categories: Array.from(
+        new Set(categories.map((category) => category.trim()).filter(Boolean))
+      ),
+    };
+    await this.saveSettings();
+    // Fetch newly chosen categories without waiting for the next interval
+    this.refreshPins(true).catch((error) => {
+      logger.error(
+        'Failed to refresh offline pins',
+        'OfflinePinningService',
+        error
+      );
+    });
+  }
+
+  /**
+   * Set how many recent scans are kept available offline
+   */
+  async setRecentScanLimit(limit: number): Promise<void> {
+    this.settings = {
+      ...this.settings,
+      recentScanLimit: Math.max(0, Math.floor(limit)),
+    };
+    await this.saveSettings();
+  }
+
+  /**
+   * Fetch and pin safe foods, recent scans and chosen categories. Skipped
+   * when the connection is not good enough for sync, or when pins were
+   * refreshed recently unless forced.
+   */
+  async refreshPins(force: boolean = false): Promise<boolean> {
+    if (this.isRefreshing) {
+      return false;
+    }
+    const { lastRefreshed } = this.settings;
+    if (
+      !force &&
+      lastRefreshed !== undefined &&
+      Date.now() - lastRefreshed.getTime() < PIN_REFRESH_INTERVAL
+    ) {
+      return false;
+    }
+    if (!(await NetworkService.getInstance().isSuitableForSync())) {
+      logger.info(
+        'Skipping pin refresh on a poor connection',
+        'OfflinePinningService'
+      );
+      return false;
+    }
+
+    this.isRefreshing = true;
+    try {
+      const [safeFoods, scanHistory, categoryFoods] = await Promise.all([
+        this.loadSafeFoods(),
+        this.loadScanHistory(),
+        this.fetchCategoryFoods(),
+      ]);
+      const pins = selectFoodsToPin(
+        { safeFoods, scanHistory, categoryFoods },
+        this.settings.recentScanLimit
+      );
+
+      await OfflineService.getInstance().pinFoods(pins);
+      this.settings = { ...this.settings, lastRefreshed: new Date() };
+      await this.saveSettings();
+      return true;
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  private readonly handleOnline = (): void => {
+    this.refreshPins().catch((error) => {
+      logger.error(
+        'Failed to refresh offline pins',
+        'OfflinePinningService',
+        error
+      );
+    });
+  };
+
+  // Safe foods are stored per user, so they are only available once signed in
+  private async loadSafeFoods(): Promise<SafeFood[]> {
+    const userId = AuthService.getInstance().getAuthState().user?.id;
+    if (!databaseManager.isConnected() || userId === undefined) {
+      return [];
+    }
+    return this.safeFoodRepository.findWithFoodItems(userId);
+  }
+
+  private async loadScanHistory(): Promise<ScanHistory[]> {
+    const stored = await StorageService.getInstance().getItem<ScanHistory[]>(
+      SCAN_HISTORY_STORAGE_KEY
+    );
+    return stored ?? [];
+  }
+
+  private async fetchCategoryFoods(): Promise<FoodItem[]> {
+    const foodService = FoodService.getInstance();
+    const results = await Promise.all(
+      this.settings.categories.map((category) =>
+        foodService.searchByCategory(category, FOODS_PER_CATEGORY)
+      )
+    );
+
+    return results.flatMap((result, index) => {
+      if (!result.success) {
+        // Other categories are still worth pinning
+        logger.warn('Failed to fetch category foods', 'OfflinePinningService', {
+          category: this.settings.categories[index],
+        });
+        return [];
+      }
+      return result.data;
+    });
+  }
+
+  private async loadSettings(): Promise<void> {
+    const stored =
+      await StorageService.getInstance().getItem<OfflinePinSettings>(
+        PIN_SETTINGS_STORAGE_KEY,
+        true
+      );
+    if (stored) {
+      this.settings = {
+        categories: stored.categories,
+        recentScanLimit: stored.recentScanLimit,
+        ...(stored.lastRefreshed && {
+          lastRefreshed: new Date(stored.lastRefreshed),
+        }),
+      };
+    }
+  }
+
+  private async saveSettings(): Promise<void> {
+    try {
+      await StorageService.getInstance().setItem(
+        PIN_SETTINGS_STORAGE_KEY,
+        this.settings,
+        true
+      );
+    } catch (error) {
+      logger.error(
+        'Failed to save offline pin settings',
+        'OfflinePinningService',
+        error
+      );
+    }
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const settings = this.getSettings();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(settings);
+      } catch (error) {
+        logger.error(
+          'Error notifying pin listener',
+          'OfflinePinningService',
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    NetworkService.getInstance().off('online', this.handleOnline);
+    this.listeners.clear();
+    logger.info('OfflinePinningService cleaned up', 'OfflinePinningService');
+  }
+}
+
+export default OfflinePinningService;
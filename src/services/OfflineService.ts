@@ -5,15 +5,57 @@
  * @private
  */
 
+import type { OfflineFoodSource } from '../database/repositories/OfflineFoodRepository';
+import { OfflineFoodRepository } from '../database/repositories/OfflineFoodRepository';
+import type {
+  ConsumedPortion,
+  FoodItem,
+  GutProfile,
+  ScanHistory,
+} from '../types';
+import { analyzeFoodItem } from '../utils/foodAnalysisEngine';
 import { logger } from '../utils/logger';
+import type { PinReason, PinnedFood } from '../utils/offlinePinning';
+import { normalizeSafeAlternatives } from '../utils/safeAlternatives';
+
+import FoodService from './FoodService';
+import NetworkService from './NetworkService';
+import StorageService from './StorageService';
+import UserSettingsService from './UserSettingsService';
+
+export interface OfflineCacheStats {
+  entries: number;
+  sizeBytes: number;
+  bySource: Record<OfflineFoodSource, number>;
+  pinned: number;
+}
+
+// Least recently used foods are evicted past either limit
+const OFFLINE_STORE_MAX_ENTRIES = 5000;
+const OFFLINE_STORE_MAX_BYTES = 10 * 1024 * 1024;
+const SEARCH_RESULT_LIMIT = 20;
+const PENDING_REVALIDATION_STORAGE_KEY = 'gut_safe_offline_verdicts';
 
 /**
  * OfflineService - Handles offline functionality
+ * Keeps a searchable SQLite copy of foods the user has looked up so scanning
+ * keeps working without a connection
  */
 class OfflineService {
   private static instance: OfflineService;
+  private readonly repository: OfflineFoodRepository;
+  private initializePromise: Promise<void> | null = null;
+  // Offline verdicts waiting to be re-checked online
+  private pendingScans: ScanHistory[] = [];
+  private isRevalidating = false;
+  private unsubscribeFoodsFound: (() => void) | null = null;
+  private readonly revalidationListeners: Set<
+    (scan: ScanHistory, offlineScan: ScanHistory) => void
+  > = new Set();
 
-  private constructor() {}
+  private constructor() {
+    this.repository = new OfflineFoodRepository();
+  }
 
   public static getInstance(): OfflineService {
     if (!OfflineService.instance) {
@@ -22,20 +64,364 @@ class OfflineService {
     return OfflineService.instance;
   }
 
+  /**
+   * Open the offline store and seed it from cached lookups. Safe to call
+   * more than once.
+   */
   async initialize(): Promise<void> {
-    logger.info('OfflineService initialized', 'OfflineService');
+    if (!this.initializePromise) {
+      this.initializePromise = this.openStore().catch((error) => {
+        this.initializePromise = null;
+        throw error;
+      });
+    }
+    return this.initializePromise;
+  }
+
+  /**
+   * Copy foods from the FoodService and OpenFoodFacts caches into the store
+   */
+  async seedFromCaches(): Promise<number> {
+    await this.initialize();
+    return this.seedStore();
   }
 
-  async searchCachedFoods(query: string): Promise<any[]> {
+  /**
+   * Add or refresh a single food in the offline store
+   */
+  async cacheFoodItem(
+    foodItem: FoodItem,
+    source: OfflineFoodSource = 'cache'
+  ): Promise<void> {
+    await this.initialize();
+    await this.repository.upsertFood(foodItem, source);
+    await this.enforceStoreLimits();
+  }
+
+  /**
+   * Look up a stored food by barcode
+   */
+  async getCachedFoodItem(barcode: string): Promise<FoodItem | null> {
+    await this.initialize();
+    const foodItem = await this.repository.findFoodByBarcode(barcode);
+    if (foodItem) {
+      await this.repository.recordAccess(foodItem.id);
+    }
+    return foodItem;
+  }
+
+  /**
+   * Search stored foods by name, brand or barcode. Prefix matches come
+   * first, followed by close misspellings.
+   */
+  async searchCachedFoods(query: string): Promise<FoodItem[]> {
     logger.info('Searching cached foods', 'OfflineService', { query });
-    return [];
+    await this.initialize();
+    return this.repository.searchFoods(query, SEARCH_RESULT_LIMIT);
+  }
+
+  /**
+   * Store the given foods and pin them so eviction never removes them.
+   * Foods pinned previously but missing from the list are unpinned.
+   */
+  async pinFoods(pins: PinnedFood[]): Promise<void> {
+    await this.initialize();
+    await Promise.all(
+      pins.map((pin) => this.repository.upsertFood(pin.foodItem, 'cache'))
+    );
+    await this.repository.replacePins(
+      pins.map((pin) => ({ foodId: pin.foodItem.id, reason: pin.reason }))
+    );
+    await this.enforceStoreLimits();
+    logger.info('Pinned foods for offline use', 'OfflineService', {
+      pinned: pins.length,
+    });
   }
 
-  async storeOfflineScan(scanData: any): Promise<void> {
-    logger.info('Storing offline scan', 'OfflineService', { scanData });
+  /**
+   * Get why each pinned food is pinned, keyed by food ID
+   */
+  async getPinnedFoods(): Promise<Map<string, PinReason>> {
+    await this.initialize();
+    return this.repository.getPins();
+  }
+
+  /**
+   * Analyze a cached food with the same rules FoodService uses online. The
+   * verdict is marked offline until it has been re-checked.
+   */
+  async analyzeCachedFood(
+    foodItem: FoodItem,
+    portion?: ConsumedPortion
+  ): Promise<ScanHistory> {
+    const gutProfile = await this.getGutProfile();
+    return {
+      id: `offline_${Date.now()}`,
+      foodItem,
+      analysis: analyzeFoodItem(foodItem, gutProfile, {
+        dataSource: 'Offline Cache',
+        offline: true,
+        ...(portion && { portionGrams: portion.grams }),
+      }),
+      timestamp: new Date(),
+      ...(portion && { portion }),
+    };
+  }
+
+  /**
+   * Keep the scanned food available offline and queue the scan for sync.
+   * Offline verdicts are re-checked when the network comes back.
+   */
+  async storeOfflineScan(scanData: ScanHistory): Promise<void> {
+    logger.info('Storing offline scan', 'OfflineService', {
+      scanId: scanData.id,
+      foodId: scanData.foodItem.id,
+    });
+    await this.initialize();
+    await this.repository.upsertFood(scanData.foodItem, 'scan');
+    await this.repository.recordAccess(scanData.foodItem.id);
+    await StorageService.getInstance().addToSyncQueue('scans', scanData);
+    await this.enforceStoreLimits();
+
+    if (scanData.analysis.isOffline === true) {
+      this.pendingScans.push(scanData);
+      await this.savePendingScans();
+      if (NetworkService.getInstance().isOnline()) {
+        await this.revalidateOfflineScans();
+      }
+    }
+  }
+
+  /**
+   * Re-run offline verdicts with fresh food data. Scans that still cannot be
+   * checked stay pending for the next time the app is online.
+   */
+  async revalidateOfflineScans(): Promise<number> {
+    if (this.isRevalidating || this.pendingScans.length === 0) {
+      return 0;
+    }
+
+    this.isRevalidating = true;
+    try {
+      const foodService = FoodService.getInstance();
+      const gutProfile = await this.getGutProfile();
+      const pending = [...this.pendingScans];
+
+      const revalidated = await Promise.all(
+        pending.map(async (scan) => {
+          const { barcode } = scan.foodItem;
+          const lookup =
+            barcode !== undefined
+              ? await foodService.searchByBarcode(barcode)
+              : null;
+          if (lookup && !lookup.success) {
+            return null;
+          }
+          const foodItem = lookup?.data ?? scan.foodItem;
+
+          const result = await foodService.analyzeFood(
+            foodItem,
+            gutProfile,
+            scan.portion
+          );
+          if (!result.success) {
+            return null;
+          }
+
+          if (lookup?.data) {
+            await this.repository.upsertFood(lookup.data, 'cache');
+          }
+          return { ...scan, foodItem, analysis: result.data };
+        })
+      );
+
+      const done = new Set<string>();
+      revalidated.forEach((scan, index) => {
+        const offlineScan = pending[index];
+        if (!scan || !offlineScan) {
+          return;
+        }
+        done.add(offlineScan.id);
+        if (
+          scan.analysis.overallSafety !== offlineScan.analysis.overallSafety
+        ) {
+          logger.info('Offline verdict changed online', 'OfflineService', {
+            scanId: scan.id,
+            offline: offlineScan.analysis.overallSafety,
+            online: scan.analysis.overallSafety,
+          });
+        }
+        this.notifyRevalidated(scan, offlineScan);
+      });
+
+      this.pendingScans = this.pendingScans.filter(
+        (scan) => !done.has(scan.id)
+      );
+      await this.savePendingScans();
+
+      logger.info('Revalidated offline scans', 'OfflineService', {
+        revalidated: done.size,
+        pending: this.pendingScans.length,
+      });
+      return done.size;
+    } finally {
+      this.isRevalidating = false;
+    }
+  }
+
+  /**
+   * Subscribe to offline verdicts being replaced by online ones
+   */
+  onScanRevalidated(
+    listener: (scan: ScanHistory, offlineScan: ScanHistory) => void
+  ): () => void {
+    this.revalidationListeners.add(listener);
+    return () => this.revalidationListeners.delete(listener);
+  }
+
+  getPendingRevalidationCount(): number {
+    return this.pendingScans.length;
+  }
+
+  async getCacheStats(): Promise<OfflineCacheStats> {
+    await this.initialize();
+    return this.repository.getStoreStatistics();
+  }
+
+  async clearAllCache(): Promise<void> {
+    await this.initialize();
+    await this.repository.clearAll();
+    logger.info('Offline food store cleared', 'OfflineService');
+  }
+
+  private async openStore(): Promise<void> {
+    await this.repository.open();
+    await this.loadPendingScans();
+    NetworkService.getInstance().on('online', this.handleOnline);
+    // Keep every product found online so it can be scanned offline later
+    this.unsubscribeFoodsFound = FoodService.getInstance().onFoodsFound(
+      this.handleFoodsFound
+    );
+    logger.info('OfflineService initialized', 'OfflineService');
+
+    try {
+      await this.seedStore();
+    } catch (error) {
+      // The store is usable without seeding
+      logger.warn('Failed to seed offline food store', 'OfflineService', error);
+    }
+  }
+
+  private async seedStore(): Promise<number> {
+    const foodService = FoodService.getInstance();
+    const cached = foodService.getCachedFoodItems();
+    const openFoodFacts = foodService.getRecentOpenFoodFactsItems();
+
+    await Promise.all([
+      ...cached.map((food) => this.repository.upsertFood(food, 'cache')),
+      ...openFoodFacts.map((food) =>
+        this.repository.upsertFood(food, 'openfoodfacts')
+      ),
+    ]);
+    await this.enforceStoreLimits();
+
+    const seeded = cached.length + openFoodFacts.length;
+    logger.info('Seeded offline food store', 'OfflineService', { seeded });
+    return seeded;
+  }
+
+  private readonly handleOnline = (): void => {
+    this.revalidateOfflineScans().catch((error) => {
+      logger.error(
+        'Failed to revalidate offline scans',
+        'OfflineService',
+        error
+      );
+    });
+  };
+
+  private readonly handleFoodsFound = (foodItems: FoodItem[]): void => {
+    Promise.all(
+      foodItems.map((foodItem) => this.cacheFoodItem(foodItem))
+    ).catch((error) => {
+      logger.error('Failed to cache found foods', 'OfflineService', error);
+    });
+  };
+
+  private async getGutProfile(): Promise<GutProfile> {
+    const userSettingsService = UserSettingsService.getInstance();
+    let settings = userSettingsService.getSettings();
+    if (!settings) {
+      await userSettingsService.initialize();
+      settings = userSettingsService.getSettings();
+    }
+    if (!settings) {
+      throw new Error('User settings are not available');
+    }
+    return settings.profile.gutProfile;
+  }
+
+  private async loadPendingScans(): Promise<void> {
+    const stored = await StorageService.getInstance().getItem<ScanHistory[]>(
+      PENDING_REVALIDATION_STORAGE_KEY,
+      true
+    );
+    this.pendingScans = (stored ?? []).map((scan) => ({
+      ...scan,
+      timestamp: new Date(scan.timestamp),
+      analysis: {
+        ...scan.analysis,
+        safeAlternatives: normalizeSafeAlternatives(
+          scan.analysis.safeAlternatives
+        ),
+        lastUpdated: new Date(scan.analysis.lastUpdated),
+      },
+    }));
+  }
+
+  private async savePendingScans(): Promise<void> {
+    await StorageService.getInstance().setItem(
+      PENDING_REVALIDATION_STORAGE_KEY,
+      this.pendingScans,
+      true
+    );
+  }
+
+  private notifyRevalidated(scan: ScanHistory, offlineScan: ScanHistory): void {
+    this.revalidationListeners.forEach((listener) => {
+      try {
+        listener(scan, offlineScan);
+      } catch (error) {
+        logger.error(
+          'Error notifying revalidation listener',
+          'OfflineService',
+          error
+        );
+      }
+    });
+  }
+
+  private async enforceStoreLimits(): Promise<void> {
+    const evicted = await this.repository.evictToLimits({
+      maxEntries: OFFLINE_STORE_MAX_ENTRIES,
+      maxBytes: OFFLINE_STORE_MAX_BYTES,
+    });
+    if (evicted > 0) {
+      logger.info('Evicted foods from offline store', 'OfflineService', {
+        evicted,
+      });
+    }
   }
 
   cleanup(): void {
+    NetworkService.getInstance().off('online', this.handleOnline);
+    this.unsubscribeFoodsFound?.();
+    this.unsubscribeFoodsFound = null;
+    this.revalidationListeners.clear();
+    this.repository.close().catch((error) => {
+      logger.error('Failed to close offline store', 'OfflineService', error);
+    });
+    this.initializePromise = null;
     logger.info('OfflineService cleaned up', 'OfflineService');
   }
 }
@@ -5,13 +5,18 @@
  * @private
  */
 
-import type { Result, NetworkError } from '../types/comprehensive';
+import { getFoodApiBaseUrl } from '../config/foodApis';
+import type {
+  Result,
+  NetworkError,
+  ValidationError,
+} from '../types/comprehensive';
+import { toGtin14, toLookupBarcode } from '../utils/barcode';
 import { logger } from '../utils/logger';
 import { retryUtils } from '../utils/retryUtils';
 
 // OpenFoodFacts API Configuration
 const OPENFOODFACTS_CONFIG = {
-  baseUrl: 'https://world.openfoodfacts.org/api/v2',
   timeout: 10000,
   userAgent: 'GutSafe/1.0.0 (https://gutsafe.com)',
   maxRetries: 3,
@@ -33,6 +38,8 @@ export interface OpenFoodFactsProduct {
   image_nutrition_url?: string;
   nutrition_data_per?: string;
   nutrition_data_prepared_per?: string;
+  serving_size?: string;
+  serving_quantity?: number;
   energy_kcal_100g?: number;
   fat_100g?: number;
   saturated_fat_100g?: number;
@@ -57,6 +64,8 @@ export interface OpenFoodFactsProduct {
   last_modified_t?: number;
   created_t?: number;
   last_updated_t?: number;
+  // Per-100 g and per-serving values keyed like "energy-kcal_100g"
+  nutriments?: Record<string, number | string>;
 }
 
 // Search Parameters Interface
@@ -67,6 +76,8 @@ export interface SearchParams {
   search_simple?: number;
   action?: string;
   json?: number;
+  // Restrict results to an OpenFoodFacts category tag, e.g. 'breakfast-cereals'
+  category?: string;
 }
 
 // Search Response Interface
@@ -109,16 +120,34 @@ class OpenFoodFactsService {
    */
   async getProductByBarcode(
     barcode: string
-  ): Promise<Result<OpenFoodFactsProduct | null, NetworkError>> {
+  ): Promise<
+    Result<OpenFoodFactsProduct | null, NetworkError | ValidationError>
+  > {
+    const gtin14 = toGtin14(barcode);
+    if (gtin14 === null) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid barcode',
+          field: 'barcode',
+          value: barcode,
+          expected:
+            'EAN-8, EAN-13, UPC-A, UPC-E or GTIN-14 with a valid check digit',
+          timestamp: new Date(),
+        },
+      };
+    }
+
     try {
-      const cacheKey = `product_${barcode}`;
+      const cacheKey = `product_${gtin14}`;
       const cached = this.getCachedData(cacheKey);
       if (cached) {
         return { success: true, data: cached as OpenFoodFactsProduct };
       }
 
       const result = await retryUtils.retryApiCall(
-        () => this.fetchProductByBarcode(barcode),
+        () => this.fetchProductByBarcode(toLookupBarcode(gtin14)),
         { maxAttempts: OPENFOODFACTS_CONFIG.maxRetries },
         'OpenFoodFactsService.getProductByBarcode'
       );
@@ -344,7 +373,7 @@ class OpenFoodFactsService {
   ): Promise<Result<OpenFoodFactsProduct | null, NetworkError>> {
     try {
       const response = await fetch(
-        `${OPENFOODFACTS_CONFIG.baseUrl}/product/${barcode}.json`,
+        `${getFoodApiBaseUrl('openFoodFacts')}/product/${barcode}.json`,
         {
           signal: AbortSignal.timeout(OPENFOODFACTS_CONFIG.timeout),
           headers: {
@@ -410,9 +439,14 @@ class OpenFoodFactsService {
         page_size: (params.page_size || 20).toString(),
         sort_by: params.sort_by || 'popularity',
       });
+      if (params.category !== undefined) {
+        searchParams.append('tagtype_0', 'categories');
+        searchParams.append('tag_contains_0', 'contains');
+        searchParams.append('tag_0', params.category);
+      }
 
       const response = await fetch(
-        `${OPENFOODFACTS_CONFIG.baseUrl}/cgi/search.pl?${searchParams}`,
+        `${getFoodApiBaseUrl('openFoodFacts')}/cgi/search.pl?${searchParams}`,
         {
           signal: AbortSignal.timeout(OPENFOODFACTS_CONFIG.timeout),
           headers: {
@@ -467,7 +501,7 @@ class OpenFoodFactsService {
   private async fetchCategories(): Promise<Result<string[], NetworkError>> {
     try {
       const response = await fetch(
-        `${OPENFOODFACTS_CONFIG.baseUrl}/categories.json`,
+        `${getFoodApiBaseUrl('openFoodFacts')}/categories.json`,
         {
           signal: AbortSignal.timeout(OPENFOODFACTS_CONFIG.timeout),
           headers: {
@@ -518,7 +552,7 @@ class OpenFoodFactsService {
   private async fetchLabels(): Promise<Result<string[], NetworkError>> {
     try {
       const response = await fetch(
-        `${OPENFOODFACTS_CONFIG.baseUrl}/labels.json`,
+        `${getFoodApiBaseUrl('openFoodFacts')}/labels.json`,
         {
           signal: AbortSignal.timeout(OPENFOODFACTS_CONFIG.timeout),
           headers: {
@@ -582,6 +616,24 @@ class OpenFoodFactsService {
     });
   }
 
+  /**
+   * Get products from cached lookups and searches that have not expired
+   */
+  getRecentProducts(): OpenFoodFactsProduct[] {
+    const products: OpenFoodFactsProduct[] = [];
+    this.cache.forEach((cached, key) => {
+      if (Date.now() - cached.timestamp >= this.cacheTimeout) {
+        return;
+      }
+      if (key.startsWith('product_')) {
+        products.push(cached.data as OpenFoodFactsProduct);
+      } else if (key.startsWith('search_')) {
+        products.push(...(cached.data as SearchResponse).products);
+      }
+    });
+    return products;
+  }
+
   /**
    * Clear cache
    */
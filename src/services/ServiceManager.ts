@@ -8,10 +8,13 @@
 import { logger } from '../utils/logger';
 
 import AuthService from './AuthService';
+import ConflictResolutionService from './ConflictResolutionService';
 import ErrorReportingService from './ErrorReportingService';
+import FodmapProtocolService from './FodmapProtocolService';
 import FoodService from './FoodService';
 import HealthService from './HealthService';
 import NetworkService from './NetworkService';
+import OfflinePinningService from './OfflinePinningService';
 import StorageService from './StorageService';
 
 /**
@@ -69,6 +72,36 @@ class ServiceManager {
       await healthService.initialize();
       this.services.set('health', healthService);
 
+      const fodmapProtocolService = FodmapProtocolService.getInstance();
+      await fodmapProtocolService.initialize();
+      this.services.set('fodmapProtocol', fodmapProtocolService);
+
+      const conflictResolutionService = ConflictResolutionService.getInstance();
+      await conflictResolutionService.initialize();
+      this.services.set('conflictResolution', conflictResolutionService);
+
+      // Push queued changes on a timer, when one is queued, when the
+      // connection returns and once the user signs in; all but the push on
+      // enqueue also merge in edits made on other devices
+      storageService.startAutoSync({
+        getAuthToken: () => authService.getAccessToken(),
+        onRemoteChanges: (changes) =>
+          conflictResolutionService.mergeRemoteChanges(changes),
+        onUnauthorized: async () => {
+          await authService.refreshAccessToken();
+        },
+      });
+      networkService.on('online', () => storageService.requestSync(true));
+      authService.subscribe((state) => {
+        if (state.isAuthenticated) {
+          storageService.requestSync(true);
+        }
+      });
+
+      const offlinePinningService = OfflinePinningService.getInstance();
+      await offlinePinningService.initialize();
+      this.services.set('offlinePinning', offlinePinningService);
+
       this.initialized = true;
       logger.info('All services initialized successfully', 'ServiceManager');
     } catch (error) {
@@ -171,6 +204,18 @@ export const getFoodService = () =>
   ServiceManager.getInstance().getService<FoodService>('food');
 export const getHealthService = () =>
   ServiceManager.getInstance().getService<HealthService>('health');
+export const getFodmapProtocolService = () =>
+  ServiceManager.getInstance().getService<FodmapProtocolService>(
+    'fodmapProtocol'
+  );
+export const getConflictResolutionService = () =>
+  ServiceManager.getInstance().getService<ConflictResolutionService>(
+    'conflictResolution'
+  );
+export const getOfflinePinningService = () =>
+  ServiceManager.getInstance().getService<OfflinePinningService>(
+    'offlinePinning'
+  );
 export const getStorageService = () =>
   ServiceManager.getInstance().getService<StorageService>('storage');
 export const getNetworkService = () =>
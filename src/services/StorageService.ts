@@ -8,8 +8,21 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 
+import { getApiConfig } from '../config/environment';
+import type { SyncQueueItem } from '../types/comprehensive';
 import { healthDataEncryption } from '../utils/encryption';
 import { logger } from '../utils/logger';
+import {
+  DEFAULT_SYNC_MAX_RETRIES,
+  pullRemoteChanges,
+  syncQueueItems,
+  SyncRequestError,
+  type RemoteChanges,
+  type SyncEntity,
+} from '../utils/syncEngine';
+
+import NetworkService from './NetworkService';
+import UserSettingsService from './UserSettingsService';
 
 // Storage service interface
 interface StorageServiceInterface {
@@ -232,8 +245,21 @@ const STORAGE_KEYS = {
   CACHE_METADATA: 'gut_safe_cache_metadata',
   OFFLINE_DATA: 'gut_safe_offline_data',
   SYNC_QUEUE: 'gut_safe_sync_queue',
+  SYNC_FAILED: 'gut_safe_sync_failed',
 } as const;
 
+// How often queued changes are pushed while the app is open
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000;
+
+export interface AutoSyncOptions {
+  // The backend refuses anonymous pushes, so syncing waits for a token
+  getAuthToken: () => string | null;
+  // Merges the backend's copies into local data
+  onRemoteChanges?: (changes: RemoteChanges) => Promise<void>;
+  // Called when the backend refuses the token, to renew it
+  onUnauthorized?: () => Promise<void>;
+}
+
 // Cache metadata interface
 interface CacheMetadata {
   version: string;
@@ -257,7 +283,11 @@ class StorageService {
   private readonly cache: Map<string, any> = new Map();
   private readonly cacheExpiry = 7 * 24 * 60 * 60 * 1000; // 7 days
   private readonly maxCacheSize = 1000;
-  private syncQueue: Array<{ key: string; data: any; timestamp: number }> = [];
+  private syncQueue: SyncQueueItem[] = [];
+  private isSyncing = false;
+  private autoSyncTimer: ReturnType<typeof setInterval> | null = null;
+  // Set by startAutoSync; syncing waits for it and for a token
+  private autoSyncOptions: AutoSyncOptions | null = null;
 
   private constructor() {
     // Choose storage implementation based on platform
@@ -281,6 +311,7 @@ class StorageService {
     try {
       await this.loadCacheMetadata();
       await this.cleanExpiredCache();
+      await this.loadSyncQueue();
       logger.info('StorageService initialized', 'StorageService');
     } catch (error) {
       logger.error(
@@ -354,8 +385,10 @@ class StorageService {
       // Update cache
       this.setCachedData(key, value);
 
-      // Update cache metadata
-      await this.updateCacheMetadata(key, serializedValue.length);
+      // Update cache metadata; it is stored here too, so it skips itself
+      if (key !== STORAGE_KEYS.CACHE_METADATA) {
+        await this.updateCacheMetadata(key, serializedValue.length);
+      }
 
       logger.info('Item stored', 'StorageService', { key, encrypted });
     } catch (error) {
@@ -572,17 +605,24 @@ class StorageService {
   /**
    * Add to sync queue
    */
-  async addToSyncQueue(key: string, data: any): Promise<void> {
+  async addToSyncQueue(
+    key: SyncEntity,
+    data: SyncQueueItem['data'],
+    maxRetries: number = DEFAULT_SYNC_MAX_RETRIES
+  ): Promise<void> {
     try {
       this.syncQueue.push({
         key,
         data,
         timestamp: Date.now(),
+        retryCount: 0,
+        maxRetries,
       });
 
       await this.setItem(STORAGE_KEYS.SYNC_QUEUE, this.syncQueue);
 
       logger.info('Added to sync queue', 'StorageService', { key });
+      this.requestSync();
     } catch (error) {
       logger.error('Failed to add to sync queue', 'StorageService', {
         key,
@@ -591,28 +631,157 @@ class StorageService {
     }
   }
 
+  /**
+   * Push queued changes now and then on a timer, and whenever a change is
+   * queued, signed in with the token the provider returns. Timed runs also
+   * pull the backend's copies and pass them to the handler to merge.
+   */
+  startAutoSync(options: AutoSyncOptions): void {
+    this.stopAutoSync();
+    this.autoSyncOptions = options;
+    this.autoSyncTimer = setInterval(
+      () => this.requestSync(true),
+      AUTO_SYNC_INTERVAL
+    );
+    this.requestSync(true);
+  }
+
+  stopAutoSync(): void {
+    if (this.autoSyncTimer) {
+      clearInterval(this.autoSyncTimer);
+      this.autoSyncTimer = null;
+    }
+  }
+
+  /**
+   * Start a sync run in the background if the user is signed in, pulling
+   * remote changes after the push when asked to. Runs still check the
+   * network first and never overlap.
+   */
+  requestSync(pull: boolean = false): void {
+    const authToken = this.autoSyncOptions?.getAuthToken() ?? null;
+    if (authToken === null) {
+      return;
+    }
+    this.processSyncQueue(authToken)
+      .then(async () => {
+        if (pull) {
+          await this.pullRemoteChanges(authToken);
+        }
+      })
+      .catch((error: unknown) => {
+        logger.error('Background sync failed', 'StorageService', error);
+      });
+  }
+
+  /**
+   * Fetch the backend's copies of synced records and hand them to the
+   * remote changes handler
+   */
+  async pullRemoteChanges(authToken: string): Promise<void> {
+    const handler = this.autoSyncOptions?.onRemoteChanges;
+    if (!handler || this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      if (!(await NetworkService.getInstance().isSuitableForSync())) {
+        return;
+      }
+      const changes = await pullRemoteChanges({
+        baseUrl: getApiConfig().baseUrl,
+        authToken,
+      });
+      await handler(changes);
+    } catch (error) {
+      logger.error('Failed to pull remote changes', 'StorageService', error);
+      if (error instanceof SyncRequestError && error.code === 'AUTH_ERROR') {
+        await this.autoSyncOptions?.onUnauthorized?.();
+      }
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
   /**
    * Process sync queue
    */
-  async processSyncQueue(): Promise<void> {
+  async processSyncQueue(authToken?: string): Promise<void> {
+    if (this.syncQueue.length === 0 || this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
     try {
-      if (this.syncQueue.length === 0) {
+      const networkService = NetworkService.getInstance();
+      if (!(await networkService.isSuitableForSync())) {
+        logger.info('Network not suitable for sync', 'StorageService', {
+          count: this.syncQueue.length,
+        });
         return;
       }
 
-      // This would sync with server in a real implementation
       logger.info('Processing sync queue', 'StorageService', {
         count: this.syncQueue.length,
       });
 
-      // Clear processed items
-      this.syncQueue = [];
+      const processing = [...this.syncQueue];
+      const result = await syncQueueItems(processing, {
+        baseUrl: getApiConfig().baseUrl,
+        ...(authToken !== undefined && { authToken }),
+      });
+
+      // Items queued while the run was in flight were not part of it
+      const queuedDuringSync = this.syncQueue.slice(processing.length);
+      this.syncQueue = [...result.remaining, ...queuedDuringSync];
       await this.setItem(STORAGE_KEYS.SYNC_QUEUE, this.syncQueue);
+
+      if (result.rejected.length > 0) {
+        const failedItems = await this.getFailedSyncItems();
+        await this.setItem(STORAGE_KEYS.SYNC_FAILED, [
+          ...failedItems,
+          ...result.rejected,
+        ]);
+        logger.warn('Sync items failed permanently', 'StorageService', {
+          count: result.rejected.length,
+        });
+      }
+
+      if (result.synced.length > 0) {
+        await UserSettingsService.getInstance().setSettingValue(
+          'sync',
+          'lastSync',
+          new Date()
+        );
+      }
+      if (result.unauthorized) {
+        // The next run picks up a renewed token
+        await this.autoSyncOptions?.onUnauthorized?.();
+      }
     } catch (error) {
       logger.error('Failed to process sync queue', 'StorageService', error);
+    } finally {
+      this.isSyncing = false;
     }
   }
 
+  /**
+   * Get items the server refused or that ran out of retries
+   */
+  async getFailedSyncItems(): Promise<SyncQueueItem[]> {
+    return (
+      (await this.getItem<SyncQueueItem[]>(STORAGE_KEYS.SYNC_FAILED)) ?? []
+    );
+  }
+
+  /**
+   * Get the number of items waiting to sync
+   */
+  getSyncQueueLength(): number {
+    return this.syncQueue.length;
+  }
+
   /**
    * Cache management
    */
@@ -655,6 +824,27 @@ class StorageService {
     }
   }
 
+  /**
+   * Restore the sync queue saved by a previous session
+   */
+  private async loadSyncQueue(): Promise<void> {
+    try {
+      const queue = await this.getItem<Array<Partial<SyncQueueItem>>>(
+        STORAGE_KEYS.SYNC_QUEUE
+      );
+      // Items queued before retries were tracked lack the retry fields
+      this.syncQueue = (queue ?? []).map((item) => ({
+        key: item.key ?? '',
+        data: item.data,
+        timestamp: item.timestamp ?? Date.now(),
+        retryCount: item.retryCount ?? 0,
+        maxRetries: item.maxRetries ?? DEFAULT_SYNC_MAX_RETRIES,
+      }));
+    } catch (error) {
+      logger.error('Failed to load sync queue', 'StorageService', error);
+    }
+  }
+
   /**
    * Cache metadata management
    */
@@ -760,6 +950,8 @@ class StorageService {
    * Cleanup resources
    */
   cleanup(): void {
+    this.stopAutoSync();
+    this.autoSyncOptions = null;
     this.cache.clear();
     this.syncQueue = [];
     logger.info('StorageService cleaned up', 'StorageService');
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview UserFoodService.ts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { databaseManager } from '../database/connection';
+import { FoodItemRepository } from '../database/repositories/FoodItemRepository';
+import type { FoodItem } from '../types';
+import type { Result, ServiceError } from '../types/comprehensive';
+import { toGtin14 } from '../utils/barcode';
+import { errorHandler } from '../utils/errorHandler';
+import { cleanLabelText } from '../utils/ingredientLabelText';
+import { logger } from '../utils/logger';
+import { USER_DATA_SOURCE, toAppFoodItem } from '../utils/storedFoodItem';
+
+import StorageService from './StorageService';
+
+// What the user enters for a product no database knows
+export interface UserFoodDetails {
+  name: string;
+  brand?: string;
+  category?: string;
+  barcode?: string;
+  // The ingredient list as printed on the pack
+  ingredients: string;
+  allergens: string[];
+}
+
+const validateDetails = (details: UserFoodDetails): string | null => {
+  if (details.name.trim() === '') {
+    return 'Product name is required';
+  }
+  if (cleanLabelText(details.ingredients) === '') {
+    return 'Ingredients are required';
+  }
+  const barcode = details.barcode?.trim() ?? '';
+  if (barcode !== '' && toGtin14(barcode) === null) {
+    return 'Invalid barcode';
+  }
+  return null;
+};
+
+/**
+ * UserFoodService - Products users add themselves when no food database
+ * knows them. They are stored locally, queued for the backend and stay
+ * unverified until an admin has reviewed them.
+ */
+class UserFoodService {
+  private static instance: UserFoodService;
+  private readonly foodItemRepository = new FoodItemRepository();
+
+  public static getInstance(): UserFoodService {
+    if (!UserFoodService.instance) {
+      UserFoodService.instance = new UserFoodService();
+    }
+    return UserFoodService.instance;
+  }
+
+  /**
+   * Save a product the user entered and queue it for the backend
+   */
+  async createUserFood(
+    details: UserFoodDetails
+  ): Promise<Result<FoodItem, ServiceError>> {
+    const invalid = validateDetails(details);
+    if (invalid !== null) {
+      return {
+        success: false,
+        error: {
+          code: 'SERVICE_ERROR' as const,
+          message: invalid,
+          details: { name: details.name },
+          timestamp: new Date(),
+          service: 'UserFoodService',
+          operation: 'createUserFood',
+        },
+      };
+    }
+
+    const result = await errorHandler.withErrorHandling(
+      async () => {
+        const barcode = toGtin14(details.barcode?.trim() ?? '');
+        const brand = details.brand?.trim() ?? '';
+        const category = details.category?.trim() ?? '';
+        const food = {
+          name: details.name.trim(),
+          ...(brand !== '' && { brand }),
+          ...(category !== '' && { category }),
+          ...(barcode !== null && { barcode }),
+          ingredients: [cleanLabelText(details.ingredients)],
+          allergens: Array.from(
+            new Set(
+              details.allergens
+                .map((allergen) => allergen.trim().toLowerCase())
+                .filter((allergen) => allergen !== '')
+            )
+          ),
+          additives: [],
+          // Nothing the user entered proves these, so assume the worst
+          gutHealthInfo: { glutenFree: false, lactoseFree: false },
+          dataSource: USER_DATA_SOURCE,
+        };
+
+        const saved = await this.foodItemRepository.create({
+          ...food,
+          isVerified: false,
+        });
+        // The backend keeps its own copy for admins to review
+        await StorageService.getInstance().addToSyncQueue('foods', food);
+
+        logger.info('Saved user-contributed food', 'UserFoodService', {
+          foodItemId: saved.id,
+          barcode,
+        });
+        return toAppFoodItem(saved);
+      },
+      {
+        operation: 'createUserFood',
+        service: 'UserFoodService',
+        additionalData: { name: details.name },
+      },
+      'UserFoodService'
+    );
+
+    if (result.success) {
+      return { success: true, data: result.data };
+    } else {
+      return {
+        success: false,
+        error: {
+          code: 'SERVICE_ERROR' as const,
+          message: result.error.message || 'Failed to save product',
+          details: { name: details.name },
+          timestamp: new Date(),
+          service: 'UserFoodService',
+          operation: 'createUserFood',
+        },
+      };
+    }
+  }
+
+  /**
+   * Find a product stored on this device, e.g. one the user added after an
+   * earlier scan found nothing
+   */
+  async findByBarcode(barcode: string): Promise<FoodItem | null> {
+    if (!databaseManager.isConnected()) {
+      return null;
+    }
+    const record = await this.foodItemRepository.findByBarcode(barcode);
+    return record ? toAppFoodItem(record) : null;
+  }
+}
+
+export default UserFoodService;
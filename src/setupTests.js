@@ -195,9 +195,21 @@ jest.mock('zustand', () => ({
   })),
 }));
 
+// React Native's bundler defines __DEV__, which the logger reads
+global.__DEV__ = false;
+
 // Global fetch mock
 global.fetch = jest.fn();
 
+// jsdom has no AbortSignal.timeout, which services set on their requests
+if (typeof AbortSignal.timeout !== 'function') {
+  AbortSignal.timeout = (milliseconds) => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), milliseconds);
+    return controller.signal;
+  };
+}
+
 // Mock console methods to reduce noise in tests
 global.console = {
   ...console,
@@ -21,6 +21,28 @@ export type SeverityLevel = 'mild' | 'moderate' | 'severe';
 
 export type ScanResult = 'safe' | 'caution' | 'avoid';
 
+export type FodmapSubgroup =
+  | 'fructans'
+  | 'gos'
+  | 'lactose'
+  | 'excess-fructose'
+  | 'polyols';
+
+export type FodmapLevel = 'low' | 'moderate' | 'high';
+
+// Outcome of a reintroduction challenge for one FODMAP subgroup
+export type FodmapTolerance = 'tolerated' | 'partial' | 'not_tolerated';
+
+export interface FodmapSubgroupAnalysis {
+  subgroup: FodmapSubgroup;
+  level: FodmapLevel;
+  ingredients: string[];
+  // Grams of the contributing ingredients per serving, when declared
+  estimatedGrams?: number;
+  servingSizeGrams?: number;
+  tolerance?: FodmapTolerance;
+}
+
 // Error Types
 export interface AppError {
   code: string;
@@ -99,12 +121,16 @@ export interface GutProfile {
       enabled: boolean;
       severity: SeverityLevel;
       knownTriggers: string[];
+      // Used to merge edits made on different devices
+      lastUpdated?: Date;
     };
   };
   preferences: {
     dietaryRestrictions: string[];
     preferredAlternatives: string[];
   };
+  // Filled in by the FODMAP reintroduction protocol
+  fodmapTolerance?: Partial<Record<FodmapSubgroup, FodmapTolerance>>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -171,6 +197,14 @@ export interface MedicationSupplement {
     | 'other';
 }
 
+// Enough of a food to list it and open it again by id
+export interface FoodItemReference {
+  id: string;
+  name: string;
+  brand?: string;
+  category?: string;
+}
+
 export interface ScanAnalysis {
   overallSafety: ScanResult;
   flaggedIngredients: {
@@ -184,10 +218,48 @@ export interface ScanAnalysis {
     severity: SeverityLevel;
     condition: GutCondition;
   }[];
-  safeAlternatives: string[];
+  // Similar products that pass the user's profile, for 'avoid' verdicts
+  safeAlternatives: FoodItemReference[];
   explanation: string;
   dataSource: string;
   lastUpdated: Date;
+  fodmapBreakdown?: FodmapSubgroupAnalysis[];
+  // Computed on-device from cached data; re-checked once back online
+  isOffline?: boolean;
+  // Grams eaten; FODMAP and histamine thresholds were scaled to it
+  portionGrams?: number;
+}
+
+export type PortionUnit =
+  | 'g'
+  | 'ml'
+  | 'oz'
+  | 'fl oz'
+  | 'tsp'
+  | 'tbsp'
+  | 'cup'
+  | 'serving';
+
+// How much of a food was eaten, as entered and converted to grams
+export interface ConsumedPortion {
+  amount: number;
+  unit: PortionUnit;
+  grams: number;
+}
+
+// One food in a meal or recipe, with how much of it went in
+export interface MealComponent {
+  foodItem: FoodItem;
+  portion: ConsumedPortion;
+}
+
+// Several foods eaten together, analyzed and logged as one event
+export interface Meal {
+  id: string;
+  name: string;
+  components: MealComponent[];
+  analysis: ScanAnalysis;
+  timestamp: Date;
 }
 
 export interface ScanHistory {
@@ -195,6 +267,7 @@ export interface ScanHistory {
   foodItem: FoodItem;
   analysis: ScanAnalysis;
   timestamp: Date;
+  portion?: ConsumedPortion;
   userFeedback?: 'accurate' | 'inaccurate';
 }
 
@@ -319,15 +392,45 @@ export interface FoodItem {
   ingredients: string[];
   allergens: string[];
   additives: string[];
-  fodmapLevel?: 'low' | 'moderate' | 'high';
+  fodmapLevel?: FodmapLevel;
+  fodmapSubgroups?: Partial<Record<FodmapSubgroup, FodmapLevel>>;
+  servingSizeGrams?: number;
   glutenFree: boolean;
   lactoseFree: boolean;
   histamineLevel?: 'low' | 'moderate' | 'high';
+  // "May contain" allergens declared separately from the ingredients
+  traces?: string[];
+  labels?: string[];
+  nutriScore?: 'a' | 'b' | 'c' | 'd' | 'e';
+  // NOVA processing group, 1 (unprocessed) to 4 (ultra-processed)
+  novaGroup?: 1 | 2 | 3 | 4;
+  // Per 100 g, energy in kcal and masses in grams
+  nutrition?: NutritionFacts;
+  // Every source that contributed, e.g. 'openfoodfacts, usda'
   dataSource?: string;
+  // Which source each merged field came from
+  fieldSources?: FoodFieldSources;
+  // Review state of a product a user added themselves
+  verificationStatus?: FoodVerificationStatus;
   isSafeFood?: boolean;
   addedToSafeFoods?: Date;
 }
 
+export type FoodProvenanceField =
+  | 'name'
+  | 'brand'
+  | 'category'
+  | 'ingredients'
+  | 'allergens'
+  | 'traces'
+  | 'additives'
+  | 'nutrition'
+  | 'servingSizeGrams';
+
+export type FoodFieldSources = Partial<Record<FoodProvenanceField, string>>;
+
+export type FoodVerificationStatus = 'pending' | 'verified' | 'rejected';
+
 export interface FoodSearchResult {
   items: FoodItem[];
   totalCount: number;
@@ -404,6 +507,8 @@ export interface SafeFood {
   lastUsed?: Date;
   usageCount: number;
   notes?: string;
+  // Last edit, used to merge edits made on different devices
+  updatedAt?: Date;
 }
 
 export interface HiddenTrigger {
@@ -520,7 +625,13 @@ export interface SymptomRecommendations {
 }
 
 export interface SymptomCorrelations {
-  food: Array<{ food: string; correlation: number }>;
+  food: Array<{
+    food: string;
+    correlation: number;
+    lagWindow?: string;
+    support?: number;
+    confidenceInterval?: [number, number];
+  }>;
   lifestyle: Array<{ factor: string; correlation: number }>;
   time: Array<{ period: string; correlation: number }>;
 }
@@ -17,8 +17,14 @@ export type RootStackParamList = {
     status?: 'safe' | 'caution' | 'avoid';
   };
   ScanDetail: {
-    scanId: string;
+    scanId?: string;
+    // Opens a stored food that was not scanned, e.g. a safe alternative
+    foodItemId?: string;
   };
+  CreateProduct: {
+    barcode?: string;
+  };
+  LogMeal: undefined;
   SafeFoods: {
     category?: string;
     search?: string;
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview errorHandler.ts - Error handler for tests
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { Result } from '../../types/comprehensive';
+
+export { ErrorCategory, ErrorSeverity } from '../errorTypes';
+
+// Runs wrapped operations directly and returns failures as results,
+// without sending them through error reporting
+export const errorHandler = {
+  withErrorHandling: async <T>(
+    operation: () => Promise<T>
+  ): Promise<Result<T, Error>> => {
+    try {
+      return { success: true, data: await operation() };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  },
+  createErrorResult: <T>(error: Error): Result<T, Error> => ({
+    success: false,
+    error,
+  }),
+};
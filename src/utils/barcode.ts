@@ -0,0 +1,175 @@
+/**
+ * @fileoverview barcode.ts - Validating product barcodes and canonicalising them to GTIN-14
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+export type BarcodeFormat = 'EAN-8' | 'UPC-E' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+export interface NormalisedBarcode {
+  // The 14-digit form used for storage and lookup
+  gtin14: string;
+  // The symbology the code was read as
+  format: BarcodeFormat;
+}
+
+const DIGITS_ONLY = /^\d+$/;
+
+/**
+ * GS1 check digit for a code without its check digit. Digits are weighted
+ * 3 and 1 alternately, starting with 3 at the right.
+ */
+export const calculateCheckDigit = (payload: string): number => {
+  const sum = payload
+    .split('')
+    .reverse()
+    .reduce(
+      (total, digit, index) =>
+        total + Number(digit) * (index % 2 === 0 ? 3 : 1),
+      0
+    );
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Whether the last digit of a numeric code is its GS1 check digit
+ */
+export const hasValidCheckDigit = (code: string): boolean =>
+  DIGITS_ONLY.test(code) &&
+  code.length >= 2 &&
+  calculateCheckDigit(code.slice(0, -1)) === Number(code.slice(-1));
+
+/**
+ * Expand an 8-digit UPC-E code into its 12-digit UPC-A form. Returns null
+ * when the code is not UPC-E or its check digit does not match.
+ */
+export const expandUpcE = (upcE: string): string | null => {
+  if (!/^[01]\d{7}$/.test(upcE)) {
+    return null;
+  }
+
+  const numberSystem = upcE.charAt(0);
+  const d = upcE.slice(1, 7);
+  const last = Number(d.charAt(5));
+  let payload: string;
+  if (last <= 2) {
+    payload = `${d.slice(0, 2)}${last}0000${d.slice(2, 5)}`;
+  } else if (last === 3) {
+    payload = `${d.slice(0, 3)}00000${d.slice(3, 5)}`;
+  } else if (last === 4) {
+    payload = `${d.slice(0, 4)}00000${d.charAt(4)}`;
+  } else {
+    payload = `${d.slice(0, 5)}0000${last}`;
+  }
+
+  const upcA = `${numberSystem}${payload}${upcE.charAt(7)}`;
+  return hasValidCheckDigit(upcA) ? upcA : null;
+};
+
+// Map scanner symbology names ("upc_e", "org.gs1.UPC-E", "EAN_8") onto a format
+const formatFromSymbology = (symbology?: string): BarcodeFormat | undefined => {
+  const type = (symbology ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (type.endsWith('upce')) {
+    return 'UPC-E';
+  }
+  if (type.endsWith('ean8')) {
+    return 'EAN-8';
+  }
+  return undefined;
+};
+
+/**
+ * Validate a scanned or typed barcode and canonicalise it to GTIN-14.
+ * Spaces and dashes are ignored. Eight-digit codes are read as EAN-8 unless
+ * the scanner reported UPC-E or only the UPC-E reading has a valid check
+ * digit. Returns null for misreads and codes that are not product barcodes.
+ */
+export const normaliseBarcode = (
+  raw: string,
+  symbology?: string
+): NormalisedBarcode | null => {
+  const code = raw.replace(/[\s-]/g, '');
+  if (!DIGITS_ONLY.test(code)) {
+    return null;
+  }
+
+  let normalised: NormalisedBarcode | null = null;
+  if (code.length === 8) {
+    const hint = formatFromSymbology(symbology);
+    const upcA = hint === 'EAN-8' ? null : expandUpcE(code);
+    if (hint !== 'UPC-E' && hasValidCheckDigit(code)) {
+      normalised = { gtin14: code.padStart(14, '0'), format: 'EAN-8' };
+    } else if (upcA !== null) {
+      normalised = { gtin14: upcA.padStart(14, '0'), format: 'UPC-E' };
+    }
+  } else if (
+    (code.length === 12 || code.length === 13 || code.length === 14) &&
+    hasValidCheckDigit(code)
+  ) {
+    const formats: Record<number, BarcodeFormat> = {
+      12: 'UPC-A',
+      13: 'EAN-13',
+      14: 'GTIN-14',
+    };
+    normalised = {
+      gtin14: code.padStart(14, '0'),
+      format: formats[code.length] as BarcodeFormat,
+    };
+  }
+
+  // All zeros passes the check digit but is never a product
+  if (!normalised || /^0+$/.test(normalised.gtin14)) {
+    return null;
+  }
+  return normalised;
+};
+
+/**
+ * Canonical GTIN-14 for a barcode, or null when it is not valid
+ */
+export const toGtin14 = (raw: string, symbology?: string): string | null =>
+  normaliseBarcode(raw, symbology)?.gtin14 ?? null;
+
+/**
+ * Whether a string is a valid product barcode
+ */
+export const isValidBarcode = (raw: string, symbology?: string): boolean =>
+  normaliseBarcode(raw, symbology) !== null;
+
+/**
+ * The shortest standard form of a GTIN-14: EAN-8 for padded EAN-8 codes,
+ * otherwise EAN-13, which is how OpenFoodFacts keys its products. GS1 does
+ * not issue 13-digit codes starting with 00000, so six leading zeros always
+ * mean EAN-8.
+ */
+export const toLookupBarcode = (gtin14: string): string => {
+  if (gtin14.startsWith('000000')) {
+    return gtin14.slice(6);
+  }
+  return gtin14.startsWith('0') ? gtin14.slice(1) : gtin14;
+};
+
+/**
+ * The 12-digit UPC-A form of a GTIN-14, used by USDA and Spoonacular, or
+ * null when the product has no UPC-A
+ */
+export const toUpcA = (gtin14: string): string | null =>
+  gtin14.startsWith('00') && !gtin14.startsWith('000000')
+    ? gtin14.slice(2)
+    : null;
+
+/**
+ * Every form a GTIN-14 may have been stored under before barcodes were
+ * canonicalised: the GTIN-14 itself, EAN-13, UPC-A and EAN-8
+ */
+export const barcodeVariants = (gtin14: string): string[] => {
+  const variants = [gtin14, gtin14.slice(1)];
+  if (gtin14.startsWith('00')) {
+    variants.push(gtin14.slice(2));
+  }
+  if (gtin14.startsWith('000000')) {
+    variants.push(gtin14.slice(6));
+  }
+  return variants;
+};
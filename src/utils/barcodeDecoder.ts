@@ -0,0 +1,381 @@
+/**
+ * @fileoverview barcodeDecoder.ts - Decoding EAN and UPC barcodes from camera frames and still images
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { normaliseBarcode } from './barcode';
+
+/**
+ * Pixels of a camera frame or still image. Matches the browser's ImageData
+ * and also accepts single-channel greyscale buffers.
+ */
+export interface BarcodeImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+  // Values per pixel: 4 for RGBA (the default), 1 for greyscale
+  channels?: number;
+}
+
+// Named like expo-camera's barcode types so both readers report the same way
+export type DecodedBarcodeType = 'ean13' | 'ean8' | 'upc_a' | 'upc_e';
+
+export interface DecodedBarcode {
+  type: DecodedBarcodeType;
+  data: string;
+}
+
+export interface BarcodeDecodeOptions {
+  // Scan lines tried across the image in each direction
+  scanLines?: number;
+  // Scan lines that must read the same code before it is reported
+  minAgreement?: number;
+}
+
+interface Runs {
+  // Widths of alternating dark and light runs along a scan line
+  widths: number[];
+  startsDark: boolean;
+}
+
+// Bar and space widths of each digit in the L (odd parity) set. G digits are
+// the same widths reversed, and R digits are L digits starting with a bar.
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+];
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse());
+
+// Parity of the six left-hand digits of an EAN-13, indexed by its first digit
+const EAN13_PARITY = [
+  'LLLLLL',
+  'LLGLGG',
+  'LLGGLG',
+  'LLGGGL',
+  'LGLLGG',
+  'LGGLLG',
+  'LGGGLL',
+  'LGLGLG',
+  'LGLGGL',
+  'LGGLGL',
+];
+
+// Parity of the six UPC-E digits in number system 0, indexed by check digit.
+// Number system 1 uses the inverse.
+const UPC_E_PARITY = [
+  'GGGLLL',
+  'GGLGLL',
+  'GGLLGL',
+  'GGLLLG',
+  'GLGGLL',
+  'GLLGGL',
+  'GLLLGG',
+  'GLGLGL',
+  'GLGLLG',
+  'GLLGLG',
+];
+
+// Summed difference, in modules, allowed between a digit and its pattern
+const MAX_DIGIT_ERROR = 1.5;
+// Light space needed either side of a barcode, in modules
+const QUIET_ZONE_MODULES = 3;
+// Below this brightness range a stretch of scan line is treated as blank
+const MIN_CONTRAST = 32;
+const DEFAULT_SCAN_LINES = 15;
+
+const readLuminance = (image: BarcodeImage, x: number, y: number): number => {
+  const channels = image.channels ?? 4;
+  const offset = (y * image.width + x) * channels;
+  if (channels < 3) {
+    return Number(image.data[offset]);
+  }
+  return (
+    (Number(image.data[offset]) * 299 +
+      Number(image.data[offset + 1]) * 587 +
+      Number(image.data[offset + 2]) * 114) /
+    1000
+  );
+};
+
+// Luminance along a row or column, averaged with its neighbours to damp noise
+const readScanLine = (
+  image: BarcodeImage,
+  position: number,
+  vertical: boolean
+): number[] => {
+  const length = vertical ? image.height : image.width;
+  const limit = (vertical ? image.width : image.height) - 1;
+  const neighbours = [position - 1, position, position + 1].filter(
+    (p) => p >= 0 && p <= limit
+  );
+
+  return Array.from({ length }, (_, i) => {
+    const total = neighbours.reduce(
+      (sum, p) =>
+        sum +
+        (vertical ? readLuminance(image, p, i) : readLuminance(image, i, p)),
+      0
+    );
+    return total / neighbours.length;
+  });
+};
+
+/**
+ * Split a scan line into dark and light runs. Each pixel is compared with
+ * the middle of the brightness range around it, so shadows and uneven
+ * lighting across the label do not merge bars.
+ */
+const toRuns = (line: number[]): Runs => {
+  const radius = Math.max(4, Math.round(line.length / 24));
+  const dark = line.map((value, i) => {
+    const window = line.slice(
+      Math.max(0, i - radius),
+      Math.min(line.length, i + radius + 1)
+    );
+    const min = Math.min(...window);
+    const max = Math.max(...window);
+    return max - min >= MIN_CONTRAST && value < (min + max) / 2;
+  });
+
+  const widths: number[] = [];
+  dark.forEach((isDark, i) => {
+    if (i > 0 && isDark === dark[i - 1]) {
+      widths[widths.length - 1] = (widths[widths.length - 1] ?? 0) + 1;
+    } else {
+      widths.push(1);
+    }
+  });
+  return { widths, startsDark: dark[0] === true };
+};
+
+const reverseRuns = (runs: Runs): Runs => ({
+  widths: [...runs.widths].reverse(),
+  startsDark: runs.widths.length % 2 === 1 ? runs.startsDark : !runs.startsDark,
+});
+
+const matchesGuard = (
+  widths: number[],
+  start: number,
+  length: number,
+  module: number
+): boolean => {
+  const guard = widths.slice(start, start + length);
+  return (
+    guard.length === length &&
+    guard.every((width) => width >= module * 0.5 && width <= module * 1.8)
+  );
+};
+
+// Closest digit to four run widths, with the code set it came from
+const matchDigit = (
+  widths: number[],
+  start: number,
+  allowG: boolean
+): { digit: number; parity: 'L' | 'G' } | null => {
+  const runs = widths.slice(start, start + 4);
+  if (runs.length < 4) {
+    return null;
+  }
+  const total = runs.reduce((sum, width) => sum + width, 0);
+  const sets: Array<['L' | 'G', number[][]]> = allowG
+    ? [
+        ['L', L_PATTERNS],
+        ['G', G_PATTERNS],
+      ]
+    : [['L', L_PATTERNS]];
+
+  let best: { digit: number; parity: 'L' | 'G'; error: number } | null = null;
+  for (const [parity, patterns] of sets) {
+    for (const [digit, pattern] of patterns.entries()) {
+      const error = runs.reduce(
+        (sum, width, i) =>
+          sum + Math.abs((width * 7) / total - (pattern[i] ?? 0)),
+        0
+      );
+      if (best === null || error < best.error) {
+        best = { digit, parity, error };
+      }
+    }
+  }
+
+  return best !== null && best.error <= MAX_DIGIT_ERROR
+    ? { digit: best.digit, parity: best.parity }
+    : null;
+};
+
+const readDigits = (
+  widths: number[],
+  start: number,
+  count: number,
+  allowG: boolean
+): { digits: string; parity: string } | null => {
+  let digits = '';
+  let parity = '';
+  for (let i = 0; i < count; i++) {
+    const match = matchDigit(widths, start + i * 4, allowG);
+    if (!match) {
+      return null;
+    }
+    digits += String(match.digit);
+    parity += match.parity;
+  }
+  return { digits, parity };
+};
+
+const hasQuietZone = (
+  widths: number[],
+  index: number,
+  module: number
+): boolean => {
+  const width = widths[index];
+  return width !== undefined && width >= module * QUIET_ZONE_MODULES;
+};
+
+const decodeEan13 = (
+  widths: number[],
+  start: number,
+  module: number
+): DecodedBarcode | null => {
+  if (
+    !matchesGuard(widths, start + 27, 5, module) ||
+    !matchesGuard(widths, start + 56, 3, module) ||
+    !hasQuietZone(widths, start + 59, module)
+  ) {
+    return null;
+  }
+  const left = readDigits(widths, start + 3, 6, true);
+  const right = left && readDigits(widths, start + 32, 6, false);
+  const firstDigit = left ? EAN13_PARITY.indexOf(left.parity) : -1;
+  if (!left || !right || firstDigit < 0) {
+    return null;
+  }
+
+  // Scanners report EAN-13 codes starting with 0 as UPC-A
+  return firstDigit === 0
+    ? { type: 'upc_a', data: `${left.digits}${right.digits}` }
+    : { type: 'ean13', data: `${firstDigit}${left.digits}${right.digits}` };
+};
+
+const decodeEan8 = (
+  widths: number[],
+  start: number,
+  module: number
+): DecodedBarcode | null => {
+  if (
+    !matchesGuard(widths, start + 19, 5, module) ||
+    !matchesGuard(widths, start + 40, 3, module) ||
+    !hasQuietZone(widths, start + 43, module)
+  ) {
+    return null;
+  }
+  const left = readDigits(widths, start + 3, 4, false);
+  const right = left && readDigits(widths, start + 24, 4, false);
+  return left && right
+    ? { type: 'ean8', data: `${left.digits}${right.digits}` }
+    : null;
+};
+
+const decodeUpcE = (
+  widths: number[],
+  start: number,
+  module: number
+): DecodedBarcode | null => {
+  if (
+    !matchesGuard(widths, start + 27, 6, module) ||
+    !hasQuietZone(widths, start + 33, module)
+  ) {
+    return null;
+  }
+  const digits = readDigits(widths, start + 3, 6, true);
+  if (!digits) {
+    return null;
+  }
+
+  const inverse = digits.parity.replace(/[LG]/g, (p) =>
+    p === 'L' ? 'G' : 'L'
+  );
+  const numberSystemZero = UPC_E_PARITY.indexOf(digits.parity);
+  const numberSystemOne = UPC_E_PARITY.indexOf(inverse);
+  if (numberSystemZero >= 0) {
+    return { type: 'upc_e', data: `0${digits.digits}${numberSystemZero}` };
+  }
+  return numberSystemOne >= 0
+    ? { type: 'upc_e', data: `1${digits.digits}${numberSystemOne}` }
+    : null;
+};
+
+// Try every bar with a quiet zone before it as the start of a barcode
+const decodeRuns = (runs: Runs): DecodedBarcode | null => {
+  const { widths } = runs;
+  // The first bar needs a light run before it to be a candidate
+  const firstCandidate = runs.startsDark ? 2 : 1;
+
+  for (let start = firstCandidate; start + 3 < widths.length; start += 2) {
+    const guard = widths.slice(start, start + 3);
+    const module = guard.reduce((sum, width) => sum + width, 0) / 3;
+    if (
+      !hasQuietZone(widths, start - 1, module) ||
+      !matchesGuard(widths, start, 3, module)
+    ) {
+      continue;
+    }
+
+    const decoded = [decodeEan13, decodeEan8, decodeUpcE]
+      .map((decode) => decode(widths, start, module))
+      .find(
+        (candidate) =>
+          candidate !== null &&
+          normaliseBarcode(candidate.data, candidate.type) !== null
+      );
+    if (decoded) {
+      return decoded;
+    }
+  }
+  return null;
+};
+
+/**
+ * Find an EAN-13, EAN-8, UPC-A or UPC-E barcode in an image. Rows are
+ * scanned in both directions, then columns for barcodes held sideways.
+ * Only codes with a valid check digit are reported, and when scan lines
+ * disagree the code read most often wins.
+ */
+export const decodeBarcodeImage = (
+  image: BarcodeImage,
+  options: BarcodeDecodeOptions = {}
+): DecodedBarcode | null => {
+  const scanLines = options.scanLines ?? DEFAULT_SCAN_LINES;
+  const minAgreement = options.minAgreement ?? 1;
+
+  for (const vertical of [false, true]) {
+    const span = vertical ? image.width : image.height;
+    const votes = new Map<string, { barcode: DecodedBarcode; count: number }>();
+
+    for (let line = 1; line <= scanLines; line++) {
+      const position = Math.floor((span * line) / (scanLines + 1));
+      const runs = toRuns(readScanLine(image, position, vertical));
+      const decoded = decodeRuns(runs) ?? decodeRuns(reverseRuns(runs));
+      if (decoded) {
+        const key = `${decoded.type}:${decoded.data}`;
+        const vote = votes.get(key) ?? { barcode: decoded, count: 0 };
+        votes.set(key, { ...vote, count: vote.count + 1 });
+      }
+    }
+
+    const [best] = [...votes.values()].sort((a, b) => b.count - a.count);
+    if (best && best.count >= minAgreement) {
+      return best.barcode;
+    }
+  }
+  return null;
+};
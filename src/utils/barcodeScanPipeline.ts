@@ -0,0 +1,159 @@
+/**
+ * @fileoverview barcodeScanPipeline.ts - Turning camera reads into confirmed barcode lookups
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import FoodService from '../services/FoodService';
+import type { FoodItem } from '../types';
+import type { Result, ServiceError } from '../types/comprehensive';
+
+import { normaliseBarcode, type NormalisedBarcode } from './barcode';
+import { decodeBarcodeImage, type BarcodeImage } from './barcodeDecoder';
+
+export interface BarcodeRead {
+  type: string;
+  data: string;
+}
+
+export type BarcodeLookup = (
+  gtin14: string
+) => Promise<Result<FoodItem | null, ServiceError>>;
+
+export interface BarcodeScanPipelineOptions {
+  // Consecutive reads of the same code needed before it is accepted
+  requiredReads: number;
+  // Longest gap between two reads that still counts as consecutive
+  readWindowMs: number;
+  // How long an accepted code is ignored so one scan is not reported twice
+  debounceMs: number;
+  // Scan lines that must agree on a still image, which gets a single look
+  stillImageAgreement: number;
+  lookup: BarcodeLookup;
+}
+
+export interface BarcodeScanOutcome {
+  barcode: NormalisedBarcode;
+  food: Result<FoodItem | null, ServiceError>;
+}
+
+export const DEFAULT_SCAN_PIPELINE_OPTIONS: Omit<
+  BarcodeScanPipelineOptions,
+  'lookup'
+> = {
+  requiredReads: 3,
+  readWindowMs: 1000,
+  debounceMs: 3000,
+  stillImageAgreement: 2,
+};
+
+const searchFoodService: BarcodeLookup = (gtin14) =>
+  FoodService.getInstance().searchByBarcode(gtin14);
+
+/**
+ * Confirms barcode reads before they reach the network. Live reads, from
+ * expo-camera or decoded web frames, are accepted once the same code has
+ * been read several times in a row; misreads are dropped and a different
+ * code starts the count again. Accepted codes are looked up by their
+ * GTIN-14.
+ */
+export class BarcodeScanPipeline {
+  private readonly options: BarcodeScanPipelineOptions;
+  private candidate: {
+    gtin14: string;
+    count: number;
+    lastReadAt: number;
+  } | null = null;
+  private lastAccepted: { gtin14: string; at: number } | null = null;
+
+  constructor(options: Partial<BarcodeScanPipelineOptions> = {}) {
+    this.options = {
+      ...DEFAULT_SCAN_PIPELINE_OPTIONS,
+      lookup: searchFoodService,
+      ...options,
+    };
+  }
+
+  /**
+   * Record a live read. Returns the barcode once enough consistent reads
+   * have arrived, otherwise null.
+   */
+  submitRead(
+    read: BarcodeRead,
+    timestamp: number = Date.now()
+  ): NormalisedBarcode | null {
+    const barcode = normaliseBarcode(read.data, read.type);
+    if (!barcode) {
+      return null;
+    }
+
+    const { gtin14 } = barcode;
+    if (
+      this.lastAccepted?.gtin14 === gtin14 &&
+      timestamp - this.lastAccepted.at < this.options.debounceMs
+    ) {
+      return null;
+    }
+
+    const continues =
+      this.candidate?.gtin14 === gtin14 &&
+      timestamp - this.candidate.lastReadAt <= this.options.readWindowMs;
+    const count = continues && this.candidate ? this.candidate.count + 1 : 1;
+    this.candidate = { gtin14, count, lastReadAt: timestamp };
+
+    if (count < this.options.requiredReads) {
+      return null;
+    }
+    this.candidate = null;
+    this.lastAccepted = { gtin14, at: timestamp };
+    return barcode;
+  }
+
+  /**
+   * Decode a live camera frame and record what it reads
+   */
+  submitFrame(
+    image: BarcodeImage,
+    timestamp: number = Date.now()
+  ): NormalisedBarcode | null {
+    const decoded = decodeBarcodeImage(image);
+    return decoded ? this.submitRead(decoded, timestamp) : null;
+  }
+
+  /**
+   * Read a still image. There are no further frames to confirm the code,
+   * so several scan lines across the image must agree instead.
+   */
+  readImage(image: BarcodeImage): NormalisedBarcode | null {
+    const decoded = decodeBarcodeImage(image, {
+      minAgreement: this.options.stillImageAgreement,
+    });
+    return decoded ? normaliseBarcode(decoded.data, decoded.type) : null;
+  }
+
+  /**
+   * Look an accepted barcode up by its GTIN-14
+   */
+  async lookup(barcode: NormalisedBarcode): Promise<BarcodeScanOutcome> {
+    const food = await this.options.lookup(barcode.gtin14);
+    return { barcode, food };
+  }
+
+  /**
+   * Read a still image and look up the barcode on it. Resolves to null when
+   * no barcode could be read.
+   */
+  async scanImage(image: BarcodeImage): Promise<BarcodeScanOutcome | null> {
+    const barcode = this.readImage(image);
+    return barcode ? this.lookup(barcode) : null;
+  }
+
+  /**
+   * Forget partial and accepted reads, e.g. when the user scans again
+   */
+  reset(): void {
+    this.candidate = null;
+    this.lastAccepted = null;
+  }
+}
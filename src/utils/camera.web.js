@@ -7,11 +7,19 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 
+import { decodeBarcodeImage } from './barcodeDecoder';
+
+// How often a frame is decoded, and the width it is scaled down to first
+const FRAME_INTERVAL_MS = 200;
+const MAX_FRAME_WIDTH = 640;
+
 // Web implementation of expo-camera with getUserMedia support
 export const Camera = ({ 
   style, 
   children, 
+  onBarcodeScanned,
   onBarCodeScanned,
+  barcodeScannerSettings,
   barCodeScannerSettings,
   ...props 
 }) => {
@@ -51,27 +59,40 @@ export const Camera = ({
     };
   }, []);
 
-  const captureFrame = () => {
-    if (videoRef.current && canvasRef.current) {
+  // Accept both the CameraView and the older Camera prop names
+  const onScanned = onBarcodeScanned || onBarCodeScanned;
+
+  useEffect(() => {
+    if (!onScanned) {
+      return undefined;
+    }
+
+    // Browsers have no EAN/UPC decoder, so frames are decoded here. The
+    // scan pipeline confirms reads across frames.
+    const captureFrame = () => {
       const video = videoRef.current;
       const canvas = canvasRef.current;
-      const context = canvas.getContext('2d');
-      
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      context.drawImage(video, 0, 0);
-      
-      // Simulate barcode scanning
-      if (onBarCodeScanned) {
-        // Mock barcode data for web
-        const mockBarcode = {
-          type: 'EAN_13',
-          data: '1234567890123'
-        };
-        onBarCodeScanned(mockBarcode);
+      if (!video || !canvas || video.readyState < 2 || !video.videoWidth) {
+        return;
       }
-    }
-  };
+
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const decoded = decodeBarcodeImage(
+        context.getImageData(0, 0, canvas.width, canvas.height)
+      );
+      if (decoded) {
+        onScanned(decoded);
+      }
+    };
+
+    const interval = setInterval(captureFrame, FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [onScanned]);
 
   return (
     <div
@@ -119,6 +140,9 @@ export const Camera = ({
   );
 };
 
+// expo-camera's current component name
+export const CameraView = Camera;
+
 export const CameraType = {
   back: 'back',
   front: 'front',
@@ -8,6 +8,12 @@
 import { Platform, Alert } from 'react-native';
 import { Camera } from 'expo-camera';
 
+import {
+  BarcodeScanPipeline,
+  type BarcodeScanOutcome,
+} from './barcodeScanPipeline';
+import { logger } from './logger';
+
 interface CameraConfig {
   quality: number;
   flashMode: 'on' | 'off' | 'auto';
@@ -27,10 +33,17 @@ interface BarcodeScanResult {
   };
 }
 
+type BarcodeListener = (
+  outcome: BarcodeScanOutcome,
+  result: BarcodeScanResult
+) => void;
+
 class CameraManager {
   private static instance: CameraManager;
   private cameraRef: any = null;
   private isScanning = false;
+  private readonly barcodeListeners = new Set<BarcodeListener>();
+  private readonly scanPipeline = new BarcodeScanPipeline();
   private config: CameraConfig = {
     quality: 0.8,
     flashMode: 'off',
@@ -66,7 +79,7 @@ class CameraManager {
       const { status } = await Camera.requestCameraPermissionsAsync();
       return status === 'granted';
     } catch (error) {
-      console.error('Camera permission request failed:', error);
+      logger.error('Camera permission request failed', 'CameraManager', error);
       return false;
     }
   }
@@ -81,7 +94,7 @@ class CameraManager {
       const { status } = await Camera.getCameraPermissionsAsync();
       return status === 'granted';
     } catch (error) {
-      console.error('Camera permission check failed:', error);
+      logger.error('Camera permission check failed', 'CameraManager', error);
       return false;
     }
   }
@@ -111,7 +124,7 @@ class CameraManager {
 
   public async capturePhoto(): Promise<string | null> {
     if (!this.cameraRef) {
-      console.error('Camera ref not set');
+      logger.error('Camera ref not set', 'CameraManager');
       return null;
     }
 
@@ -139,7 +152,7 @@ class CameraManager {
 
       return photo.uri;
     } catch (error) {
-      console.error('Photo capture failed:', error);
+      logger.error('Photo capture failed', 'CameraManager', error);
       return null;
     }
   }
@@ -154,7 +167,7 @@ class CameraManager {
         await this.cameraRef.autoFocusAsync();
       }
     } catch (error) {
-      console.error('Camera focus failed:', error);
+      logger.error('Camera focus failed', 'CameraManager', error);
     }
   }
 
@@ -165,7 +178,7 @@ class CameraManager {
       await this.cameraRef.setFlashModeAsync(mode);
       this.config.flashMode = mode;
     } catch (error) {
-      console.error('Flash mode change failed:', error);
+      logger.error('Flash mode change failed', 'CameraManager', error);
     }
   }
 
@@ -176,7 +189,7 @@ class CameraManager {
       await this.cameraRef.setZoomAsync(zoom);
       this.config.zoom = zoom;
     } catch (error) {
-      console.error('Zoom change failed:', error);
+      logger.error('Zoom change failed', 'CameraManager', error);
     }
   }
 
@@ -187,23 +200,44 @@ class CameraManager {
       await this.cameraRef.setWhiteBalanceAsync(balance);
       this.config.whiteBalance = balance;
     } catch (error) {
-      console.error('White balance change failed:', error);
+      logger.error('White balance change failed', 'CameraManager', error);
     }
   }
 
   public handleBarcodeScanned = (result: BarcodeScanResult): void => {
     if (!this.isScanning) return;
 
+    // Misreads are dropped and a code must be read several times in a row
+    const barcode = this.scanPipeline.submitRead(result);
+    if (!barcode) return;
+
     // Stop scanning after successful scan
     this.stopScanning();
 
-    // Process the barcode result
-    console.log('Barcode scanned:', result);
-    
-    // You can emit events or call callbacks here
-    // For example: EventEmitter.emit('barcodeScanned', result);
+    // Look the canonical GTIN-14 up and hand the outcome to listeners
+    this.scanPipeline
+      .lookup(barcode)
+      .then((outcome) => {
+        this.barcodeListeners.forEach((listener) => {
+          try {
+            listener(outcome, result);
+          } catch (error) {
+            logger.error('Barcode listener failed', 'CameraManager', error);
+          }
+        });
+      })
+      .catch((error) => {
+        logger.error('Barcode lookup failed', 'CameraManager', error);
+      });
   };
 
+  public onBarcodeScanned(listener: BarcodeListener): () => void {
+    this.barcodeListeners.add(listener);
+    return () => {
+      this.barcodeListeners.delete(listener);
+    };
+  }
+
   public getConfig(): CameraConfig {
     return { ...this.config };
   }
@@ -231,13 +265,14 @@ class CameraManager {
 
       return true;
     } catch (error) {
-      console.error('Web camera initialization failed:', error);
+      logger.error('Web camera initialization failed', 'CameraManager', error);
       return false;
     }
   }
 
   public cleanup(): void {
     this.stopScanning();
+    this.scanPipeline.reset();
     this.cameraRef = null;
   }
 }
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview conflictResolution.ts - Merges records edited on more than one device
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { GutCondition, GutProfile, SafeFood } from '../types';
+
+export type ConflictEntity = 'gutProfile' | 'safeFood';
+export type MergeStrategy = 'field_merge' | 'union' | 'last_writer_wins';
+
+export interface ConflictDetail {
+  entityType: ConflictEntity;
+  entityId: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  resolvedValue: unknown;
+  strategy: MergeStrategy;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: ConflictDetail[];
+}
+
+type ConditionSettings = GutProfile['conditions'][GutCondition];
+
+const toTime = (value: Date | string | undefined): number =>
+  value ? new Date(value).getTime() : 0;
+
+// Ties go to the local copy so a re-sync of the same data is stable
+const isRemoteNewer = (
+  local: Date | string | undefined,
+  remote: Date | string | undefined
+): boolean => toTime(remote) > toTime(local);
+
+const latest = (a: Date | undefined, b: Date | undefined): Date | undefined =>
+  toTime(b) > toTime(a) ? b : a;
+
+const union = (local: string[], remote: string[]): string[] => {
+  const seen = new Set(local.map((item) => item.toLowerCase()));
+  return [...local, ...remote.filter((item) => !seen.has(item.toLowerCase()))];
+};
+
+const sameItems = (a: string[], b: string[]): boolean =>
+  a.length === b.length && union(a, b).length === a.length;
+
+/**
+ * Merge one condition field by field. Enabled and severity follow the most
+ * recently updated copy; known triggers from both copies are kept.
+ */
+const mergeCondition = (
+  profileId: string,
+  condition: GutCondition,
+  local: ConditionSettings,
+  remote: ConditionSettings,
+  localProfileUpdatedAt: Date,
+  remoteProfileUpdatedAt: Date
+): MergeResult<ConditionSettings> => {
+  const conflicts: ConflictDetail[] = [];
+  const remoteWins = isRemoteNewer(
+    local.lastUpdated ?? localProfileUpdatedAt,
+    remote.lastUpdated ?? remoteProfileUpdatedAt
+  );
+  const winner = remoteWins ? remote : local;
+
+  (['enabled', 'severity'] as const).forEach((field) => {
+    if (local[field] !== remote[field]) {
+      conflicts.push({
+        entityType: 'gutProfile',
+        entityId: profileId,
+        field: `conditions.${condition}.${field}`,
+        localValue: local[field],
+        remoteValue: remote[field],
+        resolvedValue: winner[field],
+        strategy: 'field_merge',
+      });
+    }
+  });
+
+  const knownTriggers = union(local.knownTriggers, remote.knownTriggers);
+  if (!sameItems(local.knownTriggers, remote.knownTriggers)) {
+    conflicts.push({
+      entityType: 'gutProfile',
+      entityId: profileId,
+      field: `conditions.${condition}.knownTriggers`,
+      localValue: local.knownTriggers,
+      remoteValue: remote.knownTriggers,
+      resolvedValue: knownTriggers,
+      strategy: 'union',
+    });
+  }
+
+  const lastUpdated = latest(local.lastUpdated, remote.lastUpdated);
+
+  return {
+    merged: {
+      enabled: winner.enabled,
+      severity: winner.severity,
+      knownTriggers,
+      ...(lastUpdated && { lastUpdated }),
+    },
+    conflicts,
+  };
+};
+
+/**
+ * Merge two copies of a gut profile. Conditions are merged field by field;
+ * the rest of the profile follows the most recently updated copy.
+ */
+export const mergeGutProfiles = (
+  local: GutProfile,
+  remote: GutProfile
+): MergeResult<GutProfile> => {
+  const conflicts: ConflictDetail[] = [];
+  const conditions = { ...local.conditions };
+
+  (Object.keys(local.conditions) as GutCondition[]).forEach((condition) => {
+    const remoteCondition = remote.conditions[condition];
+    if (!remoteCondition) {
+      return;
+    }
+
+    const result = mergeCondition(
+      local.id,
+      condition,
+      local.conditions[condition],
+      remoteCondition,
+      local.updatedAt,
+      remote.updatedAt
+    );
+    conditions[condition] = result.merged;
+    conflicts.push(...result.conflicts);
+  });
+
+  const base = isRemoteNewer(local.updatedAt, remote.updatedAt)
+    ? remote
+    : local;
+
+  return {
+    merged: {
+      ...base,
+      conditions,
+      updatedAt: latest(local.updatedAt, remote.updatedAt) ?? base.updatedAt,
+    },
+    conflicts,
+  };
+};
+
+/**
+ * Merge two copies of a safe food. Notes follow the most recently updated
+ * copy; usage keeps the highest count and latest use.
+ */
+export const mergeSafeFoods = (
+  local: SafeFood,
+  remote: SafeFood
+): MergeResult<SafeFood> => {
+  const conflicts: ConflictDetail[] = [];
+  const remoteWins = isRemoteNewer(
+    local.updatedAt ?? local.addedDate,
+    remote.updatedAt ?? remote.addedDate
+  );
+  const winner = remoteWins ? remote : local;
+
+  if ((local.notes ?? '') !== (remote.notes ?? '')) {
+    conflicts.push({
+      entityType: 'safeFood',
+      entityId: local.id,
+      field: 'notes',
+      localValue: local.notes,
+      remoteValue: remote.notes,
+      resolvedValue: winner.notes,
+      strategy: 'last_writer_wins',
+    });
+  }
+
+  const lastUsed = latest(local.lastUsed, remote.lastUsed);
+  const updatedAt = latest(local.updatedAt, remote.updatedAt);
+  const merged: SafeFood = {
+    ...local,
+    usageCount: Math.max(local.usageCount, remote.usageCount),
+    ...(lastUsed && { lastUsed }),
+    ...(updatedAt && { updatedAt }),
+  };
+
+  if (winner.notes === undefined) {
+    delete merged.notes;
+  } else {
+    merged.notes = winner.notes;
+  }
+
+  return { merged, conflicts };
+};
@@ -8,28 +8,13 @@
 import { errorReportingService } from '../services/ErrorReportingService';
 import type { AppError, Result } from '../types/comprehensive';
 
+import { ErrorCategory, ErrorSeverity, type ErrorContext } from './errorTypes';
 import { logger } from './logger';
 
-// Error Categories
-export enum ErrorCategory {
-  NETWORK = 'NETWORK',
-  VALIDATION = 'VALIDATION',
-  DATABASE = 'DATABASE',
-  SERVICE = 'SERVICE',
-  AUTHENTICATION = 'AUTHENTICATION',
-  PERMISSION = 'PERMISSION',
-  RATE_LIMIT = 'RATE_LIMIT',
-  TIMEOUT = 'TIMEOUT',
-  UNKNOWN = 'UNKNOWN',
-}
-
-// Error Severity Levels
-export enum ErrorSeverity {
-  LOW = 'LOW',
-  MEDIUM = 'MEDIUM',
-  HIGH = 'HIGH',
-  CRITICAL = 'CRITICAL',
-}
+// Kept here for existing imports; ErrorReportingService reads them from
+// errorTypes so the two modules can load in either order
+export { ErrorCategory, ErrorSeverity };
+export type { ErrorContext };
 
 // Retry Configuration
 export interface RetryConfig {
@@ -40,18 +25,6 @@ export interface RetryConfig {
   retryableErrors: string[]; // Error codes that should be retried
 }
 
-// Error Context
-export interface ErrorContext {
-  userId?: string;
-  sessionId?: string;
-  operation?: string;
-  service?: string;
-  timestamp: Date;
-  userAgent?: string;
-  url?: string;
-  additionalData?: Record<string, unknown>;
-}
-
 // User-Friendly Error Messages
 export interface UserFriendlyError {
   title: string;
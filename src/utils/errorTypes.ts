@@ -0,0 +1,39 @@
+/**
+ * @fileoverview errorTypes.ts - Error categories, severities and context
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+// Error Categories
+export enum ErrorCategory {
+  NETWORK = 'NETWORK',
+  VALIDATION = 'VALIDATION',
+  DATABASE = 'DATABASE',
+  SERVICE = 'SERVICE',
+  AUTHENTICATION = 'AUTHENTICATION',
+  PERMISSION = 'PERMISSION',
+  RATE_LIMIT = 'RATE_LIMIT',
+  TIMEOUT = 'TIMEOUT',
+  UNKNOWN = 'UNKNOWN',
+}
+
+// Error Severity Levels
+export enum ErrorSeverity {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  CRITICAL = 'CRITICAL',
+}
+
+// Error Context
+export interface ErrorContext {
+  userId?: string;
+  sessionId?: string;
+  operation?: string;
+  service?: string;
+  timestamp: Date;
+  userAgent?: string;
+  url?: string;
+  additionalData?: Record<string, unknown>;
+}
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview fodmapClassifier.ts - Per-subgroup FODMAP classification
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  FodmapLevel,
+  FodmapSubgroup,
+  FodmapSubgroupAnalysis,
+  FoodItem,
+} from '../types/comprehensive';
+
+import {
+  flattenIngredients,
+  parseIngredientList,
+  type ParsedIngredient,
+  type ParsedIngredientList,
+} from './ingredientParser';
+import { estimateIngredientGrams } from './portions';
+import { triggerKnowledgeBase, type TriggerRule } from './triggerKnowledgeBase';
+
+type FodmapRule = NonNullable<TriggerRule['fodmap']>;
+
+// A meal's dose of one subgroup, as multiples of the moderate and high
+// thresholds
+interface SubgroupLoad {
+  moderate: number;
+  high: number;
+  ingredients: string[];
+  estimatedGrams?: number;
+}
+
+export const FODMAP_SUBGROUPS: FodmapSubgroup[] = [
+  'fructans',
+  'gos',
+  'lactose',
+  'excess-fructose',
+  'polyols',
+];
+
+const FODMAP_LEVELS: FodmapLevel[] = ['low', 'moderate', 'high'];
+
+// Ingredients are declared in descending order of weight, so without a
+// declared amount the first few are assumed to make up most of the serving
+const MAJOR_INGREDIENT_POSITIONS = 3;
+
+const sortBreakdown = (
+  breakdown: FodmapSubgroupAnalysis[]
+): FodmapSubgroupAnalysis[] =>
+  breakdown.sort(
+    (a, b) =>
+      FODMAP_LEVELS.indexOf(b.level) - FODMAP_LEVELS.indexOf(a.level) ||
+      FODMAP_SUBGROUPS.indexOf(a.subgroup) -
+        FODMAP_SUBGROUPS.indexOf(b.subgroup)
+  );
+
+const maxLevel = (a: FodmapLevel, b: FodmapLevel): FodmapLevel =>
+  FODMAP_LEVELS.indexOf(a) >= FODMAP_LEVELS.indexOf(b) ? a : b;
+
+/**
+ * Walk the tree, tagging each node with the position of its top-level
+ * ancestor in the declaration
+ */
+const withPositions = (
+  ingredients: ParsedIngredient[]
+): Array<{ ingredient: ParsedIngredient; position: number }> => {
+  const visit = (
+    nodes: ParsedIngredient[],
+    position: number | undefined
+  ): Array<{ ingredient: ParsedIngredient; position: number }> =>
+    nodes.flatMap((ingredient, index) => {
+      const own = position ?? index;
+      return [
+        { ingredient, position: own },
+        ...visit(ingredient.children, own),
+      ];
+    });
+
+  return visit(ingredients, undefined);
+};
+
+/**
+ * Classify a food's FODMAP load per subgroup. Declared percentages and the
+ * serving size are compared against each ingredient's serving thresholds;
+ * without them the ingredient's position in the list is used instead.
+ * Given the portion actually eaten, every ingredient's amount is estimated
+ * from it instead. Subgroup levels stored on the food item take precedence.
+ */
+export const classifyFodmaps = (
+  foodItem: Pick<
+    FoodItem,
+    'ingredients' | 'fodmapSubgroups' | 'servingSizeGrams'
+  >,
+  parsed: ParsedIngredientList = parseIngredientList(foodItem.ingredients),
+  portionGrams?: number
+): FodmapSubgroupAnalysis[] => {
+  const results = new Map<FodmapSubgroup, FodmapSubgroupAnalysis>();
+  const servingSizeGrams = portionGrams ?? foodItem.servingSizeGrams;
+  const portionEstimates =
+    portionGrams !== undefined
+      ? estimateIngredientGrams(parsed.ingredients, portionGrams)
+      : undefined;
+
+  withPositions(parsed.ingredients).forEach(({ ingredient, position }) => {
+    triggerKnowledgeBase.match(ingredient.name).forEach(({ rule }) => {
+      if (!rule.fodmap) {
+        return;
+      }
+      const { subgroup, moderateAt, highAt } = rule.fodmap;
+
+      const grams =
+        portionEstimates?.get(ingredient) ??
+        (ingredient.percentage !== undefined && servingSizeGrams !== undefined
+          ? (ingredient.percentage / 100) * servingSizeGrams
+          : undefined);
+
+      let level: FodmapLevel;
+      if (grams !== undefined) {
+        level =
+          grams >= highAt ? 'high' : grams >= moderateAt ? 'moderate' : 'low';
+      } else {
+        level = position < MAJOR_INGREDIENT_POSITIONS ? 'high' : 'moderate';
+      }
+
+      const existing = results.get(subgroup);
+      if (!existing) {
+        results.set(subgroup, {
+          subgroup,
+          level,
+          ingredients: [ingredient.name],
+          ...(grams !== undefined && { estimatedGrams: grams }),
+          ...(servingSizeGrams !== undefined && { servingSizeGrams }),
+        });
+        return;
+      }
+
+      existing.level = maxLevel(existing.level, level);
+      if (!existing.ingredients.includes(ingredient.name)) {
+        existing.ingredients.push(ingredient.name);
+      }
+      if (grams !== undefined) {
+        existing.estimatedGrams = (existing.estimatedGrams ?? 0) + grams;
+      }
+    });
+  });
+
+  // Levels from a curated source override the ingredient-based estimate
+  Object.entries(foodItem.fodmapSubgroups ?? {}).forEach(([key, level]) => {
+    const subgroup = key as FodmapSubgroup;
+    const existing = results.get(subgroup);
+    if (existing) {
+      existing.level = level;
+    } else {
+      results.set(subgroup, {
+        subgroup,
+        level,
+        ingredients: [],
+        ...(servingSizeGrams !== undefined && { servingSizeGrams }),
+      });
+    }
+  });
+
+  return sortBreakdown(Array.from(results.values()));
+};
+
+/**
+ * Classify the combined FODMAP load of several foods eaten together. Each
+ * ingredient's dose is taken as a fraction of its rule's thresholds, and
+ * the fractions are summed per subgroup across the meal, so amounts that
+ * are each below a threshold can add up to a moderate or high load. Curated
+ * subgroup levels count as a full dose at their level; a moderate one also
+ * counts as half a high dose.
+ */
+export const classifyMealFodmaps = (
+  components: Array<{
+    foodItem: Pick<FoodItem, 'ingredients' | 'fodmapSubgroups'>;
+    portionGrams: number;
+  }>
+): FodmapSubgroupAnalysis[] => {
+  const loads = new Map<FodmapSubgroup, SubgroupLoad>();
+  const getLoad = (subgroup: FodmapSubgroup): SubgroupLoad => {
+    const existing = loads.get(subgroup);
+    if (existing) {
+      return existing;
+    }
+    const load: SubgroupLoad = { moderate: 0, high: 0, ingredients: [] };
+    loads.set(subgroup, load);
+    return load;
+  };
+
+  components.forEach(({ foodItem, portionGrams }) => {
+    const curated = foodItem.fodmapSubgroups ?? {};
+    const parsed = parseIngredientList(foodItem.ingredients);
+    const estimates = estimateIngredientGrams(parsed.ingredients, portionGrams);
+
+    // A rule matched by both an ingredient and its sub-ingredients is
+    // counted once, at the larger amount
+    const doses = new Map<
+      string,
+      { name: string; grams: number; fodmap: FodmapRule }
+    >();
+    flattenIngredients(parsed.ingredients).forEach((ingredient) => {
+      const grams = estimates.get(ingredient) ?? 0;
+      triggerKnowledgeBase.match(ingredient.name).forEach(({ rule }) => {
+        if (!rule.fodmap || curated[rule.fodmap.subgroup] !== undefined) {
+          return;
+        }
+        const existing = doses.get(rule.id);
+        if (!existing || grams > existing.grams) {
+          doses.set(rule.id, {
+            name: ingredient.name,
+            grams,
+            fodmap: rule.fodmap,
+          });
+        }
+      });
+    });
+
+    doses.forEach(({ name, grams, fodmap }) => {
+      const load = getLoad(fodmap.subgroup);
+      load.moderate += grams / fodmap.moderateAt;
+      load.high += grams / fodmap.highAt;
+      load.estimatedGrams = (load.estimatedGrams ?? 0) + grams;
+      if (!load.ingredients.includes(name)) {
+        load.ingredients.push(name);
+      }
+    });
+
+    Object.entries(curated).forEach(([key, level]) => {
+      const load = getLoad(key as FodmapSubgroup);
+      load.moderate += level === 'low' ? 0 : 1;
+      load.high += level === 'high' ? 1 : level === 'moderate' ? 0.5 : 0;
+    });
+  });
+
+  const servingSizeGrams = components.reduce(
+    (sum, component) => sum + component.portionGrams,
+    0
+  );
+
+  return sortBreakdown(
+    Array.from(loads.entries()).map(
+      ([subgroup, load]): FodmapSubgroupAnalysis => ({
+        subgroup,
+        level:
+          load.high >= 1 ? 'high' : load.moderate >= 1 ? 'moderate' : 'low',
+        ingredients: load.ingredients,
+        ...(load.estimatedGrams !== undefined && {
+          estimatedGrams: load.estimatedGrams,
+        }),
+        servingSizeGrams,
+      })
+    )
+  );
+};
+
+/**
+ * Overall FODMAP level for a breakdown, i.e. its worst subgroup
+ */
+export const getOverallFodmapLevel = (
+  breakdown: FodmapSubgroupAnalysis[]
+): FodmapLevel =>
+  breakdown.reduce<FodmapLevel>(
+    (acc, item) => maxLevel(acc, item.level),
+    'low'
+  );
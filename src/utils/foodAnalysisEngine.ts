@@ -0,0 +1,598 @@
+/**
+ * @fileoverview foodAnalysisEngine.ts - Network-free ingredient and condition scoring shared by online and offline scans
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  FodmapLevel,
+  FoodItem,
+  GutCondition,
+  GutProfile,
+  HiddenTrigger,
+  IngredientAnalysisResult,
+  MealComponent,
+  ScanAnalysis,
+  ScanResult,
+  SeverityLevel,
+} from '../types';
+
+import {
+  classifyFodmaps,
+  classifyMealFodmaps,
+  getOverallFodmapLevel,
+} from './fodmapClassifier';
+import { flattenIngredients, parseIngredientList } from './ingredientParser';
+import { logger } from './logger';
+import { estimateIngredientGrams } from './portions';
+import {
+  maxSeverity,
+  triggerKnowledgeBase,
+  type PersonalTrigger,
+  type TriggerMatch,
+} from './triggerKnowledgeBase';
+
+export interface FoodAnalysisOptions {
+  dataSource?: string;
+  // Marks the verdict as computed on-device from cached data
+  offline?: boolean;
+  // Grams eaten; FODMAP and histamine thresholds are scaled to it
+  portionGrams?: number;
+}
+
+// Ordered mildest first; used to shift severities by the user's settings
+const SEVERITY_LEVELS: SeverityLevel[] = ['mild', 'moderate', 'severe'];
+
+// Prefix for flagged ingredients that come from "may contain" statements
+const TRACE_PREFIX = 'may contain ';
+
+/**
+ * Get the conditions the user has switched on in their profile
+ */
+const getEnabledConditions = (gutProfile: GutProfile): GutCondition[] =>
+  (Object.keys(gutProfile.conditions) as GutCondition[]).filter(
+    (condition) => gutProfile.conditions[condition].enabled
+  );
+
+/**
+ * Traces are cross-contamination risks, so only allergies keep their full
+ * severity; everything else is treated as mild
+ */
+const downgradeTraceMatch = (match: TriggerMatch): TriggerMatch => ({
+  ...match,
+  triggers: match.triggers.map((trigger) =>
+    trigger.condition === 'allergies'
+      ? trigger
+      : { ...trigger, severity: 'mild' as SeverityLevel }
+  ),
+});
+
+const shiftSeverity = (
+  severity: SeverityLevel,
+  offset: number
+): SeverityLevel => {
+  const index = Math.min(
+    SEVERITY_LEVELS.length - 1,
+    Math.max(0, SEVERITY_LEVELS.indexOf(severity) + offset)
+  );
+  return SEVERITY_LEVELS[index] ?? 'moderate';
+};
+
+/**
+ * Levels to shift a condition's severities by for the user's configured
+ * severity: severe bumps them up a level, mild drops them a level
+ */
+const getSeverityOffset = (
+  setting: GutProfile['conditions'][GutCondition]
+): number =>
+  setting.severity === 'severe' ? 1 : setting.severity === 'mild' ? -1 : 0;
+
+/**
+ * Shift a rule's severity by the user's configured severity for that
+ * condition
+ */
+const weightMatch = (
+  match: TriggerMatch,
+  gutProfile: GutProfile
+): TriggerMatch => ({
+  ...match,
+  triggers: match.triggers.map((trigger) => {
+    const setting = gutProfile.conditions[trigger.condition];
+    if (!setting.enabled) {
+      return trigger;
+    }
+    return {
+      ...trigger,
+      severity: shiftSeverity(trigger.severity, getSeverityOffset(setting)),
+    };
+  }),
+});
+
+/**
+ * Scale FODMAP and histamine triggers by how much of the ingredient was
+ * eaten: below the rule's moderate threshold they become mild, at or above
+ * its high threshold they go up a level
+ */
+const applyPortion = (match: TriggerMatch, grams: number): TriggerMatch => ({
+  ...match,
+  triggers: match.triggers.map((trigger) => {
+    const thresholds =
+      trigger.condition === 'ibs-fodmap'
+        ? match.rule.fodmap
+        : trigger.condition === 'histamine'
+          ? match.rule.histamine
+          : undefined;
+    if (!thresholds) {
+      return trigger;
+    }
+    const level: FodmapLevel =
+      grams >= thresholds.highAt
+        ? 'high'
+        : grams >= thresholds.moderateAt
+          ? 'moderate'
+          : 'low';
+    if (level === 'low') {
+      return { ...trigger, severity: 'mild' as SeverityLevel };
+    }
+    return level === 'high'
+      ? { ...trigger, severity: shiftSeverity(trigger.severity, 1) }
+      : trigger;
+  }),
+});
+
+/**
+ * Adjust FODMAP triggers by the verdict from the reintroduction protocol:
+ * tolerated subgroups become mild, intolerant ones severe
+ */
+const applyFodmapTolerance = (
+  match: TriggerMatch,
+  gutProfile: GutProfile
+): TriggerMatch => {
+  const verdict =
+    match.rule.fodmap &&
+    gutProfile.fodmapTolerance?.[match.rule.fodmap.subgroup];
+  if (!verdict || verdict === 'partial') {
+    return match;
+  }
+  const severity: SeverityLevel = verdict === 'tolerated' ? 'mild' : 'severe';
+  return {
+    ...match,
+    triggers: match.triggers.map((trigger) =>
+      trigger.condition === 'ibs-fodmap' ? { ...trigger, severity } : trigger
+    ),
+  };
+};
+
+/**
+ * Conditions a "free from" label on the food rules out
+ */
+const getLabelledFreeConditions = (foodItem: FoodItem): GutCondition[] => [
+  ...(foodItem.glutenFree ? (['gluten'] as const) : []),
+  ...(foodItem.lactoseFree ? (['lactose'] as const) : []),
+];
+
+/**
+ * Analyze a food's ingredients, declared traces and additives for gut
+ * health using the trigger knowledge base and the user's own known triggers.
+ * With a portion, each ingredient's dose is estimated and weighed too.
+ */
+const analyzeIngredients = (
+  foodItem: FoodItem,
+  gutProfile: GutProfile,
+  portionGrams?: number
+): {
+  flagged: IngredientAnalysisResult[];
+  hidden: HiddenTrigger[];
+  confidence: number;
+} => {
+  const flagged: IngredientAnalysisResult[] = [];
+  const hidden: HiddenTrigger[] = [];
+
+  const enabledConditions = getEnabledConditions(gutProfile);
+  const personalTriggers: PersonalTrigger[] = enabledConditions.flatMap(
+    (condition) =>
+      gutProfile.conditions[condition].knownTriggers.map((term) => ({
+        term,
+        condition,
+        severity: gutProfile.conditions[condition].severity,
+      }))
+  );
+
+  // Labelled free-from foods are only checked against the user's own triggers
+  const labelledFree = getLabelledFreeConditions(foodItem);
+  const ruleConditions = enabledConditions.filter(
+    (condition) => !labelledFree.includes(condition)
+  );
+
+  const parsed = parseIngredientList(foodItem.ingredients);
+  const ingredientNodes = flattenIngredients(parsed.ingredients);
+  const ingredientList = ingredientNodes.map((ingredient) => ingredient.name);
+  const ingredientGrams =
+    portionGrams !== undefined
+      ? estimateIngredientGrams(parsed.ingredients, portionGrams)
+      : undefined;
+  const traces = Array.from(
+    new Map(
+      [...parsed.traces, ...(foodItem.traces ?? [])].map((trace) => [
+        trace.toLowerCase(),
+        trace,
+      ])
+    ).values()
+  );
+  const matchedRules = new Set<string>();
+
+  const analyzeTerm = (
+    ingredient: string,
+    isTrace: boolean,
+    isAdditive: boolean = false,
+    grams?: number
+  ): void => {
+    let matches = [
+      // Nothing is left to check by rule when every condition is labelled free
+      ...(ruleConditions.length > 0
+        ? triggerKnowledgeBase.match(ingredient, ruleConditions)
+        : []
+      )
+        .map((match) => weightMatch(match, gutProfile))
+        .map((match) =>
+          grams !== undefined ? applyPortion(match, grams) : match
+        )
+        .map((match) => applyFodmapTolerance(match, gutProfile)),
+      ...triggerKnowledgeBase.matchPersonal(ingredient, personalTriggers),
+    ];
+    // Additives are often also named in the ingredient list
+    if (
+      matches.length === 0 ||
+      (isAdditive && matches.every((match) => matchedRules.has(match.rule.id)))
+    ) {
+      return;
+    }
+    if (!isTrace) {
+      matches.forEach((match) => matchedRules.add(match.rule.id));
+    }
+    if (isTrace) {
+      matches = matches.map((match) => downgradeTraceMatch(match));
+    }
+
+    const detectedTriggers = triggerKnowledgeBase
+      .collectTriggers(matches)
+      .sort(
+        (a, b) =>
+          SEVERITY_LEVELS.indexOf(b.severity) -
+          SEVERITY_LEVELS.indexOf(a.severity)
+      );
+    const hiddenMatches = matches.filter((match) => match.rule.hidden);
+    hidden.push(...triggerKnowledgeBase.collectTriggers(hiddenMatches));
+
+    const worst = detectedTriggers.reduce<SeverityLevel>(
+      (acc, trigger) => maxSeverity(acc, trigger.severity),
+      'mild'
+    );
+    const riskLevel: IngredientAnalysisResult['riskLevel'] =
+      worst === 'severe' ? 'severe' : worst === 'moderate' ? 'moderate' : 'low';
+
+    // Prefer the personal match category so the user sees why it was flagged
+    const primaryMatch =
+      matches.find((match) => match.matchType === 'personal') ?? matches[0];
+
+    flagged.push({
+      ingredient: isTrace ? `${TRACE_PREFIX}${ingredient}` : ingredient,
+      isProblematic: true,
+      isHidden: isTrace || hiddenMatches.length > 0,
+      detectedTriggers,
+      confidence: Math.max(...matches.map((match) => match.confidence)),
+      category: primaryMatch?.rule.category ?? 'unknown',
+      riskLevel,
+      recommendations: {
+        avoid: worst === 'severe',
+        caution: worst !== 'severe',
+        alternatives: Array.from(
+          new Set(matches.flatMap((match) => match.rule.alternatives ?? []))
+        ),
+        modifications: [],
+      },
+    });
+  };
+
+  ingredientNodes.forEach((ingredient) =>
+    analyzeTerm(ingredient.name, false, false, ingredientGrams?.get(ingredient))
+  );
+  foodItem.additives.forEach((additive) => analyzeTerm(additive, false, true));
+  traces.forEach((trace) => analyzeTerm(trace, true));
+
+  // An empty ingredient list gives little evidence either way
+  const confidence =
+    ingredientList.length === 0
+      ? 0.3
+      : flagged.length > 0
+        ? flagged.reduce((sum, f) => sum + f.confidence, 0) / flagged.length
+        : 0.8;
+
+  logger.debug('Ingredients analyzed', 'FoodAnalysisEngine', {
+    knowledgeBaseVersion: triggerKnowledgeBase.getVersion(),
+    enabledConditions,
+    personalTriggerCount: personalTriggers.length,
+    ingredientCount: ingredientList.length,
+    traceCount: traces.length,
+    additiveCount: foodItem.additives.length,
+    flaggedCount: flagged.length,
+    hiddenCount: hidden.length,
+  });
+
+  return {
+    flagged,
+    hidden,
+    confidence,
+  };
+};
+
+/**
+ * Build one warning per condition, naming the worst ingredient for it.
+ * Sorted worst first so the first warning explains the verdict.
+ */
+const buildConditionWarnings = (
+  flagged: IngredientAnalysisResult[]
+): ScanAnalysis['conditionWarnings'] => {
+  const byCondition = new Map<
+    GutCondition,
+    ScanAnalysis['conditionWarnings'][number]
+  >();
+
+  flagged.forEach((ing) => {
+    ing.detectedTriggers.forEach((trigger) => {
+      const existing = byCondition.get(trigger.condition);
+      if (
+        !existing ||
+        SEVERITY_LEVELS.indexOf(trigger.severity) >
+          SEVERITY_LEVELS.indexOf(existing.severity)
+      ) {
+        byCondition.set(trigger.condition, {
+          ingredient: ing.ingredient,
+          severity: trigger.severity,
+          condition: trigger.condition,
+        });
+      }
+    });
+  });
+
+  return Array.from(byCondition.values()).sort(
+    (a, b) =>
+      SEVERITY_LEVELS.indexOf(b.severity) - SEVERITY_LEVELS.indexOf(a.severity)
+  );
+};
+
+/**
+ * Summarize which condition drove the verdict
+ */
+const buildExplanation = (analysis: ScanAnalysis): string => {
+  const driver = analysis.conditionWarnings[0];
+  if (!driver) {
+    return 'No triggers found for your gut profile';
+  }
+  const others = analysis.conditionWarnings.length - 1;
+  return (
+    `${driver.ingredient} is a ${driver.severity} trigger for ${driver.condition}` +
+    (others > 0
+      ? ` (${others} other condition${others === 1 ? '' : 's'} also affected)`
+      : '')
+  );
+};
+
+/**
+ * Calculate overall risk from analysis
+ */
+const calculateOverallRisk = (analysis: {
+  flagged: IngredientAnalysisResult[];
+}): ScanResult => {
+  if (analysis.flagged.length === 0) {
+    return 'safe';
+  }
+  if (analysis.flagged.some((f) => f.riskLevel === 'severe')) {
+    return 'avoid';
+  }
+  if (analysis.flagged.some((f) => f.riskLevel === 'moderate')) {
+    return 'caution';
+  }
+  return 'safe';
+};
+
+/**
+ * Analyze a food against the user's gut profile. Uses only the food item and
+ * local rules, so it gives the same verdict online and offline.
+ */
+export const analyzeFoodItem = (
+  foodItem: FoodItem,
+  gutProfile: GutProfile,
+  options: FoodAnalysisOptions = {}
+): ScanAnalysis => {
+  const analysis: ScanAnalysis = {
+    overallSafety: 'safe' as ScanResult,
+    flaggedIngredients: [],
+    conditionWarnings: [],
+    // Finding them needs other products; FoodService fills them in
+    safeAlternatives: [],
+    explanation: '',
+    dataSource: options.dataSource ?? 'FoodService',
+    lastUpdated: new Date(),
+    ...(options.offline && { isOffline: true }),
+    ...(options.portionGrams !== undefined && {
+      portionGrams: options.portionGrams,
+    }),
+  };
+
+  // Analyze ingredients
+  if (foodItem.ingredients) {
+    const ingredientAnalysis = analyzeIngredients(
+      foodItem,
+      gutProfile,
+      options.portionGrams
+    );
+    analysis.flaggedIngredients = ingredientAnalysis.flagged.map((ing) => ({
+      ingredient: ing.ingredient,
+      reason: ing.ingredient.startsWith(TRACE_PREFIX)
+        ? `Possible ${ing.category} cross-contamination`
+        : ing.category === 'personal'
+          ? 'Listed in your known triggers'
+          : ing.isHidden
+            ? `Hidden ${ing.category} trigger`
+            : `Contains ${ing.category} trigger`,
+      severity:
+        ing.riskLevel === 'severe'
+          ? 'severe'
+          : ing.riskLevel === 'moderate'
+            ? 'moderate'
+            : 'mild',
+      // detectedTriggers is sorted worst first
+      condition:
+        ing.detectedTriggers[0]?.condition ?? ('ibs-fodmap' as GutCondition),
+    }));
+    analysis.conditionWarnings = buildConditionWarnings(
+      ingredientAnalysis.flagged
+    );
+    analysis.overallSafety = calculateOverallRisk(ingredientAnalysis);
+
+    // Per-subgroup breakdown so reintroduction phases can be told apart
+    const enabledConditions = getEnabledConditions(gutProfile);
+    if (
+      enabledConditions.length === 0 ||
+      enabledConditions.includes('ibs-fodmap')
+    ) {
+      const tolerance = gutProfile.fodmapTolerance ?? {};
+      analysis.fodmapBreakdown = classifyFodmaps(
+        foodItem,
+        undefined,
+        options.portionGrams
+      ).map((item) => {
+        const verdict = tolerance[item.subgroup];
+        return verdict ? { ...item, tolerance: verdict } : item;
+      });
+    }
+  }
+
+  analysis.explanation = buildExplanation(analysis);
+
+  return analysis;
+};
+
+/**
+ * Analyze several foods eaten together as one meal. Each component is
+ * analyzed at its own portion, then FODMAP doses are summed across the
+ * meal: a subgroup that only reaches a moderate or high load once the
+ * components are stacked is flagged on its own and can raise the verdict.
+ */
+export const analyzeMeal = (
+  components: MealComponent[],
+  gutProfile: GutProfile,
+  options: FoodAnalysisOptions = {}
+): ScanAnalysis => {
+  const componentAnalyses = components.map(({ foodItem, portion }) =>
+    analyzeFoodItem(foodItem, gutProfile, {
+      ...options,
+      portionGrams: portion.grams,
+    })
+  );
+  const portionGrams = components.reduce(
+    (sum, { portion }) => sum + portion.grams,
+    0
+  );
+
+  const analysis: ScanAnalysis = {
+    overallSafety: 'safe' as ScanResult,
+    flaggedIngredients: componentAnalyses.flatMap(
+      (item) => item.flaggedIngredients
+    ),
+    conditionWarnings: [],
+    safeAlternatives: [],
+    explanation: '',
+    dataSource: options.dataSource ?? 'FoodService',
+    lastUpdated: new Date(),
+    ...(options.offline && { isOffline: true }),
+    portionGrams,
+  };
+
+  const enabledConditions = getEnabledConditions(gutProfile);
+  const checksFodmaps =
+    enabledConditions.length === 0 || enabledConditions.includes('ibs-fodmap');
+  if (checksFodmaps) {
+    const tolerance = gutProfile.fodmapTolerance ?? {};
+    analysis.fodmapBreakdown = classifyMealFodmaps(
+      components.map(({ foodItem, portion }) => ({
+        foodItem,
+        portionGrams: portion.grams,
+      }))
+    ).map((item) => {
+      const verdict = tolerance[item.subgroup];
+      return verdict ? { ...item, tolerance: verdict } : item;
+    });
+  }
+
+  // Only flag loads no single component reaches on its own
+  const fodmapSetting = gutProfile.conditions['ibs-fodmap'];
+  const stacked: ScanAnalysis['flaggedIngredients'] = fodmapSetting.enabled
+    ? (analysis.fodmapBreakdown ?? [])
+        .filter((item) => {
+          const componentLevel = getOverallFodmapLevel(
+            componentAnalyses.flatMap(({ fodmapBreakdown }) =>
+              (fodmapBreakdown ?? []).filter(
+                (own) => own.subgroup === item.subgroup
+              )
+            )
+          );
+          return (
+            item.level !== 'low' &&
+            item.level !== componentLevel &&
+            componentLevel !== 'high' &&
+            item.tolerance !== 'tolerated'
+          );
+        })
+        .map((item) => ({
+          ingredient: item.ingredients.join(' + ') || item.subgroup,
+          reason: `Stacked ${item.subgroup} load across the meal`,
+          severity:
+            item.tolerance === 'not_tolerated'
+              ? 'severe'
+              : shiftSeverity(
+                  item.level === 'high' ? 'severe' : 'moderate',
+                  getSeverityOffset(fodmapSetting)
+                ),
+          condition: 'ibs-fodmap' as GutCondition,
+        }))
+    : [];
+  analysis.flaggedIngredients.push(...stacked);
+
+  // Worst warning per condition across the components and stacked loads
+  const warnings = new Map<
+    GutCondition,
+    ScanAnalysis['conditionWarnings'][number]
+  >();
+  [
+    ...componentAnalyses.flatMap((item) => item.conditionWarnings),
+    ...stacked,
+  ].forEach(({ ingredient, severity, condition }) => {
+    const existing = warnings.get(condition);
+    if (
+      !existing ||
+      SEVERITY_LEVELS.indexOf(severity) >
+        SEVERITY_LEVELS.indexOf(existing.severity)
+    ) {
+      warnings.set(condition, { ingredient, severity, condition });
+    }
+  });
+  analysis.conditionWarnings = Array.from(warnings.values()).sort(
+    (a, b) =>
+      SEVERITY_LEVELS.indexOf(b.severity) - SEVERITY_LEVELS.indexOf(a.severity)
+  );
+
+  analysis.overallSafety = analysis.flaggedIngredients.some(
+    (item) => item.severity === 'severe'
+  )
+    ? 'avoid'
+    : analysis.flaggedIngredients.some((item) => item.severity === 'moderate')
+      ? 'caution'
+      : 'safe';
+
+  analysis.explanation = buildExplanation(analysis);
+
+  return analysis;
+};
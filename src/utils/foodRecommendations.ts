@@ -0,0 +1,218 @@
+/**
+ * @fileoverview foodRecommendations.ts - Ranks foods to recommend from what the user already eats without symptoms
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  FoodItem,
+  GutCondition,
+  GutProfile,
+  GutSymptom,
+  SafeFood,
+  ScanHistory,
+} from '../types';
+import type { FoodRecommendation } from '../types/comprehensive';
+
+import { analyzeFoodItem } from './foodAnalysisEngine';
+import { DEFAULT_LAG_WINDOWS } from './symptomCorrelation';
+
+// What the user has eaten and how they felt afterwards
+export interface RecommendationHistory {
+  safeFoods: SafeFood[];
+  scanHistory: ScanHistory[];
+  symptoms: GutSymptom[];
+}
+
+export type FreeFromKind = 'low-fodmap' | 'gluten-free' | 'lactose-free';
+
+// Why a food was put forward as a candidate
+export type CandidateSource =
+  | { kind: 'similar'; seed: FoodItem; timesEaten: number }
+  | { kind: FreeFromKind };
+
+export interface RecommendationCandidate {
+  foodItem: FoodItem;
+  source: CandidateSource;
+}
+
+// Free-from lists worth searching for each condition
+export const FREE_FROM_CONDITIONS: Record<FreeFromKind, GutCondition> = {
+  'low-fodmap': 'ibs-fodmap',
+  'gluten-free': 'gluten',
+  'lactose-free': 'lactose',
+};
+
+const FREE_FROM_REASONS: Record<FreeFromKind, string> = {
+  'low-fodmap': 'low FODMAP',
+  'gluten-free': 'gluten-free',
+  'lactose-free': 'lactose-free',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A scan counts as symptom-free when nothing was logged in the longest
+// window the symptom correlation looks at
+const SYMPTOM_WINDOW_MS =
+  Math.max(...DEFAULT_LAG_WINDOWS.map((window) => window.endHours)) * HOUR_MS;
+
+// Chance each kind of evidence alone makes a good recommendation; combined
+// as independent signals
+const EVIDENCE_WEIGHTS = {
+  // Passes the analysis engine against the user's profile
+  profileCheck: 0.2,
+  // Approached as times eaten grows
+  similar: 0.6,
+  freeFrom: 0.25,
+  preferred: 0.3,
+};
+
+// Without ingredients the profile check proves little
+const NO_INGREDIENTS_FACTOR = 0.5;
+
+interface Evidence {
+  weight: number;
+  reason: string;
+}
+
+/**
+ * Foods the user eats without symptoms, most eaten first: safe foods by
+ * usage, plus scans with no symptoms logged afterwards
+ */
+export const getSymptomFreeFoods = (
+  history: RecommendationHistory
+): Array<{ foodItem: FoodItem; timesEaten: number }> => {
+  const symptomTimes = history.symptoms.map((symptom) =>
+    new Date(symptom.timestamp).getTime()
+  );
+  const foods = new Map<string, { foodItem: FoodItem; timesEaten: number }>();
+  const add = (foodItem: FoodItem, times: number): void => {
+    const existing = foods.get(foodItem.id);
+    foods.set(foodItem.id, {
+      foodItem,
+      timesEaten: (existing?.timesEaten ?? 0) + times,
+    });
+  };
+
+  history.safeFoods.forEach(({ foodItem, usageCount }) =>
+    add(foodItem, Math.max(1, usageCount))
+  );
+  history.scanHistory.forEach((scan) => {
+    const time = new Date(scan.timestamp).getTime();
+    const followedBySymptoms = symptomTimes.some(
+      (symptomTime) =>
+        symptomTime >= time && symptomTime < time + SYMPTOM_WINDOW_MS
+    );
+    if (!followedBySymptoms && scan.analysis.overallSafety !== 'avoid') {
+      add(scan.foodItem, 1);
+    }
+  });
+
+  return Array.from(foods.values()).sort((a, b) => b.timesEaten - a.timesEaten);
+};
+
+const describeSource = (source: CandidateSource): Evidence => {
+  if (source.kind !== 'similar') {
+    return {
+      weight: EVIDENCE_WEIGHTS.freeFrom,
+      reason: FREE_FROM_REASONS[source.kind],
+    };
+  }
+  const { seed, timesEaten } = source;
+  return {
+    weight: (EVIDENCE_WEIGHTS.similar * timesEaten) / (timesEaten + 2),
+    reason: `similar to ${seed.name}, which you've had ${timesEaten} time${
+      timesEaten === 1 ? '' : 's'
+    } without symptoms`,
+  };
+};
+
+/**
+ * Rank candidate foods for the user. Candidates the user already eats,
+ * or that the analysis engine does not rate safe for their profile, are
+ * dropped. Confidence combines the evidence for each food; the reason
+ * names the strongest pieces of it.
+ */
+export const rankRecommendations = (
+  candidates: RecommendationCandidate[],
+  gutProfile: GutProfile,
+  history: RecommendationHistory,
+  limit: number = 10
+): FoodRecommendation[] => {
+  const known = new Set([
+    ...history.safeFoods.map(({ foodItem }) => foodItem.id),
+    ...history.scanHistory.map(({ foodItem }) => foodItem.id),
+  ]);
+  const preferred = gutProfile.preferences.preferredAlternatives
+    .map((term) => term.trim().toLowerCase())
+    .filter((term) => term !== '');
+
+  const byFood = new Map<
+    string,
+    { foodItem: FoodItem; evidence: Evidence[] }
+  >();
+  candidates.forEach(({ foodItem, source }) => {
+    if (known.has(foodItem.id)) {
+      return;
+    }
+    const entry = byFood.get(foodItem.id) ?? { foodItem, evidence: [] };
+    entry.evidence.push(describeSource(source));
+    byFood.set(foodItem.id, entry);
+  });
+
+  const recommendations: FoodRecommendation[] = [];
+  byFood.forEach(({ foodItem, evidence }) => {
+    if (analyzeFoodItem(foodItem, gutProfile).overallSafety !== 'safe') {
+      return;
+    }
+
+    const searchText =
+      `${foodItem.name} ${foodItem.category ?? ''}`.toLowerCase();
+    const preferredTerm = preferred.find((term) => searchText.includes(term));
+    const allEvidence = [
+      ...evidence,
+      ...(preferredTerm !== undefined
+        ? [
+            {
+              weight: EVIDENCE_WEIGHTS.preferred,
+              reason: `one of your preferred alternatives (${preferredTerm})`,
+            },
+          ]
+        : []),
+      {
+        weight: EVIDENCE_WEIGHTS.profileCheck,
+        reason: 'no triggers for your gut profile',
+      },
+    ].sort((a, b) => b.weight - a.weight);
+
+    const combined =
+      1 - allEvidence.reduce((acc, { weight }) => acc * (1 - weight), 1);
+    const confidence =
+      combined *
+      (foodItem.ingredients.length === 0 ? NO_INGREDIENTS_FACTOR : 1);
+
+    const reason = allEvidence
+      .slice(0, 2)
+      .map((item) => item.reason)
+      .join('; ');
+
+    recommendations.push({
+      id: foodItem.id,
+      name: foodItem.name,
+      reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+      confidence: Math.round(confidence * 100) / 100,
+      category: foodItem.category ?? 'Other',
+      nutritionalValue: {
+        calories: foodItem.nutrition?.calories ?? 0,
+        protein: foodItem.nutrition?.protein ?? 0,
+        carbs: foodItem.nutrition?.carbs ?? 0,
+        fat: foodItem.nutrition?.fat ?? 0,
+      },
+    });
+  });
+
+  return recommendations
+    .sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
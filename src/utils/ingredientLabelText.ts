@@ -0,0 +1,103 @@
+/**
+ * @fileoverview ingredientLabelText.ts - Finding and cleaning the ingredient paragraph in text read from a label photo
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+export interface IngredientLabel {
+  // The ingredient paragraph on one line, without its heading
+  ingredientsText: string;
+  // Allergens named in a "Contains:" statement
+  allergens: string[];
+}
+
+// "Ingredients:" in the languages OpenFoodFacts labels are commonly in. The
+// heading either ends in a colon or stands on a line of its own.
+const HEADING_WORDS =
+  '(?:ingredients?|ingr[e\u00e9]dients|zutaten|ingredientes|ingredienti)';
+const HEADING_PATTERN = new RegExp(
+  `\\b${HEADING_WORDS}[^\\S\\n]*[:;]|^[^\\S\\n]*${HEADING_WORDS}[^\\S\\n]*\\.?[^\\S\\n]*$`,
+  'im'
+);
+
+// Lines that start the next section of the label
+const SECTION_PATTERN =
+  /^(?:allergy\s+advice|allergens?\s*:|nutrition|typical\s+values|serving\s+size|storage|store\s|keep\s+refrigerated|refrigerate|once\s+opened|best\s+before|use\s+by|directions|preparation|net\s+w|distributed\s+by|manufactured\s+for|produced\s+for|packed\s+for)/i;
+
+// "Contains: milk, soy." at the start of a sentence. "Contains 2% or less of"
+// belongs to the ingredient list and is left alone.
+const CONTAINS_PATTERN =
+  /(^|[.;]\s*)contains\b(?!\s*(?:\d|less|not\s+more))\s*:?\s*([^.;]*)[.;]?/i;
+
+const ALLERGEN_SEPARATOR_PATTERN = /,|&|\band\b/i;
+
+/**
+ * Join the lines OCR breaks a label into. Words hyphenated across a line
+ * break are rejoined, bullets become commas and stray spacing around
+ * punctuation is removed.
+ */
+export const cleanLabelText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(
+      /([a-z\u00e0-\u00ff])[-\u2010\u00ad]\s*\n\s*([a-z\u00e0-\u00ff])/gi,
+      '$1$2'
+    )
+    .replace(/\s*[•·●▪]\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:)\]])/g, '$1')
+    .replace(/([([])\s+/g, '$1')
+    .replace(/,(?:\s*,)+/g, ',')
+    .replace(/^[\s,;:]+|[\s,;]+$/g, '');
+
+const splitAllergens = (statement: string): string[] =>
+  statement
+    .split(ALLERGEN_SEPARATOR_PATTERN)
+    .map((allergen) => allergen.trim().toLowerCase())
+    .filter((allergen) => allergen.length > 0);
+
+/**
+ * Find the ingredient paragraph in the text read from a label. The
+ * paragraph runs from the "Ingredients" heading to the next blank line or
+ * section of the label. Precautionary "may contain" statements are kept for
+ * the ingredient parser; a "Contains:" statement is taken out and returned
+ * as allergens. Returns null when the text has no ingredient list.
+ */
+export const extractIngredientLabel = (
+  ocrText: string
+): IngredientLabel | null => {
+  const text = ocrText.replace(/\r\n?/g, '\n');
+  const heading = HEADING_PATTERN.exec(text);
+  if (!heading) {
+    return null;
+  }
+
+  const body = text.slice(heading.index + heading[0].length).split('\n');
+  const lines: string[] = [];
+  for (const line of body) {
+    if (SECTION_PATTERN.test(line.trim())) {
+      break;
+    }
+    if (line.trim() === '') {
+      if (lines.length > 0) {
+        break;
+      }
+      continue;
+    }
+    lines.push(line);
+  }
+
+  let allergens: string[] = [];
+  const ingredientsText = cleanLabelText(
+    cleanLabelText(lines.join('\n')).replace(
+      CONTAINS_PATTERN,
+      (_match, before: string, statement: string) => {
+        allergens = splitAllergens(statement);
+        return `${before} `;
+      }
+    )
+  );
+
+  return ingredientsText === '' ? null : { ingredientsText, allergens };
+};
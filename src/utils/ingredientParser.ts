@@ -0,0 +1,223 @@
+/**
+ * @fileoverview ingredientParser.ts - Compound ingredient list parser
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import { normalizeIngredientText } from './triggerKnowledgeBase';
+
+// A single declared ingredient and any sub-ingredients it lists
+export interface ParsedIngredient {
+  name: string;
+  normalized: string;
+  percentage?: number;
+  children: ParsedIngredient[];
+}
+
+// Result of parsing a full ingredient declaration
+export interface ParsedIngredientList {
+  ingredients: ParsedIngredient[];
+  traces: string[];
+}
+
+const OPENING_BRACKETS = '([{';
+const CLOSING_BRACKETS = ')]}';
+
+const LABEL_PREFIX_PATTERN = /^\s*ingr[eé]dients?\s*[:-]\s*/i;
+
+// Precautionary allergen statements. The capture group holds the trace list.
+const TRACE_PATTERN =
+  /\b(?:may\s+(?:also\s+)?contain(?:\s+traces?\s+of)?|(?:contains\s+)?traces?\s+of|(?:produced|made|manufactured|packed)\s+(?:in|on)\s+(?:a\s+)?(?:facility|factory|site|equipment|line)\s+(?:that|which)\s+(?:also\s+)?(?:handles|processes|uses))\s*:?\s*([^.;()[\]{}]*)/gi;
+
+const TRACE_SEPARATOR_PATTERN = /,|\/|\band\b|\bor\b/i;
+
+const PERCENTAGE_PATTERN = /(\d+(?:[.,]\d+)?)\s*%/;
+const PERCENTAGE_ONLY_PATTERN = /^\s*(?:min\.?\s*)?(\d+(?:[.,]\d+)?)\s*%\s*$/i;
+
+const isDigit = (char: string | undefined): boolean =>
+  char !== undefined && char >= '0' && char <= '9';
+
+const parsePercentage = (value: string): number =>
+  parseFloat(value.replace(',', '.'));
+
+const cleanName = (text: string): string =>
+  text
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:and|&)\s+/i, '')
+    .replace(/[\s.:*]+$/, '')
+    .trim();
+
+/**
+ * Split text on top-level commas and semicolons, leaving bracketed groups and
+ * decimal commas ("12,5%") intact
+ */
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (OPENING_BRACKETS.includes(char)) {
+      depth++;
+    } else if (CLOSING_BRACKETS.includes(char)) {
+      depth = Math.max(0, depth - 1);
+    }
+
+    const isSeparator =
+      depth === 0 &&
+      (char === ';' ||
+        (char === ',' && !(isDigit(text[i - 1]) && isDigit(text[i + 1]))));
+
+    if (isSeparator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter((part) => part.length > 0);
+};
+
+/**
+ * Pull out every top-level bracket group, returning the text outside the
+ * groups and the contents of each group
+ */
+const extractGroups = (text: string): { outside: string; groups: string[] } => {
+  const groups: string[] = [];
+  let outside = '';
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (OPENING_BRACKETS.includes(char)) {
+      if (depth > 0) {
+        current += char;
+      }
+      depth++;
+    } else if (CLOSING_BRACKETS.includes(char) && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        groups.push(current);
+        current = '';
+        outside += ' ';
+      } else {
+        current += char;
+      }
+    } else if (depth > 0) {
+      current += char;
+    } else {
+      outside += char;
+    }
+  }
+
+  // Unbalanced brackets: treat the dangling text as a group
+  if (current.trim().length > 0) {
+    groups.push(current);
+  }
+
+  return { outside, groups };
+};
+
+const parseSegment = (segment: string): ParsedIngredient | null => {
+  const { outside, groups } = extractGroups(segment);
+  let percentage: number | undefined;
+  const children: ParsedIngredient[] = [];
+
+  groups.forEach((group) => {
+    const percentageOnly = PERCENTAGE_ONLY_PATTERN.exec(group);
+    if (percentageOnly?.[1] !== undefined) {
+      percentage = parsePercentage(percentageOnly[1]);
+      return;
+    }
+    children.push(...parseItems(group));
+  });
+
+  let nameText = outside;
+  const inlinePercentage = PERCENTAGE_PATTERN.exec(nameText);
+  if (inlinePercentage?.[1] !== undefined) {
+    percentage ??= parsePercentage(inlinePercentage[1]);
+    nameText = nameText.replace(PERCENTAGE_PATTERN, ' ');
+  }
+
+  // "Emulsifier: soy lecithin" declares a class name followed by its members
+  if (groups.length === 0 && nameText.includes(':')) {
+    const [label = '', ...rest] = nameText.split(':');
+    const members = rest.join(':');
+    if (cleanName(members).length > 0) {
+      nameText = label;
+      children.push(...parseItems(members));
+    }
+  }
+
+  const name = cleanName(nameText);
+  if (name.length === 0) {
+    return children.length === 1 ? (children[0] ?? null) : null;
+  }
+
+  return {
+    name,
+    normalized: normalizeIngredientText(name),
+    ...(percentage !== undefined && { percentage }),
+    children,
+  };
+};
+
+const parseItems = (text: string): ParsedIngredient[] =>
+  splitTopLevel(text)
+    .map(parseSegment)
+    .filter((item): item is ParsedIngredient => item !== null);
+
+/**
+ * Remove precautionary "may contain" statements from the text, returning the
+ * remaining declaration and the normalized trace names
+ */
+const extractTraces = (text: string): { text: string; traces: string[] } => {
+  const traces: string[] = [];
+  const remaining = text.replace(TRACE_PATTERN, (_match, list: string) => {
+    list
+      .split(TRACE_SEPARATOR_PATTERN)
+      .map(normalizeIngredientText)
+      .filter((trace) => trace.length > 0)
+      .forEach((trace) => {
+        if (!traces.includes(trace)) {
+          traces.push(trace);
+        }
+      });
+    return '';
+  });
+
+  return { text: remaining, traces };
+};
+
+/**
+ * Parse an ingredient declaration into a tree of ingredients and
+ * sub-ingredients, with any "may contain" traces listed separately
+ */
+export const parseIngredientList = (
+  input: string | string[]
+): ParsedIngredientList => {
+  const raw = Array.isArray(input) ? input.join(', ') : input;
+  const { text, traces } = extractTraces(
+    raw.replace(/\s+/g, ' ').replace(LABEL_PREFIX_PATTERN, '')
+  );
+
+  return {
+    ingredients: parseItems(text),
+    traces,
+  };
+};
+
+/**
+ * Flatten a parsed tree depth-first, parents before their children
+ */
+export const flattenIngredients = (
+  ingredients: ParsedIngredient[]
+): ParsedIngredient[] =>
+  ingredients.flatMap((ingredient) => [
+    ingredient,
+    ...flattenIngredients(ingredient.children),
+  ]);
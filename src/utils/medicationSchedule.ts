@@ -0,0 +1,164 @@
+/**
+ * @fileoverview medicationSchedule.ts - Dose schedules and adherence
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { MedicationSupplement } from '../types/comprehensive';
+
+type DoseFrequency = MedicationSupplement['frequency'];
+
+// A logged intake, as much of MedicationLog as adherence needs
+export interface DoseRecord {
+  takenAt: Date;
+}
+
+export interface AdherenceOptions {
+  from?: Date;
+  to?: Date;
+  // How far either side of the scheduled time a dose still counts
+  toleranceHours?: number;
+}
+
+export interface MedicationAdherence {
+  medicationId: string;
+  expectedDoses: number;
+  takenDoses: number;
+  missedDoses: Date[];
+  adherence: number; // 0-1
+  currentStreak: number;
+  longestStreak: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours between doses; as-needed medications have no schedule
+const DOSE_INTERVAL_HOURS: Record<
+  Exclude<DoseFrequency, 'monthly' | 'as_needed'>,
+  number
+> = {
+  twice_daily: 12,
+  daily: 24,
+  weekly: 24 * 7,
+};
+
+const DEFAULT_TOLERANCE_HOURS: Record<DoseFrequency, number> = {
+  twice_daily: 3,
+  daily: 6,
+  weekly: 24,
+  monthly: 72,
+  as_needed: 0,
+};
+
+const nextDose = (
+  date: Date,
+  frequency: Exclude<DoseFrequency, 'as_needed'>
+): Date => {
+  if (frequency === 'monthly') {
+    const next = new Date(date);
+    next.setMonth(next.getMonth() + 1);
+    return next;
+  }
+  return new Date(date.getTime() + DOSE_INTERVAL_HOURS[frequency] * HOUR_MS);
+};
+
+/**
+ * Expand a medication into the doses expected between two dates. Doses are
+ * anchored on the start date's time of day and stop at the end date.
+ */
+export const expandDoseSchedule = (
+  medication: Pick<MedicationSupplement, 'frequency' | 'startDate' | 'endDate'>,
+  from: Date,
+  to: Date
+): Date[] => {
+  const { frequency } = medication;
+  if (frequency === 'as_needed') {
+    return [];
+  }
+
+  const startDate = new Date(medication.startDate);
+  const end =
+    medication.endDate !== undefined
+      ? Math.min(new Date(medication.endDate).getTime(), to.getTime())
+      : to.getTime();
+
+  const doses: Date[] = [];
+  for (
+    let dose = startDate;
+    dose.getTime() <= end;
+    dose = nextDose(dose, frequency)
+  ) {
+    if (dose >= from) {
+      doses.push(dose);
+    }
+  }
+  return doses;
+};
+
+/**
+ * Match logged doses against the schedule and report adherence. Each log
+ * counts for at most one scheduled dose, the nearest within the tolerance.
+ * Doses whose window is still open are only counted once taken.
+ */
+export const calculateAdherence = (
+  medication: Pick<
+    MedicationSupplement,
+    'id' | 'frequency' | 'startDate' | 'endDate'
+  >,
+  logs: DoseRecord[],
+  options: AdherenceOptions = {}
+): MedicationAdherence => {
+  const to = options.to ?? new Date();
+  const from = options.from ?? new Date(medication.startDate);
+  const toleranceMs =
+    (options.toleranceHours ?? DEFAULT_TOLERANCE_HOURS[medication.frequency]) *
+    HOUR_MS;
+
+  const available = logs
+    .map((log) => new Date(log.takenAt).getTime())
+    .sort((a, b) => a - b);
+
+  const missedDoses: Date[] = [];
+  let expectedDoses = 0;
+  let takenDoses = 0;
+  let streak = 0;
+  let longestStreak = 0;
+
+  expandDoseSchedule(medication, from, to).forEach((dose) => {
+    const scheduled = dose.getTime();
+    let nearest = -1;
+    available.forEach((takenAt, index) => {
+      const distance = Math.abs(takenAt - scheduled);
+      if (
+        distance <= toleranceMs &&
+        (nearest === -1 ||
+          distance < Math.abs((available[nearest] ?? 0) - scheduled))
+      ) {
+        nearest = index;
+      }
+    });
+
+    if (nearest !== -1) {
+      available.splice(nearest, 1);
+      expectedDoses++;
+      takenDoses++;
+      streak++;
+      longestStreak = Math.max(longestStreak, streak);
+    } else if (scheduled + toleranceMs < to.getTime()) {
+      expectedDoses++;
+      missedDoses.push(dose);
+      streak = 0;
+    }
+  });
+
+  return {
+    medicationId: medication.id,
+    expectedDoses,
+    takenDoses,
+    missedDoses,
+    adherence: expectedDoses > 0 ? takenDoses / expectedDoses : 1,
+    currentStreak: streak,
+    longestStreak,
+  };
+};
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview offlineFoodSearch.ts - Query building, fuzzy ranking and eviction for the offline food store
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+export interface SearchableFood {
+  id: string;
+  name: string;
+  brand?: string | null;
+  barcode?: string | null;
+}
+
+export interface StoredFoodSize {
+  id: string;
+  sizeBytes: number;
+}
+
+export interface StoreLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+// Scores below this are too loose to show as a match
+export const MIN_FUZZY_SCORE = 0.5;
+
+/**
+ * Split a search query into lowercase alphanumeric tokens
+ */
+export const tokenizeSearchQuery = (query: string): string[] =>
+  query
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+
+/**
+ * Build an FTS5 MATCH expression where every token must match the start of
+ * a word. Tokens are quoted so FTS operators in user input are not parsed.
+ */
+export const buildFtsMatchQuery = (tokens: string[]): string =>
+  tokens.map((token) => `"${token}"*`).join(' ');
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) {
+    return 0;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return Math.max(a.length, b.length);
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? 0;
+};
+
+// Allow one typo for short words and roughly one per four characters after
+const allowedEdits = (token: string): number =>
+  Math.max(1, Math.floor(token.length / 4));
+
+const scoreToken = (token: string, words: string[]): number => {
+  let best = 0;
+  for (const word of words) {
+    if (word.startsWith(token)) {
+      return 1;
+    }
+    // Compare against the word's prefix so partly typed words still match
+    const prefix = word.slice(0, token.length);
+    const distance = Math.min(
+      levenshteinDistance(token, prefix),
+      levenshteinDistance(token, word)
+    );
+    if (distance <= allowedEdits(token)) {
+      best = Math.max(best, 1 - distance / (token.length + 1));
+    }
+  }
+  return best;
+};
+
+/**
+ * Score how well a food matches the query tokens, from 0 (no match) to 1
+ * (every token is a prefix of a word). Every token has to match something.
+ */
+export const fuzzyMatchScore = (
+  tokens: string[],
+  food: SearchableFood
+): number => {
+  if (tokens.length === 0) {
+    return 0;
+  }
+
+  const words = tokenizeSearchQuery(`${food.name} ${food.brand ?? ''}`);
+  const barcode = food.barcode ?? '';
+  let total = 0;
+
+  for (const token of tokens) {
+    const score =
+      barcode.length > 0 && /^\d+$/.test(token) && barcode.startsWith(token)
+        ? 1
+        : scoreToken(token, words);
+    if (score === 0) {
+      return 0;
+    }
+    total += score;
+  }
+
+  return total / tokens.length;
+};
+
+/**
+ * Rank foods by fuzzy match score, best first, dropping weak matches
+ */
+export const rankFuzzyMatches = <T extends SearchableFood>(
+  query: string,
+  foods: T[],
+  limit: number
+): T[] => {
+  const tokens = tokenizeSearchQuery(query);
+  return foods
+    .map((food) => ({ food, score: fuzzyMatchScore(tokens, food) }))
+    .filter(({ score }) => score >= MIN_FUZZY_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ food }) => food);
+};
+
+/**
+ * Pick the entries to evict so the store fits its limits. Entries must be
+ * ordered most recently used first; the least recently used go first.
+ */
+export const selectEvictions = (
+  entries: StoredFoodSize[],
+  limits: StoreLimits
+): string[] => {
+  let totalBytes = 0;
+  const evicted: string[] = [];
+
+  entries.forEach((entry, index) => {
+    totalBytes += entry.sizeBytes;
+    if (index >= limits.maxEntries || totalBytes > limits.maxBytes) {
+      evicted.push(entry.id);
+    }
+  });
+
+  return evicted;
+};
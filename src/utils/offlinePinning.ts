@@ -0,0 +1,68 @@
+/**
+ * @fileoverview offlinePinning.ts - Choosing which foods to keep available offline
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem, SafeFood, ScanHistory } from '../types';
+
+export type PinReason = 'safe_food' | 'recent_scan' | 'category';
+
+export interface PinnedFood {
+  foodItem: FoodItem;
+  reason: PinReason;
+}
+
+export interface PinSources {
+  safeFoods: SafeFood[];
+  scanHistory: ScanHistory[];
+  categoryFoods: FoodItem[];
+}
+
+/**
+ * Pick the foods to pin: every safe food, the most recent scans and the
+ * foods from the user's chosen categories. A food found by more than one
+ * source keeps the first reason in that order.
+ */
+export const selectFoodsToPin = (
+  sources: PinSources,
+  recentScanLimit: number
+): PinnedFood[] => {
+  const recentScans = [...sources.scanHistory]
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )
+    .slice(0, recentScanLimit);
+
+  const candidates: PinnedFood[] = [
+    ...sources.safeFoods.map((safeFood) => ({
+      foodItem: safeFood.foodItem,
+      reason: 'safe_food' as const,
+    })),
+    ...recentScans.map((scan) => ({
+      foodItem: scan.foodItem,
+      reason: 'recent_scan' as const,
+    })),
+    ...sources.categoryFoods.map((foodItem) => ({
+      foodItem,
+      reason: 'category' as const,
+    })),
+  ];
+
+  const seen = new Set<string>();
+  return candidates.filter(({ foodItem }) => {
+    // The same product can come back with a different ID from another
+    // source. Manual entries share an all-zero placeholder barcode.
+    const keys = [foodItem.id];
+    if (foodItem.barcode !== undefined && !/^0*$/.test(foodItem.barcode)) {
+      keys.push(`barcode_${foodItem.barcode}`);
+    }
+    if (keys.some((key) => seen.has(key))) {
+      return false;
+    }
+    keys.forEach((key) => seen.add(key));
+    return true;
+  });
+};
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview openFoodFactsMapper.ts - Mapping OpenFoodFacts products onto FoodItem and NutritionFacts
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { OpenFoodFactsProduct } from '../services/OpenFoodFactsService';
+import type { FoodItem, NutritionFacts } from '../types';
+
+// kJ per kcal
+const KJ_PER_KCAL = 4.184;
+// OpenFoodFacts derives salt as sodium x 2.5
+const SALT_PER_SODIUM = 2.5;
+
+// Nutriment keys per 100 g and the NutritionFacts fields they fill.
+// OpenFoodFacts stores these in grams whatever unit the label used.
+const NUTRIMENT_FIELDS: Array<[string, keyof NutritionFacts]> = [
+  ['fat_100g', 'fat'],
+  ['saturated-fat_100g', 'saturatedFat'],
+  ['carbohydrates_100g', 'carbs'],
+  ['sugars_100g', 'sugars'],
+  ['fiber_100g', 'fiber'],
+  ['proteins_100g', 'protein'],
+  ['salt_100g', 'salt'],
+  ['sodium_100g', 'sodium'],
+  ['cholesterol_100g', 'cholesterol'],
+  ['potassium_100g', 'potassium'],
+  ['calcium_100g', 'calcium'],
+  ['iron_100g', 'iron'],
+  ['vitamin-a_100g', 'vitaminA'],
+  ['vitamin-c_100g', 'vitaminC'],
+  ['vitamin-d_100g', 'vitaminD'],
+  ['vitamin-e_100g', 'vitaminE'],
+  ['vitamin-k_100g', 'vitaminK'],
+  ['vitamin-b1_100g', 'thiamine'],
+  ['vitamin-b2_100g', 'riboflavin'],
+  ['vitamin-pp_100g', 'niacin'],
+  ['vitamin-b6_100g', 'vitaminB6'],
+  ['vitamin-b9_100g', 'folate'],
+  ['vitamin-b12_100g', 'vitaminB12'],
+  ['biotin_100g', 'biotin'],
+  ['pantothenic-acid_100g', 'pantothenicAcid'],
+  ['phosphorus_100g', 'phosphorus'],
+  ['iodine_100g', 'iodine'],
+  ['magnesium_100g', 'magnesium'],
+  ['zinc_100g', 'zinc'],
+  ['selenium_100g', 'selenium'],
+  ['copper_100g', 'copper'],
+  ['manganese_100g', 'manganese'],
+  ['chromium_100g', 'chromium'],
+  ['molybdenum_100g', 'molybdenum'],
+];
+
+const GLUTEN_FREE_LABELS = new Set(['en:gluten-free', 'en:no-gluten']);
+const LACTOSE_FREE_LABELS = new Set(['en:lactose-free', 'en:no-lactose']);
+
+const NUTRI_SCORE_GRADES = ['a', 'b', 'c', 'd', 'e'] as const;
+
+/**
+ * Turn a taxonomy tag such as "en:soybeans" or "fr:lait-de-vache" into
+ * readable text
+ */
+export const tagToText = (tag: string): string =>
+  tag
+    .replace(/^[a-z]{2,3}:/, '')
+    .replace(/-/g, ' ')
+    .trim();
+
+/**
+ * Convert an additive tag such as "en:e322i" into its E-number, "E322i".
+ * Tags that are not E-numbers are returned as text.
+ */
+export const additiveTagToENumber = (tag: string): string => {
+  const match = /^(?:[a-z]{2,3}:)?e(\d{3,4})([a-z]*)$/i.exec(tag.trim());
+  if (!match) {
+    return tagToText(tag);
+  }
+  return `E${match[1]}${(match[2] ?? '').toLowerCase()}`;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string'
+        ? parseFloat(value)
+        : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * Read per-100 g nutrition from the product's nutriments, falling back to
+ * the flattened fields. Energy is given in kcal and masses in grams.
+ */
+export const mapOpenFoodFactsNutrition = (
+  product: OpenFoodFactsProduct
+): NutritionFacts => {
+  const nutriments = product.nutriments ?? {};
+  const flat: Record<string, number | undefined> = {
+    fat_100g: product.fat_100g,
+    'saturated-fat_100g': product.saturated_fat_100g,
+    carbohydrates_100g: product.carbohydrates_100g,
+    sugars_100g: product.sugars_100g,
+    fiber_100g: product.fiber_100g,
+    proteins_100g: product.proteins_100g,
+    salt_100g: product.salt_100g,
+    sodium_100g: product.sodium_100g,
+  };
+  const read = (key: string): number | undefined =>
+    toNumber(nutriments[key]) ?? toNumber(flat[key]);
+
+  const nutrition: NutritionFacts = {};
+  NUTRIMENT_FIELDS.forEach(([key, field]) => {
+    const value = read(key);
+    if (value !== undefined) {
+      nutrition[field] = value;
+    }
+  });
+
+  // Some labels only give energy in kJ
+  const kcal = read('energy-kcal_100g') ?? toNumber(product.energy_kcal_100g);
+  const kj = read('energy-kj_100g') ?? read('energy_100g');
+  if (kcal !== undefined) {
+    nutrition.calories = kcal;
+  } else if (kj !== undefined) {
+    nutrition.calories = Math.round((kj / KJ_PER_KCAL) * 10) / 10;
+  }
+
+  if (nutrition.salt === undefined && nutrition.sodium !== undefined) {
+    nutrition.salt = nutrition.sodium * SALT_PER_SODIUM;
+  } else if (nutrition.sodium === undefined && nutrition.salt !== undefined) {
+    nutrition.sodium = nutrition.salt / SALT_PER_SODIUM;
+  }
+
+  return nutrition;
+};
+
+/**
+ * Map an OpenFoodFacts product onto a FoodItem, keeping allergens, traces,
+ * additives, dietary labels, processing and nutrition data
+ */
+export const mapOpenFoodFactsProduct = (
+  product: OpenFoodFactsProduct
+): FoodItem => {
+  const allergenTags = product.allergens_tags ?? [];
+  const labelTags = product.labels_tags ?? [];
+  const nutrition = mapOpenFoodFactsNutrition(product);
+  const ingredientsText = product.ingredients_text?.trim() ?? '';
+  const nutriScore = NUTRI_SCORE_GRADES.find(
+    (grade) => grade === (product.nutriscore_grade ?? product.nutrition_grades)
+  );
+  const novaGroup = product.nova_group;
+  const servingSizeGrams = toNumber(product.serving_quantity);
+
+  const hasLabel = (labels: Set<string>): boolean =>
+    labelTags.some((tag) => labels.has(tag));
+
+  return {
+    id: `openfoodfacts_${product.code}`,
+    name: product.product_name || 'Unknown Product',
+    brand: product.brands ?? '',
+    category: product.categories ?? 'Unknown',
+    barcode: product.code,
+    ingredients: ingredientsText !== '' ? [ingredientsText] : [],
+    allergens: allergenTags.map(tagToText),
+    additives: Array.from(
+      new Set((product.additives_tags ?? []).map(additiveTagToENumber))
+    ),
+    ...(product.traces_tags &&
+      product.traces_tags.length > 0 && {
+        traces: product.traces_tags.map(tagToText),
+      }),
+    ...(labelTags.length > 0 && { labels: labelTags.map(tagToText) }),
+    ...(nutriScore && { nutriScore }),
+    ...(novaGroup !== undefined &&
+      novaGroup >= 1 &&
+      novaGroup <= 4 && { novaGroup: novaGroup as 1 | 2 | 3 | 4 }),
+    ...(Object.keys(nutrition).length > 0 && { nutrition }),
+    ...(servingSizeGrams !== undefined &&
+      servingSizeGrams > 0 && { servingSizeGrams }),
+    // A declared gluten allergen outweighs a "gluten-free" label. Lactose-free
+    // dairy still declares milk, so there is no such check for lactose.
+    glutenFree:
+      hasLabel(GLUTEN_FREE_LABELS) && !allergenTags.includes('en:gluten'),
+    lactoseFree: hasLabel(LACTOSE_FREE_LABELS),
+    dataSource: 'openfoodfacts',
+  };
+};
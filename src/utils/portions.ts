@@ -0,0 +1,134 @@
+/**
+ * @fileoverview portions.ts - Portion units, gram conversion and per-ingredient dose estimates
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  ConsumedPortion,
+  FoodItem,
+  PortionUnit,
+  UserPreferences,
+} from '../types/comprehensive';
+
+import type { ParsedIngredient } from './ingredientParser';
+
+// Volumes are converted as water (1 g/ml), close enough for drinks, sauces
+// and syrups; 'serving' depends on the food and is handled separately
+const GRAMS_PER_UNIT: Record<Exclude<PortionUnit, 'serving'>, number> = {
+  g: 1,
+  ml: 1,
+  oz: 28.3495,
+  'fl oz': 29.5735,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  cup: 236.588,
+};
+
+// Units offered for each measurement system, most used first
+export const PORTION_UNITS: Record<UserPreferences['units'], PortionUnit[]> = {
+  metric: ['g', 'ml', 'tsp', 'tbsp', 'serving'],
+  imperial: ['oz', 'fl oz', 'tsp', 'tbsp', 'cup', 'serving'],
+};
+
+const roundGrams = (grams: number): number => Math.round(grams * 10) / 10;
+
+/**
+ * Convert an amount to grams. Servings need the food's serving size, so
+ * null is returned without one or for a non-positive amount.
+ */
+export const portionToGrams = (
+  amount: number,
+  unit: PortionUnit,
+  servingSizeGrams?: number
+): number | null => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+  if (unit === 'serving') {
+    return servingSizeGrams !== undefined ? amount * servingSizeGrams : null;
+  }
+  return amount * GRAMS_PER_UNIT[unit];
+};
+
+/**
+ * Build the portion to record from what the user entered
+ */
+export const createPortion = (
+  amount: number,
+  unit: PortionUnit,
+  foodItem: Pick<FoodItem, 'servingSizeGrams'>
+): ConsumedPortion | null => {
+  const grams = portionToGrams(amount, unit, foodItem.servingSizeGrams);
+  return grams === null ? null : { amount, unit, grams: roundGrams(grams) };
+};
+
+/**
+ * Portion to suggest before the user changes it: one serving when the food
+ * declares a serving size, otherwise 100 g or 3.5 oz
+ */
+export const getDefaultPortion = (
+  foodItem: Pick<FoodItem, 'servingSizeGrams'>,
+  units: UserPreferences['units']
+): ConsumedPortion => {
+  if (foodItem.servingSizeGrams !== undefined) {
+    return { amount: 1, unit: 'serving', grams: foodItem.servingSizeGrams };
+  }
+  return units === 'imperial'
+    ? { amount: 3.5, unit: 'oz', grams: roundGrams(3.5 * GRAMS_PER_UNIT.oz) }
+    : { amount: 100, unit: 'g', grams: 100 };
+};
+
+/**
+ * Format a portion for display, e.g. "2 tbsp" or "1 serving"
+ */
+export const formatPortion = (portion: ConsumedPortion): string => {
+  const unit =
+    portion.unit === 'serving' && portion.amount !== 1
+      ? 'servings'
+      : portion.unit;
+  return `${portion.amount} ${unit}`;
+};
+
+/**
+ * Format a weight in the user's measurement system, e.g. "30 g" or "1.1 oz"
+ */
+export const formatGrams = (
+  grams: number,
+  units: UserPreferences['units']
+): string =>
+  units === 'imperial'
+    ? `${roundGrams(grams / GRAMS_PER_UNIT.oz)} oz`
+    : `${roundGrams(grams)} g`;
+
+/**
+ * Estimate the grams of each ingredient in a portion. Declared percentages
+ * are used where given. Otherwise, as ingredients are listed in descending
+ * order of weight, the nth top-level ingredient is taken to make up at most
+ * 1/n of the food. Sub-ingredients without a percentage get their parent's
+ * amount.
+ */
+export const estimateIngredientGrams = (
+  ingredients: ParsedIngredient[],
+  portionGrams: number
+): Map<ParsedIngredient, number> => {
+  const estimates = new Map<ParsedIngredient, number>();
+
+  const visit = (
+    nodes: ParsedIngredient[],
+    parentGrams: number | undefined
+  ): void => {
+    nodes.forEach((ingredient, index) => {
+      const grams =
+        ingredient.percentage !== undefined
+          ? (ingredient.percentage / 100) * portionGrams
+          : (parentGrams ?? portionGrams / (index + 1));
+      estimates.set(ingredient, grams);
+      visit(ingredient.children, grams);
+    });
+  };
+
+  visit(ingredients, undefined);
+  return estimates;
+};
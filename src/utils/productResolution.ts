@@ -0,0 +1,139 @@
+/**
+ * @fileoverview productResolution.ts - Merging one product's records from several food databases
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodFieldSources, FoodItem, FoodProvenanceField } from '../types';
+
+import { toGtin14 } from './barcode';
+
+/**
+ * Sources trusted for each field, most trusted first. OpenFoodFacts has the
+ * label ingredients and allergens, USDA has lab-measured nutrients.
+ */
+export const FIELD_TRUST_RANKING: Record<FoodProvenanceField, string[]> = {
+  name: ['openfoodfacts', 'usda', 'spoonacular'],
+  brand: ['openfoodfacts', 'usda', 'spoonacular'],
+  category: ['openfoodfacts', 'usda', 'spoonacular'],
+  ingredients: ['openfoodfacts', 'spoonacular', 'usda'],
+  allergens: ['openfoodfacts', 'spoonacular', 'usda'],
+  traces: ['openfoodfacts'],
+  additives: ['openfoodfacts', 'spoonacular', 'usda'],
+  nutrition: ['usda', 'openfoodfacts'],
+  servingSizeGrams: ['openfoodfacts', 'usda', 'spoonacular'],
+};
+
+// Values the API converters use when a source has nothing for a field
+const PLACEHOLDER_VALUES = new Set(['', 'unknown', 'unknown product']);
+
+const hasValue = (value: unknown): boolean => {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (typeof value === 'string') {
+    return !PLACEHOLDER_VALUES.has(value.trim().toLowerCase());
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'object') {
+    return Object.values(value).some((entry) => entry !== undefined);
+  }
+  return true;
+};
+
+const sourceRank = (field: FoodProvenanceField, source: string): number => {
+  const rank = FIELD_TRUST_RANKING[field].indexOf(source);
+  // Unranked sources are used only when no ranked source has the field
+  return rank === -1 ? FIELD_TRUST_RANKING[field].length : rank;
+};
+
+// Merged records already know where each field came from
+const fieldSource = (food: FoodItem, field: FoodProvenanceField): string =>
+  food.fieldSources?.[field] ?? food.dataSource ?? 'unknown';
+
+const compareTrust =
+  (field: FoodProvenanceField) =>
+  (a: FoodItem, b: FoodItem): number =>
+    sourceRank(field, fieldSource(a, field)) -
+    sourceRank(field, fieldSource(b, field));
+
+/**
+ * Key that identifies the same product across sources: the barcode when
+ * there is one, otherwise the normalised name and brand
+ */
+export const productIdentityKey = (food: FoodItem): string => {
+  // Codes that fail validation (e.g. a UPC-A stored without its leading
+  // zero) are padded the same way so they still meet their valid form
+  const rawBarcode = food.barcode?.replace(/^0+/, '') ?? '';
+  const barcode =
+    rawBarcode === ''
+      ? ''
+      : (toGtin14(rawBarcode) ?? rawBarcode.padStart(14, '0'));
+  if (barcode !== '') {
+    return `barcode:${barcode}`;
+  }
+  const normalise = (value: string | undefined): string =>
+    (value ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  return `name:${normalise(food.name)}|${normalise(food.brand)}`;
+};
+
+/**
+ * Merge records of one product from several sources. Each field comes from
+ * the most trusted source that has it, and `fieldSources` records which.
+ */
+export const mergeFoodItems = (candidates: FoodItem[]): FoodItem | null => {
+  const [primary] = [...candidates].sort(compareTrust('name'));
+  if (!primary) {
+    return null;
+  }
+
+  const merged: FoodItem = { ...primary };
+  const fieldSources: FoodFieldSources = {};
+
+  (Object.keys(FIELD_TRUST_RANKING) as FoodProvenanceField[]).forEach(
+    (field) => {
+      const [best] = candidates
+        .filter((candidate) => hasValue(candidate[field]))
+        .sort(compareTrust(field));
+      if (best) {
+        Object.assign(merged, { [field]: best[field] });
+        fieldSources[field] = fieldSource(best, field);
+      }
+    }
+  );
+
+  // Some sources look products up by barcode but do not return it
+  const withBarcode = candidates.find((candidate) =>
+    hasValue(candidate.barcode)
+  );
+
+  return {
+    ...merged,
+    ...(withBarcode?.barcode !== undefined && {
+      barcode: withBarcode.barcode,
+    }),
+    dataSource: Array.from(new Set(Object.values(fieldSources))).join(', '),
+    fieldSources,
+  };
+};
+
+/**
+ * Group records by product and merge each group, keeping first-seen order
+ */
+export const mergeDuplicateFoods = (foods: FoodItem[]): FoodItem[] => {
+  const groups = new Map<string, FoodItem[]>();
+  foods.forEach((food) => {
+    const key = productIdentityKey(food);
+    groups.set(key, [...(groups.get(key) ?? []), food]);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => mergeFoodItems(group))
+    .filter((food): food is FoodItem => food !== null);
+};
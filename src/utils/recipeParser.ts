@@ -0,0 +1,164 @@
+/**
+ * @fileoverview recipeParser.ts - Quantities, units and food names from pasted recipe ingredient lists
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { PortionUnit } from '../types/comprehensive';
+
+// One ingredient line of a recipe
+export interface RecipeLine {
+  // The line as pasted
+  text: string;
+  // What to look the food up by, e.g. "red onion"
+  name: string;
+  amount: number;
+  // Counted items such as "2 eggs" are measured in servings
+  unit: PortionUnit;
+}
+
+// Spellings of each unit, mapped to a portion unit and a multiplier
+const UNIT_ALIASES: Array<{
+  aliases: string[];
+  unit: PortionUnit;
+  factor: number;
+}> = [
+  {
+    aliases: ['fl oz', 'fluid ounce', 'fluid ounces'],
+    unit: 'fl oz',
+    factor: 1,
+  },
+  { aliases: ['g', 'gr', 'gram', 'grams'], unit: 'g', factor: 1 },
+  { aliases: ['kg', 'kilogram', 'kilograms'], unit: 'g', factor: 1000 },
+  {
+    aliases: ['ml', 'millilitre', 'millilitres', 'milliliter', 'milliliters'],
+    unit: 'ml',
+    factor: 1,
+  },
+  { aliases: ['dl'], unit: 'ml', factor: 100 },
+  {
+    aliases: ['l', 'litre', 'litres', 'liter', 'liters'],
+    unit: 'ml',
+    factor: 1000,
+  },
+  { aliases: ['oz', 'ounce', 'ounces'], unit: 'oz', factor: 1 },
+  { aliases: ['lb', 'lbs', 'pound', 'pounds'], unit: 'oz', factor: 16 },
+  { aliases: ['tsp', 'teaspoon', 'teaspoons'], unit: 'tsp', factor: 1 },
+  {
+    aliases: ['tbsp', 'tbs', 'tablespoon', 'tablespoons'],
+    unit: 'tbsp',
+    factor: 1,
+  },
+  { aliases: ['cup', 'cups'], unit: 'cup', factor: 1 },
+  // Rough weights of household measures, in grams
+  { aliases: ['clove', 'cloves'], unit: 'g', factor: 4 },
+  { aliases: ['pinch', 'pinches'], unit: 'g', factor: 0.4 },
+  { aliases: ['slice', 'slices'], unit: 'g', factor: 30 },
+  { aliases: ['handful', 'handfuls'], unit: 'g', factor: 30 },
+  { aliases: ['can', 'cans', 'tin', 'tins'], unit: 'g', factor: 400 },
+];
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 0.25,
+  '½': 0.5,
+  '¾': 0.75,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '⅛': 0.125,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+// "1", "1.5", "1/2", "1 1/2", "1½" or "½"
+const NUMBER = `(?:\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d+(?:[.,]\\d+)?(?:\\s*[${FRACTION_CHARS}])?|[${FRACTION_CHARS}])`;
+// A number or a range such as "2-3" or "2 to 3"
+const QUANTITY_PATTERN = new RegExp(
+  `^(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?\\s*`
+);
+
+const LIST_MARKER_PATTERN = /^\s*(?:[-*•]|\d+[.)](?=\s))\s*/;
+
+const parseNumber = (text: string): number => {
+  let total = 0;
+  text
+    .trim()
+    .replace(',', '.')
+    .split(new RegExp(`\\s+|(?=[${FRACTION_CHARS}])`))
+    .forEach((part) => {
+      const fraction = UNICODE_FRACTIONS[part];
+      if (fraction !== undefined) {
+        total += fraction;
+      } else if (part.includes('/')) {
+        const [numerator, denominator] = part.split('/').map(Number);
+        total += (numerator ?? 0) / (denominator ?? 1);
+      } else {
+        total += Number(part);
+      }
+    });
+  return total;
+};
+
+const matchUnit = (
+  text: string
+): { unit: PortionUnit; factor: number; rest: string } | null => {
+  const lower = text.toLowerCase();
+  for (const { aliases, unit, factor } of UNIT_ALIASES) {
+    for (const alias of aliases) {
+      // The unit must end at a word boundary so "green beans" is not "g"
+      if (
+        lower.startsWith(alias) &&
+        !/[a-z]/.test(lower.charAt(alias.length))
+      ) {
+        return { unit, factor, rest: text.slice(alias.length) };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Strip preparation notes so only the food is left, e.g.
+ * "of red onion (about 1), finely diced" becomes "red onion"
+ */
+const cleanFoodName = (text: string): string =>
+  (text.replace(/\([^)]*\)/g, ' ').split(/[,;]/)[0] ?? '')
+    .replace(/^\s*\.?\s*(?:of\s+)?/i, '')
+    .replace(/\s+to taste\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parse one ingredient line; null for blank lines and section headings
+ */
+export const parseRecipeLine = (line: string): RecipeLine | null => {
+  const text = line.replace(LIST_MARKER_PATTERN, '').trim();
+  if (text === '' || text.endsWith(':')) {
+    return null;
+  }
+
+  // Without a quantity the whole line is one serving of the food
+  const quantity = QUANTITY_PATTERN.exec(text);
+  const afterQuantity = quantity ? text.slice(quantity[0].length) : text;
+  const matched = quantity ? matchUnit(afterQuantity) : null;
+
+  // Ranges use their upper end to stay on the safe side
+  const amount =
+    (quantity ? parseNumber(quantity[2] ?? quantity[1] ?? '') : 1) *
+    (matched?.factor ?? 1);
+  const unit: PortionUnit = matched?.unit ?? 'serving';
+  const name = cleanFoodName(matched?.rest ?? afterQuantity);
+  if (name === '' || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+  return { text, name, amount: Math.round(amount * 1000) / 1000, unit };
+};
+
+/**
+ * Parse a pasted recipe ingredient list, one ingredient per line
+ */
+export const parseRecipeText = (text: string): RecipeLine[] =>
+  text
+    .split(/\r?\n/)
+    .map(parseRecipeLine)
+    .filter((line): line is RecipeLine => line !== null);
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview safeAlternatives.ts - Ranks products to offer in place of one the user should avoid
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem, GutProfile, NutritionFacts } from '../types';
+import type { FoodItemReference } from '../types/comprehensive';
+
+import { analyzeFoodItem } from './foodAnalysisEngine';
+import { tokenizeSearchQuery } from './offlineFoodSearch';
+
+// Share of the similarity score each kind of likeness carries
+const SIMILARITY_WEIGHTS = {
+  name: 0.35,
+  category: 0.25,
+  brand: 0.15,
+  nutrition: 0.25,
+};
+
+// Nutrients compared between products, per 100 g
+const COMPARED_NUTRIENTS: Array<keyof NutritionFacts> = [
+  'calories',
+  'protein',
+  'carbs',
+  'sugars',
+  'fat',
+  'fiber',
+];
+
+// Words of at least two letters, so stray initials do not count as shared
+const tokenize = (text: string | undefined): string[] =>
+  tokenizeSearchQuery(text ?? '').filter((token) => token.length > 1);
+
+// Equal ignoring case, accents and punctuation; never for missing text
+const sameText = (a: string | undefined, b: string | undefined): boolean => {
+  const key = tokenize(a).join(' ');
+  return key !== '' && key === tokenize(b).join(' ');
+};
+
+// Share of distinct tokens the two sets have in common
+const jaccard = (a: string[], b: string[]): number => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = Array.from(setA).filter((token) => setB.has(token)).length;
+  const total = new Set([...setA, ...setB]).size;
+  return total === 0 ? 0 : shared / total;
+};
+
+/**
+ * 1 for the same brand, 0.5 for the same brand family (brands that start
+ * with the same word, e.g. "Chobani" and "Chobani Flip"), otherwise 0
+ */
+export const getBrandSimilarity = (
+  a: string | undefined,
+  b: string | undefined
+): number => {
+  if (sameText(a, b)) {
+    return 1;
+  }
+  const [firstA] = tokenize(a);
+  const [firstB] = tokenize(b);
+  return firstA !== undefined && firstA === firstB ? 0.5 : 0;
+};
+
+// Average closeness of the nutrients both products list; 0 when none do
+const getNutritionSimilarity = (
+  a: NutritionFacts | undefined,
+  b: NutritionFacts | undefined
+): number => {
+  const closeness = COMPARED_NUTRIENTS.flatMap((nutrient) => {
+    const valueA = a?.[nutrient];
+    const valueB = b?.[nutrient];
+    if (valueA === undefined || valueB === undefined) {
+      return [];
+    }
+    const larger = Math.max(Math.abs(valueA), Math.abs(valueB));
+    return [larger === 0 ? 1 : 1 - Math.abs(valueA - valueB) / larger];
+  });
+  return closeness.length === 0
+    ? 0
+    : closeness.reduce((sum, value) => sum + value, 0) / closeness.length;
+};
+
+/**
+ * How alike two products are, from 0 to 1, by name, category, brand and
+ * nutrition. Brand words are left out of the name comparison so products
+ * of one brand do not look alike for their brand alone.
+ */
+export const getProductSimilarity = (
+  foodItem: FoodItem,
+  candidate: FoodItem
+): number => {
+  const brandTokens = new Set([
+    ...tokenize(foodItem.brand),
+    ...tokenize(candidate.brand),
+  ]);
+  const nameTokens = (item: FoodItem): string[] =>
+    tokenize(item.name).filter((token) => !brandTokens.has(token));
+
+  const score =
+    SIMILARITY_WEIGHTS.name *
+      jaccard(nameTokens(foodItem), nameTokens(candidate)) +
+    SIMILARITY_WEIGHTS.category *
+      (sameText(foodItem.category, candidate.category)
+        ? 1
+        : jaccard(tokenize(foodItem.category), tokenize(candidate.category))) +
+    SIMILARITY_WEIGHTS.brand *
+      getBrandSimilarity(foodItem.brand, candidate.brand) +
+    SIMILARITY_WEIGHTS.nutrition *
+      getNutritionSimilarity(foodItem.nutrition, candidate.nutrition);
+  return Math.round(score * 1000) / 1000;
+};
+
+/**
+ * Analyses saved before alternatives were linked to stored foods hold bare
+ * names; those read back as references with no id, so they do not link
+ */
+export const normalizeSafeAlternatives = (
+  alternatives: Array<FoodItemReference | string>
+): FoodItemReference[] =>
+  alternatives.map((alternative) =>
+    typeof alternative === 'string'
+      ? { id: '', name: alternative }
+      : alternative
+  );
+
+/**
+ * Pick products to offer instead of one the user should avoid, most alike
+ * first. Candidates must share the food's category (or, for a food with no
+ * category, its brand family) and be rated safe for the user's profile;
+ * candidates without ingredients cannot be checked and are left out.
+ */
+export const rankSafeAlternatives = (
+  foodItem: FoodItem,
+  candidates: FoodItem[],
+  gutProfile: GutProfile,
+  limit: number = 5
+): FoodItemReference[] => {
+  const seen = new Set<string>([foodItem.id]);
+  const matches: Array<{ candidate: FoodItem; similarity: number }> = [];
+
+  candidates.forEach((candidate) => {
+    if (
+      seen.has(candidate.id) ||
+      (foodItem.barcode !== undefined && candidate.barcode === foodItem.barcode)
+    ) {
+      return;
+    }
+    seen.add(candidate.id);
+
+    const related =
+      foodItem.category !== undefined
+        ? sameText(foodItem.category, candidate.category)
+        : getBrandSimilarity(foodItem.brand, candidate.brand) > 0;
+    if (
+      !related ||
+      candidate.ingredients.length === 0 ||
+      analyzeFoodItem(candidate, gutProfile).overallSafety !== 'safe'
+    ) {
+      return;
+    }
+
+    matches.push({
+      candidate,
+      similarity: getProductSimilarity(foodItem, candidate),
+    });
+  });
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        a.candidate.name.localeCompare(b.candidate.name)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => ({
+      id: candidate.id,
+      name: candidate.name,
+      ...(candidate.brand !== undefined && { brand: candidate.brand }),
+      ...(candidate.category !== undefined && {
+        category: candidate.category,
+      }),
+    }));
+};
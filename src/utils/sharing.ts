@@ -109,7 +109,7 @@ export class SharingService {
     if (analysis.safeAlternatives.length > 0) {
       description += `✅ Safe alternatives:\n`;
       analysis.safeAlternatives.slice(0, 3).forEach((alternative) => {
-        description += `• ${alternative}\n`;
+        description += `• ${alternative.name}\n`;
       });
     }
 
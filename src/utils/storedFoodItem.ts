@@ -0,0 +1,70 @@
+/**
+ * @fileoverview storedFoodItem.ts - Conversion of food items stored in the local database to the app model
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { FoodItem as StoredFoodItem } from '../database/schema';
+import type {
+  FoodItem,
+  FoodVerificationStatus,
+  NutritionFacts,
+} from '../types';
+
+import { parseIngredientList } from './ingredientParser';
+
+// Data source of products users added themselves
+export const USER_DATA_SOURCE = 'user';
+
+// Admins either verify or reject a product; both set a verification date
+const getVerificationStatus = (
+  record: StoredFoodItem
+): FoodVerificationStatus => {
+  if (record.isVerified) {
+    return 'verified';
+  }
+  return record.verificationDate !== undefined ? 'rejected' : 'pending';
+};
+
+const toNutritionFacts = (
+  info: NonNullable<StoredFoodItem['nutritionalInfo']>
+): NutritionFacts => ({
+  ...(info.calories !== undefined && { calories: info.calories }),
+  ...(info.protein !== undefined && { protein: info.protein }),
+  ...(info.carbohydrates !== undefined && { carbs: info.carbohydrates }),
+  ...(info.fat !== undefined && { fat: info.fat }),
+  ...(info.fiber !== undefined && { fiber: info.fiber }),
+  ...(info.sugar !== undefined && { sugars: info.sugar }),
+  ...(info.sodium !== undefined && { sodium: info.sodium }),
+});
+
+/**
+ * Convert a stored food item to the model the app and analysis engine use
+ */
+export const toAppFoodItem = (record: StoredFoodItem): FoodItem => ({
+  id: record.id,
+  name: record.name,
+  ...(record.brand !== undefined && { brand: record.brand }),
+  ...(record.category !== undefined && { category: record.category }),
+  ...(record.barcode !== undefined && { barcode: record.barcode }),
+  ingredients: record.ingredients,
+  allergens: record.allergens,
+  additives: record.additives,
+  glutenFree: record.gutHealthInfo.glutenFree,
+  lactoseFree: record.gutHealthInfo.lactoseFree,
+  ...(record.gutHealthInfo.fodmapLevel !== undefined && {
+    fodmapLevel: record.gutHealthInfo.fodmapLevel,
+  }),
+  ...(record.gutHealthInfo.histamineLevel !== undefined && {
+    histamineLevel: record.gutHealthInfo.histamineLevel,
+  }),
+  ...(record.nutritionalInfo !== undefined && {
+    nutrition: toNutritionFacts(record.nutritionalInfo),
+  }),
+  traces: parseIngredientList(record.ingredients).traces,
+  dataSource: record.dataSource,
+  ...(record.dataSource === USER_DATA_SOURCE && {
+    verificationStatus: getVerificationStatus(record),
+  }),
+});
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview symptomCorrelation.ts - Food to symptom correlation engine
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { GutSymptom } from '../types/comprehensive';
+
+// Time after eating in which a symptom is attributed to a food
+export interface LagWindow {
+  label: string;
+  startHours: number;
+  endHours: number;
+}
+
+export interface FoodExposure {
+  food: string;
+  timestamp: Date;
+  // Portion eaten, when recorded
+  grams?: number;
+}
+
+export type SymptomEvent = Pick<GutSymptom, 'type' | 'severity' | 'timestamp'>;
+
+export interface CorrelationOptions {
+  lagWindows?: LagWindow[];
+  // Minimum number of exposures before a food is reported
+  minSupport?: number;
+  // z-score for the confidence interval, 1.96 for 95%
+  confidenceZ?: number;
+  symptomType?: GutSymptom['type'];
+}
+
+export interface FoodCorrelation {
+  food: string;
+  // Risk difference: symptom rate after this food minus after other foods
+  correlation: number;
+  lagWindow: string;
+  support: number;
+  symptomRate: number;
+  baselineRate: number;
+  confidenceInterval: [number, number];
+  // Set once enough exposures record a portion: the mean portion, and how
+  // strongly larger portions go with symptoms (Pearson, -1 to 1)
+  averageGrams?: number;
+  doseResponse?: number;
+}
+
+export const DEFAULT_LAG_WINDOWS: LagWindow[] = [
+  { label: '0-2h', startHours: 0, endHours: 2 },
+  { label: '2-8h', startHours: 2, endHours: 8 },
+  { label: '8-48h', startHours: 8, endHours: 48 },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_MIN_SUPPORT = 3;
+const DEFAULT_CONFIDENCE_Z = 1.96;
+
+/**
+ * Wilson score interval for a proportion
+ */
+export const wilsonInterval = (
+  successes: number,
+  trials: number,
+  z: number = DEFAULT_CONFIDENCE_Z
+): [number, number] => {
+  if (trials === 0) {
+    return [0, 1];
+  }
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const centre = (p + z2 / (2 * trials)) / denominator;
+  const margin =
+    (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) /
+    denominator;
+  return [Math.max(0, centre - margin), Math.min(1, centre + margin)];
+};
+
+/**
+ * Newcombe's interval for a difference of two proportions, built from the
+ * Wilson intervals of each
+ */
+const differenceInterval = (
+  hits: number,
+  trials: number,
+  baselineHits: number,
+  baselineTrials: number,
+  z: number
+): [number, number] => {
+  const p = hits / trials;
+  const q = baselineTrials > 0 ? baselineHits / baselineTrials : 0;
+  const [l1, u1] = wilsonInterval(hits, trials, z);
+  const [l2, u2] =
+    baselineTrials > 0
+      ? wilsonInterval(baselineHits, baselineTrials, z)
+      : [0, 0];
+  const difference = p - q;
+  return [
+    Math.max(-1, difference - Math.sqrt((p - l1) ** 2 + (u2 - q) ** 2)),
+    Math.min(1, difference + Math.sqrt((u1 - p) ** 2 + (q - l2) ** 2)),
+  ];
+};
+
+const foodKey = (food: string): string => food.trim().toLowerCase();
+
+/**
+ * Correlate food exposures with later symptoms. For every food and lag window
+ * the share of exposures followed by a symptom is compared with the same
+ * share for every other food; the strongest window is reported per food.
+ */
+export const correlateFoodsWithSymptoms = (
+  exposures: FoodExposure[],
+  symptoms: SymptomEvent[],
+  options: CorrelationOptions = {}
+): FoodCorrelation[] => {
+  const lagWindows = options.lagWindows ?? DEFAULT_LAG_WINDOWS;
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+  const z = options.confidenceZ ?? DEFAULT_CONFIDENCE_Z;
+
+  const symptomTimes = symptoms
+    .filter(
+      (symptom) =>
+        options.symptomType === undefined ||
+        symptom.type === options.symptomType
+    )
+    .map((symptom) => symptom.timestamp.getTime())
+    .sort((a, b) => a - b);
+
+  const hasSymptomIn = (start: number, end: number): boolean =>
+    symptomTimes.some((time) => time >= start && time < end);
+
+  // Display name per food, first spelling seen wins
+  const names = new Map<string, string>();
+  exposures.forEach((exposure) => {
+    const key = foodKey(exposure.food);
+    if (key.length > 0 && !names.has(key)) {
+      names.set(key, exposure.food.trim());
+    }
+  });
+
+  const results: FoodCorrelation[] = [];
+
+  names.forEach((name, key) => {
+    let best: FoodCorrelation | null = null;
+
+    for (const window of lagWindows) {
+      let hits = 0;
+      let trials = 0;
+      let baselineHits = 0;
+      let baselineTrials = 0;
+      const doses: number[] = [];
+      const outcomes: number[] = [];
+
+      exposures.forEach((exposure) => {
+        const time = exposure.timestamp.getTime();
+        const hit = hasSymptomIn(
+          time + window.startHours * HOUR_MS,
+          time + window.endHours * HOUR_MS
+        );
+        if (foodKey(exposure.food) === key) {
+          trials++;
+          hits += hit ? 1 : 0;
+          if (exposure.grams !== undefined) {
+            doses.push(exposure.grams);
+            outcomes.push(hit ? 1 : 0);
+          }
+        } else {
+          baselineTrials++;
+          baselineHits += hit ? 1 : 0;
+        }
+      });
+
+      if (trials < minSupport) {
+        continue;
+      }
+
+      const symptomRate = hits / trials;
+      const baselineRate =
+        baselineTrials > 0 ? baselineHits / baselineTrials : 0;
+      const correlation = Math.max(0, symptomRate - baselineRate);
+
+      if (best === null || correlation > best.correlation) {
+        best = {
+          food: name,
+          correlation,
+          lagWindow: window.label,
+          support: trials,
+          symptomRate,
+          baselineRate,
+          confidenceInterval: differenceInterval(
+            hits,
+            trials,
+            baselineHits,
+            baselineTrials,
+            z
+          ),
+          ...(doses.length >= minSupport && {
+            averageGrams:
+              doses.reduce((sum, grams) => sum + grams, 0) / doses.length,
+            doseResponse: pearsonCorrelation(doses, outcomes),
+          }),
+        };
+      }
+    }
+
+    if (best !== null && best.correlation > 0) {
+      results.push(best);
+    }
+  });
+
+  return results.sort(
+    (a, b) => b.correlation - a.correlation || b.support - a.support
+  );
+};
+
+/**
+ * Pearson correlation of two equal-length series, 0 when undefined
+ */
+export const pearsonCorrelation = (xs: number[], ys: number[]): number => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) {
+    return 0;
+  }
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = (xs[i] ?? 0) - meanX;
+    const dy = (ys[i] ?? 0) - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) {
+    return 0;
+  }
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
@@ -0,0 +1,409 @@
+/**
+ * @fileoverview syncEngine.ts - Pushes queued offline changes to the backend
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  FoodItem,
+  GutProfile,
+  SafeFood,
+  SyncQueueItem,
+} from '../types/comprehensive';
+
+import type { RetryConfig } from './errorHandler';
+import { logger } from './logger';
+import { retryUtils } from './retryUtils';
+
+export type SyncEntity = 'scans' | 'safe_foods' | 'medications' | 'foods';
+
+// Backend routes for each queue key, relative to the API base URL
+export const SYNC_ENDPOINTS: Record<SyncEntity, string> = {
+  scans: '/scans',
+  safe_foods: '/users/safe-foods',
+  medications: '/users/medications',
+  foods: '/foods',
+};
+
+// Backend routes the copies kept on other devices are read from
+const PULL_ENDPOINTS = {
+  gutProfile: '/users/gut-profile',
+  safeFoods: '/users/safe-foods',
+};
+// The most safe foods the backend returns per page
+const SAFE_FOODS_PAGE_SIZE = 100;
+
+export const SYNC_BATCH_SIZE = 10;
+export const DEFAULT_SYNC_MAX_RETRIES = 5;
+const SYNC_REQUEST_TIMEOUT = 15000;
+
+export interface SyncOptions {
+  baseUrl: string;
+  authToken?: string;
+  batchSize?: number;
+  retry?: Partial<RetryConfig>;
+}
+
+export interface SyncResult {
+  synced: SyncQueueItem[];
+  // Items to keep queued for the next run
+  remaining: SyncQueueItem[];
+  // Items the server refused or that have used up their retries
+  rejected: SyncQueueItem[];
+  // The backend refused the token, so the run stopped early
+  unauthorized: boolean;
+}
+
+// Records as last saved to the backend, to merge into the local copies
+export interface RemoteChanges {
+  gutProfile: GutProfile | null;
+  safeFoods: SafeFood[];
+}
+
+type SyncOutcome = 'synced' | 'retry' | 'rejected' | 'unauthorized';
+
+export class SyncRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+export const isSyncEntity = (key: string): key is SyncEntity =>
+  Object.keys(SYNC_ENDPOINTS).includes(key);
+
+/**
+ * Map an HTTP status to a retryUtils error code. Only network, timeout and
+ * rate limit codes are retried.
+ */
+const errorCodeForStatus = (status: number): string => {
+  if (status === 401 || status === 403) {
+    return 'AUTH_ERROR';
+  }
+  if (status === 408) {
+    return 'TIMEOUT_ERROR';
+  }
+  if (status === 429) {
+    return 'RATE_LIMIT_ERROR';
+  }
+  return status >= 500 ? 'NETWORK_ERROR' : 'CLIENT_ERROR';
+};
+
+const requestHeaders = (options: SyncOptions): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  Accept: 'application/json',
+  ...(options.authToken !== undefined && {
+    Authorization: `Bearer ${options.authToken}`,
+  }),
+});
+
+const pushItem = async (
+  item: SyncQueueItem & { key: SyncEntity },
+  options: SyncOptions
+): Promise<void> => {
+  let response: Response;
+  try {
+    response = await fetch(`${options.baseUrl}${SYNC_ENDPOINTS[item.key]}`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(SYNC_REQUEST_TIMEOUT),
+      headers: requestHeaders(options),
+      body: JSON.stringify(item.data),
+    });
+  } catch (error) {
+    const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+    throw new SyncRequestError(
+      error instanceof Error ? error.message : 'Network request failed',
+      isTimeout ? 'TIMEOUT_ERROR' : 'NETWORK_ERROR'
+    );
+  }
+
+  if (!response.ok) {
+    throw new SyncRequestError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      errorCodeForStatus(response.status),
+      response.status
+    );
+  }
+};
+
+const syncItem = async (
+  item: SyncQueueItem,
+  options: SyncOptions
+): Promise<SyncOutcome> => {
+  const { key } = item;
+  if (!isSyncEntity(key)) {
+    logger.warn('Dropping sync item with unknown key', 'SyncEngine', { key });
+    return 'rejected';
+  }
+
+  let failure: SyncRequestError | null = null;
+  const result = await retryUtils.retryApiCall(
+    async () => {
+      try {
+        await pushItem({ ...item, key }, options);
+      } catch (error) {
+        failure = error as SyncRequestError;
+        throw error;
+      }
+    },
+    options.retry,
+    'SyncEngine'
+  );
+
+  if (result.success) {
+    return 'synced';
+  }
+
+  const code = (failure as SyncRequestError | null)?.code;
+  if (code === 'AUTH_ERROR') {
+    return 'unauthorized';
+  }
+  return code === 'CLIENT_ERROR' ? 'rejected' : 'retry';
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Push queued items to the backend in batches. Items that fail with a
+ * transient error stay queued with their retry count raised, until they
+ * reach their retry limit. An auth failure stops the run and leaves the
+ * rest of the queue untouched.
+ */
+export const syncQueueItems = async (
+  items: SyncQueueItem[],
+  options: SyncOptions
+): Promise<SyncResult> => {
+  const result: SyncResult = {
+    synced: [],
+    remaining: [],
+    rejected: [],
+    unauthorized: false,
+  };
+  const batches = chunk(items, options.batchSize ?? SYNC_BATCH_SIZE);
+
+  // Batches run one after another; items within a batch run in parallel
+  const runBatch = async (index: number): Promise<void> => {
+    const batch = batches[index];
+    if (!batch) {
+      return;
+    }
+    const outcomes = await Promise.all(
+      batch.map((item) => syncItem(item, options))
+    );
+
+    batch.forEach((item, itemIndex) => {
+      switch (outcomes[itemIndex]) {
+        case 'synced':
+          result.synced.push(item);
+          break;
+        case 'rejected':
+          result.rejected.push(item);
+          break;
+        case 'unauthorized':
+          result.remaining.push(item);
+          break;
+        default: {
+          const retried = { ...item, retryCount: item.retryCount + 1 };
+          if (retried.retryCount >= retried.maxRetries) {
+            result.rejected.push(retried);
+          } else {
+            result.remaining.push(retried);
+          }
+        }
+      }
+    });
+
+    if (outcomes.includes('unauthorized')) {
+      logger.warn('Sync stopped: not authorized', 'SyncEngine');
+      result.unauthorized = true;
+      result.remaining.push(...batches.slice(index + 1).flat());
+      return;
+    }
+    await runBatch(index + 1);
+  };
+  await runBatch(0);
+
+  logger.info('Sync run finished', 'SyncEngine', {
+    synced: result.synced.length,
+    remaining: result.remaining.length,
+    rejected: result.rejected.length,
+  });
+
+  return result;
+};
+
+// Read a backend route, or null when the record does not exist there
+const pullJson = async <T>(
+  path: string,
+  options: SyncOptions
+): Promise<T | null> => {
+  const response = await fetch(`${options.baseUrl}${path}`, {
+    method: 'GET',
+    signal: AbortSignal.timeout(SYNC_REQUEST_TIMEOUT),
+    headers: requestHeaders(options),
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new SyncRequestError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      errorCodeForStatus(response.status),
+      response.status
+    );
+  }
+  return (await response.json()) as T;
+};
+
+const toDate = (value: string | null): Date | undefined =>
+  value !== null ? new Date(value) : undefined;
+
+type ConditionSettings =
+  GutProfile['conditions'][keyof GutProfile['conditions']];
+
+interface RemoteGutProfileRow {
+  id: string;
+  conditions: Record<
+    string,
+    Omit<ConditionSettings, 'lastUpdated'> & { lastUpdated?: string }
+  >;
+  preferences: GutProfile['preferences'];
+  created_at: string;
+  updated_at: string;
+}
+
+interface RemoteSafeFoodRow {
+  id: string;
+  food_item_id: string;
+  food_name: string;
+  barcode: string | null;
+  brand: string | null;
+  category: string | null;
+  ingredients: string[];
+  allergens: string[];
+  additives: string[];
+  gut_health_info: Partial<
+    Pick<
+      FoodItem,
+      'glutenFree' | 'lactoseFree' | 'fodmapLevel' | 'histamineLevel'
+    >
+  > | null;
+  data_source: string | null;
+  added_date: string;
+  last_used: string | null;
+  usage_count: number | null;
+  notes: string | null;
+  updated_at: string | null;
+}
+
+const toGutProfile = (row: RemoteGutProfileRow): GutProfile => ({
+  id: row.id,
+  conditions: Object.fromEntries(
+    Object.entries(row.conditions).map(([condition, settings]) => {
+      const { lastUpdated, ...rest } = settings;
+      return [
+        condition,
+        {
+          ...rest,
+          ...(lastUpdated !== undefined && {
+            lastUpdated: new Date(lastUpdated),
+          }),
+        },
+      ];
+    })
+  ) as GutProfile['conditions'],
+  preferences: row.preferences,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const toSafeFood = (row: RemoteSafeFoodRow): SafeFood => {
+  const gutHealthInfo = row.gut_health_info ?? {};
+  const lastUsed = toDate(row.last_used);
+  const updatedAt = toDate(row.updated_at);
+
+  return {
+    id: row.id,
+    foodItem: {
+      id: row.food_item_id,
+      name: row.food_name,
+      ...(row.barcode !== null && { barcode: row.barcode }),
+      ...(row.brand !== null && { brand: row.brand }),
+      ...(row.category !== null && { category: row.category }),
+      ingredients: row.ingredients,
+      allergens: row.allergens,
+      additives: row.additives,
+      glutenFree: gutHealthInfo.glutenFree === true,
+      lactoseFree: gutHealthInfo.lactoseFree === true,
+      ...(gutHealthInfo.fodmapLevel !== undefined && {
+        fodmapLevel: gutHealthInfo.fodmapLevel,
+      }),
+      ...(gutHealthInfo.histamineLevel !== undefined && {
+        histamineLevel: gutHealthInfo.histamineLevel,
+      }),
+      ...(row.data_source !== null && { dataSource: row.data_source }),
+    },
+    addedDate: new Date(row.added_date),
+    usageCount: row.usage_count ?? 0,
+    ...(lastUsed && { lastUsed }),
+    ...(row.notes !== null && { notes: row.notes }),
+    ...(updatedAt && { updatedAt }),
+  };
+};
+
+// Read every page of the user's safe foods, from the given page on
+const pullSafeFoods = async (
+  options: SyncOptions,
+  page: number = 1
+): Promise<RemoteSafeFoodRow[]> => {
+  const response = await pullJson<{
+    safeFoods: RemoteSafeFoodRow[];
+    pagination?: { hasNext: boolean };
+  }>(
+    `${PULL_ENDPOINTS.safeFoods}?limit=${SAFE_FOODS_PAGE_SIZE}&page=${page}`,
+    options
+  );
+  if (!response) {
+    return [];
+  }
+
+  const hasNext =
+    response.pagination?.hasNext === true && response.safeFoods.length > 0;
+  return [
+    ...response.safeFoods,
+    ...(hasNext ? await pullSafeFoods(options, page + 1) : []),
+  ];
+};
+
+/**
+ * Read the user's gut profile and safe foods as the backend has them, so
+ * edits made on other devices can be merged into the local copies
+ */
+export const pullRemoteChanges = async (
+  options: SyncOptions
+): Promise<RemoteChanges> => {
+  const [profile, safeFoods] = await Promise.all([
+    pullJson<{ gutProfile: RemoteGutProfileRow }>(
+      PULL_ENDPOINTS.gutProfile,
+      options
+    ),
+    pullSafeFoods(options),
+  ]);
+
+  return {
+    gutProfile: profile ? toGutProfile(profile.gutProfile) : null,
+    safeFoods: safeFoods.map(toSafeFood),
+  };
+};
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview syncPayloads.ts - Bodies queued for the backend sync routes
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type { MedicationSupplement, SafeFood } from '../types/comprehensive';
+
+/**
+ * Body to queue for a safe food. The backend finds the food by id or
+ * barcode and adds the safe food, or updates the notes of one it has.
+ */
+export const toSafeFoodSyncData = (safeFood: SafeFood): object => ({
+  foodItem: {
+    id: safeFood.foodItem.id,
+    ...(safeFood.foodItem.barcode !== undefined && {
+      barcode: safeFood.foodItem.barcode,
+    }),
+  },
+  ...(safeFood.notes !== undefined && { notes: safeFood.notes }),
+});
+
+/**
+ * Body to queue for a medication. The app's id goes as the clientId, so
+ * the backend updates the medication it already has instead of adding it
+ * again.
+ */
+export const toMedicationSyncData = (
+  medication: MedicationSupplement
+): object => {
+  const { id, ...fields } = medication;
+  return { ...fields, clientId: id };
+};
@@ -12,6 +12,7 @@ import React from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
 import { ErrorBoundary } from '../components/ErrorBoundary';
+import type { GutCondition, GutProfile } from '../types';
 // import { logger } from './logger';
 
 // Jest types
@@ -89,7 +90,7 @@ export const createMockScanHistory = (overrides: Partial<any> = {}) => ({
     overallSafety: 'safe' as const,
     flaggedIngredients: [],
     conditionWarnings: [],
-    safeAlternatives: ['Alternative 1'],
+    safeAlternatives: [{ id: 'alternative-1', name: 'Alternative 1' }],
     explanation: 'Test explanation',
     dataSource: 'Test Database',
     lastUpdated: new Date(),
@@ -99,37 +100,75 @@ export const createMockScanHistory = (overrides: Partial<any> = {}) => ({
   ...overrides,
 });
 
-export const createMockGutProfile = (overrides: Partial<any> = {}) => ({
-  id: 'test-profile-1',
-  conditions: {
-    'ibs-fodmap': {
-      enabled: true,
-      severity: 'mild' as const,
+// Gut profile fields to replace; conditions are replaced one by one
+export type MockGutProfileOverrides = Partial<
+  Omit<GutProfile, 'conditions'>
+> & {
+  conditions?: Partial<GutProfile['conditions']>;
+};
+
+// Every condition disabled, apart from the ones given
+export const createMockConditions = (
+  overrides: Partial<GutProfile['conditions']> = {}
+): GutProfile['conditions'] => {
+  const conditions = {} as GutProfile['conditions'];
+  (
+    [
+      'ibs-fodmap',
+      'gluten',
+      'lactose',
+      'reflux',
+      'histamine',
+      'allergies',
+      'additives',
+    ] as GutCondition[]
+  ).forEach((condition) => {
+    conditions[condition] = {
+      enabled: false,
+      severity: 'moderate',
       knownTriggers: [],
+    };
+  });
+  return { ...conditions, ...overrides };
+};
+
+export const createMockGutProfile = (
+  overrides: MockGutProfileOverrides = {}
+): GutProfile => {
+  const { conditions, ...fields } = overrides;
+  return {
+    id: 'test-profile-1',
+    conditions: {
+      'ibs-fodmap': {
+        enabled: true,
+        severity: 'mild',
+        knownTriggers: [],
+      },
+      gluten: { enabled: false, severity: 'mild', knownTriggers: [] },
+      lactose: {
+        enabled: true,
+        severity: 'moderate',
+        knownTriggers: ['dairy'],
+      },
+      reflux: { enabled: false, severity: 'mild', knownTriggers: [] },
+      histamine: { enabled: false, severity: 'mild', knownTriggers: [] },
+      allergies: { enabled: false, severity: 'mild', knownTriggers: [] },
+      additives: {
+        enabled: true,
+        severity: 'mild',
+        knownTriggers: ['MSG'],
+      },
+      ...conditions,
     },
-    gluten: { enabled: false, severity: 'mild' as const, knownTriggers: [] },
-    lactose: {
-      enabled: true,
-      severity: 'moderate' as const,
-      knownTriggers: ['dairy'],
-    },
-    reflux: { enabled: false, severity: 'mild' as const, knownTriggers: [] },
-    histamine: { enabled: false, severity: 'mild' as const, knownTriggers: [] },
-    allergies: { enabled: false, severity: 'mild' as const, knownTriggers: [] },
-    additives: {
-      enabled: true,
-      severity: 'mild' as const,
-      knownTriggers: ['MSG'],
+    preferences: {
+      dietaryRestrictions: ['vegetarian'],
+      preferredAlternatives: ['coconut milk'],
     },
-  },
-  preferences: {
-    dietaryRestrictions: ['vegetarian'],
-    preferredAlternatives: ['coconut milk'],
-  },
-  createdAt: new Date(),
-  updatedAt: new Date(),
-  ...overrides,
-});
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  };
+};
 
 export const createMockUserSettings = (overrides: Partial<any> = {}) => ({
   profile: {
@@ -325,6 +364,7 @@ const testUtils = {
   mockRoute,
   createMockFoodItem,
   createMockScanHistory,
+  createMockConditions,
   createMockGutProfile,
   createMockUserSettings,
   createMockDataService,
@@ -0,0 +1,1170 @@
+/**
+ * @fileoverview triggerKnowledgeBase.ts - Versioned ingredient trigger rules
+ * @copyright Copyright (c) 2024 Benjamin [Last Name]. All rights reserved.
+ * @license PROPRIETARY - See LICENSE file for details
+ * @private
+ */
+
+import type {
+  FodmapSubgroup,
+  GutCondition,
+  HiddenTrigger,
+  SeverityLevel,
+} from '../types/comprehensive';
+
+// Bump whenever rules are added, removed or re-graded so cached analyses
+// can be invalidated.
+export const TRIGGER_KNOWLEDGE_BASE_VERSION = '1.2.0';
+
+// Trigger rule interface
+export interface TriggerRule {
+  id: string;
+  name: string;
+  synonyms: string[];
+  eNumbers?: string[];
+  category: string;
+  conditions: Array<{ condition: GutCondition; severity: SeverityLevel }>;
+  // True when the ingredient name does not reveal the trigger (e.g. whey)
+  hidden?: boolean;
+  // Phrases that look like a match but are not (e.g. "coconut milk")
+  excludes?: string[];
+  alternatives?: string[];
+  // FODMAP subgroup, with grams of the ingredient per serving at which it
+  // becomes a moderate or high FODMAP load
+  fodmap?: { subgroup: FodmapSubgroup; moderateAt: number; highAt: number };
+  // Grams of the ingredient per portion at which its histamine load becomes
+  // moderate or high
+  histamine?: { moderateAt: number; highAt: number };
+}
+
+// Result of matching one ingredient against the knowledge base
+export interface TriggerMatch {
+  rule: TriggerRule;
+  matchedTerm: string;
+  matchType: 'name' | 'synonym' | 'e-number' | 'personal';
+  confidence: number;
+  triggers: HiddenTrigger[];
+}
+
+// A user-supplied trigger term scoped to one condition
+export interface PersonalTrigger {
+  term: string;
+  condition: GutCondition;
+  severity: SeverityLevel;
+}
+
+const PLANT_MILKS = [
+  'coconut milk',
+  'almond milk',
+  'oat milk',
+  'soy milk',
+  'soya milk',
+  'rice milk',
+  'cashew milk',
+];
+
+const FREE_FROM = (term: string): string[] => [
+  `${term} free`,
+  `no ${term}`,
+  `without ${term}`,
+];
+
+const TRIGGER_RULES: TriggerRule[] = [
+  // ===== DAIRY / LACTOSE =====
+  {
+    id: 'milk',
+    name: 'milk',
+    synonyms: [
+      'whole milk',
+      'skimmed milk',
+      'milk powder',
+      'milk solids',
+      'milk fat',
+      'condensed milk',
+    ],
+    category: 'dairy',
+    fodmap: { subgroup: 'lactose', moderateAt: 20, highAt: 60 },
+    conditions: [
+      { condition: 'lactose', severity: 'severe' },
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+      { condition: 'allergies', severity: 'moderate' },
+    ],
+    excludes: [...PLANT_MILKS, ...FREE_FROM('milk'), 'milk thistle'],
+    alternatives: ['lactose-free milk', 'oat milk'],
+  },
+  {
+    id: 'lactose',
+    name: 'lactose',
+    synonyms: ['milk sugar'],
+    category: 'dairy',
+    fodmap: { subgroup: 'lactose', moderateAt: 1, highAt: 4 },
+    conditions: [
+      { condition: 'lactose', severity: 'severe' },
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+    ],
+    excludes: FREE_FROM('lactose'),
+  },
+  {
+    id: 'whey',
+    name: 'whey',
+    synonyms: ['whey powder', 'whey protein', 'whey solids', 'lactoserum'],
+    category: 'dairy',
+    fodmap: { subgroup: 'lactose', moderateAt: 1.5, highAt: 5 },
+    conditions: [
+      { condition: 'lactose', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+      { condition: 'allergies', severity: 'moderate' },
+    ],
+    hidden: true,
+    alternatives: ['whey protein isolate', 'pea protein'],
+  },
+  {
+    id: 'casein',
+    name: 'casein',
+    synonyms: [
+      'caseinate',
+      'sodium caseinate',
+      'calcium caseinate',
+      'milk protein',
+    ],
+    category: 'dairy',
+    conditions: [
+      { condition: 'allergies', severity: 'severe' },
+      { condition: 'lactose', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'cream',
+    name: 'cream',
+    synonyms: ['sour cream', 'creme fraiche', 'buttermilk'],
+    category: 'dairy',
+    fodmap: { subgroup: 'lactose', moderateAt: 40, highAt: 120 },
+    conditions: [
+      { condition: 'lactose', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+      { condition: 'reflux', severity: 'mild' },
+    ],
+    excludes: ['cream of tartar', 'coconut cream', ...FREE_FROM('dairy')],
+  },
+  {
+    id: 'butter',
+    name: 'butter',
+    synonyms: ['butterfat', 'butter oil'],
+    category: 'dairy',
+    conditions: [
+      { condition: 'lactose', severity: 'mild' },
+      { condition: 'reflux', severity: 'mild' },
+    ],
+    excludes: [
+      'cocoa butter',
+      'shea butter',
+      'peanut butter',
+      'nut butter',
+      'apple butter',
+    ],
+  },
+  {
+    id: 'cheese',
+    name: 'cheese',
+    synonyms: ['cheddar', 'parmesan', 'mozzarella', 'gouda', 'ricotta'],
+    category: 'dairy',
+    histamine: { moderateAt: 15, highAt: 40 },
+    conditions: [
+      { condition: 'lactose', severity: 'moderate' },
+      { condition: 'histamine', severity: 'moderate' },
+      { condition: 'allergies', severity: 'moderate' },
+    ],
+  },
+  {
+    id: 'yogurt',
+    name: 'yogurt',
+    synonyms: ['yoghurt', 'kefir'],
+    category: 'dairy',
+    fodmap: { subgroup: 'lactose', moderateAt: 40, highAt: 100 },
+    histamine: { moderateAt: 100, highAt: 250 },
+    conditions: [
+      { condition: 'lactose', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    excludes: ['coconut yogurt', 'soy yogurt'],
+  },
+
+  // ===== GLUTEN =====
+  {
+    id: 'wheat',
+    name: 'wheat',
+    synonyms: [
+      'wheat flour',
+      'whole wheat',
+      'durum',
+      'semolina',
+      'spelt',
+      'farro',
+      'kamut',
+      'bulgur',
+      'couscous',
+      'triticale',
+    ],
+    category: 'grain',
+    fodmap: { subgroup: 'fructans', moderateAt: 15, highAt: 40 },
+    conditions: [
+      { condition: 'gluten', severity: 'severe' },
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+      { condition: 'allergies', severity: 'moderate' },
+    ],
+    excludes: [...FREE_FROM('wheat'), 'buckwheat'],
+    alternatives: ['rice flour', 'buckwheat flour'],
+  },
+  {
+    id: 'barley',
+    name: 'barley',
+    synonyms: ['pearl barley', 'barley flour'],
+    category: 'grain',
+    fodmap: { subgroup: 'fructans', moderateAt: 10, highAt: 30 },
+    conditions: [
+      { condition: 'gluten', severity: 'severe' },
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+    ],
+  },
+  {
+    id: 'rye',
+    name: 'rye',
+    synonyms: ['rye flour', 'pumpernickel'],
+    category: 'grain',
+    fodmap: { subgroup: 'fructans', moderateAt: 10, highAt: 30 },
+    conditions: [
+      { condition: 'gluten', severity: 'severe' },
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+    ],
+  },
+  {
+    id: 'gluten',
+    name: 'gluten',
+    synonyms: ['wheat gluten', 'vital wheat gluten', 'seitan'],
+    category: 'grain',
+    conditions: [{ condition: 'gluten', severity: 'severe' }],
+    excludes: FREE_FROM('gluten'),
+  },
+  {
+    id: 'malt',
+    name: 'malt',
+    synonyms: ['malt extract', 'barley malt', 'malt vinegar', 'malted'],
+    category: 'grain',
+    conditions: [
+      { condition: 'gluten', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    hidden: true,
+    excludes: ['maltodextrin', 'maltitol', 'maltose'],
+  },
+  {
+    id: 'oats',
+    name: 'oats',
+    synonyms: ['oat', 'oatmeal', 'oat flour'],
+    category: 'grain',
+    conditions: [{ condition: 'gluten', severity: 'mild' }],
+    excludes: ['gluten free oats', 'oat milk'],
+  },
+
+  // ===== FODMAP: FRUCTANS / GOS =====
+  {
+    id: 'inulin',
+    name: 'inulin',
+    synonyms: ['chicory root', 'chicory root fiber', 'chicory fibre'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'fructans', moderateAt: 0.5, highAt: 2 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'severe' }],
+    hidden: true,
+  },
+  {
+    id: 'fos',
+    name: 'fructooligosaccharides',
+    synonyms: ['fos', 'oligofructose', 'fructo oligosaccharides'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'fructans', moderateAt: 0.5, highAt: 2 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'severe' }],
+    hidden: true,
+  },
+  {
+    id: 'gos',
+    name: 'galactooligosaccharides',
+    synonyms: ['gos', 'galacto oligosaccharides'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'gos', moderateAt: 0.5, highAt: 2 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'severe' }],
+    hidden: true,
+  },
+  {
+    id: 'onion',
+    name: 'onion',
+    synonyms: ['onion powder', 'dehydrated onion', 'shallot', 'leek'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'fructans', moderateAt: 1, highAt: 5 },
+    conditions: [
+      { condition: 'ibs-fodmap', severity: 'severe' },
+      { condition: 'reflux', severity: 'moderate' },
+    ],
+    excludes: ['spring onion greens', 'onion free'],
+  },
+  {
+    id: 'garlic',
+    name: 'garlic',
+    synonyms: ['garlic powder', 'garlic salt', 'dehydrated garlic'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'fructans', moderateAt: 0.5, highAt: 2 },
+    conditions: [
+      { condition: 'ibs-fodmap', severity: 'severe' },
+      { condition: 'reflux', severity: 'moderate' },
+    ],
+    excludes: ['garlic infused oil', 'garlic free'],
+  },
+  {
+    id: 'legumes',
+    name: 'legumes',
+    synonyms: [
+      'chickpea',
+      'chickpeas',
+      'lentil',
+      'lentils',
+      'kidney beans',
+      'black beans',
+      'baked beans',
+      'pea protein',
+      'split peas',
+    ],
+    category: 'fodmap',
+    fodmap: { subgroup: 'gos', moderateAt: 20, highAt: 60 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'moderate' }],
+  },
+
+  // ===== FODMAP: FRUCTOSE =====
+  {
+    id: 'hfcs',
+    name: 'high fructose corn syrup',
+    synonyms: [
+      'hfcs',
+      'glucose fructose syrup',
+      'fructose glucose syrup',
+      'isoglucose',
+      'fructose syrup',
+    ],
+    category: 'fodmap',
+    fodmap: { subgroup: 'excess-fructose', moderateAt: 2, highAt: 8 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'severe' }],
+    hidden: true,
+  },
+  {
+    id: 'fructose',
+    name: 'fructose',
+    synonyms: ['crystalline fructose', 'fruit sugar'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'excess-fructose', moderateAt: 2, highAt: 6 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'moderate' }],
+  },
+  {
+    id: 'honey',
+    name: 'honey',
+    synonyms: ['agave', 'agave syrup', 'agave nectar'],
+    category: 'fodmap',
+    fodmap: { subgroup: 'excess-fructose', moderateAt: 5, highAt: 10 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'moderate' }],
+    alternatives: ['maple syrup', 'rice malt syrup'],
+  },
+  {
+    id: 'high-fructose-fruit',
+    name: 'apple',
+    synonyms: [
+      'apple juice',
+      'apple puree',
+      'pear',
+      'pear juice',
+      'mango',
+      'watermelon',
+      'fruit juice concentrate',
+    ],
+    category: 'fodmap',
+    fodmap: { subgroup: 'excess-fructose', moderateAt: 20, highAt: 60 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'moderate' }],
+  },
+
+  // ===== FODMAP: POLYOLS =====
+  {
+    id: 'sorbitol',
+    name: 'sorbitol',
+    synonyms: ['sorbitol syrup', 'glucitol'],
+    eNumbers: ['E420'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 0.3, highAt: 1 },
+    conditions: [
+      { condition: 'ibs-fodmap', severity: 'severe' },
+      { condition: 'additives', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'mannitol',
+    name: 'mannitol',
+    synonyms: [],
+    eNumbers: ['E421'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 0.3, highAt: 1 },
+    conditions: [
+      { condition: 'ibs-fodmap', severity: 'severe' },
+      { condition: 'additives', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'xylitol',
+    name: 'xylitol',
+    synonyms: [],
+    eNumbers: ['E967'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 0.5, highAt: 2 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'severe' }],
+  },
+  {
+    id: 'maltitol',
+    name: 'maltitol',
+    synonyms: ['maltitol syrup'],
+    eNumbers: ['E965'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 0.5, highAt: 2 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'severe' }],
+  },
+  {
+    id: 'isomalt',
+    name: 'isomalt',
+    synonyms: [],
+    eNumbers: ['E953'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 0.5, highAt: 2 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'moderate' }],
+  },
+  {
+    id: 'lactitol',
+    name: 'lactitol',
+    synonyms: [],
+    eNumbers: ['E966'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 0.3, highAt: 1 },
+    conditions: [
+      { condition: 'ibs-fodmap', severity: 'moderate' },
+      { condition: 'lactose', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'erythritol',
+    name: 'erythritol',
+    synonyms: [],
+    eNumbers: ['E968'],
+    category: 'polyol',
+    fodmap: { subgroup: 'polyols', moderateAt: 10, highAt: 25 },
+    conditions: [{ condition: 'ibs-fodmap', severity: 'mild' }],
+  },
+
+  // ===== HISTAMINE =====
+  {
+    id: 'fermented',
+    name: 'fermented',
+    synonyms: ['sauerkraut', 'kimchi', 'miso', 'tempeh', 'kombucha'],
+    category: 'histamine',
+    histamine: { moderateAt: 15, highAt: 50 },
+    conditions: [{ condition: 'histamine', severity: 'severe' }],
+  },
+  {
+    id: 'vinegar',
+    name: 'vinegar',
+    synonyms: ['wine vinegar', 'balsamic vinegar', 'cider vinegar'],
+    category: 'histamine',
+    histamine: { moderateAt: 5, highAt: 15 },
+    conditions: [
+      { condition: 'histamine', severity: 'moderate' },
+      { condition: 'reflux', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'soy-sauce',
+    name: 'soy sauce',
+    synonyms: ['tamari', 'shoyu', 'fish sauce', 'worcestershire sauce'],
+    category: 'histamine',
+    histamine: { moderateAt: 5, highAt: 15 },
+    conditions: [
+      { condition: 'histamine', severity: 'severe' },
+      { condition: 'gluten', severity: 'moderate' },
+    ],
+  },
+  {
+    id: 'yeast-extract',
+    name: 'yeast extract',
+    synonyms: ['autolyzed yeast', 'hydrolyzed yeast', 'autolysed yeast'],
+    category: 'histamine',
+    histamine: { moderateAt: 2, highAt: 6 },
+    conditions: [
+      { condition: 'histamine', severity: 'moderate' },
+      { condition: 'additives', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'cured-meat',
+    name: 'cured meat',
+    synonyms: ['salami', 'pepperoni', 'chorizo', 'prosciutto', 'smoked ham'],
+    category: 'histamine',
+    histamine: { moderateAt: 15, highAt: 50 },
+    conditions: [
+      { condition: 'histamine', severity: 'severe' },
+      { condition: 'reflux', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'oily-fish',
+    name: 'tuna',
+    synonyms: ['mackerel', 'sardine', 'sardines', 'anchovy', 'anchovies'],
+    category: 'histamine',
+    histamine: { moderateAt: 30, highAt: 100 },
+    conditions: [
+      { condition: 'histamine', severity: 'severe' },
+      { condition: 'allergies', severity: 'moderate' },
+    ],
+  },
+  {
+    id: 'histamine-vegetables',
+    name: 'spinach',
+    synonyms: ['eggplant', 'aubergine', 'avocado'],
+    category: 'histamine',
+    histamine: { moderateAt: 40, highAt: 120 },
+    conditions: [{ condition: 'histamine', severity: 'mild' }],
+  },
+
+  // ===== REFLUX =====
+  {
+    id: 'caffeine',
+    name: 'caffeine',
+    synonyms: ['coffee', 'coffee extract', 'guarana', 'green tea extract'],
+    category: 'stimulant',
+    conditions: [
+      { condition: 'reflux', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'chocolate',
+    name: 'chocolate',
+    synonyms: ['cocoa', 'cocoa powder', 'cacao', 'cocoa mass'],
+    category: 'reflux',
+    histamine: { moderateAt: 10, highAt: 30 },
+    conditions: [
+      { condition: 'reflux', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    excludes: ['cocoa butter', 'white chocolate'],
+  },
+  {
+    id: 'mint',
+    name: 'peppermint',
+    synonyms: ['spearmint', 'mint', 'menthol'],
+    category: 'reflux',
+    conditions: [{ condition: 'reflux', severity: 'moderate' }],
+  },
+  {
+    id: 'chili',
+    name: 'chili',
+    synonyms: ['chilli', 'chile', 'capsaicin', 'cayenne', 'jalapeno'],
+    category: 'reflux',
+    conditions: [
+      { condition: 'reflux', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'citrus',
+    name: 'citrus',
+    synonyms: ['orange', 'lemon', 'lime', 'grapefruit', 'orange juice'],
+    category: 'reflux',
+    histamine: { moderateAt: 50, highAt: 150 },
+    conditions: [
+      { condition: 'reflux', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    excludes: ['orange colour', 'lemon balm'],
+  },
+  {
+    id: 'tomato',
+    name: 'tomato',
+    synonyms: ['tomatoes', 'tomato paste', 'tomato puree', 'passata'],
+    category: 'reflux',
+    histamine: { moderateAt: 40, highAt: 120 },
+    conditions: [
+      { condition: 'reflux', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'alcohol',
+    name: 'alcohol',
+    synonyms: ['wine', 'beer', 'rum', 'brandy', 'ethanol'],
+    category: 'reflux',
+    histamine: { moderateAt: 50, highAt: 150 },
+    conditions: [
+      { condition: 'reflux', severity: 'moderate' },
+      { condition: 'histamine', severity: 'severe' },
+    ],
+    excludes: ['sugar alcohol', 'wine vinegar', ...FREE_FROM('alcohol')],
+  },
+  {
+    id: 'citric-acid',
+    name: 'citric acid',
+    synonyms: [],
+    eNumbers: ['E330'],
+    category: 'additive',
+    conditions: [{ condition: 'reflux', severity: 'mild' }],
+    hidden: true,
+  },
+  {
+    id: 'phosphoric-acid',
+    name: 'phosphoric acid',
+    synonyms: [],
+    eNumbers: ['E338'],
+    category: 'additive',
+    conditions: [
+      { condition: 'reflux', severity: 'mild' },
+      { condition: 'additives', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+
+  // ===== ADDITIVES =====
+  {
+    id: 'glutamate',
+    name: 'monosodium glutamate',
+    synonyms: ['msg', 'glutamate', 'flavour enhancer', 'flavor enhancer'],
+    eNumbers: ['E620', 'E621', 'E622', 'E623', 'E624', 'E625'],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'carrageenan',
+    name: 'carrageenan',
+    synonyms: ['processed eucheuma seaweed'],
+    eNumbers: ['E407', 'E407a'],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'sulphites',
+    name: 'sulphites',
+    synonyms: [
+      'sulfites',
+      'sulphite',
+      'sulfite',
+      'sulphur dioxide',
+      'sulfur dioxide',
+      'sodium metabisulphite',
+      'potassium metabisulphite',
+    ],
+    eNumbers: [
+      'E220',
+      'E221',
+      'E222',
+      'E223',
+      'E224',
+      'E225',
+      'E226',
+      'E227',
+      'E228',
+    ],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'moderate' },
+      { condition: 'histamine', severity: 'moderate' },
+      { condition: 'allergies', severity: 'moderate' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'benzoates',
+    name: 'sodium benzoate',
+    synonyms: ['benzoic acid', 'potassium benzoate', 'calcium benzoate'],
+    eNumbers: ['E210', 'E211', 'E212', 'E213'],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'nitrites',
+    name: 'sodium nitrite',
+    synonyms: ['potassium nitrite', 'sodium nitrate', 'potassium nitrate'],
+    eNumbers: ['E249', 'E250', 'E251', 'E252'],
+    category: 'additive',
+    conditions: [{ condition: 'additives', severity: 'moderate' }],
+    hidden: true,
+  },
+  {
+    id: 'azo-dyes',
+    name: 'tartrazine',
+    synonyms: [
+      'sunset yellow',
+      'allura red',
+      'carmoisine',
+      'ponceau 4r',
+      'quinoline yellow',
+      'artificial colour',
+      'artificial color',
+    ],
+    eNumbers: ['E102', 'E104', 'E110', 'E122', 'E124', 'E129'],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'moderate' },
+      { condition: 'histamine', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'artificial-sweeteners',
+    name: 'aspartame',
+    synonyms: [
+      'acesulfame k',
+      'acesulfame potassium',
+      'sucralose',
+      'saccharin',
+    ],
+    eNumbers: ['E950', 'E951', 'E954', 'E955'],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'mild' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'emulsifiers',
+    name: 'polysorbate 80',
+    synonyms: ['carboxymethylcellulose', 'cellulose gum'],
+    eNumbers: ['E433', 'E466'],
+    category: 'additive',
+    conditions: [
+      { condition: 'additives', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+    hidden: true,
+  },
+  {
+    id: 'gums',
+    name: 'guar gum',
+    synonyms: ['xanthan gum', 'locust bean gum', 'carob bean gum'],
+    eNumbers: ['E410', 'E412', 'E415'],
+    category: 'additive',
+    conditions: [
+      { condition: 'ibs-fodmap', severity: 'mild' },
+      { condition: 'additives', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'antioxidants',
+    name: 'bha',
+    synonyms: ['bht', 'tbhq', 'butylated hydroxyanisole'],
+    eNumbers: ['E319', 'E320', 'E321'],
+    category: 'additive',
+    conditions: [{ condition: 'additives', severity: 'moderate' }],
+    hidden: true,
+  },
+
+  // ===== ALLERGENS =====
+  {
+    id: 'peanut',
+    name: 'peanut',
+    synonyms: ['peanuts', 'groundnut', 'arachis oil', 'peanut butter'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'severe' }],
+  },
+  {
+    id: 'tree-nuts',
+    name: 'tree nuts',
+    synonyms: [
+      'almond',
+      'almonds',
+      'hazelnut',
+      'hazelnuts',
+      'walnut',
+      'walnuts',
+      'pecan',
+      'brazil nut',
+      'macadamia',
+      'cashew',
+      'cashews',
+      'pistachio',
+      'pistachios',
+    ],
+    category: 'allergen',
+    conditions: [
+      { condition: 'allergies', severity: 'severe' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'egg',
+    name: 'egg',
+    synonyms: ['eggs', 'egg white', 'egg yolk', 'albumin', 'ovalbumin'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'moderate' }],
+    excludes: FREE_FROM('egg'),
+  },
+  {
+    id: 'soy',
+    name: 'soy',
+    synonyms: ['soya', 'soybean', 'soybeans', 'soy protein', 'soy flour'],
+    category: 'allergen',
+    conditions: [
+      { condition: 'allergies', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+    excludes: ['soy sauce', 'soy lecithin', 'soya lecithin'],
+  },
+  {
+    id: 'lecithin',
+    name: 'soy lecithin',
+    synonyms: ['soya lecithin', 'lecithin'],
+    eNumbers: ['E322'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'mild' }],
+    hidden: true,
+  },
+  {
+    id: 'shellfish',
+    name: 'shellfish',
+    synonyms: [
+      'shrimp',
+      'prawn',
+      'prawns',
+      'crab',
+      'lobster',
+      'crustaceans',
+      'mussels',
+      'oysters',
+      'squid',
+    ],
+    category: 'allergen',
+    conditions: [
+      { condition: 'allergies', severity: 'severe' },
+      { condition: 'histamine', severity: 'moderate' },
+    ],
+  },
+  {
+    id: 'fish',
+    name: 'fish',
+    synonyms: ['cod', 'salmon', 'haddock', 'pollock'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'severe' }],
+    excludes: ['fish sauce'],
+  },
+  {
+    id: 'sesame',
+    name: 'sesame',
+    synonyms: ['sesame seeds', 'sesame oil', 'tahini'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'severe' }],
+  },
+  {
+    id: 'mustard',
+    name: 'mustard',
+    synonyms: ['mustard seed', 'mustard flour'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'moderate' }],
+  },
+  {
+    id: 'celery',
+    name: 'celery',
+    synonyms: ['celeriac', 'celery salt', 'celery seed'],
+    category: 'allergen',
+    conditions: [
+      { condition: 'allergies', severity: 'moderate' },
+      { condition: 'ibs-fodmap', severity: 'mild' },
+    ],
+  },
+  {
+    id: 'lupin',
+    name: 'lupin',
+    synonyms: ['lupine', 'lupin flour'],
+    category: 'allergen',
+    conditions: [{ condition: 'allergies', severity: 'severe' }],
+  },
+];
+
+const SEVERITY_RANK: Record<SeverityLevel, number> = {
+  mild: 1,
+  moderate: 2,
+  severe: 3,
+};
+
+const E_NUMBER_PATTERN = /\b(?:e|ins) ?(\d{3,4}[a-z]?)\b/g;
+
+/**
+ * Normalise free text for matching: lower case, strip accents and
+ * punctuation, collapse whitespace.
+ */
+export const normalizeIngredientText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Compare two severities, returning the more severe one
+ */
+export const maxSeverity = (
+  a: SeverityLevel,
+  b: SeverityLevel
+): SeverityLevel => (SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b);
+
+/**
+ * TriggerKnowledgeBase - Rule-based lookup of gut triggers by ingredient
+ * name, synonym or E-number
+ */
+export class TriggerKnowledgeBase {
+  private static instance: TriggerKnowledgeBase;
+  private readonly rules: TriggerRule[];
+  private readonly termIndex: Array<{
+    rule: TriggerRule;
+    term: string;
+    matchType: 'name' | 'synonym';
+  }> = [];
+  private readonly eNumberIndex: Map<string, TriggerRule> = new Map();
+
+  private constructor(rules: TriggerRule[] = TRIGGER_RULES) {
+    this.rules = rules;
+    this.buildIndexes();
+  }
+
+  static getInstance(): TriggerKnowledgeBase {
+    if (!TriggerKnowledgeBase.instance) {
+      TriggerKnowledgeBase.instance = new TriggerKnowledgeBase();
+    }
+    return TriggerKnowledgeBase.instance;
+  }
+
+  /**
+   * Get the knowledge base version
+   */
+  getVersion(): string {
+    return TRIGGER_KNOWLEDGE_BASE_VERSION;
+  }
+
+  /**
+   * Get all rules, optionally limited to one condition
+   */
+  getRules(condition?: GutCondition): TriggerRule[] {
+    if (!condition) {
+      return [...this.rules];
+    }
+    return this.rules.filter((rule) =>
+      rule.conditions.some((c) => c.condition === condition)
+    );
+  }
+
+  /**
+   * Look up a rule by id
+   */
+  getRule(id: string): TriggerRule | undefined {
+    return this.rules.find((rule) => rule.id === id);
+  }
+
+  /**
+   * Match a single ingredient against every rule. Returns at most one match
+   * per rule, preferring E-number matches over name matches. Given a list
+   * of conditions, only their triggers are kept, so an empty list matches
+   * nothing.
+   */
+  match(ingredient: string, conditions?: GutCondition[]): TriggerMatch[] {
+    const normalized = normalizeIngredientText(ingredient);
+    if (!normalized || conditions?.length === 0) {
+      return [];
+    }
+
+    const matches = new Map<string, TriggerMatch>();
+
+    for (const eNumber of this.extractENumbers(normalized)) {
+      const rule = this.eNumberIndex.get(eNumber);
+      if (rule) {
+        matches.set(
+          rule.id,
+          this.createMatch(rule, eNumber.toUpperCase(), 'e-number', 0.95)
+        );
+      }
+    }
+
+    const padded = ` ${normalized} `;
+    for (const { rule, term, matchType } of this.termIndex) {
+      if (matches.has(rule.id)) {
+        continue;
+      }
+      const searchable = this.applyExclusions(padded, rule);
+      if (this.containsTerm(searchable, term)) {
+        matches.set(
+          rule.id,
+          this.createMatch(
+            rule,
+            term,
+            matchType,
+            matchType === 'name' ? 0.9 : 0.85
+          )
+        );
+      }
+    }
+
+    const results = Array.from(matches.values());
+    if (!conditions) {
+      return results;
+    }
+
+    return results
+      .map((match) => ({
+        ...match,
+        triggers: match.triggers.filter((t) =>
+          conditions.includes(t.condition)
+        ),
+      }))
+      .filter((match) => match.triggers.length > 0);
+  }
+
+  /**
+   * Match a single ingredient against the user's own known triggers. Each
+   * personal term becomes a one-off rule in the 'personal' category.
+   */
+  matchPersonal(
+    ingredient: string,
+    personalTriggers: PersonalTrigger[]
+  ): TriggerMatch[] {
+    const normalized = normalizeIngredientText(ingredient);
+    if (!normalized) {
+      return [];
+    }
+
+    const padded = ` ${normalized} `;
+    const matches: TriggerMatch[] = [];
+    for (const { term, condition, severity } of personalTriggers) {
+      const normalizedTerm = normalizeIngredientText(term);
+      if (
+        normalizedTerm.length === 0 ||
+        !this.containsTerm(padded, normalizedTerm)
+      ) {
+        continue;
+      }
+      const rule: TriggerRule = {
+        id: `personal:${condition}:${normalizedTerm}`,
+        name: term.trim(),
+        synonyms: [],
+        category: 'personal',
+        conditions: [{ condition, severity }],
+      };
+      matches.push(this.createMatch(rule, normalizedTerm, 'personal', 1));
+    }
+    return matches;
+  }
+
+  /**
+   * Collapse a set of matches into one trigger per condition, keeping the
+   * highest severity.
+   */
+  collectTriggers(matches: TriggerMatch[]): HiddenTrigger[] {
+    const byCondition = new Map<GutCondition, HiddenTrigger>();
+    for (const match of matches) {
+      for (const trigger of match.triggers) {
+        const existing = byCondition.get(trigger.condition);
+        if (
+          !existing ||
+          SEVERITY_RANK[trigger.severity] > SEVERITY_RANK[existing.severity]
+        ) {
+          byCondition.set(trigger.condition, trigger);
+        }
+      }
+    }
+    return Array.from(byCondition.values());
+  }
+
+  private buildIndexes(): void {
+    for (const rule of this.rules) {
+      this.termIndex.push({
+        rule,
+        term: normalizeIngredientText(rule.name),
+        matchType: 'name',
+      });
+      for (const synonym of rule.synonyms) {
+        this.termIndex.push({
+          rule,
+          term: normalizeIngredientText(synonym),
+          matchType: 'synonym',
+        });
+      }
+      for (const eNumber of rule.eNumbers ?? []) {
+        this.eNumberIndex.set(eNumber.toLowerCase(), rule);
+      }
+    }
+
+    // Longer terms first so "soy sauce" wins over "soy"
+    this.termIndex.sort((a, b) => b.term.length - a.term.length);
+  }
+
+  private extractENumbers(normalized: string): string[] {
+    const found: string[] = [];
+    for (const match of normalized.matchAll(E_NUMBER_PATTERN)) {
+      if (match[1] !== undefined) {
+        found.push(`e${match[1]}`);
+      }
+    }
+    return found;
+  }
+
+  private applyExclusions(padded: string, rule: TriggerRule): string {
+    let searchable = padded;
+    for (const exclusion of rule.excludes ?? []) {
+      const term = ` ${normalizeIngredientText(exclusion)} `;
+      while (searchable.includes(term)) {
+        searchable = searchable.replace(term, ' ');
+      }
+    }
+    return searchable;
+  }
+
+  private containsTerm(padded: string, term: string): boolean {
+    return (
+      padded.includes(` ${term} `) ||
+      padded.includes(` ${term}s `) ||
+      padded.includes(` ${term}es `)
+    );
+  }
+
+  private createMatch(
+    rule: TriggerRule,
+    matchedTerm: string,
+    matchType: TriggerMatch['matchType'],
+    confidence: number
+  ): TriggerMatch {
+    return {
+      rule,
+      matchedTerm,
+      matchType,
+      confidence,
+      triggers: rule.conditions.map(({ condition, severity }) => ({
+        trigger: rule.name,
+        condition,
+        severity,
+      })),
+    };
+  }
+}
+
+// Export singleton instance
+export const triggerKnowledgeBase = TriggerKnowledgeBase.getInstance();
+export default triggerKnowledgeBase;